@@ -2,16 +2,20 @@ export const runtime = 'nodejs'
 
 import { z } from 'zod'
 import { runLLM } from '../../../lib/orchestrator'
+import { ProviderInputSchema } from '../../../lib/orchestrator/providers'
+import { SceneSyncStaleError } from '../../../lib/orchestrator/sceneGraph'
+import { checkpointBeforeApply } from '../../../lib/checkpoints/auto'
 import { saveProposals } from '../../../lib/store/proposals'
+import { RunCancelledError, finishRun, startRun } from '../../../lib/store/runs'
+import { BudgetExceededError } from '../../../lib/store/usage'
 
-const ProviderSchema = z.object({
-  name: z.enum(['openrouter', 'gemini', 'bedrock', 'nvidia']),
-  apiKey: z.string().min(1),
-  baseUrl: z.string().url().optional(),
-  model: z.string().optional(),
-  region: z.string().optional(),
-  deploymentId: z.string().min(1).optional(),
-}).optional()
+const SceneNodeSchema = z.object({
+  path: z.string(),
+  className: z.string(),
+  name: z.string(),
+  parentPath: z.string().optional(),
+  props: z.record(z.any()).optional(),
+})
 
 const ChatSchema = z.object({
   projectId: z.string(),
@@ -21,18 +25,18 @@ const ChatSchema = z.object({
     activeScript: z.object({ path: z.string(), text: z.string() }).nullable().optional(),
     selection: z.array(z.object({ className: z.string(), path: z.string() })).optional(),
     openDocs: z.array(z.object({ path: z.string() })).optional(),
+    // Full snapshot (nodes) or a delta against baseVersion; a stale baseVersion gets 409 + sceneSync.status 'stale'
     scene: z
       .object({
-        nodes: z
-          .array(
-            z.object({
-              path: z.string(),
-              className: z.string(),
-              name: z.string(),
-              parentPath: z.string().optional(),
-              props: z.record(z.any()).optional(),
-            }),
-          )
+        version: z.string().optional(),
+        nodes: z.array(SceneNodeSchema).optional(),
+        baseVersion: z.string().optional(),
+        delta: z
+          .object({
+            added: z.array(SceneNodeSchema).optional(),
+            changed: z.array(SceneNodeSchema).optional(),
+            removed: z.array(z.string()).optional(),
+          })
           .optional(),
       })
       .optional(),
@@ -40,7 +44,7 @@ const ChatSchema = z.object({
       .array(z.object({ file: z.string(), line: z.number().int().min(1), name: z.string().min(1) }))
       .optional(),
   }),
-  provider: ProviderSchema,
+  provider: ProviderInputSchema.optional(),
   modelOverride: z.string().min(1).optional(),
   autoApply: z.boolean().optional(),
   workflowId: z.string().optional(),
@@ -48,6 +52,8 @@ const ChatSchema = z.object({
   mode: z.enum(['ask', 'agent']).optional(),
   maxTurns: z.number().int().positive().max(16).optional(),
   enableFallbacks: z.boolean().optional(),
+  // Provider response cache (see lib/orchestrator/providers/cache.ts); 'replay' runs offline from recorded fixtures
+  cacheMode: z.enum(['off', 'auto', 'record', 'replay']).optional(),
 })
 
 export async function POST(req: Request) {
@@ -61,7 +67,7 @@ export async function POST(req: Request) {
     )
     console.log('[chat] prompt:', input.message)
     // Optionally bootstrap a workflow
-    const { createWorkflow, getWorkflow, appendStep } = await import('../../../lib/store/workflows')
+    const { createWorkflow, appendStep, beginWorkflowRun, endWorkflowRun, syncPlanSteps } = await import('../../../lib/store/workflows')
     const { pushChunk } = await import('../../../lib/store/stream')
 
     let workflowId = input.workflowId
@@ -71,23 +77,63 @@ export async function POST(req: Request) {
       pushChunk(workflowId, 'planning: started')
     }
 
-    const { proposals, taskState, tokenTotals } = await runLLM(input as any)
+    // Registered so POST /api/workflows/[id]/cancel can abort the in-flight provider call
+    const signal = startRun(workflowId)
+    // A new message reopens a paused, completed or failed workflow
+    beginWorkflowRun(workflowId)
+    let result: Awaited<ReturnType<typeof runLLM>>
+    try {
+      result = await runLLM({ ...(input as any), workflowId, signal })
+    } catch (err) {
+      if (signal.aborted || err instanceof RunCancelledError) {
+        endWorkflowRun(workflowId, {})
+        console.log(`[chat] cancelled workflowId=${workflowId}`)
+        return Response.json({ workflowId, cancelled: true, error: 'Run cancelled' }, { status: 409 })
+      }
+      if (err instanceof SceneSyncStaleError) {
+        endWorkflowRun(workflowId, { status: 'executing' })
+        console.warn(`[chat] scene.stale workflowId=${workflowId} base=${err.baseVersion ?? '-'} current=${err.currentVersion ?? '-'}`)
+        return Response.json(
+          { workflowId, error: err.message, sceneSync: { status: 'stale', version: err.currentVersion ?? null } },
+          { status: 409 },
+        )
+      }
+      if (err instanceof BudgetExceededError) {
+        // Resumable once the budget is raised
+        endWorkflowRun(workflowId, { status: 'paused', reason: 'budget exceeded' })
+        console.warn(`[chat] budget.exceeded workflowId=${workflowId} scope=${err.scope}`)
+        return Response.json(
+          { workflowId, error: err.message, budget: { scope: err.scope, spentUsd: err.spentUsd, limitUsd: err.limitUsd } },
+          { status: 402 },
+        )
+      }
+      endWorkflowRun(workflowId, { status: 'failed', reason: (err as Error)?.message })
+      throw err
+    } finally {
+      finishRun(workflowId, signal)
+    }
+    const { proposals, taskState, tokenTotals } = result
     console.log(`[chat] proposals.count=${proposals.length}`)
     const isComplete = proposals.some((p: any) => p && p.type === 'completion')
 
     // Persist proposals for auditing and later apply acknowledgement
     try {
       const stored = saveProposals({ projectId: input.projectId, workflowId, message: input.message, proposals })
-      // Add steps to workflow for each proposal
+      // Plan steps first so each proposal step depends on the plan step it belongs to
+      syncPlanSteps(workflowId, taskState.plan)
       for (const p of stored) {
         appendStep(workflowId!, { id: p.id, proposalId: p.id, status: 'pending' })
       }
+      // Before the response hands the proposals to the plugin
+      await checkpointBeforeApply(workflowId, stored)
       console.log(`[chat] proposals.stored=${stored.length} workflowId=${workflowId}`)
     } catch (e) {
       console.warn('[chat] persist.warn non-fatal', e)
     }
+    const workflow = endWorkflowRun(workflowId, { plan: taskState.plan, isComplete })
 
-    return Response.json({ workflowId, proposals, taskState, tokenTotals, isComplete })
+    const sceneSync = { status: 'ok', version: taskState.scene?.version ?? null }
+    return Response.json({ workflowId, workflowStatus: workflow?.status, proposals, taskState, tokenTotals, isComplete, sceneSync })
   } catch (err: any) {
     const msg = err?.message || 'Unknown error'
     const status = /invalid/i.test(msg) ? 400 : 500
@@ -1,10 +1,16 @@
 export const runtime = 'nodejs'
 
-import { loadCheckpoint, restoreCheckpoint, listCheckpoints } from '../../../../../lib/checkpoints/manager'
+import { loadCheckpoint, loadCheckpointStudioState, restoreCheckpoint, listCheckpoints } from '../../../../../lib/checkpoints/manager'
 import type { CheckpointManifest } from '../../../../../lib/checkpoints/manager'
-import { updateTaskState } from '../../../../../lib/orchestrator/taskState'
+import type { Proposal } from '../../../../../lib/orchestrator'
+import { buildRollbackProposals } from '../../../../../lib/orchestrator/rollback'
+import { getTaskState, updateTaskState } from '../../../../../lib/orchestrator/taskState'
+import { saveProposals } from '../../../../../lib/store/proposals'
+import { appendStep, getWorkflow } from '../../../../../lib/store/workflows'
 import { pushChunk } from '../../../../../lib/store/stream'
 
+const MODES = new Set(['conversation', 'workspace', 'both', 'studio', 'all'])
+
 export async function POST(req: Request, ctx: { params: { id: string } }) {
   const checkpointId = ctx?.params?.id
   if (!checkpointId) {
@@ -17,7 +23,7 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
   let manifestBefore: CheckpointManifest | undefined
   try {
     const body = await req.json().catch(() => ({}))
-    const mode = body.mode === 'conversation' || body.mode === 'workspace' ? body.mode : 'both'
+    const mode = MODES.has(body.mode) ? body.mode : 'both'
     manifestBefore = await loadCheckpoint(checkpointId)
     if (!manifestBefore) {
       return new Response(JSON.stringify({ error: 'Checkpoint not found' }), {
@@ -26,6 +32,12 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
       })
     }
     pushChunk(manifestBefore.workflowId, `checkpoint.restore start id=${checkpointId} mode=${mode}`)
+    // Diff against what Studio holds now, before a conversation restore swaps the scene out
+    let proposals: Proposal[] = []
+    if (mode === 'studio' || mode === 'all') {
+      const target = await loadCheckpointStudioState(manifestBefore)
+      proposals = buildRollbackProposals(getTaskState(manifestBefore.workflowId), target, `checkpoint ${checkpointId}`)
+    }
     const manifest = await restoreCheckpoint({ checkpointId, mode })
     if (!manifest) {
       pushChunk(manifestBefore.workflowId, 'checkpoint.restore error not_found')
@@ -47,8 +59,21 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
       }
       state.checkpoints.count = count
     })
+    const workflow = getWorkflow(manifest.workflowId)
+    if (proposals.length > 0 && workflow) {
+      saveProposals({
+        projectId: workflow.projectId,
+        workflowId: manifest.workflowId,
+        message: `restore ${manifest.id}`,
+        proposals,
+      })
+      for (const p of proposals) appendStep(manifest.workflowId, { id: p.id, proposalId: p.id, status: 'pending' })
+    }
+    if (mode === 'studio' || mode === 'all') {
+      pushChunk(manifest.workflowId, `checkpoint.rollback proposals=${proposals.length}`)
+    }
     pushChunk(manifest.workflowId, `checkpoint.restore ok id=${manifest.id} mode=${mode}`)
-    return Response.json({ checkpoint: manifest, mode })
+    return Response.json({ checkpoint: manifest, mode, proposals })
   } catch (err: any) {
     const streamKey = manifestBefore?.workflowId || (typeof checkpointId === 'string' ? checkpointId : 'checkpoint')
     pushChunk(streamKey, `checkpoint.restore error ${err?.message || 'failed'}`)
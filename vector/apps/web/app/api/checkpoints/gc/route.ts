@@ -0,0 +1,16 @@
+export const runtime = 'nodejs'
+
+import { collectCheckpointGarbage } from '../../../../lib/checkpoints/manager'
+
+// Removes blobs that no checkpoint manifest references (also runs after old checkpoints are pruned)
+export async function POST() {
+  try {
+    const result = await collectCheckpointGarbage()
+    return Response.json(result)
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: err?.message || 'Checkpoint GC failed' }), {
+      status: 500,
+      headers: { 'content-type': 'application/json' },
+    })
+  }
+}
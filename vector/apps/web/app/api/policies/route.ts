@@ -0,0 +1,46 @@
+export const runtime = 'nodejs'
+
+import { z } from 'zod'
+import { AutoApprovalPolicySchema } from '../../../lib/orchestrator/autoApprove'
+import { deletePolicy, getPolicy, listPolicies, setPolicy } from '../../../lib/store/policies'
+
+const PutSchema = z.object({
+  projectId: z.string().trim().min(1),
+  policy: AutoApprovalPolicySchema,
+})
+
+// Auto-approval policy per project; omit projectId on GET to list all
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const projectId = searchParams.get('projectId')?.trim()
+  if (!projectId) return Response.json({ policies: listPolicies() })
+  const stored = getPolicy(projectId)
+  return Response.json({ projectId, policy: stored?.policy ?? null, updatedAt: stored?.updatedAt ?? null })
+}
+
+export async function PUT(req: Request) {
+  const parsed = PutSchema.safeParse(await req.json().catch(() => ({})))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+    return Response.json({ error: 'Invalid policy', issues }, { status: 400 })
+  }
+  const names = parsed.data.policy.rules.map((rule) => rule.name)
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+  if (duplicate) {
+    return Response.json({ error: 'Invalid policy', issues: [`rules: duplicate rule name "${duplicate}"`] }, { status: 400 })
+  }
+  const stored = setPolicy(parsed.data.projectId, parsed.data.policy)
+  console.log(`[policies] set project=${stored.projectId} rules=${stored.policy.rules.length} default=${stored.policy.default}`)
+  return Response.json(stored)
+}
+
+export async function DELETE(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const projectId = searchParams.get('projectId')?.trim()
+  if (!projectId) {
+    return new Response(JSON.stringify({ error: 'projectId required' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const deleted = deletePolicy(projectId)
+  console.log(`[policies] delete project=${projectId} existed=${deleted}`)
+  return Response.json({ projectId, deleted })
+}
@@ -1,11 +1,11 @@
 export const runtime = 'nodejs'
 
-import { markApplied, getProposal } from '../../../../../lib/store/proposals'
+import { markApplied, markFailed, getProposal, ProposalStateError } from '../../../../../lib/store/proposals'
 import type { StoredProposal } from '../../../../../lib/store/proposals'
 import { updateStep } from '../../../../../lib/store/workflows'
-import { getTaskState, updateTaskState } from '../../../../../lib/orchestrator/taskState'
+import { updateTaskState } from '../../../../../lib/orchestrator/taskState'
+import type { TaskState } from '../../../../../lib/orchestrator/taskState'
 import { applyObjectOpResult } from '../../../../../lib/orchestrator/sceneGraph'
-import { createCheckpoint, listCheckpoints } from '../../../../../lib/checkpoints/manager'
 import { pushChunk } from '../../../../../lib/store/stream'
 import { applyRangeEdits } from '../../../../../lib/diff/rangeEdits'
 import { diff3Merge } from '../../../../../lib/diff/diff3'
@@ -28,11 +28,21 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
     return handleMerge(id, body, before)
   }
 
-  const after = markApplied(id, body)
+  let after
   try {
-    if (after?.workflowId) {
+    after = body?.ok === false ? markFailed(id, eventData(body)) : markApplied(id, eventData(body))
+  } catch (err) {
+    if (err instanceof ProposalStateError) {
+      console.warn(`[proposals.apply] id=${id} ignored report for ${err.status} proposal`)
+      return Response.json({ error: err.message, status: err.status }, { status: 409 })
+    }
+    throw err
+  }
+  try {
+    if (after?.workflowId && after.status === 'failed') {
+      updateStep(after.workflowId, id, { status: 'failed', error: typeof body?.error === 'string' ? body.error : undefined })
+    } else if (after?.workflowId) {
       updateStep(after.workflowId, id, { status: 'completed' })
-      maybeQueueCheckpoint(after.workflowId, after)
     }
   } catch {}
   // If an asset operation failed, record a hint to fallback to manual creation
@@ -52,7 +62,12 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
     console.error('Failed to record asset operation fallback hint', e)
   }
   const op = typeof body?.op === 'string' ? body.op : undefined
-  if (op === 'create_instance') {
+  // bulk_create proposals report every op's result in one request
+  const results: any[] = op === 'bulk_create' && Array.isArray(body.results) ? body.results : [body]
+  if (op === 'bulk_create') {
+    const failed = results.filter((r) => r?.ok === false).length
+    console.log(`[proposals.apply] bulk_create ops=${results.length} failed=${failed}`)
+  } else if (op === 'create_instance') {
     const className = typeof body.className === 'string' ? body.className : 'Instance'
     const parentPath = typeof body.parentPath === 'string' ? body.parentPath : 'unknown'
     const instancePath = typeof body.path === 'string' ? body.path : undefined
@@ -71,12 +86,41 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
   )
   if (after?.workflowId) {
     updateTaskState(after.workflowId, (state) => {
-      applyObjectOpResult(state, body)
+      for (const result of results) {
+        // A failed op inside a bulk report created nothing
+        if (op === 'bulk_create' && result?.ok === false) continue
+        applyObjectOpResult(state, result)
+        if (after.status === 'applied' || result?.ok === true) recordAppliedSources(state, after, result)
+      }
     })
   }
   return Response.json({ ok: true, id, before, after })
 }
 
+// Stored events say what happened; props (whole script sources) and per-op bulk results stay in the request
+function eventData(body: any) {
+  if (!body || typeof body !== 'object') return body
+  const { props, results, ...rest } = body
+  if (!Array.isArray(results)) return rest
+  return { ...rest, ops: results.length, failed: results.filter((r: any) => r?.ok === false).length }
+}
+
+// Script sources follow what Studio reports applied (checkpoint rollbacks are only proposed)
+function recordAppliedSources(state: TaskState, stored: StoredProposal, body: any) {
+  const sources: Record<string, string> = {}
+  const proposal = stored.proposal as EditProposal | undefined
+  const op = typeof body?.op === 'string' ? body.op : undefined
+  if (proposal?.type === 'edit' && !op) {
+    const files: EditFileChange[] = proposal.files?.length ? proposal.files : proposal.path && proposal.diff ? [{ path: proposal.path, diff: proposal.diff, safety: proposal.safety }] : []
+    for (const file of files) {
+      if (typeof file.safety?.baseText === 'string') sources[file.path] = applyRangeEdits(file.safety.baseText, file.diff.edits || [])
+    }
+  } else if ((op === 'set_properties' || op === 'create_instance') && typeof body.path === 'string' && typeof body.props?.Source === 'string') {
+    sources[body.path] = body.props.Source
+  }
+  if (Object.keys(sources).length > 0) state.scriptSources = { ...(state.scriptSources || {}), ...sources }
+}
+
 async function handleMerge(id: string, body: any, stored?: ReturnType<typeof getProposal>) {
   const proposal = stored?.proposal as EditProposal | undefined
   if (!proposal || proposal.type !== 'edit') {
@@ -162,54 +206,3 @@ async function handleMerge(id: string, body: any, stored?: ReturnType<typeof get
 
   return Response.json({ status: 'merged', files: results })
 }
-
-const lastCheckpointByMessage = new Map<string, number>()
-let checkpointQueue = Promise.resolve()
-
-function maybeQueueCheckpoint(workflowId: string, proposal?: StoredProposal) {
-  if (!workflowId || !proposal) return
-  if (!proposal.createdAt) return
-  const last = lastCheckpointByMessage.get(workflowId)
-  if (last && last === proposal.createdAt) return
-  lastCheckpointByMessage.set(workflowId, proposal.createdAt)
-  checkpointQueue = checkpointQueue
-    .then(() => autoCheckpoint(workflowId, proposal))
-    .catch((err) => {
-      lastCheckpointByMessage.delete(workflowId)
-      console.warn('[checkpoints] auto queue failed', err)
-    })
-}
-
-async function autoCheckpoint(workflowId: string, proposal: StoredProposal) {
-  try {
-    const messageCreatedAt = proposal.createdAt
-    pushChunk(workflowId, `checkpoint.auto start proposal=${proposal.id} messageTs=${messageCreatedAt}`)
-    const taskState = getTaskState(workflowId)
-    const summary = await createCheckpoint({
-      workflowId,
-      taskState,
-      note: 'auto',
-      proposalId: proposal.id,
-      includeWorkspace: true,
-      messageCreatedAt,
-    })
-    const perWorkflow = await listCheckpoints(workflowId)
-    const count = perWorkflow.filter((c) => c.workflowId === workflowId).length
-    updateTaskState(workflowId, (state) => {
-      if (!state.checkpoints) state.checkpoints = { count: 0 }
-      state.lastCheckpointId = summary.id
-      state.checkpoints.lastId = summary.id
-      state.checkpoints.lastNote = 'auto'
-      state.checkpoints.lastCreatedAt = summary.createdAt
-      if (typeof summary.messageCreatedAt === 'number') {
-        state.checkpoints.lastMessageCreatedAt = summary.messageCreatedAt
-      }
-      state.checkpoints.count = count
-    })
-    pushChunk(workflowId, `checkpoint.auto ok id=${summary.id}`)
-  } catch (err) {
-    lastCheckpointByMessage.delete(workflowId)
-    pushChunk(workflowId, `checkpoint.auto error ${(err as Error)?.message || 'failed'}`)
-    console.warn('[checkpoints] auto creation failed', err)
-  }
-}
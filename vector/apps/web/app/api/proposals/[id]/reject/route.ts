@@ -0,0 +1,47 @@
+export const runtime = 'nodejs'
+
+import { z } from 'zod'
+import { getProposal, markRejected, ProposalStateError } from '../../../../../lib/store/proposals'
+import { updateStep } from '../../../../../lib/store/workflows'
+import { updateTaskState } from '../../../../../lib/orchestrator/taskState'
+import { pushChunk } from '../../../../../lib/store/stream'
+
+const RejectSchema = z.object({
+  reason: z.string().trim().min(1).max(2000).optional(),
+})
+
+// The reason goes into the workflow history so the next turn (or /revise) knows why
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const id = ctx?.params?.id
+  if (!id) {
+    return new Response(JSON.stringify({ error: 'Missing proposal id' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const parsed = RejectSchema.safeParse(await req.json().catch(() => ({})))
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: 'Invalid reject payload' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const before = getProposal(id)
+  if (!before) {
+    return new Response(JSON.stringify({ error: 'Not found' }), { status: 404, headers: { 'content-type': 'application/json' } })
+  }
+  const reason = parsed.data.reason || 'No reason given'
+  let after
+  try {
+    after = markRejected(id, reason)
+  } catch (err) {
+    if (err instanceof ProposalStateError) {
+      return Response.json({ error: err.message, status: err.status }, { status: 409 })
+    }
+    throw err
+  }
+  const workflowId = after?.workflowId
+  if (workflowId) {
+    updateStep(workflowId, id, { status: 'failed', error: `rejected: ${reason}` })
+    updateTaskState(workflowId, (state) => {
+      state.history.push({ role: 'user', content: `Rejected proposal ${id} (${before.proposal?.type || 'unknown'}). Reason: ${reason}`, at: Date.now() })
+    })
+    pushChunk(workflowId, `proposal.rejected id=${id}`)
+  }
+  console.log(`[proposals.reject] id=${id} workflowId=${workflowId || 'n/a'} reasonLen=${reason.length}`)
+  return Response.json({ ok: true, id, proposal: after })
+}
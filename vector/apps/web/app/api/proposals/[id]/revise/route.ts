@@ -0,0 +1,115 @@
+export const runtime = 'nodejs'
+
+import { z } from 'zod'
+import { runLLM } from '../../../../../lib/orchestrator'
+import { ProviderInputSchema } from '../../../../../lib/orchestrator/providers'
+import { buildRevisionMessage } from '../../../../../lib/orchestrator/revisions'
+import { checkpointBeforeApply } from '../../../../../lib/checkpoints/auto'
+import { getProposal, markRejected, markSuperseded, saveProposals, ProposalStateError } from '../../../../../lib/store/proposals'
+import { appendStep, beginWorkflowRun, endWorkflowRun, syncPlanSteps, updateStep } from '../../../../../lib/store/workflows'
+import { RunCancelledError, finishRun, startRun } from '../../../../../lib/store/runs'
+import { BudgetExceededError } from '../../../../../lib/store/usage'
+import { pushChunk } from '../../../../../lib/store/stream'
+
+const ReviseSchema = z.object({
+  // Defaults to the reason recorded by /reject; required when the proposal is still pending
+  feedback: z.string().trim().min(1).max(2000).optional(),
+  context: z
+    .object({
+      activeScript: z.object({ path: z.string(), text: z.string() }).nullable().optional(),
+      selection: z.array(z.object({ className: z.string(), path: z.string() })).optional(),
+    })
+    .optional(),
+  provider: ProviderInputSchema.optional(),
+  modelOverride: z.string().min(1).optional(),
+  autoApply: z.boolean().optional(),
+  maxTurns: z.number().int().positive().max(16).optional(),
+})
+
+// Re-runs the agent on a rejected (or pending, which is rejected first) proposal; the replacements
+// are stored with revisionOf and the original becomes superseded.
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const id = ctx?.params?.id
+  if (!id) {
+    return new Response(JSON.stringify({ error: 'Missing proposal id' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const parsed = ReviseSchema.safeParse(await req.json().catch(() => ({})))
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: 'Invalid revise payload' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const input = parsed.data
+  let stored = getProposal(id)
+  if (!stored) {
+    return new Response(JSON.stringify({ error: 'Not found' }), { status: 404, headers: { 'content-type': 'application/json' } })
+  }
+  const workflowId = stored.workflowId
+  if (!workflowId) {
+    return new Response(JSON.stringify({ error: 'Proposal has no workflow to revise in' }), { status: 422, headers: { 'content-type': 'application/json' } })
+  }
+  const feedback = input.feedback || stored.rejectionReason
+  if (!feedback) {
+    return new Response(JSON.stringify({ error: 'feedback required' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  try {
+    if (stored.status !== 'rejected') {
+      stored = markRejected(id, feedback)!
+      updateStep(workflowId, id, { status: 'failed', error: `rejected: ${feedback}` })
+    }
+  } catch (err) {
+    if (err instanceof ProposalStateError) {
+      return Response.json({ error: err.message, status: err.status }, { status: 409 })
+    }
+    throw err
+  }
+
+  pushChunk(workflowId, `proposal.revise id=${id}`)
+  const signal = startRun(workflowId)
+  beginWorkflowRun(workflowId)
+  let result: Awaited<ReturnType<typeof runLLM>>
+  try {
+    result = await runLLM({
+      projectId: stored.projectId,
+      workflowId,
+      message: buildRevisionMessage(stored.proposal, feedback),
+      context: input.context || {},
+      provider: input.provider,
+      modelOverride: input.modelOverride,
+      autoApply: input.autoApply,
+      maxTurns: input.maxTurns,
+      revisionOf: id,
+      signal,
+    })
+  } catch (err) {
+    if (signal.aborted || err instanceof RunCancelledError) {
+      endWorkflowRun(workflowId, {})
+      return Response.json({ workflowId, cancelled: true, error: 'Run cancelled' }, { status: 409 })
+    }
+    if (err instanceof BudgetExceededError) {
+      endWorkflowRun(workflowId, { status: 'paused', reason: 'budget exceeded' })
+      return Response.json(
+        { workflowId, error: err.message, budget: { scope: err.scope, spentUsd: err.spentUsd, limitUsd: err.limitUsd } },
+        { status: 402 },
+      )
+    }
+    const msg = (err as Error)?.message || 'Unknown error'
+    endWorkflowRun(workflowId, { status: 'failed', reason: msg })
+    console.error('[proposals.revise] error', msg)
+    return new Response(JSON.stringify({ error: msg }), { status: 500, headers: { 'content-type': 'application/json' } })
+  } finally {
+    finishRun(workflowId, signal)
+  }
+
+  const { proposals, taskState, tokenTotals } = result
+  syncPlanSteps(workflowId, taskState.plan)
+  const replacements = saveProposals({ projectId: stored.projectId, workflowId, message: `revise ${id}`, proposals, revisionOf: id })
+  for (const p of replacements) {
+    appendStep(workflowId, { id: p.id, proposalId: p.id, status: 'pending' })
+  }
+  await checkpointBeforeApply(workflowId, replacements)
+  const revisionIds = replacements.filter((p) => p.proposal?.type !== 'completion').map((p) => p.id)
+  // A run that only produced a completion leaves the original rejected
+  const original = revisionIds.length > 0 ? markSuperseded(id, revisionIds) : getProposal(id)
+  endWorkflowRun(workflowId, { plan: taskState.plan, isComplete: proposals.some((p) => p.type === 'completion') })
+  console.log(`[proposals.revise] id=${id} workflowId=${workflowId} revisions=${revisionIds.length}`)
+  return Response.json({ workflowId, original, proposals, taskState, tokenTotals })
+}
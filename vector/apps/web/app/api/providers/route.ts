@@ -0,0 +1,11 @@
+export const runtime = 'nodejs'
+
+import { describeProviders, getProvider } from '../../../lib/orchestrator/providers'
+
+// Registered providers for the plugin model picker (no secrets: only whether each one is configured/reachable)
+export async function GET() {
+  const providers = await describeProviders()
+  const preferred = getProvider(process.env.VECTOR_DEFAULT_PROVIDER)?.name
+  const defaultProvider = providers.find((p) => p.configured && p.name === preferred)?.name || providers.find((p) => p.configured)?.name || null
+  return Response.json({ providers, defaultProvider })
+}
@@ -0,0 +1,20 @@
+export const runtime = 'nodejs'
+
+import { getBudget, getProjectUsage, listProjectUsage } from '../../../lib/store/usage'
+
+// Spend per project (with per-workflow and per-model breakdowns); omit projectId to list all projects
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const projectId = searchParams.get('projectId')?.trim()
+  if (!projectId) {
+    const projects = listProjectUsage().map((usage) => ({ ...usage, budget: getBudget(usage.projectId) }))
+    return Response.json({ projects })
+  }
+  const usage = getProjectUsage(projectId)
+  if (!usage) {
+    return Response.json({ projectId, usage: null, budget: getBudget(projectId) })
+  }
+  const budget = getBudget(projectId)
+  const remainingUsd = budget.projectUsd !== undefined ? Math.max(0, budget.projectUsd - usage.costUsd) : undefined
+  return Response.json({ projectId, usage, budget: { ...budget, remainingUsd } })
+}
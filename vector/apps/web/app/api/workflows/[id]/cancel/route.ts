@@ -0,0 +1,42 @@
+export const runtime = 'nodejs'
+
+import { z } from 'zod'
+import { getWorkflow, transitionWorkflow, WorkflowStateError } from '../../../../../lib/store/workflows'
+import { cancelRun } from '../../../../../lib/store/runs'
+import { pushChunk } from '../../../../../lib/store/stream'
+
+const CancelSchema = z.object({
+  // 'paused' keeps the workflow resumable; 'failed' ends it
+  status: z.enum(['failed', 'paused']).optional(),
+  reason: z.string().max(200).optional(),
+})
+
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const id = ctx?.params?.id
+  if (!id) {
+    return new Response(JSON.stringify({ error: 'Missing workflow id' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const parsed = CancelSchema.safeParse(await req.json().catch(() => ({})))
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: 'Invalid cancel payload' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const wf = getWorkflow(id)
+  if (!wf) {
+    return new Response(JSON.stringify({ error: 'Not found' }), { status: 404, headers: { 'content-type': 'application/json' } })
+  }
+
+  const status = parsed.data.status || 'failed'
+  const reason = parsed.data.reason?.trim() || 'user'
+  try {
+    transitionWorkflow(id, status, reason)
+  } catch (err) {
+    if (err instanceof WorkflowStateError) {
+      return Response.json({ error: err.message, status: err.from }, { status: 409 })
+    }
+    throw err
+  }
+  const aborted = cancelRun(id, reason)
+  pushChunk(id, `cancelled status=${status} reason=${reason}`)
+  console.log(`[workflows] cancel id=${id} status=${status} aborted=${aborted}`)
+  return Response.json({ workflow: getWorkflow(id), aborted })
+}
@@ -0,0 +1,38 @@
+export const runtime = 'nodejs'
+
+import { z } from 'zod'
+import { getWorkflow, transitionWorkflow, WorkflowStateError } from '../../../../../lib/store/workflows'
+import { cancelRun } from '../../../../../lib/store/runs'
+import { pushChunk } from '../../../../../lib/store/stream'
+
+const PauseSchema = z.object({
+  reason: z.string().max(200).optional(),
+})
+
+// Stops any in-flight run and parks the workflow until POST /resume (or a new chat message)
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const id = ctx?.params?.id
+  if (!id) {
+    return new Response(JSON.stringify({ error: 'Missing workflow id' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const parsed = PauseSchema.safeParse(await req.json().catch(() => ({})))
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: 'Invalid pause payload' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  if (!getWorkflow(id)) {
+    return new Response(JSON.stringify({ error: 'Not found' }), { status: 404, headers: { 'content-type': 'application/json' } })
+  }
+  const reason = parsed.data.reason?.trim() || 'user'
+  try {
+    transitionWorkflow(id, 'paused', reason)
+  } catch (err) {
+    if (err instanceof WorkflowStateError) {
+      return Response.json({ error: err.message, status: err.from }, { status: 409 })
+    }
+    throw err
+  }
+  const aborted = cancelRun(id, `paused: ${reason}`)
+  pushChunk(id, `workflow.paused reason=${reason}`)
+  console.log(`[workflows] pause id=${id} aborted=${aborted}`)
+  return Response.json({ workflow: getWorkflow(id), aborted })
+}
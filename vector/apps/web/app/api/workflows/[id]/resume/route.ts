@@ -0,0 +1,126 @@
+export const runtime = 'nodejs'
+
+import { z } from 'zod'
+import { runLLM } from '../../../../../lib/orchestrator'
+import { ProviderInputSchema } from '../../../../../lib/orchestrator/providers'
+import { getTaskState } from '../../../../../lib/orchestrator/taskState'
+import { checkpointBeforeApply } from '../../../../../lib/checkpoints/auto'
+import { saveProposals } from '../../../../../lib/store/proposals'
+import {
+  appendStep,
+  beginWorkflowRun,
+  endWorkflowRun,
+  getWorkflow,
+  nextReadyStep,
+  syncPlanSteps,
+  transitionWorkflow,
+} from '../../../../../lib/store/workflows'
+import { RunCancelledError, finishRun, isRunActive, startRun } from '../../../../../lib/store/runs'
+import { BudgetExceededError } from '../../../../../lib/store/usage'
+import { pushChunk } from '../../../../../lib/store/stream'
+
+const ResumeSchema = z.object({
+  context: z
+    .object({
+      activeScript: z.object({ path: z.string(), text: z.string() }).nullable().optional(),
+      selection: z.array(z.object({ className: z.string(), path: z.string() })).optional(),
+    })
+    .optional(),
+  provider: ProviderInputSchema.optional(),
+  modelOverride: z.string().min(1).optional(),
+  autoApply: z.boolean().optional(),
+  maxTurns: z.number().int().positive().max(16).optional(),
+})
+
+// Continues a paused workflow from the next incomplete plan step. The plan comes from the persisted
+// TaskState, so this works after a server restart (interrupted runs are loaded as paused).
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const id = ctx?.params?.id
+  if (!id) {
+    return new Response(JSON.stringify({ error: 'Missing workflow id' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const parsed = ResumeSchema.safeParse(await req.json().catch(() => ({})))
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: 'Invalid resume payload' }), { status: 400, headers: { 'content-type': 'application/json' } })
+  }
+  const input = parsed.data
+  const wf = getWorkflow(id)
+  if (!wf) {
+    return new Response(JSON.stringify({ error: 'Not found' }), { status: 404, headers: { 'content-type': 'application/json' } })
+  }
+  if (wf.status !== 'paused' || isRunActive(id)) {
+    return Response.json({ error: `Workflow ${id} is not paused`, status: wf.status }, { status: 409 })
+  }
+
+  const plan = getTaskState(id).plan
+  syncPlanSteps(id, plan)
+  const planSteps = wf.steps.filter((step) => step.kind === 'plan')
+  const next = nextReadyStep({ ...wf, steps: planSteps })
+  if (planSteps.length > 0 && !next) {
+    transitionWorkflow(id, 'executing')
+    const workflow = endWorkflowRun(id, { plan })
+    return Response.json({ workflow, resumed: false })
+  }
+  const done = planSteps.filter((step) => step.status === 'completed').map((step) => step.title)
+  const message = next
+    ? `Resume the paused workflow at plan step ${planSteps.indexOf(next) + 1} of ${planSteps.length}: "${next.title}". ` +
+      (done.length ? `Already done: ${done.map((title) => `"${title}"`).join(', ')}. ` : '') +
+      'Do not redo completed steps; call update_plan as steps finish.'
+    : 'Resume the paused workflow where it stopped.'
+
+  pushChunk(id, `workflow.resume step=${next?.id || 'none'}${wf.pausedReason ? ` pausedReason=${wf.pausedReason}` : ''}`)
+  const signal = startRun(id)
+  beginWorkflowRun(id)
+  let result: Awaited<ReturnType<typeof runLLM>>
+  try {
+    result = await runLLM({
+      projectId: wf.projectId,
+      workflowId: id,
+      message,
+      context: input.context || {},
+      provider: input.provider,
+      modelOverride: input.modelOverride,
+      autoApply: input.autoApply,
+      maxTurns: input.maxTurns,
+      signal,
+    })
+  } catch (err) {
+    if (signal.aborted || err instanceof RunCancelledError) {
+      endWorkflowRun(id, {})
+      return Response.json({ workflowId: id, cancelled: true, error: 'Run cancelled' }, { status: 409 })
+    }
+    if (err instanceof BudgetExceededError) {
+      endWorkflowRun(id, { status: 'paused', reason: 'budget exceeded' })
+      return Response.json(
+        { workflowId: id, error: err.message, budget: { scope: err.scope, spentUsd: err.spentUsd, limitUsd: err.limitUsd } },
+        { status: 402 },
+      )
+    }
+    const msg = (err as Error)?.message || 'Unknown error'
+    endWorkflowRun(id, { status: 'failed', reason: msg })
+    console.error('[workflows.resume] error', msg)
+    return new Response(JSON.stringify({ error: msg }), { status: 500, headers: { 'content-type': 'application/json' } })
+  } finally {
+    finishRun(id, signal)
+  }
+
+  const { proposals, taskState, tokenTotals } = result
+  const isComplete = proposals.some((p) => p.type === 'completion')
+  // A failure here must not leave the workflow running with nobody to end it
+  try {
+    syncPlanSteps(id, taskState.plan)
+    const stored = saveProposals({ projectId: wf.projectId, workflowId: id, message, proposals })
+    for (const p of stored) {
+      appendStep(id, { id: p.id, proposalId: p.id, status: 'pending' })
+    }
+    await checkpointBeforeApply(id, stored)
+    const workflow = endWorkflowRun(id, { plan: taskState.plan, isComplete })
+    console.log(`[workflows.resume] id=${id} from=${next?.id || 'none'} proposals=${stored.length} status=${workflow?.status}`)
+    return Response.json({ workflow, proposals, taskState, tokenTotals, isComplete })
+  } catch (err) {
+    const msg = (err as Error)?.message || 'Failed to persist proposals'
+    endWorkflowRun(id, { status: 'failed', reason: msg })
+    console.error('[workflows.resume] persist.error', msg)
+    return new Response(JSON.stringify({ error: msg }), { status: 500, headers: { 'content-type': 'application/json' } })
+  }
+}
@@ -0,0 +1,49 @@
+export const runtime = 'nodejs'
+
+import { getWorkflow } from '../../../../../lib/store/workflows'
+import { getCheckpointManifest, loadCheckpointStudioState } from '../../../../../lib/checkpoints/manager'
+import { getTaskState } from '../../../../../lib/orchestrator/taskState'
+import type { SceneGraph } from '../../../../../lib/orchestrator/taskState'
+import { diffSceneGraphs, formatSceneDiff } from '../../../../../lib/orchestrator/sceneDiff'
+
+function jsonError(error: string, status: number) {
+  return new Response(JSON.stringify({ error }), { status, headers: { 'content-type': 'application/json' } })
+}
+
+// ?from=<checkpointId>&to=<checkpointId|now>&format=json|text — what the workflow changed in the data model
+export async function GET(req: Request, ctx: { params: { id: string } }) {
+  const id = ctx?.params?.id
+  if (!id) return jsonError('Missing workflow id', 400)
+  if (!getWorkflow(id)) return jsonError('Not found', 404)
+  const { searchParams } = new URL(req.url)
+  const from = searchParams.get('from')?.trim()
+  const to = searchParams.get('to')?.trim() || 'now'
+  const format = searchParams.get('format') === 'text' ? 'text' : 'json'
+  if (!from) return jsonError('from checkpoint id required', 400)
+  // Checkpoint ids name directories under data/checkpoints
+  if (![from, to].every((ref) => /^[\w-]+$/.test(ref))) return jsonError('Invalid checkpoint id', 400)
+
+  const sceneAt = async (ref: string): Promise<SceneGraph | undefined> => {
+    if (ref === 'now') return getTaskState(id).scene || { nodes: {} }
+    const manifest = await getCheckpointManifest(id, ref)
+    if (!manifest) return undefined
+    return (await loadCheckpointStudioState(manifest)).scene || { nodes: {} }
+  }
+  let before: SceneGraph | undefined
+  let after: SceneGraph | undefined
+  try {
+    before = await sceneAt(from)
+    if (!before) return jsonError(`checkpoint not found: ${from}`, 404)
+    after = await sceneAt(to)
+    if (!after) return jsonError(`checkpoint not found: ${to}`, 404)
+  } catch (err: any) {
+    return jsonError(err?.message || 'Failed to load checkpoint scene', 500)
+  }
+
+  const diff = diffSceneGraphs(before, after)
+  const text = formatSceneDiff(diff)
+  if (format === 'text') {
+    return new Response(`Scene diff ${from} → ${to}\n\n${text}\n`, { headers: { 'content-type': 'text/plain; charset=utf-8' } })
+  }
+  return Response.json({ workflowId: id, from, to, diff, text })
+}
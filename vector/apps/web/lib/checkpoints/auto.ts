@@ -0,0 +1,48 @@
+import { AUTO_CHECKPOINT_NOTE, createCheckpoint, listCheckpoints } from './manager'
+import type { CheckpointSummary } from './manager'
+import { markCheckpointed } from '../store/proposals'
+import type { StoredProposal } from '../store/proposals'
+import { getTaskState, updateTaskState } from '../orchestrator/taskState'
+import { pushChunk } from '../store/stream'
+
+/**
+ * Checkpoints the workflow as the run that produced `proposals` saves them, before the plugin can
+ * apply any of them. One checkpoint covers the batch; each proposal records it with a 'checkpointed'
+ * event. Never throws: a failed checkpoint is reported on the stream and does not fail the run.
+ */
+export async function checkpointBeforeApply(workflowId: string, proposals: StoredProposal[]): Promise<CheckpointSummary | undefined> {
+  // Completions change nothing in Studio
+  const applicable = proposals.filter((p) => p.proposal?.type !== 'completion')
+  if (!workflowId || applicable.length === 0) return undefined
+  try {
+    const messageCreatedAt = applicable[0].createdAt
+    pushChunk(workflowId, `checkpoint.auto start proposals=${applicable.length} messageTs=${messageCreatedAt}`)
+    const summary = await createCheckpoint({
+      workflowId,
+      taskState: getTaskState(workflowId),
+      note: AUTO_CHECKPOINT_NOTE,
+      proposalId: applicable[0].id,
+      includeWorkspace: true,
+      messageCreatedAt,
+    })
+    for (const p of applicable) markCheckpointed(p.id, summary.id)
+    const count = (await listCheckpoints(workflowId)).length
+    updateTaskState(workflowId, (state) => {
+      if (!state.checkpoints) state.checkpoints = { count: 0 }
+      state.lastCheckpointId = summary.id
+      state.checkpoints.lastId = summary.id
+      state.checkpoints.lastNote = AUTO_CHECKPOINT_NOTE
+      state.checkpoints.lastCreatedAt = summary.createdAt
+      if (typeof summary.messageCreatedAt === 'number') {
+        state.checkpoints.lastMessageCreatedAt = summary.messageCreatedAt
+      }
+      state.checkpoints.count = count
+    })
+    pushChunk(workflowId, `checkpoint.auto ok id=${summary.id} newBlobs=${summary.newBlobs ?? 0}`)
+    return summary
+  } catch (err) {
+    pushChunk(workflowId, `checkpoint.auto error ${(err as Error)?.message || 'failed'}`)
+    console.warn('[checkpoints] auto creation failed', err)
+    return undefined
+  }
+}
@@ -2,12 +2,14 @@ import fs from 'fs'
 import path from 'path'
 import crypto from 'node:crypto'
 import AdmZip from 'adm-zip'
-import { TaskState, replaceTaskState } from '../orchestrator/taskState'
+import { TaskState, getTaskState, replaceTaskState } from '../orchestrator/taskState'
 
 const fsp = fs.promises
 
 const DATA_DIR = path.resolve(process.cwd(), 'data')
 const CHECKPOINT_ROOT = path.join(DATA_DIR, 'checkpoints')
+// Content-addressed file contents shared by all checkpoints: <first two hex chars>/<sha1>
+const BLOB_ROOT = path.join(DATA_DIR, 'checkpoint-blobs')
 
 const ROOT_DIR = (() => {
   const envRoot = process.env.VECTOR_WORKSPACE_ROOT
@@ -33,12 +35,27 @@ const IGNORE_SEGMENTS = new Set([
   '.idea',
 ])
 
-const MAX_KEEP = Number(process.env.VECTOR_CHECKPOINT_LIMIT || 10)
+// Auto checkpoints kept per workflow; manual ones are never pruned
+const MAX_KEEP = Number(process.env.VECTOR_CHECKPOINT_LIMIT || 50)
+// Unreferenced blobs younger than this survive GC (another process may be mid-checkpoint)
+const GC_GRACE_MS = 60_000
+
+// Note on the checkpoints taken before proposals apply (lib/checkpoints/auto.ts)
+export const AUTO_CHECKPOINT_NOTE = 'auto'
 
 export type CheckpointFile = {
   path: string
   size: number
   sha1: string
+  // Lets the next checkpoint reuse the hash without reading the file when size and mtime match
+  mtimeMs?: number
+}
+
+// Studio-side state (script sources by instance path, the scene graph as one JSON blob), kept out of
+// taskState so unchanged scripts and scenes share blobs across checkpoints
+export type CheckpointStudio = {
+  scripts: CheckpointFile[]
+  scene?: { sha1: string; size: number; nodes: number }
 }
 
 export type CheckpointManifest = {
@@ -51,8 +68,12 @@ export type CheckpointManifest = {
   taskState: TaskState
   workspaceRoot: string
   includeWorkspace: boolean
+  // 'blobs': files live in the blob store by sha1; absent on older checkpoints that wrote workspace.zip
+  storage?: 'blobs'
   files?: CheckpointFile[]
   zipSize?: number
+  // Absent on older checkpoints, whose taskState still carries scriptSources and scene
+  studio?: CheckpointStudio
 }
 
 export type CheckpointSummary = {
@@ -63,9 +84,17 @@ export type CheckpointSummary = {
   proposalId?: string
   messageCreatedAt?: number
   zipSize?: number
+  fileCount?: number
+  scriptCount?: number
+  sceneNodes?: number
+  // Blobs this checkpoint added to the store (unchanged files add nothing)
+  newBlobs?: number
+  newBytes?: number
   path: string
 }
 
+export type CheckpointGcResult = { referenced: number; removed: number; freedBytes: number }
+
 function checkpointDir(workflowId: string) {
   return path.join(CHECKPOINT_ROOT, workflowId)
 }
@@ -78,6 +107,10 @@ function archivePath(workflowId: string, id: string) {
   return path.join(checkpointPath(workflowId, id), 'workspace.zip')
 }
 
+function blobPath(sha1: string) {
+  return path.join(BLOB_ROOT, sha1.slice(0, 2), sha1)
+}
+
 async function ensureDir(dir: string) {
   await fsp.mkdir(dir, { recursive: true })
 }
@@ -125,63 +158,198 @@ async function readManifest(dir: string): Promise<CheckpointManifest | undefined
     const text = await fsp.readFile(path.join(dir, 'manifest.json'), 'utf-8')
     return JSON.parse(text) as CheckpointManifest
   } catch (err) {
-    console.warn('[checkpoints] Failed to read manifest for', dir, err)
+    // A checkpoint being written has its directory before its manifest
+    if ((err as NodeJS.ErrnoException)?.code !== 'ENOENT') console.warn('[checkpoints] Failed to read manifest for', dir, err)
     return undefined
   }
 }
 
-async function clampCheckpoints(workflowId: string) {
+// Creation and GC share one queue so a sweep never sees blobs whose manifest is not written yet
+let storeQueue: Promise<unknown> = Promise.resolve()
+
+function withStoreLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = storeQueue.then(fn, fn)
+  storeQueue = run.catch(() => undefined)
+  return run
+}
+
+async function listManifests(workflowId?: string): Promise<Array<{ dir: string; manifest: CheckpointManifest }>> {
+  const out: Array<{ dir: string; manifest: CheckpointManifest }> = []
+  let workflows: string[]
   try {
-    const dir = checkpointDir(workflowId)
-    const entries = await fsp.readdir(dir)
-    if (entries.length <= MAX_KEEP) return
-    const manifests = await Promise.all(
-      entries.map(async (name) => ({
-        name,
-        manifest: await readManifest(path.join(dir, name)),
-      })),
-    )
-    const sorted = manifests
-      .filter((x) => x.manifest)
-      .sort((a, b) => (a.manifest!.createdAt || 0) - (b.manifest!.createdAt || 0))
-    while (sorted.length > MAX_KEEP) {
-      const item = sorted.shift()
-      if (!item) break
-      try {
-        await fsp.rm(path.join(dir, item.name), { recursive: true, force: true })
-      } catch (err) {
-        console.warn('[checkpoints] Failed to remove old checkpoint', item.name, err)
-      }
-    }
+    workflows = workflowId ? [workflowId] : await fsp.readdir(CHECKPOINT_ROOT)
   } catch (err) {
     if ((err as NodeJS.ErrnoException)?.code !== 'ENOENT') {
-      console.warn('[checkpoints] clamp failed', err)
+      console.warn('[checkpoints] list failed', err)
+    }
+    return out
+  }
+  for (const wf of workflows) {
+    const dir = checkpointDir(wf)
+    try {
+      const entries = await fsp.readdir(dir)
+      for (const entry of entries) {
+        const manifest = await readManifest(path.join(dir, entry))
+        if (manifest) out.push({ dir: path.join(dir, entry), manifest })
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.warn('[checkpoints] failed to list workflow', wf, err)
+      }
     }
   }
+  return out
 }
 
-async function computeZipFromFiles(workflowId: string, id: string, files: { rel: string; abs: string }[]) {
-  const zip = new AdmZip()
+// Drops the oldest auto checkpoints beyond MAX_KEEP; their blobs go on the next GC sweep
+async function clampCheckpoints(workflowId: string): Promise<number> {
+  const sorted = (await listManifests(workflowId))
+    .filter((x) => x.manifest.note === AUTO_CHECKPOINT_NOTE)
+    .sort((a, b) => (a.manifest.createdAt || 0) - (b.manifest.createdAt || 0))
+  let removed = 0
+  while (sorted.length > MAX_KEEP) {
+    const item = sorted.shift()
+    if (!item) break
+    try {
+      await fsp.rm(item.dir, { recursive: true, force: true })
+      removed++
+    } catch (err) {
+      console.warn('[checkpoints] Failed to remove old checkpoint', item.manifest.id, err)
+    }
+  }
+  return removed
+}
+
+async function writeBlob(sha1: string, data: Buffer): Promise<boolean> {
+  const dest = blobPath(sha1)
+  if (fs.existsSync(dest)) return false
+  await ensureDir(path.dirname(dest))
+  const tmp = `${dest}.${process.pid}.${Date.now()}.tmp`
+  await fsp.writeFile(tmp, data)
+  await fsp.rename(tmp, dest)
+  return true
+}
+
+async function storeWorkspaceFiles(files: { rel: string; abs: string }[], previous?: CheckpointFile[]) {
+  const known = new Map((previous || []).map((f) => [f.path, f]))
   const list: CheckpointFile[] = []
+  let newBlobs = 0
+  let newBytes = 0
   for (const file of files) {
     try {
+      const stat = await fsp.stat(file.abs)
+      const prior = known.get(file.rel)
+      if (prior && prior.size === stat.size && prior.mtimeMs === stat.mtimeMs && fs.existsSync(blobPath(prior.sha1))) {
+        list.push(prior)
+        continue
+      }
       const data = await fsp.readFile(file.abs)
       const hash = crypto.createHash('sha1').update(data).digest('hex')
-      zip.addFile(file.rel, data)
-      list.push({ path: file.rel, size: data.length, sha1: hash })
+      if (await writeBlob(hash, data)) {
+        newBlobs++
+        newBytes += data.length
+      }
+      list.push({ path: file.rel, size: data.length, sha1: hash, mtimeMs: stat.mtimeMs })
     } catch (err) {
       console.warn('[checkpoints] Failed to add file to checkpoint', file.rel, err)
     }
   }
-  const archive = archivePath(workflowId, id)
-  await ensureDir(path.dirname(archive))
-  zip.writeZip(archive)
-  let zipSize: number | undefined
+  return { files: list, newBlobs, newBytes }
+}
+
+// Moves scriptSources and scene out of the (already cloned) taskState into blobs
+async function storeStudioState(state: TaskState) {
+  const studio: CheckpointStudio = { scripts: [] }
+  let newBlobs = 0
+  let newBytes = 0
+  const put = async (data: Buffer) => {
+    const hash = crypto.createHash('sha1').update(data).digest('hex')
+    if (await writeBlob(hash, data)) {
+      newBlobs++
+      newBytes += data.length
+    }
+    return hash
+  }
+  for (const [instancePath, source] of Object.entries(state.scriptSources || {})) {
+    const data = Buffer.from(source, 'utf-8')
+    studio.scripts.push({ path: instancePath, size: data.length, sha1: await put(data) })
+  }
+  if (state.scene) {
+    const data = Buffer.from(JSON.stringify(state.scene), 'utf-8')
+    studio.scene = { sha1: await put(data), size: data.length, nodes: Object.keys(state.scene.nodes || {}).length }
+  }
+  delete state.scriptSources
+  delete state.scene
+  return { studio, newBlobs, newBytes }
+}
+
+async function readBlob(manifest: CheckpointManifest, sha1: string, label: string): Promise<string> {
   try {
-    const stat = await fsp.stat(archive)
-    zipSize = stat.size
-  } catch {}
-  return { files: list, zipSize }
+    return await fsp.readFile(blobPath(sha1), 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') throw new Error(`Checkpoint ${manifest.id} is missing blob ${sha1} for ${label}`)
+    throw err
+  }
+}
+
+/** Script sources and scene graph as they were at the checkpoint, from blobs or (older checkpoints) taskState. */
+export async function loadCheckpointStudioState(
+  manifest: CheckpointManifest,
+): Promise<Pick<TaskState, 'scriptSources' | 'scene'>> {
+  if (!manifest.studio) {
+    return { scriptSources: manifest.taskState.scriptSources, scene: manifest.taskState.scene }
+  }
+  const scriptSources: Record<string, string> = {}
+  for (const script of manifest.studio.scripts) {
+    scriptSources[script.path] = await readBlob(manifest, script.sha1, script.path)
+  }
+  const sceneRef = manifest.studio.scene
+  const scene = sceneRef ? (JSON.parse(await readBlob(manifest, sceneRef.sha1, 'scene graph')) as TaskState['scene']) : undefined
+  return { scriptSources, scene }
+}
+
+async function sweepBlobs(): Promise<CheckpointGcResult> {
+  const referenced = new Set<string>()
+  for (const { manifest } of await listManifests()) {
+    for (const script of manifest.studio?.scripts || []) referenced.add(script.sha1)
+    if (manifest.studio?.scene) referenced.add(manifest.studio.scene.sha1)
+    if (manifest.storage !== 'blobs') continue
+    for (const file of manifest.files || []) referenced.add(file.sha1)
+  }
+  const result: CheckpointGcResult = { referenced: referenced.size, removed: 0, freedBytes: 0 }
+  const cutoff = Date.now() - GC_GRACE_MS
+  let shards: string[]
+  try {
+    shards = await fsp.readdir(BLOB_ROOT)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== 'ENOENT') console.warn('[checkpoints] gc failed', err)
+    return result
+  }
+  for (const shard of shards) {
+    const dir = path.join(BLOB_ROOT, shard)
+    for (const name of await fsp.readdir(dir).catch(() => [] as string[])) {
+      if (referenced.has(name)) continue
+      const abs = path.join(dir, name)
+      try {
+        const stat = await fsp.stat(abs)
+        if (stat.mtimeMs > cutoff) continue
+        await fsp.rm(abs, { force: true })
+        result.removed++
+        result.freedBytes += stat.size
+      } catch (err) {
+        console.warn('[checkpoints] gc failed to remove blob', name, err)
+      }
+    }
+  }
+  if (result.removed > 0) {
+    console.log(`[checkpoints] gc removed=${result.removed} freedBytes=${result.freedBytes} referenced=${result.referenced}`)
+  }
+  return result
+}
+
+/** Deletes blobs no checkpoint manifest references. */
+export function collectCheckpointGarbage(): Promise<CheckpointGcResult> {
+  return withStoreLock(sweepBlobs)
 }
 
 export async function createCheckpoint(opts: {
@@ -192,10 +360,21 @@ export async function createCheckpoint(opts: {
   includeWorkspace?: boolean
   messageCreatedAt?: number
 }): Promise<CheckpointSummary> {
+  return withStoreLock(() => writeCheckpoint(opts))
+}
+
+async function writeCheckpoint(opts: Parameters<typeof createCheckpoint>[0]): Promise<CheckpointSummary> {
   const includeWorkspace = opts.includeWorkspace !== false
   const now = Date.now()
-  const id = `ckpt_${now}`
+  // Checkpoints can land in the same millisecond now that every batch of proposals takes one
+  const id = `ckpt_${now}_${crypto.randomBytes(2).toString('hex')}`
   const destRoot = checkpointPath(opts.workflowId, id)
+  // Read before destRoot exists, which has no manifest yet
+  const previous = includeWorkspace
+    ? (await listManifests(opts.workflowId))
+        .filter((x) => x.manifest.storage === 'blobs')
+        .sort((a, b) => b.manifest.createdAt - a.manifest.createdAt)[0]
+    : undefined
   await ensureDir(destRoot)
 
   const manifest: CheckpointManifest = {
@@ -221,15 +400,20 @@ export async function createCheckpoint(opts: {
     manifest.taskState.checkpoints.lastMessageCreatedAt = opts.messageCreatedAt
   }
 
+  const studio = await storeStudioState(manifest.taskState)
+  manifest.studio = studio.studio
+  const stored = { newBlobs: studio.newBlobs, newBytes: studio.newBytes }
   if (includeWorkspace) {
     const files = await collectWorkspaceFiles(ROOT_DIR)
-    const { files: fileEntries, zipSize } = await computeZipFromFiles(opts.workflowId, id, files)
-    manifest.files = fileEntries
-    manifest.zipSize = zipSize
+    const result = await storeWorkspaceFiles(files, previous?.manifest.files)
+    manifest.storage = 'blobs'
+    manifest.files = result.files
+    stored.newBlobs += result.newBlobs
+    stored.newBytes += result.newBytes
   }
 
   await writeManifest(destRoot, manifest)
-  await clampCheckpoints(opts.workflowId)
+  if ((await clampCheckpoints(opts.workflowId)) > 0) await sweepBlobs()
 
   return {
     id,
@@ -238,47 +422,30 @@ export async function createCheckpoint(opts: {
     createdAt: now,
     proposalId: opts.proposalId,
     messageCreatedAt: opts.messageCreatedAt,
-    zipSize: manifest.zipSize,
+    fileCount: manifest.files?.length,
+    scriptCount: manifest.studio.scripts.length,
+    sceneNodes: manifest.studio.scene?.nodes,
+    newBlobs: stored.newBlobs,
+    newBytes: stored.newBytes,
     path: destRoot,
   }
 }
 
 export async function listCheckpoints(workflowId?: string): Promise<CheckpointSummary[]> {
-  const baseDir = CHECKPOINT_ROOT
-  try {
-    const workflows = workflowId ? [workflowId] : await fsp.readdir(baseDir)
-    const out: CheckpointSummary[] = []
-    for (const wf of workflows) {
-      const dir = checkpointDir(wf)
-      try {
-        const entries = await fsp.readdir(dir)
-        for (const entry of entries) {
-          const manifest = await readManifest(path.join(dir, entry))
-          if (!manifest) continue
-          out.push({
-            id: manifest.id,
-            workflowId: manifest.workflowId,
-            note: manifest.note,
-            createdAt: manifest.createdAt,
-            proposalId: manifest.proposalId,
-            messageCreatedAt: manifest.messageCreatedAt,
-            zipSize: manifest.zipSize,
-            path: path.join(dir, entry),
-          })
-        }
-      } catch (err) {
-        if ((err as NodeJS.ErrnoException)?.code !== 'ENOENT') {
-          console.warn('[checkpoints] failed to list workflow', wf, err)
-        }
-      }
-    }
-    return out.sort((a, b) => b.createdAt - a.createdAt)
-  } catch (err) {
-    if ((err as NodeJS.ErrnoException)?.code !== 'ENOENT') {
-      console.warn('[checkpoints] list failed', err)
-    }
-    return []
-  }
+  const out: CheckpointSummary[] = (await listManifests(workflowId)).map(({ dir, manifest }) => ({
+    id: manifest.id,
+    workflowId: manifest.workflowId,
+    note: manifest.note,
+    createdAt: manifest.createdAt,
+    proposalId: manifest.proposalId,
+    messageCreatedAt: manifest.messageCreatedAt,
+    zipSize: manifest.zipSize,
+    fileCount: manifest.files?.length,
+    scriptCount: manifest.studio?.scripts.length,
+    sceneNodes: manifest.studio?.scene?.nodes,
+    path: dir,
+  }))
+  return out.sort((a, b) => b.createdAt - a.createdAt)
 }
 
 export async function loadCheckpoint(checkpointId: string): Promise<CheckpointManifest | undefined> {
@@ -292,18 +459,32 @@ export async function getCheckpointManifest(workflowId: string, checkpointId: st
   return readManifest(checkpointPath(workflowId, checkpointId))
 }
 
+// 'studio' touches neither taskState nor files here; the restore route turns it into rollback proposals.
+// 'all' restores conversation and files but keeps the current scene and script sources (see above)
+export type CheckpointRestoreMode = 'conversation' | 'workspace' | 'both' | 'studio' | 'all'
+
 export async function restoreCheckpoint(opts: {
   checkpointId: string
-  mode: 'conversation' | 'workspace' | 'both'
+  mode: CheckpointRestoreMode
 }): Promise<CheckpointManifest | undefined> {
   const manifest = await loadCheckpoint(opts.checkpointId)
   if (!manifest) return undefined
-
-  if (opts.mode === 'conversation' || opts.mode === 'both') {
-    replaceTaskState(manifest.workflowId, manifest.taskState)
+  const conversation = opts.mode === 'conversation' || opts.mode === 'both' || opts.mode === 'all'
+  const workspace = opts.mode === 'workspace' || opts.mode === 'both' || opts.mode === 'all'
+
+  if (conversation) {
+    // With 'all' Studio is rolled back by proposals, so the scene model moves forward only as the
+    // plugin reports them applied; a rejected rollback leaves it matching Studio
+    const current = getTaskState(manifest.workflowId)
+    const studio = opts.mode === 'all'
+      ? { scriptSources: current.scriptSources, scene: current.scene }
+      : await loadCheckpointStudioState(manifest)
+    replaceTaskState(manifest.workflowId, { ...manifest.taskState, ...studio })
   }
 
-  if ((opts.mode === 'workspace' || opts.mode === 'both') && manifest.includeWorkspace) {
+  if (workspace && manifest.includeWorkspace && manifest.storage === 'blobs') {
+    await restoreBlobFiles(manifest)
+  } else if (workspace && manifest.includeWorkspace) {
     const archive = archivePath(manifest.workflowId, manifest.id)
     if (fs.existsSync(archive)) {
       try {
@@ -319,6 +500,26 @@ export async function restoreCheckpoint(opts: {
   return manifest
 }
 
+// Writes each file from its blob, skipping files that already hold the same content
+async function restoreBlobFiles(manifest: CheckpointManifest) {
+  const files = manifest.files || []
+  const missing = files.find((file) => !fs.existsSync(blobPath(file.sha1)))
+  if (missing) throw new Error(`Checkpoint ${manifest.id} is missing blob ${missing.sha1} for ${missing.path}`)
+  let written = 0
+  for (const file of files) {
+    const dest = path.join(ROOT_DIR, file.path)
+    try {
+      const current = await fsp.readFile(dest)
+      if (current.length === file.size && crypto.createHash('sha1').update(current).digest('hex') === file.sha1) continue
+    } catch {}
+    await ensureDir(path.dirname(dest))
+    await fsp.copyFile(blobPath(file.sha1), dest)
+    written++
+  }
+  console.log(`[checkpoints] restore id=${manifest.id} files=${files.length} written=${written}`)
+}
+
+/** Legacy checkpoints only; blob-store checkpoints have no archive. */
 export function getArchiveAbsolutePath(workflowId: string, checkpointId: string): string {
   return archivePath(workflowId, checkpointId)
 }
@@ -1,4 +1,6 @@
+import { z } from 'zod'
 import type { Proposal, EditProposal, ObjectProposal, AssetProposal, CompletionProposal } from './index'
+import { buildInstancePath, canonicalInstancePath } from './sceneGraph'
 
 const SAFE_PREFIXES = [
   'game.Workspace',
@@ -33,7 +35,14 @@ function canAutoApproveObject(proposal: ObjectProposal): boolean {
       case 'set_properties':
       case 'rename_instance':
       case 'delete_instance':
+      case 'set_attributes':
+      case 'add_tag':
+      case 'remove_tag':
         return isSafePath(op.path)
+      case 'move_instance':
+        return isSafePath(op.path) && isSafePath(op.newParentPath)
+      case 'clone_instance':
+        return isSafePath(op.path) && (op.parentPath === undefined || isSafePath(op.parentPath))
       default:
         return false
     }
@@ -53,16 +62,219 @@ function canAutoApproveAsset(proposal: AssetProposal, opts?: { autoEnabled?: boo
   return false
 }
 
-export function annotateAutoApproval<T extends Proposal>(proposals: T[], opts: { autoEnabled: boolean }): T[] {
+// Per-project auto-approval policy (stored by lib/store/policies.ts, edited via /api/policies).
+// Deny rules are checked first and veto when any part of a proposal matches (or a limit is
+// exceeded); then the first allow rule that covers every part within its limits approves.
+// With no matching rule, `default` decides: 'builtin' falls back to the safe-prefix checks above.
+//   { "rules": [
+//     { "name": "shared-modules", "effect": "allow", "ops": ["edit"], "classNames": ["ModuleScript"], "paths": ["game.ReplicatedStorage.Shared.**"] },
+//     { "name": "bulk-deletes", "effect": "deny", "ops": ["delete_instance"], "maxDeletes": 5 },
+//     { "name": "security", "effect": "deny", "paths": ["game.ServerScriptService.Security.**"] } ] }
+
+const OP_KINDS = [
+  'edit',
+  'create_instance',
+  'set_properties',
+  'rename_instance',
+  'delete_instance',
+  'move_instance',
+  'clone_instance',
+  'set_attributes',
+  'add_tag',
+  'remove_tag',
+  'insert_asset',
+  'search_asset',
+  'generate_asset',
+] as const
+
+export type PolicyOpKind = typeof OP_KINDS[number]
+
+export const AutoApprovalRuleSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  effect: z.enum(['allow', 'deny']),
+  // Instance path globs: `*` is one name segment (or part of one), `**` any depth; `X.**` includes X.
+  // Globs and op paths are compared in canonical form, so `Workspace.X` and `game.Workspace.X` agree
+  paths: z
+    .array(z.string().min(1).refine((glob) => !!canonicalInstancePath(glob, { glob: true }), 'invalid path glob'))
+    .optional(),
+  ops: z.array(z.enum(OP_KINDS)).optional(),
+  // Class of the target instance (created class, or the scene graph's class for existing paths)
+  classNames: z.array(z.string().min(1)).optional(),
+  // Allow rules apply only within these; deny rules fire when one is exceeded
+  maxOps: z.number().int().min(0).optional(),
+  maxDeletes: z.number().int().min(0).optional(),
+  maxDiffLines: z.number().int().min(0).optional(),
+  maxFiles: z.number().int().min(0).optional(),
+})
+
+export const AutoApprovalPolicySchema = z.object({
+  default: z.enum(['builtin', 'allow', 'deny']).default('builtin'),
+  rules: z.array(AutoApprovalRuleSchema).max(200).default([]),
+})
+
+export type AutoApprovalRule = z.infer<typeof AutoApprovalRuleSchema>
+export type AutoApprovalPolicy = z.infer<typeof AutoApprovalPolicySchema>
+
+// One thing a proposal touches: an edited file, an object op or an asset action
+type PolicyTarget = { op: PolicyOpKind; paths: string[]; className?: string }
+
+type ProposalFacts = { targets: PolicyTarget[]; ops: number; deletes: number; diffLines: number; files: number }
+
+export type AutoApprovalDecision = { approved: boolean; rule: string; reason: string }
+
+const globCache = new Map<string, RegExp>()
+
+// Undefined for a glob canonicalInstancePath cannot parse (only possible for unvalidated policies)
+function globToRegExp(raw: string): RegExp | undefined {
+  const glob = canonicalInstancePath(raw, { glob: true })
+  if (!glob) return undefined
+  const cached = globCache.get(glob)
+  if (cached) return cached
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*' && glob[i + 1] === '*') {
+      // "X.**" also matches X itself
+      if (source.endsWith('\\.')) source = `${source.slice(0, -2)}(?:\\..*)?`
+      else source += '.*'
+      i++
+    } else if (ch === '*') {
+      source += '[^.]*'
+    } else {
+      source += ch.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  const re = new RegExp(`^${source}$`)
+  globCache.set(glob, re)
+  return re
+}
+
+function countEditLines(edit: { start: { line: number }; end: { line: number }; text: string }): number {
+  return Math.max(edit.end.line - edit.start.line + 1, edit.text ? edit.text.split('\n').length : 0)
+}
+
+function collectFacts(proposal: Proposal, classOf: (path: string) => string | undefined): ProposalFacts {
+  const facts: ProposalFacts = { targets: [], ops: 0, deletes: 0, diffLines: 0, files: 0 }
+  if (proposal.type === 'edit') {
+    const files = proposal.files && proposal.files.length > 0
+      ? proposal.files
+      : proposal.path && proposal.diff ? [{ path: proposal.path, diff: proposal.diff }] : []
+    for (const file of files) {
+      facts.targets.push({ op: 'edit', paths: [file.path], className: classOf(file.path) })
+      facts.diffLines += (file.diff?.edits || []).reduce((sum, edit) => sum + countEditLines(edit), 0)
+    }
+    facts.files = files.length
+    facts.ops = files.length
+  } else if (proposal.type === 'object_op') {
+    for (const op of proposal.ops) {
+      switch (op.op) {
+        case 'create_instance': {
+          const name = typeof op.props?.Name === 'string' ? op.props.Name : op.className
+          facts.targets.push({ op: op.op, paths: [buildInstancePath(op.parentPath, name)], className: op.className })
+          break
+        }
+        case 'move_instance':
+          facts.targets.push({ op: op.op, paths: [op.path, op.newParentPath], className: classOf(op.path) })
+          break
+        case 'clone_instance':
+          facts.targets.push({ op: op.op, paths: op.parentPath ? [op.path, op.parentPath] : [op.path], className: classOf(op.path) })
+          break
+        default:
+          facts.targets.push({ op: op.op, paths: [op.path], className: classOf(op.path) })
+      }
+      if (op.op === 'delete_instance') facts.deletes++
+    }
+    facts.ops = proposal.ops.length
+  } else if (proposal.type === 'asset_op') {
+    if (proposal.insert) facts.targets.push({ op: 'insert_asset', paths: [proposal.insert.parentPath || 'game.Workspace'] })
+    if (proposal.search) facts.targets.push({ op: 'search_asset', paths: [] })
+    if (proposal.generate3d) facts.targets.push({ op: 'generate_asset', paths: [] })
+    facts.ops = facts.targets.length
+  }
+  return facts
+}
+
+function matchesTarget(rule: AutoApprovalRule, target: PolicyTarget): boolean {
+  if (rule.ops && !rule.ops.includes(target.op)) return false
+  if (rule.classNames && !(target.className && rule.classNames.includes(target.className))) return false
+  if (rule.paths) {
+    const globs = rule.paths.map(globToRegExp)
+    // Deny rules fail closed: a glob or op path that does not parse counts as a match
+    const failClosed = rule.effect === 'deny'
+    const inScope = (raw: string) => {
+      const path = canonicalInstancePath(raw)
+      if (!path) return failClosed
+      return globs.some((re) => (re ? re.test(path) : failClosed))
+    }
+    // Allow rules must cover every path an op touches (source and destination); deny rules any
+    if (target.paths.length === 0) return false
+    return rule.effect === 'allow' ? target.paths.every(inScope) : target.paths.some(inScope)
+  }
+  return true
+}
+
+// Names of limits the proposal exceeds
+function exceededLimits(rule: AutoApprovalRule, facts: ProposalFacts): string[] {
+  const over: string[] = []
+  if (rule.maxOps !== undefined && facts.ops > rule.maxOps) over.push(`${facts.ops} ops > maxOps ${rule.maxOps}`)
+  if (rule.maxDeletes !== undefined && facts.deletes > rule.maxDeletes) over.push(`${facts.deletes} deletes > maxDeletes ${rule.maxDeletes}`)
+  if (rule.maxDiffLines !== undefined && facts.diffLines > rule.maxDiffLines) over.push(`${facts.diffLines} diff lines > maxDiffLines ${rule.maxDiffLines}`)
+  if (rule.maxFiles !== undefined && facts.files > rule.maxFiles) over.push(`${facts.files} files > maxFiles ${rule.maxFiles}`)
+  return over
+}
+
+function hasLimits(rule: AutoApprovalRule) {
+  return [rule.maxOps, rule.maxDeletes, rule.maxDiffLines, rule.maxFiles].some((limit) => limit !== undefined)
+}
+
+function builtinDecision(proposal: Proposal): boolean {
+  if (proposal.type === 'edit') return canAutoApproveEdit(proposal as EditProposal)
+  if (proposal.type === 'object_op') return canAutoApproveObject(proposal as ObjectProposal)
+  if (proposal.type === 'asset_op') return canAutoApproveAsset(proposal as AssetProposal, { autoEnabled: true })
+  return false
+}
+
+export function evaluateAutoApproval(
+  proposal: Proposal,
+  policy?: AutoApprovalPolicy,
+  classOf: (path: string) => string | undefined = () => undefined,
+): AutoApprovalDecision {
+  if (proposal.type === 'completion') return { approved: false, rule: 'builtin', reason: 'completions always need review' }
+  const facts = collectFacts(proposal, classOf)
+  for (const rule of policy?.rules || []) {
+    if (rule.effect !== 'deny') continue
+    const hit = facts.targets.find((target) => matchesTarget(rule, target))
+    if (!hit) continue
+    if (hasLimits(rule)) {
+      const over = exceededLimits(rule, facts)
+      if (over.length > 0) return { approved: false, rule: rule.name, reason: `denied by ${rule.name}: ${over.join(', ')}` }
+      continue
+    }
+    return { approved: false, rule: rule.name, reason: `denied by ${rule.name}: ${hit.op} ${hit.paths.join(' → ')}`.trim() }
+  }
+  for (const rule of policy?.rules || []) {
+    if (rule.effect !== 'allow' || facts.targets.length === 0) continue
+    if (!facts.targets.every((target) => matchesTarget(rule, target))) continue
+    if (exceededLimits(rule, facts).length > 0) continue
+    return { approved: true, rule: rule.name, reason: `allowed by ${rule.name}` }
+  }
+  const fallback = policy?.default || 'builtin'
+  if (fallback !== 'builtin') {
+    return { approved: fallback === 'allow', rule: 'default', reason: `no rule matched; policy default is ${fallback}` }
+  }
+  const approved = builtinDecision(proposal)
+  return { approved, rule: 'builtin', reason: approved ? 'all paths under safe prefixes' : 'outside safe prefixes' }
+}
+
+export function annotateAutoApproval<T extends Proposal>(
+  proposals: T[],
+  opts: { autoEnabled: boolean; policy?: AutoApprovalPolicy; classOf?: (path: string) => string | undefined },
+): T[] {
   if (!opts.autoEnabled) {
-    return proposals.map((p) => ({ ...p, meta: { ...(p.meta || {}), autoApproved: false } }))
+    return proposals.map((p) => ({ ...p, meta: { ...(p.meta || {}), autoApproved: false, autoApproveRule: 'disabled', autoApproveReason: 'auto-approve is off' } }))
   }
   return proposals.map((p) => {
-    let autoApproved = false
-    if (p.type === 'edit') autoApproved = canAutoApproveEdit(p as EditProposal)
-    if (p.type === 'object_op') autoApproved = canAutoApproveObject(p as ObjectProposal)
-    if (p.type === 'asset_op') autoApproved = canAutoApproveAsset(p as AssetProposal, { autoEnabled: opts.autoEnabled })
-    if (p.type === 'completion') autoApproved = false
-    return { ...p, meta: { ...(p.meta || {}), autoApproved } }
+    const decision = evaluateAutoApproval(p, opts.policy, opts.classOf)
+    return { ...p, meta: { ...(p.meta || {}), autoApproved: decision.approved, autoApproveRule: decision.rule, autoApproveReason: decision.reason } }
   })
 }
@@ -0,0 +1,184 @@
+import { findRobloxProperty } from '../tools/robloxApi'
+
+// Expands a bulk_create template into one create_instance op per index. String prop values may
+// embed arithmetic in braces, evaluated per instance:
+//   Name "Tile_{i+1}", Position "{col*6}, 2, {row*6}", Color "Color3.fromHSV({i/n}, 0.8, 1)"
+//   variables: i (0-based index), n (count), row/col (with columns), functions: floor ceil round abs
+//   min max sqrt sin cos pow; operators + - * / % and parentheses
+// A value that is exactly one {expr} becomes a number unless the property holds text (Name stays
+// "1", not 1); `cycle` picks values round-robin by index.
+
+export const MAX_BULK_COUNT = 500
+
+export type BulkCreateInput = {
+  className: string
+  parentPath: string
+  count: number
+  // Row length for grid layouts; enables row/col variables
+  columns?: number
+  props?: Record<string, unknown>
+  // Prop name → values used in turn (index % length)
+  cycle?: Record<string, unknown[]>
+}
+
+export type BulkCreateOp = { op: 'create_instance'; className: string; parentPath: string; props: Record<string, unknown> }
+
+export class BulkCreateError extends Error {
+  // Offending {expression}, when the error comes from a template
+  readonly expression?: string
+  constructor(message: string, expression?: string) {
+    super(expression !== undefined ? `${message} in "{${expression}}"` : message)
+    this.name = 'BulkCreateError'
+    this.expression = expression
+  }
+}
+
+type Scope = Record<string, number>
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  pow: Math.pow,
+}
+
+function evaluate(expression: string, scope: Scope): number {
+  const fail = (message: string): never => {
+    throw new BulkCreateError(message, expression)
+  }
+  // Whitespace is dropped below, so "2 3" must not quietly read as 23
+  const split = /[\w.]\s+[\w.]/.exec(expression)
+  if (split) fail(`unexpected "${split[0].trim().slice(-1)}"`)
+  const src = expression.replace(/\s+/g, '')
+  let pos = 0
+  const parseExpr = (): number => {
+    let v = parseTerm()
+    while (src[pos] === '+' || src[pos] === '-') v = src[pos++] === '+' ? v + parseTerm() : v - parseTerm()
+    return v
+  }
+  const parseTerm = (): number => {
+    let v = parseFactor()
+    while (src[pos] === '*' || src[pos] === '/' || src[pos] === '%') {
+      const op = src[pos++]
+      const rhs = parseFactor()
+      v = op === '*' ? v * rhs : op === '/' ? v / rhs : ((v % rhs) + rhs) % rhs
+    }
+    return v
+  }
+  const parseFactor = (): number => {
+    if (src[pos] === '-') {
+      pos++
+      return -parseFactor()
+    }
+    if (src[pos] === '(') {
+      pos++
+      const v = parseExpr()
+      if (src[pos++] !== ')') fail('expected ")"')
+      return v
+    }
+    const num = /^(\d+\.?\d*|\.\d+)/.exec(src.slice(pos))
+    if (num) {
+      pos += num[0].length
+      return Number(num[0])
+    }
+    const ident = /^[A-Za-z_]\w*/.exec(src.slice(pos))
+    if (!ident) return fail(`unexpected "${src[pos] ?? 'end'}"`)
+    pos += ident[0].length
+    const name = ident[0]
+    if (src[pos] === '(') {
+      const fn = FUNCTIONS[name]
+      if (!fn) fail(`unknown function ${name}`)
+      pos++
+      const args: number[] = []
+      if (src[pos] !== ')') {
+        args.push(parseExpr())
+        while (src[pos] === ',') {
+          pos++
+          args.push(parseExpr())
+        }
+      }
+      if (src[pos++] !== ')') fail('expected ")"')
+      return fn(...args)
+    }
+    if (!(name in scope)) fail(`unknown variable ${name}`)
+    return scope[name]
+  }
+  const value = parseExpr()
+  if (pos !== src.length) fail(`unexpected "${src[pos]}"`)
+  if (!Number.isFinite(value)) fail('result is not a finite number')
+  return value
+}
+
+// Trims float noise (0.30000000000000004 → 0.3) so names and positions stay readable
+function tidy(value: number): number {
+  return Number(value.toFixed(6))
+}
+
+const PLACEHOLDER = /\{([^{}]+)\}/g
+
+const NUMBER_PRIMITIVES = new Set(['float', 'double', 'int', 'int64'])
+
+// Numeric and enum properties, attributes and properties without a bundled type take numbers
+function takesNumber(className: string, key: string): boolean {
+  if (key.startsWith('@')) return true
+  const type = findRobloxProperty(className, key)?.valueType
+  if (!type) return true
+  return type.Category === 'Enum' || (type.Category === 'Primitive' && NUMBER_PRIMITIVES.has(type.Name))
+}
+
+function fillTemplate(value: unknown, scope: Scope, asNumber = true): unknown {
+  if (typeof value === 'string') {
+    // JSON-looking strings ({"x":1}) have no placeholders worth evaluating
+    if (!value.includes('{') || /^\s*\{\s*"/.test(value)) return value
+    const whole = /^\{([^{}]+)\}$/.exec(value.trim())
+    if (whole) {
+      const result = tidy(evaluate(whole[1], scope))
+      return asNumber ? result : String(result)
+    }
+    return value.replace(PLACEHOLDER, (_, expr: string) => String(tidy(evaluate(expr, scope))))
+  }
+  if (Array.isArray(value)) return value.map((item) => fillTemplate(item, scope))
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) out[key] = fillTemplate(item, scope)
+    return out
+  }
+  return value
+}
+
+/** One create_instance op per index; Name defaults to "<ClassName>{i+1}" and must differ per instance. */
+export function expandBulkCreate(input: BulkCreateInput): BulkCreateOp[] {
+  const count = Math.floor(input.count)
+  if (!(count >= 1 && count <= MAX_BULK_COUNT)) throw new BulkCreateError(`count must be between 1 and ${MAX_BULK_COUNT}`)
+  const columns = input.columns && input.columns > 0 ? Math.floor(input.columns) : undefined
+  const template = { ...(input.props || {}) }
+  if (template.Name === undefined && !input.cycle?.Name) template.Name = `${input.className}{i+1}`
+  const ops: BulkCreateOp[] = []
+  const names = new Set<string>()
+  for (let i = 0; i < count; i++) {
+    const scope: Scope = { i, n: count }
+    if (columns) {
+      scope.row = Math.floor(i / columns)
+      scope.col = i % columns
+    }
+    const props: Record<string, unknown> = {}
+    // Luau source is full of braces; it is copied verbatim
+    for (const [key, value] of Object.entries(template)) {
+      props[key] = key === 'Source' ? value : fillTemplate(value, scope, takesNumber(input.className, key))
+    }
+    for (const [key, values] of Object.entries(input.cycle || {})) {
+      if (Array.isArray(values) && values.length > 0) props[key] = fillTemplate(values[i % values.length], scope, takesNumber(input.className, key))
+    }
+    const name = String(props.Name)
+    if (names.has(name)) throw new BulkCreateError(`Name "${name}" repeats at index ${i}; include {i} in the Name template so each instance has its own path`)
+    names.add(name)
+    ops.push({ op: 'create_instance', className: input.className, parentPath: input.parentPath, props })
+  }
+  return ops
+}
@@ -1,3 +1,7 @@
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base'
+import o200kBase from 'js-tiktoken/ranks/o200k_base'
+
 export type TokenAccounting = {
   in: number
   out: number
@@ -5,8 +9,10 @@ export type TokenAccounting = {
   cacheWrites?: number
 }
 
+export type ContextMessage = { role: 'system' | 'user' | 'assistant'; content: string }
+
 export type ContextState = {
-  history: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>
+  history: ContextMessage[]
   tokens: TokenAccounting
 }
 
@@ -17,9 +23,180 @@ export function makeContext(systemPrompt: string): ContextState {
   }
 }
 
-export function shouldSummarize(state: ContextState, softLimit = 120000): boolean {
-  // Placeholder: return false until a real tokenizer is wired up
-  const approx = state.history.map((m) => m.content.length).reduce((a, b) => a + b, 0)
-  return approx > softLimit
+type EncodingName = 'cl100k_base' | 'o200k_base'
+
+const encoders = new Map<EncodingName, Tiktoken>()
+
+function getEncoder(name: EncodingName): Tiktoken {
+  let enc = encoders.get(name)
+  if (!enc) {
+    enc = new Tiktoken(name === 'o200k_base' ? o200kBase : cl100kBase)
+    encoders.set(name, enc)
+  }
+  return enc
+}
+
+/**
+ * Pick the bundled BPE closest to the model's tokenizer. Only OpenAI models are
+ * exact; other families (Claude, Gemini, Qwen, Llama, …) use cl100k_base as an
+ * approximation; budgets only need to be close, not exact.
+ */
+export function encodingForModel(model?: string): EncodingName {
+  const m = (model || '').toLowerCase().replace(/^openai\//, '')
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/.test(m)) return 'o200k_base'
+  return 'cl100k_base'
+}
+
+export function countTokens(text: string, model?: string): number {
+  if (!text) return 0
+  // Treat special-token strings in user content as plain text instead of throwing
+  return getEncoder(encodingForModel(model)).encode(text, [], []).length
+}
+
+// Per-message framing overhead (role + separators) used by chat formats
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+export function countMessageTokens(messages: ContextMessage[], model?: string): number {
+  let total = 2
+  for (const message of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS + countTokens(message.content, model)
+  }
+  return total
+}
+
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+  const enc = getEncoder(encodingForModel(model))
+  const tokens = enc.encode(text, [], [])
+  if (tokens.length <= maxTokens) return text
+  return enc.decode(tokens.slice(0, Math.max(0, maxTokens)))
+}
+
+// Context window sizes by model family; budgets leave room for the reply and the system prompt
+const CONTEXT_WINDOWS: Array<{ pattern: RegExp; tokens: number }> = [
+  { pattern: /gpt-4\.1/i, tokens: 1_000_000 },
+  { pattern: /gemini/i, tokens: 1_000_000 },
+  { pattern: /gpt-5/i, tokens: 400_000 },
+  { pattern: /qwen3-coder/i, tokens: 262_144 },
+  { pattern: /claude|anthropic/i, tokens: 200_000 },
+  { pattern: /(^|\/)o[134](-|$)/i, tokens: 200_000 },
+  { pattern: /gpt-4o|gpt-4-turbo|kimi|llama-3|llama3|mistral-large|deepseek/i, tokens: 128_000 },
+  { pattern: /gpt-4/i, tokens: 8_192 },
+]
+const DEFAULT_CONTEXT_WINDOW = 32_000
+const BUDGET_FRACTION = 0.5
+const MAX_DEFAULT_BUDGET = 120_000
+
+function readBudgetEnv(name: string): number | undefined {
+  const raw = process.env[name]
+  const n = raw ? Number(raw) : NaN
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : undefined
+}
+
+/**
+ * Token budget for the conversation sent to a provider/model. Resolution order:
+ * VECTOR_CONTEXT_BUDGETS (JSON map of model substring → tokens),
+ * VECTOR_CONTEXT_BUDGET_<PROVIDER>, VECTOR_CONTEXT_BUDGET, then the model's window.
+ */
+export function resolveContextBudget(provider?: string, model?: string): number {
+  const modelId = (model || '').toLowerCase()
+  const mapRaw = process.env.VECTOR_CONTEXT_BUDGETS
+  if (mapRaw && modelId) {
+    try {
+      const map = JSON.parse(mapRaw) as Record<string, unknown>
+      for (const [key, value] of Object.entries(map)) {
+        const n = Number(value)
+        if (key && modelId.includes(key.toLowerCase()) && Number.isFinite(n) && n > 0) return Math.floor(n)
+      }
+    } catch {
+      console.warn('[context] VECTOR_CONTEXT_BUDGETS is not valid JSON; ignoring')
+    }
+  }
+  const providerBudget = provider ? readBudgetEnv(`VECTOR_CONTEXT_BUDGET_${provider.toUpperCase()}`) : undefined
+  if (providerBudget) return providerBudget
+  const globalBudget = readBudgetEnv('VECTOR_CONTEXT_BUDGET')
+  if (globalBudget) return globalBudget
+  const window = CONTEXT_WINDOWS.find((entry) => entry.pattern.test(modelId))?.tokens ?? DEFAULT_CONTEXT_WINDOW
+  return Math.min(MAX_DEFAULT_BUDGET, Math.floor(window * BUDGET_FRACTION))
+}
+
+export function shouldSummarize(state: ContextState, softLimit = 120000, model?: string): boolean {
+  return countMessageTokens(state.history, model) > softLimit
+}
+
+export const SUMMARY_SYSTEM_PROMPT = `You compress the earlier part of a Roblox Studio assistant session so it can continue within its context budget.
+Write a concise plain-text summary (no tool tags, no markdown headings) that preserves:
+- the user's goals and constraints;
+- decisions made and plan progress;
+- tools called and the key facts they returned (instance paths, class names, script paths, errors);
+- anything still unresolved.
+Omit pleasantries and repeated content.`
+
+// Heuristic digest used when the summarizer call fails
+function fallbackDigest(messages: ContextMessage[]): string {
+  return messages
+    .map((entry) => `[${entry.role}] ${entry.content.replace(/\s+/g, ' ').slice(0, 160)}`)
+    .join('\n')
+    .slice(0, 2000)
 }
 
+export type CompactOptions<T extends ContextMessage> = {
+  budget: number
+  model?: string
+  // Leading messages that are never summarized (e.g. the user's request)
+  pinned?: number
+  // Trailing messages kept verbatim
+  keepRecent?: number
+  summarize: (transcript: string) => Promise<string>
+  makeSummary: (text: string, replaced: T[]) => T
+}
+
+export type CompactResult<T extends ContextMessage> = {
+  messages: T[]
+  summarized: number
+  tokensBefore: number
+  tokensAfter: number
+  usedFallback: boolean
+}
+
+/**
+ * When `messages` exceed `budget`, replace everything between the pinned head
+ * and the recent tail with one LLM-written summary message. Returns null when
+ * nothing needed (or could be) compacted.
+ */
+export async function compactMessages<T extends ContextMessage>(messages: T[], opts: CompactOptions<T>): Promise<CompactResult<T> | null> {
+  const tokensBefore = countMessageTokens(messages, opts.model)
+  if (tokensBefore <= opts.budget) return null
+  const pinned = Math.max(0, opts.pinned ?? 1)
+  const keepRecent = Math.max(1, opts.keepRecent ?? 4)
+  if (messages.length <= pinned + keepRecent) return null
+
+  const head = messages.slice(0, pinned)
+  const older = messages.slice(pinned, messages.length - keepRecent)
+  const recent = messages.slice(messages.length - keepRecent)
+  const transcript = truncateToTokens(
+    older.map((entry) => `[${entry.role}]\n${entry.content}`).join('\n\n'),
+    Math.max(1000, opts.budget),
+    opts.model,
+  )
+
+  let summary = ''
+  let usedFallback = false
+  try {
+    summary = (await opts.summarize(transcript)).trim()
+  } catch (err) {
+    console.warn(`[context] summarize.failed ${err instanceof Error ? err.message : String(err)}`)
+  }
+  if (!summary) {
+    summary = fallbackDigest(older)
+    usedFallback = true
+  }
+
+  const next = [...head, opts.makeSummary(summary, older), ...recent]
+  return {
+    messages: next,
+    summarized: older.length,
+    tokensBefore,
+    tokensAfter: countMessageTokens(next, opts.model),
+    usedFallback,
+  }
+}
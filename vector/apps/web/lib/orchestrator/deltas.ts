@@ -0,0 +1,136 @@
+import { pushChunk } from '../store/stream'
+import type { ProviderDelta } from './providers/streaming'
+
+// Coalesce provider deltas so a long generation doesn't flood the per-key chunk buffer
+const FLUSH_CHARS = 96
+const FLUSH_MS = 100
+
+/**
+ * Best-effort parse of a truncated JSON object (streamed tool arguments):
+ * closes open strings/objects/arrays. Returns undefined when still ambiguous.
+ */
+export function parsePartialJson(raw: string): unknown {
+  const text = raw.trim()
+  if (!text) return {}
+  try {
+    return JSON.parse(text)
+  } catch {}
+  const closers: string[] = []
+  let inString = false
+  let escaped = false
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false
+      else if (ch === '\\') escaped = true
+      else if (ch === '"') inString = false
+      continue
+    }
+    if (ch === '"') inString = true
+    else if (ch === '{') closers.push('}')
+    else if (ch === '[') closers.push(']')
+    else if (ch === '}' || ch === ']') closers.pop()
+  }
+  let candidate = escaped ? text.slice(0, -1) : text
+  if (inString) candidate += '"'
+  candidate = candidate.replace(/[,:]\s*$/, '')
+  candidate += closers.reverse().join('')
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Partially parse the last tool tag in streamed XML output. Completed child
+ * tags become string args; a still-open child carries its text so far.
+ */
+export function parsePartialToolXml(text: string, isToolName: (name: string) => boolean): { name: string; args: Record<string, string> } | null {
+  const openRe = /<([a-zA-Z_][\w]*)>/g
+  let name: string | undefined
+  let innerStart = -1
+  let m: RegExpExecArray | null
+  while ((m = openRe.exec(text))) {
+    if (isToolName(m[1])) {
+      name = m[1]
+      innerStart = m.index + m[0].length
+    }
+  }
+  if (!name) return null
+  let inner = text.slice(innerStart)
+  const close = inner.indexOf(`</${name}>`)
+  if (close >= 0) inner = inner.slice(0, close)
+
+  const args: Record<string, string> = {}
+  const pairRe = /<([a-zA-Z_][\w]*)>([\s\S]*?)<\/\1>/g
+  let consumed = 0
+  while ((m = pairRe.exec(inner))) {
+    args[m[1]] = m[2].trim()
+    consumed = m.index + m[0].length
+  }
+  const rest = inner.slice(consumed)
+  const open = /<([a-zA-Z_][\w]*)>([\s\S]*)$/.exec(rest)
+  if (open) {
+    // Drop a half-written closing tag at the end of the partial value
+    args[open[1]] = open[2].replace(/<\/?[\w]*$/, '').trim()
+  }
+  return { name, args }
+}
+
+export type DeltaEmitter = {
+  push: (delta: ProviderDelta) => void
+  flush: () => void
+}
+
+/**
+ * Forward provider deltas to the workflow stream as typed chunks:
+ *   assistant.delta {"turn":N,"text":"..."}
+ *   tool.delta {"turn":N,"index":I,"name":"...","args":{...}}
+ */
+export function createDeltaEmitter(streamKey: string, turn: number, isToolName: (name: string) => boolean): DeltaEmitter {
+  let pendingText = ''
+  let content = ''
+  let lastFlush = Date.now()
+  const nativeCalls = new Map<number, { name?: string; raw: string }>()
+  const dirtyCalls = new Set<number>()
+  const lastToolPayload = new Map<number, string>()
+
+  const emitTool = (index: number, name: string | undefined, args: unknown) => {
+    if (!name || args === undefined) return
+    const payload = JSON.stringify({ turn, index, name, args })
+    if (lastToolPayload.get(index) === payload) return
+    lastToolPayload.set(index, payload)
+    pushChunk(streamKey, `tool.delta ${payload}`)
+  }
+
+  const flush = () => {
+    lastFlush = Date.now()
+    if (pendingText) {
+      pushChunk(streamKey, `assistant.delta ${JSON.stringify({ turn, text: pendingText })}`)
+      pendingText = ''
+      // Text-mode tools arrive as XML inside the assistant text
+      if (nativeCalls.size === 0) {
+        const partial = parsePartialToolXml(content, isToolName)
+        if (partial) emitTool(0, partial.name, partial.args)
+      }
+    }
+    for (const index of Array.from(dirtyCalls)) {
+      const call = nativeCalls.get(index)
+      if (call) emitTool(index, call.name, parsePartialJson(call.raw))
+    }
+    dirtyCalls.clear()
+  }
+
+  const push = (delta: ProviderDelta) => {
+    if (delta.type === 'text') {
+      pendingText += delta.text
+      content += delta.text
+    } else {
+      nativeCalls.set(delta.index, { name: delta.name, raw: delta.arguments })
+      dirtyCalls.add(delta.index)
+    }
+    if (pendingText.length >= FLUSH_CHARS || Date.now() - lastFlush >= FLUSH_MS) flush()
+  }
+
+  return { push, flush }
+}
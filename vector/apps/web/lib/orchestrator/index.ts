@@ -1,7 +1,9 @@
 export type EditPos = { line: number; character: number }
 export type Edit = { start: EditPos; end: EditPos; text: string }
 
-type ProposalMeta = { meta?: { autoApproved?: boolean } }
+// revisionOf links a replacement to the rejected proposal it revises (see /api/proposals/[id]/revise)
+// autoApproveRule/autoApproveReason name the policy rule (or 'builtin') behind autoApproved
+type ProposalMeta = { meta?: { autoApproved?: boolean; autoApproveRule?: string; autoApproveReason?: string; revisionOf?: string } }
 
 export type EditAnchors = {
   startLineText?: string
@@ -33,7 +35,21 @@ export type ObjectOp =
   | { op: 'set_properties'; path: string; props: Record<string, unknown> }
   | { op: 'rename_instance'; path: string; newName: string }
   | { op: 'delete_instance'; path: string }
-export type ObjectProposal = ProposalMeta & { id: string; type: 'object_op'; ops: ObjectOp[]; notes?: string }
+  | { op: 'move_instance'; path: string; newParentPath: string }
+  | { op: 'clone_instance'; path: string; parentPath?: string; newName?: string }
+  | { op: 'set_attributes'; path: string; attributes: Record<string, unknown>; remove?: string[] }
+  | { op: 'add_tag'; path: string; tags: string[] }
+  | { op: 'remove_tag'; path: string; tags: string[] }
+export type ObjectProposal = ProposalMeta & {
+  id: string
+  type: 'object_op'
+  ops: ObjectOp[]
+  notes?: string
+  // Set for bulk_create so UIs can show "N × ClassName under parentPath" instead of every op
+  bulk?: { className: string; parentPath: string; count: number }
+  // Advisory notes such as new parts intersecting existing ones
+  warnings?: string[]
+}
 export type AssetProposal = ProposalMeta & {
   id: string
   type: 'asset_op'
@@ -51,18 +67,22 @@ export type Proposal = EditProposal | ObjectProposal | AssetProposal | Completio
 
 export type ChatInput = {
   projectId: string
+  // Task state, stream and usage key; defaults to projectId
+  workflowId?: string
   message: string
   context: {
     // activeScript can be undefined when Studio has no open script; provider can gather context via tools
     activeScript?: { path: string; text: string } | null
     selection?: { className: string; path: string }[]
     openDocs?: { path: string }[]
-    scene?: { nodes?: { path: string; className: string; name: string; parentPath?: string; props?: Record<string, unknown> }[] }
+    // Full snapshot or a delta against the task's scene version (see applySceneSync)
+    scene?: SceneSyncPayload
     codeDefinitions?: { file: string; line: number; name: string }[]
   }
   provider?: {
-    name: 'openai' | 'openrouter' | 'gemini' | 'bedrock' | 'nvidia'
-    apiKey: string
+    // Any registered provider (see providers/registry.ts); apiKey falls back to the provider's env keys
+    name: string
+    apiKey?: string
     model?: string
     baseUrl?: string
     region?: string
@@ -73,6 +93,12 @@ export type ChatInput = {
   mode?: 'ask' | 'agent'
   maxTurns?: number
   enableFallbacks?: boolean
+  // Aborts the in-flight provider request (including streamed generations)
+  signal?: AbortSignal
+  // Provider response cache mode for this run (defaults to VECTOR_PROVIDER_CACHE)
+  cacheMode?: ProviderCacheMode
+  // Set when re-running on a rejected proposal; copied into each new proposal's meta
+  revisionOf?: string
 }
 
 function id(prefix = 'p'): string {
@@ -102,18 +128,29 @@ function computeAnchors(baseText: string, edits: Edit[]): EditAnchors {
 }
 
 // Provider call
-import { callOpenAI } from './providers/openai'
-import { callOpenRouter } from './providers/openrouter'
-import { callGemini } from './providers/gemini'
-import { callBedrock } from './providers/bedrock'
-import { callNvidia } from './providers/nvidia'
+import { getProvider, isProviderConfigured, listProviders, readProviderEnv, resolveModelOwner, supportsNativeTools } from './providers'
+import type { ProviderDefinition, ProviderName } from './providers'
 import { z } from 'zod'
 import { Tools } from '../tools/schemas'
+import { buildToolSpecs } from '../tools/jsonSchema'
+import type { ToolSpec } from '../tools/jsonSchema'
+import type { ProviderResponse, ProviderToolCall } from './providers/openai'
+import { RunCancelledError } from '../store/runs'
+import { BudgetExceededError, assertWithinBudget, recordUsage } from '../store/usage'
+import { createDeltaEmitter } from './deltas'
+import { ProviderCacheMissError, providerCacheKey, readCachedResponse, replayDeltas, resolveCacheMode, writeCachedResponse } from './providers/cache'
+import type { ProviderCacheMode } from './providers/cache'
+import type { ProviderDelta } from './providers/streaming'
+import { classifyProviderError, isToolsUnsupportedError } from './providers/retry'
+import type { ProviderRetryInfo } from './providers/retry'
+import { priceUsage } from './pricing'
+import { SUMMARY_SYSTEM_PROMPT, compactMessages, countMessageTokens, countTokens, resolveContextBudget } from './context'
+import { getPolicy } from '../store/policies'
 import { setLastTool } from '../store/sessions'
 import { pushChunk } from '../store/stream'
 import { applyRangeEdits, simpleUnifiedDiff } from '../diff/rangeEdits'
 import crypto from 'node:crypto'
-import { ScriptPolicyState, TaskState, getTaskState as loadTaskState, updateTaskState } from './taskState'
+import { ChatMessage, ScriptPolicyState, TaskState, getTaskState as loadTaskState, updateTaskState } from './taskState'
 import { extractMentions } from '../context/mentions'
 import { listCodeDefinitionNames, searchFiles, setCodeDefinitionCache } from '../tools/codeIntel'
 import type { DefinitionInfo } from '../tools/codeIntel'
@@ -125,6 +162,7 @@ import {
   TOOL_REFERENCE,
   ROLE_SCOPE_GUIDE,
   EXAMPLES_POLICY,
+  NATIVE_TOOLS_GUIDE,
 } from './prompts/examples'
 import {
   buildInstancePath,
@@ -132,13 +170,20 @@ import {
   listSceneChildren,
   getSceneProperties,
   applyObjectOpsPreview,
-  hydrateSceneSnapshot,
+  applySceneSync,
+  hasSceneInstance,
+  sceneClassName,
 } from './sceneGraph'
-
-type ProviderMode = 'openai' | 'openrouter' | 'gemini' | 'bedrock' | 'nvidia'
+import type { SceneSyncPayload } from './sceneGraph'
+import { SelectorSyntaxError, findSceneInstances } from './sceneSelector'
+import { BulkCreateError, expandBulkCreate } from './bulkCreate'
+import { SpatialQueryError, findOpOverlaps, runSpatialQuery } from './sceneSpatial'
+import { normalizeProps } from '../tools/propertyValues'
+import type { PropertyIssue } from '../tools/propertyValues'
+import { checkCreatableClass, checkRobloxAttributes, checkRobloxProps } from '../tools/robloxApi'
 
 type ProviderSelection = {
-  mode: ProviderMode
+  mode: ProviderName
   apiKey: string
   model?: string
   baseUrl?: string
@@ -247,115 +292,50 @@ function stripCodeFences(text: string): string {
   cleaned = cleaned.replace(/^```(?:json)?/i, '').replace(/```$/i, '').trim()
   return cleaned
 }
-function determineProvider(opts: { input: ChatInput; modelOverride?: string | null }): ProviderSelection | null {
-  const { input, modelOverride } = opts
+function determineProvider(opts: { input: ChatInput; modelOverride?: string | null; keyless?: boolean }): ProviderSelection | null {
+  const { input, modelOverride, keyless } = opts
   const overrideRaw = normalizeString(modelOverride)
-  const overrideIsGemini = !!overrideRaw && overrideRaw.toLowerCase().startsWith('gemini')
-  const nvidiaKeyPresent = !!normalizeString(process.env.NVIDIA_API_KEY) || !!normalizeString(process.env.NVIDIA_VIM_API_KEY)
-  const bedrockKeyPresent = !!normalizeString(process.env.AWS_BEARER_TOKEN_BEDROCK) || !!normalizeString(process.env.AWS_BEDROCK_API_KEY)
-
-  // Vendor-style prefixes like "anthropic.", "qwen.", etc. strongly indicate Bedrock models
-  const overrideHasVendorPrefix = !!overrideRaw && /^(anthropic|qwen|mistral|meta|cohere|ai21|amazon)\./i.test(overrideRaw)
-  const overrideLooksVersioned = !!overrideRaw && /:\d|:v\d/i.test(overrideRaw)
-  const overrideExplicitBedrock = !!overrideRaw && /^bedrock:/i.test(overrideRaw)
-  const overrideIsBedrock = !!overrideRaw && !overrideIsGemini && (overrideHasVendorPrefix || overrideLooksVersioned || overrideExplicitBedrock)
-
-  // Treat NVIDIA-style overrides as those without vendor prefix/version and that look like NVIDIA/NIM/Qwen3
-  const overrideIsNvidia = !!overrideRaw && !overrideIsBedrock && (/^qwen3/i.test(overrideRaw) || /\bnim\b/i.test(overrideRaw) || /\bnvidia\b/i.test(overrideRaw) || /qwen-?coder/i.test(overrideRaw))
+  const overrideOwner = resolveModelOwner(overrideRaw)
+  const requested = getProvider(input.provider?.name)
   const defaultProviderEnv = normalizeString(process.env.VECTOR_DEFAULT_PROVIDER)?.toLowerCase()
   const forceOpenRouter = (process.env.VECTOR_USE_OPENROUTER || '0') === '1'
   const debug = (process.env.VECTOR_DEBUG || process.env.PROVIDER_DEBUG || '0') === '1'
 
-  const keys = {
-    openai:     !!normalizeString(process.env.OPENAI_API_KEY),
-    openrouter: !!normalizeString(process.env.OPENROUTER_API_KEY),
-    gemini:     !!normalizeString(process.env.GEMINI_API_KEY),
-    bedrock:    bedrockKeyPresent,
-    nvidia:     nvidiaKeyPresent,
-  }
-
-  const preference: ProviderMode[] = []
-  if (overrideRaw) preference.push(overrideIsGemini ? 'gemini' : (overrideIsBedrock ? 'bedrock' : (overrideIsNvidia ? 'nvidia' : 'openai')))
-  if (input.provider?.name === 'openai') preference.push('openai')
-  if (input.provider?.name === 'gemini') preference.push('gemini')
-  if (input.provider?.name === 'openrouter') preference.push('openrouter')
-  if ((input as any).provider?.name === 'bedrock') preference.push('bedrock')
-  if ((input as any).provider?.name === 'nvidia') preference.push('nvidia')
-  if (defaultProviderEnv === 'openai') preference.push('openai')
-  if (defaultProviderEnv === 'gemini') preference.push('gemini')
-  if (defaultProviderEnv === 'openrouter') preference.push('openrouter')
-  if (defaultProviderEnv === 'bedrock') preference.push('bedrock')
-  if (defaultProviderEnv === 'nvidia') preference.push('nvidia')
-  if (forceOpenRouter) preference.push('openrouter')
-  // Ensure we eventually try all providers as fallbacks in a deterministic order
-  preference.push('openai', 'gemini', 'nvidia', 'bedrock', 'openrouter')
-
-  const ordered: ProviderMode[] = []
-  for (const mode of preference) {
-    if (!ordered.includes(mode)) ordered.push(mode)
-  }
-  if (debug) console.log(`[provider.select] override=${overrideRaw || 'none'} default=${defaultProviderEnv || 'none'} keys=${JSON.stringify(keys)} order=${ordered.join('>')}`)
-
-  for (const mode of ordered) {
-    if (mode === 'openai') {
-      const providerInput = input.provider?.name === 'openai' ? input.provider : undefined
-      const apiKey = normalizeString(providerInput?.apiKey) || normalizeString(process.env.OPENAI_API_KEY)
-      if (!apiKey) continue
-      const model =
-        normalizeString(providerInput?.model) ||
-        (overrideRaw && !overrideIsGemini && !overrideIsBedrock && !overrideIsNvidia ? overrideRaw : undefined) ||
-        normalizeString(process.env.OPENAI_MODEL)
-      const baseUrl = normalizeString(providerInput?.baseUrl) || normalizeString(process.env.OPENAI_API_BASE_URL)
-      return { mode, apiKey, model, baseUrl }
-    }
-
-    if (mode === 'openrouter') {
-      const providerInput = input.provider?.name === 'openrouter' ? input.provider : undefined
-      const apiKey = normalizeString(providerInput?.apiKey) || normalizeString(process.env.OPENROUTER_API_KEY)
-      if (!apiKey) continue
-      const model =
-        normalizeString(providerInput?.model) ||
-        (overrideRaw && !overrideIsGemini ? overrideRaw : undefined) ||
-        normalizeString(process.env.OPENROUTER_MODEL)
-      const baseUrl = normalizeString(providerInput?.baseUrl)
-      return { mode, apiKey, model, baseUrl }
-    }
-
-    if (mode === 'gemini') {
-      const providerInput = input.provider?.name === 'gemini' ? input.provider : undefined
-      const apiKey = normalizeString(providerInput?.apiKey) || normalizeString(process.env.GEMINI_API_KEY)
-      if (!apiKey) continue
-      const model =
-        normalizeString(providerInput?.model) ||
-        (overrideIsGemini ? overrideRaw : undefined) ||
-        normalizeString(process.env.GEMINI_MODEL)
-      const baseUrl = normalizeString(providerInput?.baseUrl) || normalizeString(process.env.GEMINI_API_BASE_URL)
-      return { mode, apiKey, model, baseUrl }
-    }
-
-    if (mode === 'bedrock') {
-      const providerInput = (input as any).provider?.name === 'bedrock' ? ((input as any).provider as any) : undefined
-      const apiKey = normalizeString(providerInput?.apiKey) || normalizeString(process.env.AWS_BEARER_TOKEN_BEDROCK) || normalizeString(process.env.AWS_BEDROCK_API_KEY)
-      if (!apiKey) continue
-      const model =
-        normalizeString(providerInput?.model) ||
-        (overrideIsBedrock ? overrideRaw : undefined) ||
-        normalizeString(process.env.BEDROCK_MODEL) ||
-        normalizeString(process.env.AWS_BEDROCK_MODEL)
-      const region = normalizeString((providerInput as any)?.region) || normalizeString(process.env.AWS_BEDROCK_REGION)
-      return { mode, apiKey, model, region }
-    }
-
-    if (mode === 'nvidia') {
-      const providerInput = (input as any).provider?.name === 'nvidia' ? ((input as any).provider as any) : undefined
-      const apiKey = normalizeString(providerInput?.apiKey) || normalizeString(process.env.NVIDIA_API_KEY) || normalizeString(process.env.NVIDIA_VIM_API_KEY)
-      if (!apiKey) continue
-      const model = normalizeString(providerInput?.model) || (overrideIsNvidia ? overrideRaw : undefined) || normalizeString(process.env.NVIDIA_MODEL)
-      const baseUrl = normalizeString(providerInput?.baseUrl) || normalizeString(process.env.NVIDIA_API_BASE_URL)
-      const deploymentId = normalizeString((providerInput as any)?.deploymentId) || normalizeString(process.env.NVIDIA_DEPLOYMENT_ID)
-      if (debug) console.log(`[provider.select] choose=nvidia model=${model || 'default'} base=${baseUrl || 'default'} deployment=${deploymentId || 'none'}`)
-      return { mode, apiKey, model, baseUrl, deploymentId }
+  const preference: (ProviderDefinition | undefined)[] = [
+    overrideOwner,
+    requested,
+    getProvider(defaultProviderEnv),
+    forceOpenRouter ? getProvider('openrouter') : undefined,
+    // Ensure we eventually try all providers as fallbacks in a deterministic order
+    ...listProviders(),
+  ]
+  const ordered: ProviderDefinition[] = []
+  for (const def of preference) {
+    if (def && !ordered.includes(def)) ordered.push(def)
+  }
+  if (debug) {
+    const keys = Object.fromEntries(ordered.map((def) => [def.name, !!readProviderEnv(def, 'apiKey')]))
+    console.log(`[provider.select] override=${overrideRaw || 'none'} owner=${overrideOwner?.name || 'none'} default=${defaultProviderEnv || 'none'} keys=${JSON.stringify(keys)} order=${ordered.map((def) => def.name).join('>')}`)
+  }
+
+  for (const def of ordered) {
+    const providerInput = requested === def ? input.provider : undefined
+    const apiKey = normalizeString(providerInput?.apiKey) || readProviderEnv(def, 'apiKey')
+    // Key-less (self-hosted) providers join the chain once configured, or when requested explicitly.
+    // Cache replays never reach the network, so any provider can serve them.
+    if (!keyless && (def.requiresApiKey === false ? !providerInput && !isProviderConfigured(def) : !apiKey)) continue
+    const overrideAccepted = !!overrideRaw && !!overrideOwner && (def.acceptsModel ? def.acceptsModel(overrideRaw, overrideOwner.name) : overrideOwner === def)
+    const model = normalizeString(providerInput?.model) || (overrideAccepted ? overrideRaw : undefined) || readProviderEnv(def, 'model')
+    const selection: ProviderSelection = {
+      mode: def.name,
+      apiKey: apiKey || '',
+      model,
+      baseUrl: normalizeString(providerInput?.baseUrl) || readProviderEnv(def, 'baseUrl'),
+      region: normalizeString(providerInput?.region) || readProviderEnv(def, 'region'),
+      deploymentId: normalizeString(providerInput?.deploymentId) || readProviderEnv(def, 'deploymentId'),
     }
+    if (debug) console.log(`[provider.select] choose=${def.name} model=${model || 'default'} base=${selection.baseUrl || 'default'}`)
+    return selection
   }
 
   return null
@@ -364,14 +344,14 @@ function determineProvider(opts: { input: ChatInput; modelOverride?: string | nu
 const PROMPT_SECTIONS = [
   `You are Vector, a Roblox Studio copilot.`,
   `Core rules
-- One tool per turn: emit EXACTLY ONE tool tag. It must be the last output (ignoring trailing whitespace). Wait for the tool result before continuing.
+- Tools per turn: emit one tool tag, or several back-to-back tags when the calls are independent (e.g., multiple list_children/get_properties lookups). Tool tags must be the last output (ignoring trailing whitespace). Batched calls come back together in one TOOL_RESULTS message; wait for it before continuing.
 - Proposal-first and undoable: never change code/Instances outside a tool; keep each step small and reviewable.
 - Plan when work spans multiple steps. For a single obvious action you may act without <start_plan>.
-- Keep responses to that single tool tag (no markdown or invented tags). Optional brief explanatory text may appear before the tag when allowed.` ,
+- Keep responses to the tool tag(s) (no markdown or invented tags). Optional brief explanatory text may appear before the tag when allowed.` ,
   `Planning details
 - For non-trivial tasks, your <start_plan> MUST list detailed, tool-specific steps (8–15 typical): include the tool name, exact target (class/path/name), and the intended outcome. Example: "Create Model 'Base' under game.Workspace", "Search assets query='barracks'", "Insert asset 12345 under game.Workspace.Base", "Set CFrame for 'Gate' to (0,0,50)", "Open or create Script 'BaseBuilder'", "Show diff to add idempotent Luau".`,
   `Default Script Policy
-- Whenever you create, modify, or insert Instances (create_instance/set_properties/rename_instance/delete_instance/insert_asset/generate_asset_3d), you must author Luau that rebuilds the result before completing.
+- Whenever you create, modify, or insert Instances (create_instance/bulk_create/set_properties/set_attributes/add_tag/remove_tag/rename_instance/move_instance/clone_instance/delete_instance/insert_asset/generate_asset_3d), you must author Luau that rebuilds the result before completing.
 - Preferred flow: open_or_create_script → show_diff (or apply_edit when already previewed). Scripts must be valid, idempotent, and set Anchored/props explicitly.
 - Skip Luau only when the user explicitly opts out (e.g., "geometry only", "no script", "no code"). Otherwise completion is blocked.`,
   `Tool calls
@@ -396,7 +376,7 @@ const PROMPT_SECTIONS = [
   - insert_asset defaults parentPath to game.Workspace if unknown. Before creating or inserting, inspect existing children (list_children) and skip duplicates when names/roles already exist.`,
   `Scene building
   - Always think through the layout before acting: use <start_plan> to outline the main structures, then execute steps one tool at a time.
-  - Inspect what already exists. If nothing is selected, call <list_children> on game.Workspace (depth 1–2) to inventory the scene; also use <list_selection> and <get_active_script>. Reuse or extend Models instead of duplicating them.
+  - Inspect what already exists. If nothing is selected, call <list_children> on game.Workspace (depth 1–2) to inventory the scene; also use <list_selection> and <get_active_script>. Use <find_instances> to locate specific instances anywhere in the tree (by class, name, property, tag or attribute). Reuse or extend Models instead of duplicating them. Use <spatial_query> (bounds, near, overlaps, ground) to place new parts beside or on top of existing ones without intersecting them.
   - Build geometry iteratively with create_instance/set_properties, anchoring parts and setting Size/CFrame so progress is visible in Workspace.
   - Only switch to scripting when the user explicitly wants reusable code or behaviour. Otherwise stay in direct manipulation mode.`,
   `Quality checks
@@ -405,7 +385,7 @@ const PROMPT_SECTIONS = [
 - Created Models must contain anchored, visible parts or code that produces them.`,
   `Validation & recovery
 - On VALIDATION_ERROR, retry the SAME tool once with corrected args (no commentary or tool switching).
-- If you would otherwise reply with no tool, either choose exactly one tool or finish with <complete>.`,
+- If you would otherwise reply with no tool, either choose a tool or finish with <complete>.`,
 String.raw`Quick examples
 Detailed plan (assets-first)
 <start_plan>
@@ -605,6 +585,35 @@ export function parseToolXML(text: string): ParsedTool | null {
   return { name, args, prefixText, suffixText, innerRaw: inner }
 }
 
+/**
+ * Parse consecutive tool tags emitted in one turn. Only known tool names extend
+ * the batch; text between tags becomes the next tool's prefix.
+ */
+export function parseToolBatchXML(text: string): ParsedTool[] {
+  const first = parseToolXML(text)
+  if (!first) return []
+  const batch: ParsedTool[] = [first]
+  if (!Object.prototype.hasOwnProperty.call(Tools, first.name)) return batch
+  const MAX_BATCH = 16
+  let last = first
+  while (batch.length < MAX_BATCH) {
+    const next = parseToolXML(last.suffixText)
+    if (!next || !Object.prototype.hasOwnProperty.call(Tools, next.name)) break
+    last.suffixText = ''
+    batch.push(next)
+    last = next
+  }
+  return batch
+}
+
+function parseNativeToolCall(call: ProviderToolCall, content: string): ParsedTool | null {
+  const name = typeof call?.name === 'string' ? call.name.trim() : ''
+  if (!name) return null
+  const raw = typeof call.arguments === 'string' ? coercePrimitive(call.arguments) : call.arguments
+  const args = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, any>) : {}
+  return { name, args, prefixText: content || '', suffixText: '', innerRaw: JSON.stringify(args) }
+}
+
 function parseXmlObject(input: string): Record<string, any> | null {
   if (typeof input !== 'string') return null
   const s = input.trim()
@@ -728,9 +737,86 @@ type MapToolExtras = {
   recordPlanUpdate?: (update: { completedStep?: string; nextStep?: string; notes?: string }) => void
   userOptedOut?: boolean
   geometryTracker?: { sawCreate: boolean; sawParts: boolean }
+  // Indexed lookup in the task's scene graph (accepts paths with or without "game.")
+  sceneHas?: (path: string) => boolean
+  // ClassName of a known instance, used to pick property datatypes (e.g. UDim2 Size on GUI objects)
+  sceneClassOf?: (path: string) => string | undefined
+  // Parts the ops would push into existing parts (sceneSpatial.findOpOverlaps)
+  overlapWarnings?: (ops: ObjectOp[]) => string[]
 }
 
-type MapResult = { proposals: Proposal[]; missingContext?: string; contextResult?: any }
+// Overlaps are reported on the proposal, not rejected: intersecting parts are sometimes intended
+function withOverlapWarnings(proposal: ObjectProposal, extras?: MapToolExtras): ObjectProposal {
+  const warnings = extras?.overlapWarnings?.(proposal.ops) || []
+  if (warnings.length === 0) return proposal
+  console.warn(`[orch] spatial.overlap ${warnings.join('; ')}`)
+  return { ...proposal, warnings }
+}
+
+// Converts loosely written values ("1,2,3", Color3.fromRGB(...), "Enum.Material.Brick") to the plugin's tagged form
+function normalizeToolProps(props: Record<string, unknown>, className?: string): Record<string, unknown> {
+  const { props: normalized, issues } = normalizeProps(props, className)
+  if (issues.length > 0) logPropertyIssues(issues, className)
+  return normalized
+}
+
+function logPropertyIssues(issues: PropertyIssue[], className?: string) {
+  const summary = issues.map((issue) => `${issue.key}:${issue.expected}`).join(', ')
+  console.warn(`[orch] unparsed property values${className ? ` on ${className}` : ''}: ${summary}`)
+}
+
+// validationError: the ops were rejected against the Roblox API dump; surfaced to the model as VALIDATION_ERROR
+type MapResult = { proposals: Proposal[]; missingContext?: string; contextResult?: any; validationError?: string }
+
+// Models for Workspace ancestors of parentPath that do not exist yet (create_instance, bulk_create)
+function missingAncestorOps(parentPath: string, input: ChatInput, extras?: MapToolExtras): ObjectOp[] {
+  const ops: ObjectOp[] = []
+  // Paths created by this call; everything else is looked up in the indexed scene graph
+  const known = new Set<string>()
+  let isKnown = (p: string) => known.has(p) || !!extras?.sceneHas?.(p)
+  if (!extras?.sceneHas) {
+    // No task scene available: fall back to the request snapshot, with and without 'game.' for services
+    const nodes = Array.isArray(input.context.scene?.nodes) ? input.context.scene!.nodes! : []
+    const SERVICE_PREFIXES = ['Workspace','ReplicatedStorage','ServerStorage','StarterGui','StarterPack','StarterPlayer','Lighting','Teams','SoundService','TextService','CollectionService']
+    for (const n of nodes) {
+      if (!n || typeof (n as any).path !== 'string') continue
+      const p = (n as any).path as string
+      known.add(p)
+      const head = p.split('.')[0]
+      if (SERVICE_PREFIXES.includes(head)) known.add(`game.${p}`)
+    }
+    isKnown = (p: string) => known.has(p)
+  }
+
+  const looksLikeWorkspace = /^game\.Workspace(?:\.|$)/i.test(parentPath) || /^Workspace(?:\.|$)/.test(parentPath)
+  if (looksLikeWorkspace) {
+    // Walk up and create missing ancestors as Models under Workspace
+    const chain: { parent: string; name: string }[] = []
+    let cur = parentPath
+    let guard = 0
+    while (cur && !isKnown(cur) && guard++ < 10) {
+      const noGame = cur.replace(/^game\./, '')
+      if (isKnown(noGame)) break
+      const split = splitInstancePath(cur)
+      const inferredParent = split.parentPath || 'game.Workspace'
+      const inferredName = split.name || 'Model'
+      if (/^game\.Workspace$/i.test(inferredParent) || /^Workspace$/i.test(inferredParent)) {
+        const normalizedParent = /^Workspace$/i.test(inferredParent) ? 'game.Workspace' : inferredParent
+        chain.push({ parent: normalizedParent, name: inferredName })
+      }
+      if (!split.parentPath || /^game\.Workspace$/i.test(split.parentPath) || /^Workspace$/i.test(split.parentPath)) break
+      cur = split.parentPath
+    }
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const seg = chain[i]
+      ops.push({ op: 'create_instance', className: 'Model', parentPath: seg.parent, props: { Name: seg.name } })
+      const createdPath = buildInstancePath(seg.parent.replace(/^game\./, ''), seg.name).replace(/^Workspace\./, 'Workspace.')
+      known.add(createdPath)
+      known.add(`game.${createdPath}`)
+    }
+  }
+  return ops
+}
 
 function mapToolToProposals(
   name: string,
@@ -839,51 +925,17 @@ function mapToolToProposals(
     const parentPath: string | undefined = (a as any).parentPath
     if (typeof (a as any).className === 'string' && parentPath) {
       const childClass = (a as any).className as string
-      const childProps = (a as any).props as Record<string, unknown> | undefined
-      const ops: ObjectOp[] = []
-
-      // Build known scene paths, with and without 'game.' prefix for services
-      const nodes = Array.isArray(input.context.scene?.nodes) ? input.context.scene!.nodes! : []
-      const known = new Set<string>()
-      const SERVICE_PREFIXES = ['Workspace','ReplicatedStorage','ServerStorage','StarterGui','StarterPack','StarterPlayer','Lighting','Teams','SoundService','TextService','CollectionService']
-      for (const n of nodes) {
-        if (!n || typeof (n as any).path !== 'string') continue
-        const p = (n as any).path as string
-        known.add(p)
-        const head = p.split('.')[0]
-        if (SERVICE_PREFIXES.includes(head)) known.add(`game.${p}`)
-      }
-
-      const looksLikeWorkspace = /^game\.Workspace(?:\.|$)/i.test(parentPath) || /^Workspace(?:\.|$)/.test(parentPath)
-      if (looksLikeWorkspace) {
-        // Walk up and create missing ancestors as Models under Workspace
-        const chain: { parent: string; name: string }[] = []
-        let cur = parentPath
-        let guard = 0
-        while (cur && !known.has(cur) && guard++ < 10) {
-          const noGame = cur.replace(/^game\./, '')
-          if (known.has(noGame)) break
-          const split = splitInstancePath(cur)
-          const inferredParent = split.parentPath || 'game.Workspace'
-          const inferredName = split.name || 'Model'
-          if (/^game\.Workspace$/i.test(inferredParent) || /^Workspace$/i.test(inferredParent)) {
-            const normalizedParent = /^Workspace$/i.test(inferredParent) ? 'game.Workspace' : inferredParent
-            chain.push({ parent: normalizedParent, name: inferredName })
-          }
-          if (!split.parentPath || /^game\.Workspace$/i.test(split.parentPath) || /^Workspace$/i.test(split.parentPath)) break
-          cur = split.parentPath
-        }
-        for (let i = chain.length - 1; i >= 0; i--) {
-          const seg = chain[i]
-          ops.push({ op: 'create_instance', className: 'Model', parentPath: seg.parent, props: { Name: seg.name } })
-          const createdPath = buildInstancePath(seg.parent.replace(/^game\./, ''), seg.name).replace(/^Workspace\./, 'Workspace.')
-          known.add(createdPath)
-          known.add(`game.${createdPath}`)
-        }
+      const classError = checkCreatableClass(childClass)
+      if (classError) return { proposals, validationError: classError }
+      let childProps = (a as any).props ? normalizeToolProps((a as any).props, childClass) : undefined
+      if (childProps) {
+        const checked = checkRobloxProps(childClass, childProps)
+        if (checked.errors.length > 0) return { proposals, validationError: checked.errors.join('\n') }
+        childProps = checked.props
       }
-
+      const ops = missingAncestorOps(parentPath, input, extras)
       ops.push({ op: 'create_instance', className: childClass, parentPath, props: childProps })
-      proposals.push({ id: id('obj'), type: 'object_op', ops, notes: 'Parsed from create_instance' })
+      proposals.push(withOverlapWarnings({ id: id('obj'), type: 'object_op', ops, notes: 'Parsed from create_instance' }, extras))
       if (extras?.geometryTracker) {
         extras.geometryTracker.sawCreate = true
         extras.geometryTracker.sawParts ||= PART_CLASS_NAMES.has(childClass)
@@ -899,10 +951,49 @@ function mapToolToProposals(
     }
     if (!parentPath) return { proposals, missingContext: 'Need parent selection to create instance.' }
   }
+  if (name === 'bulk_create') {
+    const parentPath: string | undefined = (a as any).parentPath
+    const className: string = (a as any).className
+    if (!parentPath) return { proposals, missingContext: 'Need parent selection to create instances.' }
+    const classError = checkCreatableClass(className)
+    if (classError) return { proposals, validationError: classError }
+    let expanded
+    try {
+      expanded = expandBulkCreate({ className, parentPath, count: (a as any).count, columns: (a as any).columns, props: (a as any).props, cycle: (a as any).cycle })
+    } catch (err) {
+      if (err instanceof BulkCreateError) return { proposals, validationError: err.message }
+      throw err
+    }
+    const ops = missingAncestorOps(parentPath, input, extras)
+    for (const [index, op] of expanded.entries()) {
+      const checked = checkRobloxProps(className, normalizeToolProps(op.props, className))
+      if (checked.errors.length > 0) return { proposals, validationError: `Instance ${index} (${String(op.props.Name)}): ${checked.errors.join('\n')}` }
+      ops.push({ ...op, props: checked.props })
+    }
+    proposals.push(withOverlapWarnings({
+      id: id('obj'),
+      type: 'object_op',
+      ops,
+      notes: `Parsed from bulk_create (${expanded.length} × ${className})`,
+      bulk: { className, parentPath, count: expanded.length },
+    }, extras))
+    if (extras?.geometryTracker) {
+      extras.geometryTracker.sawCreate = true
+      extras.geometryTracker.sawParts ||= PART_CLASS_NAMES.has(className)
+    }
+    return { proposals }
+  }
   if (name === 'set_properties') {
     if (typeof (a as any).path === 'string' && (a as any).props && typeof (a as any).props === 'object') {
-      const op: ObjectOp = { op: 'set_properties', path: (a as any).path, props: (a as any).props }
-      proposals.push({ id: id('obj'), type: 'object_op', ops: [op], notes: 'Parsed from set_properties' })
+      const className = extras?.sceneClassOf?.((a as any).path)
+      let nextProps = normalizeToolProps((a as any).props, className)
+      if (className) {
+        const checked = checkRobloxProps(className, nextProps)
+        if (checked.errors.length > 0) return { proposals, validationError: checked.errors.join('\n') }
+        nextProps = checked.props
+      }
+      const op: ObjectOp = { op: 'set_properties', path: (a as any).path, props: nextProps }
+      proposals.push(withOverlapWarnings({ id: id('obj'), type: 'object_op', ops: [op], notes: 'Parsed from set_properties' }, extras))
       if (extras?.geometryTracker) {
         const props = (a as any).props || {}
         extras.geometryTracker.sawParts ||= ['Size', 'CFrame', 'Position', 'Anchored', 'Transparency', 'Color', 'Shape', 'Material'].some((key) => Object.prototype.hasOwnProperty.call(props, key))
@@ -923,6 +1014,61 @@ function mapToolToProposals(
     }
     return { proposals, missingContext: 'Need selected instance to rename.' }
   }
+  if (name === 'move_instance') {
+    const path = ensurePath()
+    const newParentPath: string | undefined = (a as any).newParentPath
+    if (path && newParentPath) {
+      if (/^game(\.[A-Za-z]+Service|\.DataModel)?$/.test(path) || /^(game\.)?Workspace$/.test(path)) {
+        return { proposals, validationError: `Cannot move ${path}; services stay where they are.` }
+      }
+      const bare = (p: string) => p.replace(/^game\./, '')
+      if (bare(newParentPath) === bare(path) || bare(newParentPath).startsWith(`${bare(path)}.`)) {
+        return { proposals, validationError: `Cannot move ${path} into itself or one of its descendants.` }
+      }
+      proposals.push({ id: id('obj'), type: 'object_op', ops: [{ op: 'move_instance', path, newParentPath }], notes: 'Parsed from move_instance' })
+      const source = extras?.getScriptSource?.(path)
+      if (source !== undefined) extras?.recordScriptSource?.(buildInstancePath(newParentPath, splitInstancePath(path).name), source)
+      return { proposals }
+    }
+    return { proposals, missingContext: 'Need selected instance and newParentPath to move.' }
+  }
+  if (name === 'clone_instance') {
+    const path = ensurePath()
+    if (path) {
+      const source = splitInstancePath(path)
+      const parentPath: string | undefined = (a as any).parentPath || undefined
+      let newName: string | undefined = (a as any).newName || undefined
+      // A same-named sibling would be indistinguishable by path; name the copy like Studio's "Copy"
+      const sameParent = !parentPath || (source.parentPath || '').replace(/^game\./, '') === parentPath.replace(/^game\./, '')
+      if (sameParent && (!newName || newName === source.name)) newName = `${source.name}Copy`
+      const op: ObjectOp = { op: 'clone_instance', path, ...(parentPath ? { parentPath } : {}), ...(newName ? { newName } : {}) }
+      proposals.push({ id: id('obj'), type: 'object_op', ops: [op], notes: 'Parsed from clone_instance' })
+      const text = extras?.getScriptSource?.(path)
+      const targetParent = parentPath || source.parentPath
+      if (text !== undefined && targetParent) extras?.recordScriptSource?.(buildInstancePath(targetParent, newName || source.name), text)
+      return { proposals }
+    }
+    return { proposals, missingContext: 'Need selected instance to clone.' }
+  }
+  if (name === 'set_attributes') {
+    const path: string | undefined = (a as any).path
+    if (!path) return { proposals, missingContext: 'Need selected instance to set attributes.' }
+    const checked = checkRobloxAttributes((a as any).attributes || {})
+    if (checked.errors.length > 0) return { proposals, validationError: checked.errors.join('\n') }
+    const remove: string[] = ((a as any).remove || []).filter((attr: string) => !(attr in checked.attributes))
+    const op: ObjectOp = { op: 'set_attributes', path, attributes: checked.attributes, ...(remove.length ? { remove } : {}) }
+    proposals.push({ id: id('obj'), type: 'object_op', ops: [op], notes: 'Parsed from set_attributes' })
+    return { proposals }
+  }
+  if (name === 'add_tag' || name === 'remove_tag') {
+    const path: string | undefined = (a as any).path
+    if (!path) return { proposals, missingContext: `Need selected instance to ${name === 'add_tag' ? 'tag' : 'untag'}.` }
+    const tags: string[] = (a as any).tags
+    const invalid = tags.filter((tag) => tag.length > 100)
+    if (invalid.length > 0) return { proposals, validationError: `Tags must be at most 100 characters: ${invalid.map((t) => `"${t.slice(0, 20)}…"`).join(', ')}` }
+    proposals.push({ id: id('obj'), type: 'object_op', ops: [{ op: name, path, tags }], notes: `Parsed from ${name}` })
+    return { proposals }
+  }
   if (name === 'delete_instance') {
     // Use selection-derived defaults when available
     const path = ensurePath(input.context.selection && input.context.selection.length === 1 ? input.context.selection[0].path : undefined)
@@ -1160,7 +1306,7 @@ function proposalTouchesGeometry(proposal: Proposal): boolean {
         if (isScriptPath && hasSource) return false
         return true
       }
-      if (op.op === 'rename_instance' || op.op === 'delete_instance') {
+      if (op.op === 'rename_instance' || op.op === 'delete_instance' || op.op === 'move_instance' || op.op === 'clone_instance') {
         return !isLuauScriptPath(op.path)
       }
       return false
@@ -1174,7 +1320,187 @@ function proposalTouchesGeometry(proposal: Proposal): boolean {
   return false
 }
 
-export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[]; taskState: TaskState; tokenTotals: { in: number; out: number } }> {
+// Read-only discovery tools answered from request context or the server-side scene graph.
+const CONTEXT_TOOL_NAMES = new Set([
+  'get_active_script',
+  'list_selection',
+  'list_open_documents',
+  'list_children',
+  'find_instances',
+  'get_properties',
+  'spatial_query',
+  'list_code_definition_names',
+  'search_files',
+])
+
+// Tools that never mutate code or Instances (exempt from VECTOR_REQUIRE_PLAN).
+const NON_ACTION_TOOL_NAMES = new Set([
+  ...Array.from(CONTEXT_TOOL_NAMES),
+  'start_plan',
+  'update_plan',
+  'message',
+  'final_message',
+  'complete',
+  'attempt_completion',
+  'open_or_create_script',
+])
+
+const PLAN_TOOL_NAMES = new Set(['start_plan', 'update_plan'])
+
+function isFinalPhaseTool(name: string, args: Record<string, any>): boolean {
+  return (
+    name === 'complete' ||
+    name === 'final_message' ||
+    name === 'attempt_completion' ||
+    (name === 'message' && typeof args.phase === 'string' && args.phase.toLowerCase() === 'final')
+  )
+}
+
+// Normalize arguments for common flexible encodings
+function normalizeToolArgs(toolName: string, args: Record<string, any>, innerRaw?: string): Record<string, any> {
+  let a = args
+  if ((toolName === 'create_instance' || toolName === 'set_properties') && typeof (a as any).props === 'string') {
+    const parsedProps = parseXmlObject(String((a as any).props))
+    if (parsedProps && typeof parsedProps === 'object' && Object.keys(parsedProps).length > 0) {
+      a = { ...a, props: parsedProps }
+    }
+  }
+  if (toolName === 'list_children') {
+    const cwRaw = (a as any).classWhitelist
+    const cw = toClassWhitelist(cwRaw)
+    if (cw) a = { ...a, classWhitelist: cw }
+  }
+  if (toolName === 'final_message') {
+    if (!(a as any).text) {
+      const alias = (a as any).result ?? (a as any).summary
+      if (typeof alias === 'string') a = { ...a, text: alias }
+      else if (typeof innerRaw === 'string' && innerRaw.trim().length > 0 && !/[<][a-zA-Z_]/.test(innerRaw)) {
+        a = { ...a, text: innerRaw.trim() }
+      }
+    }
+  }
+  return a
+}
+
+// Fill selection/active-script defaults before schema validation
+function applyToolArgDefaults(
+  toolName: string,
+  args: Record<string, any>,
+  ctx: { input: ChatInput; selPath?: string; selIsContainer: boolean },
+): Record<string, any> {
+  const { input, selPath, selIsContainer } = ctx
+  let a = args
+  if ((toolName === 'show_diff' || toolName === 'apply_edit') && !a.path && input.context.activeScript?.path) {
+    a = { ...a, path: input.context.activeScript.path }
+  }
+  if (toolName === 'show_diff' || toolName === 'apply_edit') {
+    const filesRaw = Array.isArray((a as any).files) ? (a as any).files : undefined
+    if (filesRaw) {
+      const files = filesRaw.map((entry: any) => {
+        if (!entry || typeof entry !== 'object') return entry
+        const edits = normalizeEditsPayload((entry as any).edits)
+        return edits ? { ...entry, edits } : entry
+      })
+      a = { ...a, files }
+    }
+
+    const normalizedEdits = normalizeEditsPayload((a as any).edits)
+    if (normalizedEdits) {
+      a = { ...a, edits: normalizedEdits }
+    }
+  }
+  if ((toolName === 'rename_instance' || toolName === 'set_properties' || toolName === 'delete_instance' || toolName === 'move_instance' || toolName === 'clone_instance' || toolName === 'set_attributes' || toolName === 'add_tag' || toolName === 'remove_tag') && !a.path && selPath) {
+    a = { ...a, path: selPath }
+  }
+  if ((toolName === 'create_instance' || toolName === 'bulk_create') && !('parentPath' in a)) {
+    a = { ...a, parentPath: selIsContainer ? selPath! : 'game.Workspace' }
+  }
+  if (toolName === 'insert_asset' && !('parentPath' in a)) {
+    a = { ...a, parentPath: selIsContainer ? selPath! : 'game.Workspace' }
+  }
+  return a
+}
+
+type ContextToolOutcome = { ok: true; result: any } | { ok: false; error: string }
+
+async function runContextTool(name: string, a: Record<string, any>, taskState: TaskState, input: ChatInput): Promise<ContextToolOutcome> {
+  let result: any
+  if (name === 'get_active_script') {
+    result = input.context.activeScript || null
+  } else if (name === 'list_selection') {
+    result = input.context.selection || []
+  } else if (name === 'list_open_documents') {
+    result = input.context.openDocs || []
+  } else if (name === 'list_children') {
+    const parentPath = typeof (a as any).parentPath === 'string' ? (a as any).parentPath : undefined
+    if (!parentPath) return { ok: false, error: 'parentPath is required' }
+    const depth = typeof (a as any).depth === 'number' ? (a as any).depth : undefined
+    const maxNodes = typeof (a as any).maxNodes === 'number' ? (a as any).maxNodes : undefined
+    const classWhitelist = (a as any).classWhitelist && typeof (a as any).classWhitelist === 'object' && !Array.isArray((a as any).classWhitelist)
+      ? (a as any).classWhitelist
+      : undefined
+    const inputObj: any = { parentPath, depth, maxNodes }
+    if (classWhitelist) inputObj.classWhitelist = classWhitelist
+    result = listSceneChildren(taskState, inputObj)
+  } else if (name === 'find_instances') {
+    try {
+      result = findSceneInstances(taskState, {
+        selector: typeof (a as any).selector === 'string' ? (a as any).selector : undefined,
+        under: typeof (a as any).under === 'string' ? (a as any).under : undefined,
+        tags: Array.isArray((a as any).tags) ? (a as any).tags.map(String) : undefined,
+        attributes: (a as any).attributes && typeof (a as any).attributes === 'object' ? (a as any).attributes : undefined,
+        properties: Array.isArray((a as any).properties) ? (a as any).properties.map(String) : undefined,
+        offset: typeof (a as any).offset === 'number' ? (a as any).offset : undefined,
+        limit: typeof (a as any).limit === 'number' ? (a as any).limit : undefined,
+      })
+    } catch (err) {
+      if (err instanceof SelectorSyntaxError) return { ok: false, error: err.message }
+      throw err
+    }
+  } else if (name === 'spatial_query') {
+    try {
+      result = runSpatialQuery(taskState, {
+        query: (a as any).query,
+        path: typeof (a as any).path === 'string' ? (a as any).path : undefined,
+        point: (a as any).point,
+        size: (a as any).size,
+        radius: typeof (a as any).radius === 'number' ? (a as any).radius : undefined,
+        below: typeof (a as any).below === 'number' ? (a as any).below : undefined,
+        limit: typeof (a as any).limit === 'number' ? (a as any).limit : undefined,
+      })
+    } catch (err) {
+      if (err instanceof SpatialQueryError) return { ok: false, error: err.message }
+      throw err
+    }
+  } else if (name === 'get_properties') {
+    const targetPath = typeof (a as any).path === 'string' ? (a as any).path : undefined
+    if (!targetPath) return { ok: false, error: 'path is required' }
+    const keys = Array.isArray((a as any).keys) ? (a as any).keys.map(String) : undefined
+    const includeAllAttributes = !!(a as any).includeAllAttributes
+    result = getSceneProperties(taskState, { path: targetPath, keys }, includeAllAttributes)
+  } else if (name === 'list_code_definition_names') {
+    result = listCodeDefinitionNames(taskState.taskId, {
+      root: typeof (a as any).root === 'string' ? (a as any).root : undefined,
+      limit: typeof (a as any).limit === 'number' ? (a as any).limit : undefined,
+      exts: Array.isArray((a as any).exts) ? (a as any).exts.map(String) : undefined,
+    })
+  } else {
+    result = await searchFiles({
+      query: String((a as any).query ?? ''),
+      root: typeof (a as any).root === 'string' ? (a as any).root : undefined,
+      limit: typeof (a as any).limit === 'number' ? (a as any).limit : undefined,
+      exts: Array.isArray((a as any).exts) ? (a as any).exts.map(String) : undefined,
+      caseSensitive: !!(a as any).caseSensitive,
+    })
+  }
+
+  const safeResult = name === 'get_active_script' && result && typeof (result as any).text === 'string'
+    ? { ...(result as any), text: ((result as any).text as string).slice(0, 40000) }
+    : result
+  return { ok: true, result: safeResult }
+}
+
+export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[]; taskState: TaskState; tokenTotals: { in: number; out: number; costUsd: number } }> {
   const rawMessage = input.message.trim()
   const { cleaned, attachments } = await extractMentions(rawMessage)
   const msg = cleaned.length > 0 ? cleaned : rawMessage
@@ -1183,7 +1509,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
     : undefined
   const autoEnabled = !!(input as any).autoApply
 
-  const taskId = (input as any).workflowId || input.projectId
+  const taskId = input.workflowId || input.projectId
   let taskState = loadTaskState(taskId)
   ensureScriptPolicy(taskState)
   const updateState = (fn: (state: TaskState) => void) => {
@@ -1194,20 +1520,10 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
     })
     return taskState
   }
+  // Token counters are updated where provider calls happen; history is compacted by token budget at turn boundaries
   const appendHistory = (role: 'user' | 'assistant' | 'system', content: string) => {
     updateState((state) => {
       state.history.push({ role, content, at: Date.now() })
-      if (role === 'user') state.counters.tokensIn += content.length
-      if (role === 'assistant') state.counters.tokensOut += content.length
-      const MAX_HISTORY = 40
-      const KEEP_RECENT = 20
-      if (state.history.length > MAX_HISTORY) {
-        const removed = state.history.splice(0, state.history.length - KEEP_RECENT)
-        const summary = removed
-          .map((entry) => `[${entry.role}] ${entry.content.replace(/\s+/g, ' ').slice(0, 160)}`)
-          .join('\n')
-        state.history.unshift({ role: 'system', content: `Summary of earlier conversation (trimmed):\n${summary.slice(0, 2000)}`, at: removed[0]?.at || Date.now() })
-      }
     })
   }
 
@@ -1233,6 +1549,18 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
     taskState.codeDefinitions = initialDefinitions
   }
 
+  // Before anything is recorded for this call: a stale delta aborts with SceneSyncStaleError so the plugin can resend
+  if (input.context.scene) {
+    updateState((state) => {
+      const sync = applySceneSync(state, input.context.scene)
+      if (sync) console.log(`[orch] scene.sync mode=${sync.mode} version=${sync.version ?? '-'} added=${sync.added} changed=${sync.changed} removed=${sync.removed}`)
+    })
+  }
+
+  const sceneHas = (path: string) => hasSceneInstance(taskState, path)
+  const sceneClassOf = (path: string) => sceneClassName(taskState, path)
+  const overlapWarnings = (ops: ObjectOp[]) => findOpOverlaps(taskState, ops)
+
   const scriptSources: Record<string, string> = { ...(taskState.scriptSources || {}) }
   const normalizeScriptPath = (path?: string) => (path || '').trim()
   const getScriptSource = (path: string): string | undefined => {
@@ -1312,12 +1640,6 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
     if (typeof state.counters.contextRequests !== 'number') state.counters.contextRequests = 0
   })
 
-  if (input.context.scene && Array.isArray(input.context.scene.nodes)) {
-    updateState((state) => {
-      hydrateSceneSnapshot(state, input.context.scene)
-    })
-  }
-
   const contextHasDefinitions = Object.prototype.hasOwnProperty.call(input.context as any, 'codeDefinitions')
   if (contextHasDefinitions) {
     const defsRaw = Array.isArray((input.context as any).codeDefinitions)
@@ -1353,10 +1675,18 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
   // Provider gating
   const providerRequestedName = input.provider?.name
   const providerRequested = !!normalizeString(input.provider?.apiKey)
-  const providerSelection = determineProvider({ input, modelOverride })
+  const cacheMode = resolveCacheMode(input.cacheMode)
+  const providerSelection = determineProvider({ input, modelOverride, keyless: cacheMode === 'replay' })
   const activeProvider = providerSelection?.mode
   const useProvider = !!providerSelection
-  const streamKey = (input as any).workflowId || input.projectId
+  const streamKey = input.workflowId || input.projectId
+  const providerDef = getProvider(activeProvider)
+  // Self-hosted providers report their served model and tool support before the first call
+  if (providerSelection && providerDef?.probe && cacheMode !== 'replay') {
+    const probe = await providerDef.probe({ model: providerSelection.model, baseUrl: providerSelection.baseUrl, apiKey: providerSelection.apiKey, signal: input.signal })
+    if (!providerSelection.model && probe.model) providerSelection.model = probe.model
+    pushChunk(streamKey, `provider.probe provider=${activeProvider} reachable=${probe.reachable} model=${probe.model || 'default'} tools=${probe.tools ?? 'unknown'}`)
+  }
   const startLog = `provider=${useProvider ? activeProvider : 'fallback'} mode=${input.mode || 'agent'} model=${providerSelection?.model || 'default'}`
   pushChunk(streamKey, `orchestrator.start ${startLog}`)
   console.log(`[orch] start ${startLog} msgLen=${msg.length}`)
@@ -1366,12 +1696,18 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
   const catalogSearchAvailable = (process.env.CATALOG_DISABLE_SEARCH || '0') !== '1'
   let scriptWarnings = 0
 
-  const finalize = (list: Proposal[]): { proposals: Proposal[]; taskState: TaskState; tokenTotals: { in: number; out: number } } => {
-    const annotated = annotateAutoApproval(list, { autoEnabled })
+  const finalize = (list: Proposal[]): { proposals: Proposal[]; taskState: TaskState; tokenTotals: { in: number; out: number; costUsd: number } } => {
+    const revised = input.revisionOf ? list.map((p) => ({ ...p, meta: { ...(p.meta || {}), revisionOf: input.revisionOf } })) : list
+    const annotated = annotateAutoApproval(revised, {
+      autoEnabled,
+      policy: getPolicy(input.projectId)?.policy,
+      classOf: sceneClassOf,
+    })
     const totalsIn = taskState.counters.tokensIn
     const totalsOut = taskState.counters.tokensOut
-    pushChunk(streamKey, `telemetry.tokens in=${totalsIn} out=${totalsOut}`)
-    console.log(`[tokens] workflow=${taskId} in=${totalsIn} out=${totalsOut}`)
+    const totalsCost = taskState.counters.costUsd || 0
+    pushChunk(streamKey, `telemetry.tokens in=${totalsIn} out=${totalsOut} costUsd=${totalsCost.toFixed(4)}`)
+    console.log(`[tokens] workflow=${taskId} in=${totalsIn} out=${totalsOut} costUsd=${totalsCost.toFixed(4)}`)
     updateState((state) => {
       state.streaming.isStreaming = false
     })
@@ -1379,7 +1715,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
       pushChunk(streamKey, 'completed: model_complete')
       // Optional: checkpoint marker could be added here if we had a server-side checkpoint manager
     }
-    return { proposals: annotated, taskState, tokenTotals: { in: totalsIn, out: totalsOut } }
+    return { proposals: annotated, taskState, tokenTotals: { in: totalsIn, out: totalsOut, costUsd: totalsCost } }
   }
 
   // Deterministic templates for milestone verification
@@ -1400,8 +1736,128 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
     : (process.env.VECTOR_DISABLE_FALLBACKS || '0') !== '1'
   const fallbacksDisabled = !fallbacksEnabled
   const allowTextBeforeTool = (process.env.VECTOR_ALLOW_TEXT_BEFORE_TOOL || '0') === '1'
+  let nativeToolsEnabled = !!activeProvider && supportsNativeTools(activeProvider, providerSelection?.model, providerSelection?.baseUrl)
+  const streamDeltas = (process.env.VECTOR_STREAM_DELTAS || '1') !== '0'
+  const isKnownTool = (toolName: string) => Object.prototype.hasOwnProperty.call(Tools, toolName)
   const enforceToolAtEnd = (process.env.VECTOR_ENFORCE_TOOL_AT_END || '0') === '1'
 
+  const usageModel = providerSelection?.model || providerDef?.defaultModel || 'default'
+  // Only the provider's own timeout env overrides; otherwise each adapter keeps its default (local: 120s)
+  const timeoutEnv = providerDef ? readProviderEnv(providerDef, 'timeoutMs') : undefined
+  const timeoutMs = timeoutEnv ? Number(timeoutEnv) : undefined
+  const invokeProvider = async (req: {
+    systemPrompt: string
+    messages: { role: 'user' | 'assistant' | 'system'; content: string }[]
+    tools?: ToolSpec[]
+    onDelta?: (delta: ProviderDelta) => void
+    onRetry?: (info: ProviderRetryInfo) => void
+  }): Promise<ProviderResponse> => {
+    const selection = providerSelection
+    if (!selection || !providerDef) throw new Error('No provider configured')
+    const cacheRequest = { provider: selection.mode, systemPrompt: req.systemPrompt, messages: req.messages, tools: req.tools, model: usageModel }
+    const cacheKey = cacheMode !== 'off' ? providerCacheKey(cacheRequest) : undefined
+    if (cacheKey && (cacheMode === 'auto' || cacheMode === 'replay')) {
+      const hit = readCachedResponse(cacheKey)
+      if (hit) {
+        console.log(`[orch] provider.cache hit key=${cacheKey.slice(0, 12)} model=${hit.model}`)
+        replayDeltas(hit.response, req.onDelta)
+        return { ...hit.response, cached: true }
+      }
+      if (cacheMode === 'replay') throw new ProviderCacheMissError(cacheKey)
+    }
+    const resp = await providerDef.call({
+      systemPrompt: req.systemPrompt,
+      messages: req.messages,
+      tools: req.tools,
+      onDelta: req.onDelta,
+      onRetry: (info) => {
+        pushChunk(streamKey, `provider.retry provider=${info.provider} attempt=${info.attempt}/${info.maxAttempts - 1} delayMs=${info.delayMs} category=${info.category}${info.status ? ` status=${info.status}` : ''}`)
+        req.onRetry?.(info)
+      },
+      signal: input.signal,
+      model: selection.model,
+      apiKey: selection.apiKey,
+      baseUrl: selection.baseUrl,
+      region: selection.region,
+      deploymentId: selection.deploymentId,
+      timeoutMs,
+    })
+    if (cacheKey) {
+      writeCachedResponse({ key: cacheKey, createdAt: Date.now(), provider: selection.mode, model: usageModel, request: cacheRequest, response: resp }, { fixture: cacheMode === 'record' })
+    }
+    return resp
+  }
+  // Provider-reported token counts when the response has them; tiktoken estimates otherwise
+  const countUsage = (estimatePrompt: () => number, resp: ProviderResponse) => {
+    const estimateCompletion = () => {
+      const calls = resp.toolCalls || (resp.toolCall ? [resp.toolCall] : [])
+      const completion = [resp.content || '', ...calls.map((call) => `${call.name}${typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {})}`)].join('\n')
+      return countTokens(completion, providerSelection?.model)
+    }
+    const promptTokens = resp.usage?.inputTokens ?? estimatePrompt()
+    const completionTokens = resp.usage?.outputTokens ?? estimateCompletion()
+    const provider = activeProvider || 'unknown'
+    // Cache hits cost nothing; tokens are still counted so replays report the same context sizes
+    const { costUsd, priced } = resp.cached ? { costUsd: 0, priced: true } : priceUsage(provider, usageModel, promptTokens, completionTokens)
+    updateState((state) => {
+      state.counters.tokensIn += promptTokens
+      state.counters.tokensOut += completionTokens
+      state.counters.costUsd += costUsd
+      const key = `${provider}:${usageModel}`
+      const byModel = (state.counters.byModel = state.counters.byModel || {})
+      const entry = byModel[key] || { tokensIn: 0, tokensOut: 0, costUsd: 0, calls: 0 }
+      entry.tokensIn += promptTokens
+      entry.tokensOut += completionTokens
+      entry.costUsd += costUsd
+      entry.calls += 1
+      byModel[key] = entry
+    })
+    recordUsage({ projectId: input.projectId, workflowId: taskId, provider, model: usageModel, tokensIn: promptTokens, tokensOut: completionTokens, costUsd, priced })
+  }
+  // Summaries go through the active provider; without one, compactMessages falls back to a digest
+  const summarizeTranscript = async (transcript: string): Promise<string> => {
+    if (!useProvider) return ''
+    const messages = [{ role: 'user' as const, content: transcript }]
+    const resp = await invokeProvider({ systemPrompt: SUMMARY_SYSTEM_PROMPT, messages })
+    countUsage(() => countMessageTokens([{ role: 'system', content: SUMMARY_SYSTEM_PROMPT }, ...messages], providerSelection?.model), resp)
+    return resp.content || ''
+  }
+  // Stops the turn loop once the project/workflow spend limit is reached
+  const enforceBudget = () => {
+    try {
+      assertWithinBudget(input.projectId, taskId)
+    } catch (err) {
+      if (err instanceof BudgetExceededError) {
+        pushChunk(streamKey, `error.budget scope=${err.scope} spent=${err.spentUsd.toFixed(4)} limit=${err.limitUsd}`)
+        console.warn(`[orch] budget.exceeded scope=${err.scope} project=${input.projectId} workflow=${taskId} spent=${err.spentUsd.toFixed(4)} limit=${err.limitUsd}`)
+        updateState((state) => {
+          state.streaming.isStreaming = false
+        })
+      }
+      throw err
+    }
+  }
+  const contextBudget = resolveContextBudget(activeProvider, providerSelection?.model)
+  const historyBudget = Number(process.env.VECTOR_HISTORY_BUDGET || 16000)
+  // Persisted transcript: keep the first user request, summarize the middle, keep the last turns verbatim
+  const compactHistory = async () => {
+    const before = taskState.history
+    const result = await compactMessages<ChatMessage>(before, {
+      budget: historyBudget,
+      model: providerSelection?.model,
+      pinned: 1,
+      keepRecent: 12,
+      summarize: summarizeTranscript,
+      makeSummary: (text, replaced) => ({ role: 'system', content: `Summary of earlier conversation:\n${text}`, at: replaced[0]?.at || Date.now() }),
+    })
+    if (!result) return
+    updateState((state) => {
+      // Entries appended while the summarizer ran stay after the compacted prefix
+      state.history = [...result.messages, ...state.history.slice(before.length)]
+    })
+    console.log(`[orch] history.summarized entries=${result.summarized} tokens=${result.tokensBefore}->${result.tokensAfter}${result.usedFallback ? ' fallback=1' : ''}`)
+  }
+
   while (useProvider && providerSelection && activeProvider) {
     const defaultMaxTurns = Number(process.env.VECTOR_MAX_TURNS || 4)
     const defaultAskTurns = Number(process.env.VECTOR_ASK_TURNS || 3)
@@ -1427,6 +1883,21 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
     }
     const convo = messages
     if (!convo) break
+    // Over budget: summarize turns between the pinned request (and PLAN_CONTEXT) and the recent tail
+    const compactConvo = async (reservedTokens: number) => {
+      const result = await compactMessages(convo, {
+        budget: Math.max(1000, contextBudget - reservedTokens),
+        model: providerSelection.model,
+        pinned: convo.findIndex((m) => m.content === providerFirstMessage) + 1,
+        keepRecent: 4,
+        summarize: summarizeTranscript,
+        makeSummary: (text) => ({ role: 'user', content: `CONVERSATION_SUMMARY (earlier turns, summarized)\n${text}` }),
+      })
+      if (!result) return
+      convo.splice(0, convo.length, ...result.messages)
+      pushChunk(streamKey, `context.summarized messages=${result.summarized} tokens=${result.tokensBefore}->${result.tokensAfter}${result.usedFallback ? ' fallback=1' : ''}`)
+      console.log(`[orch] context.summarized messages=${result.summarized} tokens=${result.tokensBefore}->${result.tokensAfter} budget=${contextBudget}`)
+    }
     const validationRetryLimit = 2
     const unknownToolRetryLimit = 1
     let unknownToolRetries = 0
@@ -1445,7 +1916,42 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
     }
 
     let assistantFinalEmitted = false
+    // Stream assistant text for UI transcript
+    const emitAssistantText = (toolName: string, a: Record<string, any>) => {
+      if (toolName === 'final_message') {
+        const text = typeof (a as any).text === 'string' ? (a as any).text : undefined
+        if (text && text.trim().length > 0) {
+          if (!assistantFinalEmitted) pushChunk(streamKey, 'assistant.final ' + text)
+          assistantFinalEmitted = true
+        }
+      }
+      if (toolName === 'message') {
+        const text = typeof (a as any).text === 'string' ? (a as any).text : undefined
+        const phase = typeof (a as any).phase === 'string' ? (a as any).phase : 'update'
+        if (text && text.trim().length > 0) {
+          pushChunk(streamKey, `assistant.${phase} ` + text)
+          if (phase === 'final') assistantFinalEmitted = true
+        }
+      }
+      if (toolName === 'complete') {
+        const text = typeof (a as any).summary === 'string' ? (a as any).summary : undefined
+        if (text && text.trim().length > 0 && !assistantFinalEmitted) {
+          pushChunk(streamKey, 'assistant.final ' + text)
+          assistantFinalEmitted = true
+        }
+      }
+      if (toolName === 'attempt_completion') {
+        const text = typeof (a as any).result === 'string' ? (a as any).result : undefined
+        if (text && text.trim().length > 0 && !assistantFinalEmitted) {
+          pushChunk(streamKey, 'assistant.final ' + text)
+          assistantFinalEmitted = true
+        }
+      }
+    }
     for (let turn = 0; turn < maxTurns; turn++) {
+      enforceBudget()
+      await compactHistory()
+      if (input.signal?.aborted) throw new RunCancelledError()
       const runId = id('run')
       const startedAt = Date.now()
       updateState((state) => {
@@ -1454,64 +1960,49 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
       })
 
       let content = ''
+      let nativeCalls: ProviderToolCall[] = []
+      // Transient failures retried inside the adapter are recorded on this turn's run
+      let retried = 0
+      const recordRetry = (info: ProviderRetryInfo) => {
+        retried += 1
+        updateState((state) => {
+          const run = state.runs.find((r) => r.id === runId)
+          if (run) run.error = { message: info.message.slice(0, 500), code: info.category, retried }
+        })
+      }
       try {
-        const timeoutMs = Number(
-          activeProvider === 'openai'
-            ? process.env.OPENAI_TIMEOUT_MS || 30000
-            : activeProvider === 'gemini'
-              ? process.env.GEMINI_TIMEOUT_MS || process.env.OPENROUTER_TIMEOUT_MS || 30000
-              : activeProvider === 'bedrock'
-                ? process.env.BEDROCK_TIMEOUT_MS || process.env.OPENROUTER_TIMEOUT_MS || 30000
-                : process.env.OPENROUTER_TIMEOUT_MS || 30000,
-        )
-        const resp = activeProvider === 'openai'
-          ? await callOpenAI({
-              systemPrompt: SYSTEM_PROMPT,
-              messages: convo as any,
-              model: providerSelection.model,
-              apiKey: providerSelection.apiKey,
-              baseUrl: providerSelection.baseUrl,
-              timeoutMs,
-            })
-          : activeProvider === 'gemini'
-            ? await callGemini({
-                systemPrompt: SYSTEM_PROMPT,
-                messages: convo as any,
-                model: providerSelection.model,
-                apiKey: providerSelection.apiKey,
-                baseUrl: providerSelection.baseUrl,
-                timeoutMs,
-              })
-            : activeProvider === 'bedrock'
-              ? await callBedrock({
-                  systemPrompt: SYSTEM_PROMPT,
-                  messages: convo as any,
-                  model: providerSelection.model,
-                  apiKey: providerSelection.apiKey,
-                  region: (providerSelection as any).region,
-                  timeoutMs,
-                })
-              : activeProvider === 'nvidia'
-              ? await callNvidia({
-                  systemPrompt: SYSTEM_PROMPT,
-                  messages: convo as any,
-                  model: providerSelection.model,
-                  apiKey: providerSelection.apiKey,
-                  baseUrl: providerSelection.baseUrl,
-                  deploymentId: (providerSelection as any).deploymentId,
-                  timeoutMs,
-                })
-              : await callOpenRouter({
-                  systemPrompt: SYSTEM_PROMPT,
-                  messages: convo as any,
-                  model: providerSelection.model,
-                  apiKey: providerSelection.apiKey,
-                  baseUrl: providerSelection.baseUrl,
-                  timeoutMs,
-                })
+        const callProvider = async (tools?: ToolSpec[]): Promise<ProviderResponse> => {
+          const hints = providerDef?.promptHints?.(providerSelection.model, { nativeTools: !!tools })
+          const basePrompt = tools ? `${SYSTEM_PROMPT}\n${NATIVE_TOOLS_GUIDE}` : SYSTEM_PROMPT
+          const systemPrompt = hints ? `${basePrompt}\n\n${hints}` : basePrompt
+          const specTokens = tools ? countTokens(JSON.stringify(tools), providerSelection.model) : 0
+          await compactConvo(countTokens(systemPrompt, providerSelection.model) + specTokens)
+          const deltas = streamDeltas ? createDeltaEmitter(streamKey, turn, isKnownTool) : undefined
+          try {
+            const resp = await invokeProvider({ systemPrompt, messages: convo, tools, onDelta: deltas?.push, onRetry: recordRetry })
+            countUsage(() => countMessageTokens([{ role: 'system', content: systemPrompt }, ...convo], providerSelection.model) + specTokens, resp)
+            return resp
+          } finally {
+            deltas?.flush()
+          }
+        }
+        const toolSpecs = nativeToolsEnabled ? buildToolSpecs() : undefined
+        let resp: ProviderResponse
+        try {
+          resp = await callProvider(toolSpecs)
+        } catch (err) {
+          if (!toolSpecs || !isToolsUnsupportedError(err)) throw err
+          // Model rejected the function-calling payload: stay on XML tool tags for the rest of this run
+          nativeToolsEnabled = false
+          pushChunk(streamKey, `provider.tools_unsupported provider=${activeProvider} model=${providerSelection.model || 'default'}`)
+          console.warn(`[orch] provider.tools_unsupported provider=${activeProvider}; falling back to XML tools`)
+          resp = await callProvider(undefined)
+        }
+        nativeCalls = resp.toolCalls || (resp.toolCall ? [resp.toolCall] : [])
         content = resp.content || ''
-        pushChunk(streamKey, `provider.response provider=${activeProvider} turn=${turn} chars=${content.length}`)
-        console.log(`[orch] provider.ok provider=${activeProvider} turn=${turn} contentLen=${content.length}`)
+        const nativeLabel = nativeCalls.length > 0 ? ` tool=${nativeCalls.map((c) => c.name).join(',')}` : ''
+        pushChunk(streamKey, `provider.response provider=${activeProvider} turn=${turn} chars=${content.length}${nativeLabel}`)
+        console.log(`[orch] provider.ok provider=${activeProvider} turn=${turn} contentLen=${content.length}${nativeLabel}`)
         console.log('[orch] provider.raw', content)
         updateState((state) => {
           const run = state.runs.find((r) => r.id === runId)
@@ -1523,29 +2014,41 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         })
         appendHistory('assistant', content)
       } catch (e: any) {
-        pushChunk(streamKey, `error.provider provider=${activeProvider} ${e?.message || 'unknown'}`)
-        console.error(`[orch] provider.error provider=${activeProvider} ${e?.message || 'unknown'}`)
+        const cancelled = !!input.signal?.aborted
+        if (cancelled) {
+          console.warn(`[orch] provider.cancelled provider=${activeProvider} turn=${turn}`)
+        } else {
+          pushChunk(streamKey, `error.provider provider=${activeProvider} ${e?.message || 'unknown'}`)
+          console.error(`[orch] provider.error provider=${activeProvider} ${e?.message || 'unknown'}`)
+        }
         updateState((state) => {
           const run = state.runs.find((r) => r.id === runId)
           if (run) {
             run.status = 'failed'
             run.endedAt = Date.now()
-            run.error = { message: e?.message || 'unknown' }
+            run.error = { message: cancelled ? 'cancelled' : e?.message || 'unknown', code: cancelled ? undefined : classifyProviderError(e).category, retried }
           }
           state.streaming.isStreaming = false
         })
+        if (cancelled) throw new RunCancelledError()
+        if (e instanceof ProviderCacheMissError) throw e
         if (providerRequested) throw new Error(`Provider (${providerRequestedName || activeProvider}) error: ${e?.message || 'unknown'}`)
         break
       }
 
-      const tool = parseToolXML(content)
+      const batch: ParsedTool[] = nativeCalls.length > 0
+        ? nativeCalls
+            .map((call, idx) => parseNativeToolCall(call, idx === 0 ? content : ''))
+            .filter((t): t is ParsedTool => !!t)
+        : parseToolBatchXML(content)
+      const tool = batch[0]
       if (!tool) {
         const rawText = content.trim()
         if (rawText.length > 0) {
           pushChunk(streamKey, 'assistant.raw ' + rawText)
         }
         // Enforce no-text-only turns: nudge to choose a tool or complete
-        const hint = 'NO_TOOL_USED Please emit exactly one tool or call <complete><summary>…</summary></complete> to finish.'
+        const hint = 'NO_TOOL_USED Please emit at least one tool or call <complete><summary>…</summary></complete> to finish.'
         convo.push({ role: 'user', content: hint })
         appendHistory('system', hint)
         pushChunk(streamKey, 'error.validation no tool call parsed (nudged continue)')
@@ -1562,7 +2065,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         pushChunk(streamKey, 'assistant.update ' + prefixText)
       }
 
-      const suffixTextRaw = tool.suffixText || ''
+      const suffixTextRaw = batch[batch.length - 1].suffixText || ''
       const suffixText = suffixTextRaw.trim()
       if (suffixText.length > 0) {
         if (enforceToolAtEnd) {
@@ -1576,31 +2079,186 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         }
       }
 
-      const name = tool.name as keyof typeof Tools | string
-      const toolName = String(name)
-      let a: Record<string, any> = tool.args || {}
+      if (batch.length > 1) {
+        // Multi-tool turn: plan tools first, read-only tools concurrently against the
+        // scene as of this turn, then mutating tools mapped to proposals in order.
+        // Everything is reported back in one TOOL_RESULTS observation.
+        type BatchEntry = {
+          name: string
+          args: Record<string, any>
+          xml: string
+          error?: string
+          result?: any
+          proposals?: Proposal[]
+        }
+        pushChunk(streamKey, `tool.batch count=${batch.length}`)
+        console.log(`[orch] tool.batch count=${batch.length} tools=${batch.map((t) => t.name).join(',')}`)
+        const askMode = (input.mode || 'agent') === 'ask'
+        const requirePlan = (process.env.VECTOR_REQUIRE_PLAN || '0') === '1'
+
+        const entries: BatchEntry[] = batch.map((parsedTool) => {
+          const toolName = String(parsedTool.name)
+          let a = normalizeToolArgs(toolName, parsedTool.args || {}, parsedTool.innerRaw)
+          const xml = toXml(toolName, a)
+          appendHistory('assistant', xml)
+          pushChunk(streamKey, `tool.parsed ${toolName}`)
+          console.log(`[orch] tool.parsed name=${toolName} batch=1`)
+          const toolSchema = (Tools as any)[toolName as any] as z.ZodTypeAny | undefined
+          if (!toolSchema) {
+            pushChunk(streamKey, `error.validation Unknown tool: ${toolName}`)
+            return { name: toolName, args: a, xml, error: `Unknown tool: ${toolName}` }
+          }
+          a = applyToolArgDefaults(toolName, a, { input, selPath, selIsContainer })
+          const parsed = toolSchema.safeParse(a)
+          if (!parsed.success) {
+            const errMsg = parsed.error?.errors?.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') || 'invalid arguments'
+            pushChunk(streamKey, `error.validation ${toolName} ${errMsg}`)
+            console.warn(`[orch] validation.error tool=${toolName} ${errMsg}`)
+            return { name: toolName, args: a, xml, error: errMsg }
+          }
+          pushChunk(streamKey, `tool.valid ${toolName}`)
+          return { name: toolName, args: parsed.data, xml }
+        })
 
-      // Normalize arguments for common flexible encodings
-      if ((toolName === 'create_instance' || toolName === 'set_properties') && typeof (a as any).props === 'string') {
-        const parsedProps = parseXmlObject(String((a as any).props))
-        if (parsedProps && typeof parsedProps === 'object' && Object.keys(parsedProps).length > 0) {
-          a = { ...a, props: parsedProps }
+        const recordRun = (entry: BatchEntry) => {
+          updateState((state) => {
+            const ts = Date.now()
+            state.runs.push({ id: id('run'), tool: entry.name, input: entry.args, status: 'succeeded', startedAt: ts, endedAt: ts })
+          })
         }
-      }
-      if (toolName === 'list_children') {
-        const cwRaw = (a as any).classWhitelist
-        const cw = toClassWhitelist(cwRaw)
-        if (cw) a = { ...a, classWhitelist: cw }
-      }
-      if (toolName === 'final_message') {
-        if (!(a as any).text) {
-          const alias = (a as any).result ?? (a as any).summary
-          if (typeof alias === 'string') a = { ...a, text: alias }
-          else if (typeof tool.innerRaw === 'string' && tool.innerRaw.trim().length > 0 && !/[<][a-zA-Z_]/.test(tool.innerRaw)) {
-            a = { ...a, text: tool.innerRaw.trim() }
+
+        const mapEntry = (entry: BatchEntry) => {
+          const mapped = mapToolToProposals(entry.name, entry.args, input, msg, {
+            getScriptSource,
+            recordScriptSource,
+            recordPlanStart,
+            recordPlanUpdate,
+            userOptedOut,
+            geometryTracker,
+            sceneHas,
+            sceneClassOf,
+            overlapWarnings,
+          })
+          if (mapped.validationError) {
+            entry.error = mapped.validationError
+            pushChunk(streamKey, `error.validation ${entry.name} ${mapped.validationError}`)
+            return
+          }
+          if (mapped.contextResult !== undefined) {
+            setLastTool(input.projectId, entry.name, mapped.contextResult)
+            entry.result = mapped.contextResult
+          }
+          if (mapped.proposals.length) {
+            const touchesLuau = mapped.proposals.some(proposalTouchesLuau)
+            const touchesGeometry = mapped.proposals.some(proposalTouchesGeometry)
+            if (touchesLuau) scriptWorkObserved = true
+            if (touchesGeometry) geometryWorkObserved = true
+            updateState((state) => {
+              const policy = ensureScriptPolicy(state)
+              if (touchesGeometry) policy.geometryOps += 1
+              if (touchesLuau) policy.luauEdits += 1
+              // Later tools in the batch see the scene with earlier proposals applied
+              for (const proposal of mapped.proposals) {
+                if (proposal.type === 'object_op') applyObjectOpsPreview(state, proposal.ops)
+              }
+            })
+            entry.proposals = mapped.proposals
+            pushChunk(streamKey, `proposals.mapped ${entry.name} count=${mapped.proposals.length}`)
+          } else if (mapped.missingContext) {
+            entry.error = `CONTEXT_REQUEST ${mapped.missingContext}`
+            return
+          }
+          pushChunk(streamKey, `tool.result ${entry.name}`)
+          recordRun(entry)
+        }
+
+        const pending = entries.filter((entry) => !entry.error)
+        for (const entry of pending) {
+          if (PLAN_TOOL_NAMES.has(entry.name)) mapEntry(entry)
+        }
+
+        await Promise.all(
+          pending
+            .filter((entry) => CONTEXT_TOOL_NAMES.has(entry.name))
+            .map(async (entry) => {
+              const outcome = await runContextTool(entry.name, entry.args, taskState, input)
+              if (!outcome.ok) {
+                entry.error = outcome.error
+                pushChunk(streamKey, `error.validation ${entry.name} ${outcome.error}`)
+                return
+              }
+              entry.result = outcome.result
+              setLastTool(input.projectId, entry.name, outcome.result)
+              pushChunk(streamKey, `tool.result ${entry.name}`)
+              recordRun(entry)
+            }),
+        )
+
+        const planReady = Array.isArray(taskState.plan?.steps) && (taskState.plan?.steps.length || 0) > 0
+        const remaining = pending.filter((entry) => !PLAN_TOOL_NAMES.has(entry.name) && !CONTEXT_TOOL_NAMES.has(entry.name))
+        const finalEntries = remaining.filter((entry) => isFinalPhaseTool(entry.name, entry.args))
+        for (const entry of remaining) {
+          if (finalEntries.includes(entry)) continue
+          if (!planReady && !NON_ACTION_TOOL_NAMES.has(entry.name) && !askMode && requirePlan) {
+            entry.error = 'PLAN_REQUIRED Call <start_plan> with a step-by-step outline before taking actions.'
+            pushChunk(streamKey, `error.validation ${entry.name} plan_required`)
+            continue
+          }
+          if (entry.name === 'search_assets' && !catalogSearchAvailable) {
+            entry.error = 'catalog_disabled Catalog search is unavailable. Create the requested objects manually using create_instance or Luau edits.'
+            pushChunk(streamKey, `error.validation ${entry.name} catalog_disabled`)
+            continue
+          }
+          mapEntry(entry)
+        }
+        for (const entry of finalEntries) {
+          const scriptRequired = geometryWorkObserved && !scriptWorkObserved && !userOptedOut
+          if (scriptRequired) {
+            scriptWarnings += 1
+            entry.error =
+              'SCRIPT_REQUIRED Default Script Policy: add Luau in a Script/ModuleScript (open_or_create_script → show_diff) that rebuilds the created Instances before completing. Say "geometry only" if you really need to skip.'
+            pushChunk(streamKey, 'error.validation script_required')
+            continue
+          }
+          mapEntry(entry)
+        }
+
+        const observation = 'TOOL_RESULTS\n' + JSON.stringify(
+          entries.map((entry) => {
+            if (entry.error) return { tool: entry.name, ok: false, error: entry.error }
+            if (entry.proposals?.length) return { tool: entry.name, ok: true, proposals: entry.proposals.length }
+            return { tool: entry.name, ok: true, result: entry.result ?? null }
+          }),
+        )
+        convo.push({ role: 'assistant', content: entries.map((entry) => entry.xml).join('\n') })
+        convo.push({ role: 'user', content: observation })
+        appendHistory('system', observation)
+
+        const batchProposals = entries.flatMap((entry) => entry.proposals || [])
+        const failed = entries.filter((entry) => entry.error).length
+        console.log(`[orch] tool.batch.done count=${entries.length} failed=${failed} proposals=${batchProposals.length}`)
+        if (batchProposals.length) {
+          for (const entry of entries) {
+            if (entry.proposals?.length) emitAssistantText(entry.name, entry.args)
           }
+          pushChunk(streamKey, `proposals.mapped batch count=${batchProposals.length}`)
+          return finalize(batchProposals)
         }
+        if (failed === entries.length) {
+          consecutiveValidationErrors++
+          if (entries.some((entry) => !(Tools as any)[entry.name])) unknownToolRetries++
+          if (consecutiveValidationErrors > validationRetryLimit || unknownToolRetries > unknownToolRetryLimit) break
+        } else {
+          consecutiveValidationErrors = 0
+        }
+        continue
       }
+
+      const name = tool.name as keyof typeof Tools | string
+      const toolName = String(name)
+      let a: Record<string, any> = tool.args || {}
+
+      a = normalizeToolArgs(toolName, a, tool.innerRaw)
       const toolXml = toXml(toolName, a)
       appendHistory('assistant', toolXml)
       pushChunk(streamKey, `tool.parsed ${toolName}`)
@@ -1623,22 +2281,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
       const planReady = Array.isArray(taskState.plan?.steps) && (taskState.plan?.steps.length || 0) > 0
       const askMode = (input.mode || 'agent') === 'ask'
       const requirePlan = (process.env.VECTOR_REQUIRE_PLAN || '0') === '1'
-      const isContextOrNonActionTool = (
-        toolName === 'start_plan' ||
-        toolName === 'update_plan' ||
-        toolName === 'message' ||
-        toolName === 'final_message' ||
-        toolName === 'complete' ||
-        toolName === 'attempt_completion' ||
-        toolName === 'get_active_script' ||
-        toolName === 'list_selection' ||
-        toolName === 'list_open_documents' ||
-        toolName === 'open_or_create_script' ||
-        toolName === 'list_children' ||
-        toolName === 'get_properties' ||
-        toolName === 'list_code_definition_names' ||
-        toolName === 'search_files'
-      )
+      const isContextOrNonActionTool = NON_ACTION_TOOL_NAMES.has(toolName)
       const isActionTool = !isContextOrNonActionTool
       if (!planReady && isActionTool && !askMode && requirePlan) {
         const errMsg = 'PLAN_REQUIRED Call <start_plan> with a step-by-step outline before taking actions.'
@@ -1650,34 +2293,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         continue
       }
 
-  if ((name === 'show_diff' || name === 'apply_edit') && !a.path && input.context.activeScript?.path) {
-    a = { ...a, path: input.context.activeScript.path }
-  }
-  if (name === 'show_diff' || name === 'apply_edit') {
-    const filesRaw = Array.isArray((a as any).files) ? (a as any).files : undefined
-    if (filesRaw) {
-      const files = filesRaw.map((entry: any) => {
-        if (!entry || typeof entry !== 'object') return entry
-        const edits = normalizeEditsPayload((entry as any).edits)
-        return edits ? { ...entry, edits } : entry
-      })
-      a = { ...a, files }
-    }
-
-    const normalizedEdits = normalizeEditsPayload((a as any).edits)
-    if (normalizedEdits) {
-      a = { ...a, edits: normalizedEdits }
-    }
-  }
-      if ((name === 'rename_instance' || name === 'set_properties' || name === 'delete_instance') && !a.path && selPath) {
-        a = { ...a, path: selPath }
-      }
-      if (name === 'create_instance' && !('parentPath' in a)) {
-        a = { ...a, parentPath: selIsContainer ? selPath! : 'game.Workspace' }
-      }
-      if (name === 'insert_asset' && !('parentPath' in a)) {
-        a = { ...a, parentPath: selIsContainer ? selPath! : 'game.Workspace' }
-      }
+      a = applyToolArgDefaults(toolName, a, { input, selPath, selIsContainer })
 
       if (toolSchema) {
         const parsed = toolSchema.safeParse(a)
@@ -1713,78 +2329,20 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         continue
       }
 
-      const isContextTool =
-        name === 'get_active_script' ||
-        name === 'list_selection' ||
-        name === 'list_open_documents' ||
-        name === 'list_children' ||
-        name === 'get_properties' ||
-        name === 'list_code_definition_names' ||
-        name === 'search_files'
-      if (isContextTool) {
-        let result: any
-        if (name === 'get_active_script') {
-          result = input.context.activeScript || null
-        } else if (name === 'list_selection') {
-          result = input.context.selection || []
-        } else if (name === 'list_open_documents') {
-          result = input.context.openDocs || []
-        } else if (name === 'list_children') {
-          const parentPath = typeof (a as any).parentPath === 'string' ? (a as any).parentPath : undefined
-          if (!parentPath) {
-            consecutiveValidationErrors++
-            const errMsg = 'parentPath is required'
-            pushChunk(streamKey, `error.validation ${String(name)} ${errMsg}`)
-            console.warn(`[orch] validation.error tool=${String(name)} ${errMsg}`)
-            const validationContent = `VALIDATION_ERROR ${String(name)}\n${errMsg}`
-            convo.push({ role: 'assistant', content: toolXml })
-            convo.push({ role: 'user', content: validationContent })
-            appendHistory('system', validationContent)
-            continue
-          }
-          const depth = typeof (a as any).depth === 'number' ? (a as any).depth : undefined
-          const maxNodes = typeof (a as any).maxNodes === 'number' ? (a as any).maxNodes : undefined
-          const classWhitelist = (a as any).classWhitelist && typeof (a as any).classWhitelist === 'object' && !Array.isArray((a as any).classWhitelist)
-            ? (a as any).classWhitelist
-            : undefined
-          const inputObj: any = { parentPath, depth, maxNodes }
-          if (classWhitelist) inputObj.classWhitelist = classWhitelist
-          result = listSceneChildren(taskState, inputObj)
-        } else if (name === 'get_properties') {
-          const targetPath = typeof (a as any).path === 'string' ? (a as any).path : undefined
-          if (!targetPath) {
-            consecutiveValidationErrors++
-            const errMsg = 'path is required'
-            pushChunk(streamKey, `error.validation ${String(name)} ${errMsg}`)
-            console.warn(`[orch] validation.error tool=${String(name)} ${errMsg}`)
-            const validationContent = `VALIDATION_ERROR ${String(name)}\n${errMsg}`
-            convo.push({ role: 'assistant', content: toolXml })
-            convo.push({ role: 'user', content: validationContent })
-            appendHistory('system', validationContent)
-            continue
-          }
-          const keys = Array.isArray((a as any).keys) ? (a as any).keys.map(String) : undefined
-          const includeAllAttributes = !!(a as any).includeAllAttributes
-          result = getSceneProperties(taskState, { path: targetPath, keys }, includeAllAttributes)
-        } else if (name === 'list_code_definition_names') {
-          result = listCodeDefinitionNames(taskState.taskId, {
-            root: typeof (a as any).root === 'string' ? (a as any).root : undefined,
-            limit: typeof (a as any).limit === 'number' ? (a as any).limit : undefined,
-            exts: Array.isArray((a as any).exts) ? (a as any).exts.map(String) : undefined,
-          })
-        } else {
-          result = searchFiles({
-            query: String((a as any).query ?? ''),
-            root: typeof (a as any).root === 'string' ? (a as any).root : undefined,
-            limit: typeof (a as any).limit === 'number' ? (a as any).limit : undefined,
-            exts: Array.isArray((a as any).exts) ? (a as any).exts.map(String) : undefined,
-            caseSensitive: !!(a as any).caseSensitive,
-          })
+      if (CONTEXT_TOOL_NAMES.has(toolName)) {
+        const outcome = await runContextTool(toolName, a, taskState, input)
+        if (!outcome.ok) {
+          consecutiveValidationErrors++
+          const errMsg = outcome.error
+          pushChunk(streamKey, `error.validation ${String(name)} ${errMsg}`)
+          console.warn(`[orch] validation.error tool=${String(name)} ${errMsg}`)
+          const validationContent = `VALIDATION_ERROR ${String(name)}\n${errMsg}`
+          convo.push({ role: 'assistant', content: toolXml })
+          convo.push({ role: 'user', content: validationContent })
+          appendHistory('system', validationContent)
+          continue
         }
-
-        const safeResult = name === 'get_active_script' && result && typeof (result as any).text === 'string'
-          ? { ...(result as any), text: ((result as any).text as string).slice(0, 40000) }
-          : result
+        const safeResult = outcome.result
 
         setLastTool(input.projectId, String(name), safeResult)
         pushChunk(streamKey, `tool.result ${String(name)}`)
@@ -1807,8 +2365,26 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         recordPlanUpdate,
         userOptedOut,
         geometryTracker,
+        sceneHas,
+        sceneClassOf,
+        overlapWarnings,
       })
 
+      if (mapped.validationError) {
+        consecutiveValidationErrors++
+        const errMsg = mapped.validationError
+        pushChunk(streamKey, `error.validation ${String(name)} ${errMsg}`)
+        console.warn(`[orch] validation.error tool=${String(name)} ${errMsg}`)
+        const validationContent = `VALIDATION_ERROR ${String(name)}\n${errMsg}`
+        convo.push({ role: 'assistant', content: toolXml })
+        convo.push({ role: 'user', content: validationContent })
+        appendHistory('system', validationContent)
+        if (consecutiveValidationErrors > validationRetryLimit) {
+          throw new Error(`Validation failed repeatedly for ${String(name)}: ${errMsg}`)
+        }
+        continue
+      }
+
       if (mapped.contextResult !== undefined) {
         setLastTool(input.projectId, String(name), mapped.contextResult)
         pushChunk(streamKey, `tool.result ${String(name)}`)
@@ -1830,11 +2406,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         geometryWorkObserved = true
       }
 
-      const isFinalPhase =
-        name === 'complete' ||
-        name === 'final_message' ||
-        name === 'attempt_completion' ||
-        (name === 'message' && typeof (a as any).phase === 'string' && (a as any).phase.toLowerCase() === 'final')
+      const isFinalPhase = isFinalPhaseTool(toolName, a)
 
       const scriptRequired = geometryWorkObserved && !scriptWorkObserved && !userOptedOut
       if (isFinalPhase && scriptRequired) {
@@ -1868,36 +2440,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
         })
         pushChunk(streamKey, `proposals.mapped ${String(name)} count=${mapped.proposals.length}`)
         console.log(`[orch] proposals.mapped tool=${String(name)} count=${mapped.proposals.length}`)
-        // Stream assistant text for UI transcript
-        if (String(name) === 'final_message') {
-          const text = typeof (a as any).text === 'string' ? (a as any).text : undefined
-          if (text && text.trim().length > 0) {
-            if (!assistantFinalEmitted) pushChunk(streamKey, 'assistant.final ' + text)
-            assistantFinalEmitted = true
-          }
-        }
-        if (String(name) === 'message') {
-          const text = typeof (a as any).text === 'string' ? (a as any).text : undefined
-          const phase = typeof (a as any).phase === 'string' ? (a as any).phase : 'update'
-          if (text && text.trim().length > 0) {
-            pushChunk(streamKey, `assistant.${phase} ` + text)
-            if (phase === 'final') assistantFinalEmitted = true
-          }
-        }
-        if (String(name) === 'complete') {
-          const text = typeof (a as any).summary === 'string' ? (a as any).summary : undefined
-          if (text && text.trim().length > 0 && !assistantFinalEmitted) {
-            pushChunk(streamKey, 'assistant.final ' + text)
-            assistantFinalEmitted = true
-          }
-        }
-        if (String(name) === 'attempt_completion') {
-          const text = typeof (a as any).result === 'string' ? (a as any).result : undefined
-          if (text && text.trim().length > 0 && !assistantFinalEmitted) {
-            pushChunk(streamKey, 'assistant.final ' + text)
-            assistantFinalEmitted = true
-          }
-        }
+        emitAssistantText(String(name), a)
         return finalize(mapped.proposals)
       }
       if (mapped.missingContext) {
@@ -1943,6 +2486,7 @@ export async function runLLM(input: ChatInput): Promise<{ proposals: Proposal[];
 
     break
   }
+  await compactHistory()
   if (!fallbacksDisabled && input.context.activeScript) {
     const path = input.context.activeScript.path
     const prefixComment = `-- Vector: ${sanitizeComment(msg)}\n`
@@ -0,0 +1,60 @@
+// USD per 1M tokens by provider/model. Defaults track public list prices and should be
+// overridden per deployment with VECTOR_PRICING (JSON map of model substring → { in, out }).
+
+export type ModelPrice = { in: number; out: number }
+
+type PriceRule = { provider?: string; pattern: RegExp; price: ModelPrice }
+
+// First match wins, so more specific ids come before their families
+const PRICE_RULES: PriceRule[] = [
+  { provider: 'local', pattern: /.*/, price: { in: 0, out: 0 } },
+  { pattern: /:free$/i, price: { in: 0, out: 0 } },
+  { pattern: /gpt-5-nano/i, price: { in: 0.05, out: 0.4 } },
+  { pattern: /gpt-5-mini/i, price: { in: 0.25, out: 2 } },
+  { pattern: /gpt-5/i, price: { in: 1.25, out: 10 } },
+  { pattern: /gpt-4\.1-nano/i, price: { in: 0.1, out: 0.4 } },
+  { pattern: /gpt-4\.1-mini/i, price: { in: 0.4, out: 1.6 } },
+  { pattern: /gpt-4\.1/i, price: { in: 2, out: 8 } },
+  { pattern: /gpt-4o-mini/i, price: { in: 0.15, out: 0.6 } },
+  { pattern: /gpt-4o/i, price: { in: 2.5, out: 10 } },
+  { pattern: /(^|\/)o4-mini/i, price: { in: 1.1, out: 4.4 } },
+  { pattern: /(^|\/)o3/i, price: { in: 2, out: 8 } },
+  { pattern: /gemini-2\.5-flash-lite/i, price: { in: 0.1, out: 0.4 } },
+  { pattern: /gemini-2\.5-flash/i, price: { in: 0.3, out: 2.5 } },
+  { pattern: /gemini-2\.5-pro/i, price: { in: 1.25, out: 10 } },
+  { pattern: /claude.*opus|opus.*claude/i, price: { in: 15, out: 75 } },
+  { pattern: /claude.*haiku|haiku/i, price: { in: 0.8, out: 4 } },
+  { pattern: /claude/i, price: { in: 3, out: 15 } },
+  { pattern: /qwen3-coder-480b/i, price: { in: 0.22, out: 1.8 } },
+  { pattern: /qwen3-coder|qwen3-next/i, price: { in: 0.15, out: 0.6 } },
+  { pattern: /kimi-k2/i, price: { in: 0.6, out: 2.5 } },
+]
+
+function readPricingOverrides(): Array<{ key: string; price: ModelPrice }> {
+  const raw = process.env.VECTOR_PRICING
+  if (!raw) return []
+  try {
+    const map = JSON.parse(raw) as Record<string, { in?: unknown; out?: unknown }>
+    return Object.entries(map)
+      .map(([key, value]) => ({ key: key.toLowerCase(), price: { in: Number(value?.in) || 0, out: Number(value?.out) || 0 } }))
+      .filter((entry) => entry.key.length > 0)
+  } catch {
+    console.warn('[pricing] VECTOR_PRICING is not valid JSON; ignoring')
+    return []
+  }
+}
+
+/** Price for a provider/model, or undefined when the model is not in the table. */
+export function resolveModelPrice(provider?: string, model?: string): ModelPrice | undefined {
+  const id = (model || '').toLowerCase()
+  const override = readPricingOverrides().find((entry) => id.includes(entry.key) || entry.key === provider)
+  if (override) return override.price
+  const rule = PRICE_RULES.find((r) => (!r.provider || r.provider === provider) && r.pattern.test(id))
+  return rule?.price
+}
+
+export function priceUsage(provider: string | undefined, model: string | undefined, tokensIn: number, tokensOut: number): { costUsd: number; priced: boolean } {
+  const price = resolveModelPrice(provider, model)
+  if (!price) return { costUsd: 0, priced: false }
+  return { costUsd: (tokensIn * price.in + tokensOut * price.out) / 1_000_000, priced: true }
+}
@@ -20,6 +20,8 @@ export const COMPLEXITY_DECISION_GUIDE = `
 When to plan
 - No-plan examples (one step):
   - Rename one instance: <rename_instance><path>…</path><newName>…</newName></rename_instance>
+  - Duplicate a template: <clone_instance><path>…</path><parentPath>…</parentPath><newName>…</newName></clone_instance>
+  - Lay out many copies: <bulk_create><className>Part</className><parentPath>…</parentPath><count>25</count><columns>5</columns><props>{"Name":"Tile_{i+1}","Position":"{col*6}, 1, {row*6}","Anchored":true}</props></bulk_create>
   - Toggle a property: <set_properties><path>…</path><props>{"Anchored":true}</props></set_properties>
   - Insert a small code snippet with one <show_diff> edit.
 - Plan-needed examples (multi-step):
@@ -38,14 +40,22 @@ Tool reference (purpose and tips)
 - list_open_documents: Return open documents; useful to infer likely targets.
 - open_or_create_script: Ensure a Script/LocalScript/ModuleScript exists; returns {path,text,created}.
 - list_children: Inspect scene tree under a path. Add classWhitelist to filter.
+- find_instances: Find instances anywhere in the scene with a selector instead of walking list_children level by level. Selector: ClassName or *, #Name, [Prop op value] (ops = != ^= $= *= > >= < <=), [@Attribute=value], .Prop=value; space = descendant, > = direct child. Example: Workspace Model[Name^=Tower] > Part.Anchored=true. Optional under, tags, attributes, properties (values to return), offset/limit (default 50); follow nextOffset for more.
 - get_properties: Read properties/attributes for a path; set includeAllAttributes for attributes.
+- spatial_query: Reason about placement before building. query=bounds (path → center/size/min/max of a part or whole Model), near (path or point, radius → closest parts), overlaps (path, or point + size for a planned part → intersecting parts), ground (point or path → highest part surface below, to rest new parts on). Object proposals carry warnings when new parts would intersect existing ones.
 - list_code_definition_names: Enumerate known code symbol names for navigation.
 - search_files: Grep-like substring search across files (case-insensitive by default).
 - show_diff: Propose edits to a file. Prefer first before apply_edit. Supports <files>[…] for multi-file.
 - apply_edit: Apply edits directly (use sparingly; prefer show_diff previews first).
 - create_instance: Create a Roblox instance at parentPath with optional props.
+- bulk_create: Create count (≤ 500) instances of one class from a props template in a single proposal. Strings may embed {expr} over i (0-based), n, and row/col when columns is set; cycle gives per-prop value lists used round-robin. Prefer it over repeated create_instance for grids, rows and rings.
 - set_properties: Update properties on an existing instance.
+  Typed values may be tagged ({"__t":"Vector3","x":1,"y":2,"z":3}) or written plainly: "4,1,2", {"x":..}, "Color3.fromRGB(255,0,0)", "#ff0000", "Enum.Material.Brick" or "Brick", "UDim2.fromScale(0.5,0.5)", "CFrame.new(0,5,0) * CFrame.Angles(0, math.rad(90), 0)", "NumberSequence.new(0,1)".
+- set_attributes: Set instance attributes on path, e.g. {"Health":100,"Team":"Red","Spawn":"Vector3.new(0,5,0)"}; remove lists names to clear. Use attributes for gameplay data scripts read with GetAttribute.
+- add_tag / remove_tag: Add or remove CollectionService tags on path (tag, or tags list) so scripts can find instances with CollectionService:GetTagged.
 - rename_instance: Rename an instance at a path.
+- move_instance: Reparent an instance (with its descendants) under newParentPath, e.g. put loose Parts into a Model.
+- clone_instance: Deep-copy a configured instance or template, optionally under parentPath and/or as newName (defaults to "<Name>Copy" next to the source).
 - delete_instance: Delete an instance.
 - search_assets: Search catalog for assets (limit ≤ 6 unless asked otherwise).
 - insert_asset: Insert an assetId into the scene (defaults to game.Workspace).
@@ -56,6 +66,13 @@ Tool reference (purpose and tips)
 - attempt_completion: Alias for completion; include result and optional confidence.
 `;
 
+export const NATIVE_TOOLS_GUIDE = `
+Native tool calling
+- Function calling is enabled for this session: invoke tools through the provided functions instead of writing XML tags.
+- Call one function per turn, or several when the calls are independent, with strict JSON arguments; structured values (props, edits, steps) are JSON, not strings.
+- Any text you write alongside the call is treated as a short progress note.
+`;
+
 export const EXAMPLES_POLICY = `
 Examples policy
 - Examples shown in this prompt are illustrative guidance only. They are not commands.
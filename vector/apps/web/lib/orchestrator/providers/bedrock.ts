@@ -1,26 +1,23 @@
 import type { ORMessage } from './openrouter'
+import { withToolCalls } from './openai'
+import type { ProviderResponse, ProviderToolCall, ToolSpec } from './openai'
+import { linkAbortSignal, readConverseStream } from './streaming'
+import type { ProviderDelta, ProviderStreamOptions } from './streaming'
+import { registerProvider } from './registry'
+import { BEDROCK_STYLE_MODEL, withUsage } from './shared'
+import { providerHttpError, withProviderRetry } from './retry'
+
+const DEFAULT_MODEL = 'anthropic.claude-3-5-sonnet-20240620-v1:0'
 
 function normalize(value?: string | null): string | undefined {
   const trimmed = typeof value === 'string' ? value.trim() : undefined
   return trimmed ? trimmed : undefined
 }
 
-async function fetchWithTimeout(input: RequestInfo | URL, init: RequestInit & { timeoutMs?: number } = {}) {
-  const { timeoutMs, ...rest } = init
-  if (!timeoutMs || timeoutMs <= 0) return fetch(input, rest)
-  const ac = new AbortController()
-  const id = setTimeout(() => ac.abort(), timeoutMs)
-  try {
-    return await fetch(input, { ...rest, signal: ac.signal })
-  } finally {
-    clearTimeout(id)
-  }
-}
-
-function buildConverseEndpoint(region: string, modelId: string): string {
+function buildConverseEndpoint(region: string, modelId: string, streaming = false): string {
   const r = region.trim()
   const m = modelId.trim()
-  return `https://bedrock-runtime.${r}.amazonaws.com/model/${encodeURIComponent(m)}/converse`
+  return `https://bedrock-runtime.${r}.amazonaws.com/model/${encodeURIComponent(m)}/${streaming ? 'converse-stream' : 'converse'}`
 }
 
 function buildInvokeEndpoint(region: string, modelId: string): string {
@@ -64,6 +61,23 @@ function extractTextFromConverseResponse(json: any): string | undefined {
   return undefined
 }
 
+function extractToolUsesFromConverseResponse(json: any): ProviderToolCall[] {
+  const parts = json?.output?.message?.content
+  if (!Array.isArray(parts)) return []
+  return parts
+    .filter((p: any) => p && typeof p === 'object' && p.toolUse && typeof p.toolUse.name === 'string')
+    .map((p: any) => ({ name: String(p.toolUse.name), arguments: p.toolUse.input ?? {} }))
+}
+
+function extractToolUsesFromInvokeResponse(json: any): ProviderToolCall[] {
+  // Anthropic-style body: { content: [{ type: 'tool_use', name, input }] }
+  const content = json?.content
+  if (!Array.isArray(content)) return []
+  return content
+    .filter((p: any) => p && typeof p === 'object' && p.type === 'tool_use' && typeof p.name === 'string')
+    .map((p: any) => ({ name: String(p.name), arguments: p.input ?? {} }))
+}
+
 function extractTextFromInvokeResponse(json: any): string | undefined {
   // Anthropic-style body: { content: [{ type: 'text', text: '...' }], ... }
   const content = json?.content
@@ -93,11 +107,12 @@ function extractTextFromOpenAIResponse(json: any): string | undefined {
 export async function callBedrock(opts: {
   systemPrompt?: string
   messages: ORMessage[]
+  tools?: ToolSpec[]
   model?: string
   apiKey?: string
   region?: string
   timeoutMs?: number
-}): Promise<{ content: string }>
+} & ProviderStreamOptions): Promise<ProviderResponse>
 {
   const debug = (process.env.BEDROCK_DEBUG || process.env.VECTOR_DEBUG || '0') === '1'
   const apiKey = normalize(opts.apiKey) || normalize(process.env.AWS_BEARER_TOKEN_BEDROCK) || normalize(process.env.AWS_BEDROCK_API_KEY)
@@ -105,7 +120,7 @@ export async function callBedrock(opts: {
     throw new Error('Missing AWS_BEARER_TOKEN_BEDROCK (or AWS_BEDROCK_API_KEY): set it or pass provider.apiKey for Bedrock.')
   }
 
-  const model = normalize(opts.model) || normalize(process.env.BEDROCK_MODEL) || normalize(process.env.AWS_BEDROCK_MODEL) || 'anthropic.claude-3-5-sonnet-20240620-v1:0'
+  const model = normalize(opts.model) || normalize(process.env.BEDROCK_MODEL) || normalize(process.env.AWS_BEDROCK_MODEL) || DEFAULT_MODEL
   const region = normalize(opts.region) || normalize(process.env.AWS_BEDROCK_REGION) || 'us-east-1'
   const timeoutMs = Number(opts.timeoutMs || process.env.BEDROCK_TIMEOUT_MS || process.env.OPENROUTER_TIMEOUT_MS || 30000)
 
@@ -127,37 +142,79 @@ export async function callBedrock(opts: {
     topP: Number(process.env.BEDROCK_TOP_P || 0.9),
   }
 
-  const converseUrl = buildConverseEndpoint(region, model)
+  const tools = opts.tools && opts.tools.length > 0 ? opts.tools : undefined
+  if (tools) {
+    converseBody.toolConfig = {
+      tools: tools.map((t) => ({
+        toolSpec: { name: t.name, description: t.description || t.name, inputSchema: { json: t.parameters || { type: 'object', properties: {} } } },
+      })),
+    }
+  }
+
+  // Only Converse has a streaming variant; the invoke fallback below stays buffered
+  const streaming = !!opts.onDelta
+  const converseUrl = buildConverseEndpoint(region, model, streaming)
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     Accept: 'application/json',
     Authorization: `Bearer ${apiKey}`,
   }
 
+  const retryOpts = { provider: 'bedrock', signal: opts.signal, timeoutMs, onRetry: opts.onRetry }
+  // Once converse streamed part of the answer, invoke would stream it again
+  let streamed = false
+  const onDelta = opts.onDelta
+    ? (delta: ProviderDelta) => {
+        streamed = true
+        opts.onDelta!(delta)
+      }
+    : undefined
   try {
-    const t0 = Date.now()
-    if (debug) console.log(`[provider.bedrock] converse.start model=${model} region=${region} msgs=${messages.length} timeoutMs=${timeoutMs}`)
-    const res = await fetchWithTimeout(converseUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(converseBody),
-      timeoutMs,
+    // undefined: converse answered without content, fall through to invoke
+    const conversed = await withProviderRetry({ ...retryOpts, onDelta }, async (attempt): Promise<ProviderResponse | undefined> => {
+      const converseAbort = linkAbortSignal(opts.signal, attempt.timeoutMs)
+      try {
+        const t0 = Date.now()
+        if (debug) console.log(`[provider.bedrock] converse.start model=${model} region=${region} msgs=${messages.length} timeoutMs=${attempt.timeoutMs} stream=${streaming} attempt=${attempt.attempt}`)
+        const res = await fetch(converseUrl, {
+          method: 'POST',
+          headers: streaming ? { ...headers, Accept: 'application/vnd.amazon.eventstream' } : headers,
+          body: JSON.stringify(converseBody),
+          signal: converseAbort.signal,
+        })
+        if (!res.ok) {
+          const err = await providerHttpError(res, 'Bedrock converse error')
+          if (debug) console.error(`[provider.bedrock] converse.http status=${res.status} bodyLen=${err.message.length}`)
+          throw err
+        }
+        if (streaming) {
+          const streamed = await readConverseStream(res, attempt.onDelta)
+          if (debug) console.log(`[provider.bedrock] converse.stream contentLen=${streamed.content.length} tools=${streamed.toolCalls?.length || 0} dtMs=${Date.now() - t0}`)
+          if (streamed.content || streamed.toolCalls?.length) return streamed
+          throw new Error('Bedrock converse stream was empty')
+        }
+        const data = await res.json().catch(() => ({}))
+        const content = extractTextFromConverseResponse(data)
+        const toolCalls = tools ? extractToolUsesFromConverseResponse(data) : []
+        if (toolCalls.length > 0) {
+          if (debug) console.log(`[provider.bedrock] converse.tools count=${toolCalls.length} dtMs=${Date.now() - t0}`)
+          return withUsage(withToolCalls(content || '', toolCalls), data?.usage)
+        }
+        if (content && content.trim().length > 0) {
+          const dt = Date.now() - t0
+          if (debug) console.log(`[provider.bedrock] converse.ok contentLen=${content.length} dtMs=${dt}`)
+          return withUsage({ content }, data?.usage)
+        }
+        return undefined
+      } finally {
+        converseAbort.done()
+      }
     })
-    if (!res.ok) {
-      const text = await res.text().catch(() => '')
-      if (debug) console.error(`[provider.bedrock] converse.http status=${res.status} bodyLen=${text.length}`)
-      throw new Error(`Bedrock converse error ${res.status}: ${text}`)
-    }
-    const data = await res.json().catch(() => ({}))
-    const content = extractTextFromConverseResponse(data)
-    if (content && content.trim().length > 0) {
-      const dt = Date.now() - t0
-      if (debug) console.log(`[provider.bedrock] converse.ok contentLen=${content.length} dtMs=${dt}`)
-      return { content }
-    }
+    if (conversed) return conversed
     // Fall through to invoke parsing if converse lacked content
     if (debug) console.warn('[provider.bedrock] converse.empty → falling back to invoke')
   } catch (err) {
+    if (opts.signal?.aborted || streamed) throw err
     // Fallback to invoke route
     if (debug) console.warn(`[provider.bedrock] converse.exception ${err instanceof Error ? err.message : String(err)}`)
   }
@@ -176,6 +233,9 @@ export async function callBedrock(opts: {
         .map((m) => ({ role: m.role === 'assistant' ? 'assistant' : 'user', content: [{ type: 'text', text: String(m.content || '') }] })),
     }
     if (opts.systemPrompt && opts.systemPrompt.trim().length > 0) invokeBody.system = opts.systemPrompt
+    if (tools) {
+      invokeBody.tools = tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.parameters || { type: 'object', properties: {} } }))
+    }
     parse = extractTextFromInvokeResponse
   } else {
     // OpenAI-compatible schema (Qwen, etc.)
@@ -198,25 +258,60 @@ export async function callBedrock(opts: {
 
   const t1 = Date.now()
   if (debug) console.log(`[provider.bedrock] invoke.start model=${model} region=${region} msgs=${messages.length} timeoutMs=${timeoutMs}`)
-  const res = await fetchWithTimeout(invokeUrl, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(invokeBody),
-    timeoutMs,
+  const data: any = await withProviderRetry(retryOpts, async (attempt) => {
+    const invokeAbort = linkAbortSignal(opts.signal, attempt.timeoutMs)
+    try {
+      const res = await fetch(invokeUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(invokeBody),
+        signal: invokeAbort.signal,
+      })
+      if (!res.ok) {
+        const err = await providerHttpError(res, 'Bedrock invoke error')
+        if (debug) console.error(`[provider.bedrock] invoke.http status=${res.status} bodyLen=${err.message.length}`)
+        throw err
+      }
+      return await res.json().catch(() => ({}))
+    } finally {
+      invokeAbort.done()
+    }
   })
-  if (!res.ok) {
-    const text = await res.text().catch(() => '')
-    if (debug) console.error(`[provider.bedrock] invoke.http status=${res.status} bodyLen=${text.length}`)
-    throw new Error(`Bedrock invoke error ${res.status}: ${text}`)
-  }
-  const data = await res.json().catch(() => ({}))
   const content = parse(data)
+  const toolCalls = tools && isAnthropic ? extractToolUsesFromInvokeResponse(data) : []
+  if (toolCalls.length > 0) {
+    if (debug) console.log(`[provider.bedrock] invoke.tools count=${toolCalls.length} dtMs=${Date.now() - t1}`)
+    return withUsage(withToolCalls(content || '', toolCalls), data?.usage)
+  }
   if (!content || !content.trim()) {
     throw new Error('Bedrock returned empty response')
   }
   const dt = Date.now() - t1
   if (debug) console.log(`[provider.bedrock] invoke.ok contentLen=${content.length} dtMs=${dt}`)
-  return { content }
+  return withUsage({ content }, data?.usage)
 }
 
+const TOOL_MODEL_PATTERNS = [/^anthropic\./i, /^amazon\.nova/i, /^mistral\.mistral-large/i, /^meta\.llama3-[1-9]/i, /^cohere\.command-r/i]
 
+registerProvider({
+  name: 'bedrock',
+  label: 'Bedrock',
+  capabilities: { tools: true, streaming: true, vision: true },
+  defaultModel: DEFAULT_MODEL,
+  models: ['qwen.qwen3-coder-30b-a3b-v1:0'],
+  env: {
+    apiKey: ['AWS_BEARER_TOKEN_BEDROCK', 'AWS_BEDROCK_API_KEY'],
+    model: ['BEDROCK_MODEL', 'AWS_BEDROCK_MODEL'],
+    region: ['AWS_BEDROCK_REGION'],
+    timeoutMs: ['BEDROCK_TIMEOUT_MS', 'OPENROUTER_TIMEOUT_MS'],
+  },
+  priority: 40,
+  // Vendor-style prefixes ("anthropic.", "qwen.", …), version suffixes or an explicit "bedrock:" prefix
+  matchesModel: (model) => !/^gemini/i.test(model) && BEDROCK_STYLE_MODEL.test(model),
+  // Only Converse-capable families accept toolConfig
+  supportsTools: (model) => {
+    const id = normalize(model) || normalize(process.env.BEDROCK_MODEL) || normalize(process.env.AWS_BEDROCK_MODEL) || DEFAULT_MODEL
+    return TOOL_MODEL_PATTERNS.some((re) => re.test(id.replace(/^bedrock:/i, '')))
+  },
+  call: callBedrock,
+})
@@ -0,0 +1,113 @@
+// Content-addressed cache of provider responses for cheap prompt iteration and offline replays.
+// `auto` entries live under data/provider-cache/<aa>/<sha256>.json (VECTOR_PROVIDER_CACHE_DIR
+// overrides), which is git-ignored scratch space. `record` writes fixtures outside data/ to the tracked
+// lib/testing/fixtures/provider-cache (VECTOR_PROVIDER_FIXTURES_DIR overrides) so CI can replay them.
+// Lookups check the scratch cache first, then the fixtures.
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'node:crypto'
+import type { ToolSpec } from '../../tools/jsonSchema'
+import type { ProviderResponse } from './shared'
+import type { ProviderDelta } from './streaming'
+
+/**
+ * off    – no caching (default)
+ * auto   – serve hits, call the provider and store on a miss
+ * record – always call the provider and (over)write the entry
+ * replay – serve hits only; a miss throws ProviderCacheMissError (no network, no API key needed)
+ */
+export type ProviderCacheMode = 'off' | 'auto' | 'record' | 'replay'
+
+export const PROVIDER_CACHE_MODES: ProviderCacheMode[] = ['off', 'auto', 'record', 'replay']
+
+export type ProviderCacheRequest = {
+  // The same model id and prompt can answer differently through another provider
+  provider: string
+  systemPrompt: string
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[]
+  tools?: ToolSpec[]
+  model: string
+}
+
+export type ProviderCacheEntry = {
+  key: string
+  createdAt: number
+  provider: string
+  model: string
+  request: ProviderCacheRequest
+  response: ProviderResponse
+}
+
+export class ProviderCacheMissError extends Error {
+  readonly key: string
+  constructor(key: string) {
+    super(`Provider cache miss in replay mode (key ${key.slice(0, 12)}); record fixtures first with VECTOR_PROVIDER_CACHE=record`)
+    this.name = 'ProviderCacheMissError'
+    this.key = key
+  }
+}
+
+export function resolveCacheMode(requested?: string | null): ProviderCacheMode {
+  const raw = (requested || process.env.VECTOR_PROVIDER_CACHE || 'off').trim().toLowerCase()
+  return (PROVIDER_CACHE_MODES as string[]).includes(raw) ? (raw as ProviderCacheMode) : 'off'
+}
+
+function cacheDir(): string {
+  const override = process.env.VECTOR_PROVIDER_CACHE_DIR?.trim()
+  return override ? path.resolve(override) : path.resolve(process.cwd(), 'data', 'provider-cache')
+}
+
+function fixturesDir(): string {
+  const override = process.env.VECTOR_PROVIDER_FIXTURES_DIR?.trim()
+  return override ? path.resolve(override) : path.resolve(process.cwd(), 'lib', 'testing', 'fixtures', 'provider-cache')
+}
+
+function entryPath(dir: string, key: string): string {
+  return path.join(dir, key.slice(0, 2), `${key}.json`)
+}
+
+export function providerCacheKey(req: ProviderCacheRequest): string {
+  // Field order is fixed so the same request always hashes the same
+  const canonical = JSON.stringify({
+    provider: req.provider,
+    model: req.model,
+    systemPrompt: req.systemPrompt,
+    messages: req.messages.map((m) => ({ role: m.role, content: m.content })),
+    tools: (req.tools || []).map((t) => ({ name: t.name, description: t.description, parameters: t.parameters })),
+  })
+  return crypto.createHash('sha256').update(canonical).digest('hex')
+}
+
+export function readCachedResponse(key: string): ProviderCacheEntry | undefined {
+  for (const dir of [cacheDir(), fixturesDir()]) {
+    const file = entryPath(dir, key)
+    if (!fs.existsSync(file)) continue
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as ProviderCacheEntry
+    } catch (err) {
+      console.warn(`[provider.cache] unreadable entry ${file}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  return undefined
+}
+
+/** `fixture` writes to the tracked fixtures directory (record mode) instead of the scratch cache. */
+export function writeCachedResponse(entry: ProviderCacheEntry, opts?: { fixture?: boolean }) {
+  const file = entryPath(opts?.fixture ? fixturesDir() : cacheDir(), entry.key)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`
+  fs.writeFileSync(tmp, JSON.stringify(entry, null, 2), 'utf-8')
+  fs.renameSync(tmp, file)
+}
+
+// Replays a cached response through onDelta so streaming consumers see the same chunk types
+export function replayDeltas(response: ProviderResponse, onDelta?: (delta: ProviderDelta) => void) {
+  if (!onDelta) return
+  if (response.content) onDelta({ type: 'text', text: response.content })
+  const calls = response.toolCalls || (response.toolCall ? [response.toolCall] : [])
+  calls.forEach((call, index) => {
+    const args = typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {})
+    onDelta({ type: 'tool_call', index, name: call.name, arguments: args })
+  })
+}
@@ -1,21 +1,79 @@
 import type { ORMessage } from './openrouter'
+import { withToolCalls } from './openai'
+import type { ProviderResponse, ProviderToolCall, ToolSpec } from './openai'
+import { toGeminiSchema } from '../../tools/jsonSchema'
+import { linkAbortSignal, readSSE } from './streaming'
+import type { ProviderDelta, ProviderStreamOptions } from './streaming'
+import { registerProvider } from './registry'
+import { withUsage } from './shared'
+import { providerHttpError, withProviderRetry } from './retry'
 
-type GeminiPart = { text?: string }
+const DEFAULT_MODEL = 'gemini-2.5-flash'
+
+type GeminiPart = { text?: string; functionCall?: { name?: string; args?: unknown } }
 type GeminiContent = { parts?: GeminiPart[] }
 type GeminiCandidate = { content?: GeminiContent; finishReason?: string }
-type GeminiResponse = { candidates?: GeminiCandidate[] }
+type GeminiResponse = { candidates?: GeminiCandidate[]; usageMetadata?: Record<string, number> }
 
 function normalize(value?: string | null): string | undefined {
   const trimmed = typeof value === 'string' ? value.trim() : undefined
   return trimmed ? trimmed : undefined
 }
 
-function buildEndpoint(model: string, baseUrl?: string): string {
+function buildEndpoint(model: string, baseUrl?: string, streaming = false): string {
+  const method = streaming ? 'streamGenerateContent' : 'generateContent'
   const trimmedBase = baseUrl?.replace(/\/$/, '')
   if (trimmedBase) {
-    return `${trimmedBase}/${model}:generateContent`
+    return `${trimmedBase}/${model}:${method}`
+  }
+  return `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`
+}
+
+// Each SSE event carries a full GenerateContentResponse holding only the new parts (usageMetadata is
+// cumulative, so the last one counts).
+async function readGeminiStream(res: Response, onDelta?: (delta: ProviderDelta) => void): Promise<GeminiResponse> {
+  const parts: GeminiPart[] = []
+  let finishReason: string | undefined
+  let usageMetadata: GeminiResponse['usageMetadata']
+  let callIndex = 0
+  for await (const evt of readSSE(res)) {
+    let json: GeminiResponse
+    try {
+      json = JSON.parse(evt.data)
+    } catch {
+      continue
+    }
+    if (json.usageMetadata) usageMetadata = json.usageMetadata
+    const candidate = Array.isArray(json.candidates) ? json.candidates[0] : undefined
+    if (!candidate) continue
+    if (candidate.finishReason) finishReason = candidate.finishReason
+    for (const part of candidate.content?.parts || []) {
+      parts.push(part)
+      if (typeof part.text === 'string' && part.text.length > 0) {
+        onDelta?.({ type: 'text', text: part.text })
+      }
+      if (part.functionCall && typeof part.functionCall.name === 'string') {
+        onDelta?.({ type: 'tool_call', index: callIndex++, name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) })
+      }
+    }
   }
-  return `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`
+  return { candidates: [{ content: { parts }, finishReason }], usageMetadata }
+}
+
+function toGeminiTools(tools: ToolSpec[]) {
+  return [
+    {
+      functionDeclarations: tools.map((tool) => {
+        const params = tool.parameters
+        const hasParams = !!params && Object.keys(params.properties || {}).length > 0
+        return {
+          name: tool.name,
+          description: tool.description,
+          ...(hasParams ? { parameters: toGeminiSchema(params!) } : {}),
+        }
+      }),
+    },
+  ]
 }
 
 function toGeminiRole(role: ORMessage['role']): 'user' | 'model' {
@@ -25,11 +83,12 @@ function toGeminiRole(role: ORMessage['role']): 'user' | 'model' {
 export async function callGemini(opts: {
   systemPrompt?: string
   messages: ORMessage[]
+  tools?: ToolSpec[]
   model?: string
   apiKey?: string
   baseUrl?: string
   timeoutMs?: number
-}): Promise<{ content: string }>
+} & ProviderStreamOptions): Promise<ProviderResponse>
 {
   const apiKey = normalize(opts.apiKey) || normalize(process.env.GEMINI_API_KEY)
   if (!apiKey) {
@@ -37,61 +96,92 @@ export async function callGemini(opts: {
   }
 
   const requestedModel = normalize(opts.model)
-  const defaultModel = normalize(process.env.GEMINI_MODEL) || 'gemini-2.5-flash'
+  const defaultModel = normalize(process.env.GEMINI_MODEL) || DEFAULT_MODEL
   const model = requestedModel || defaultModel
 
-  const controller = new AbortController()
-  const timeout = opts.timeoutMs && opts.timeoutMs > 0 ? setTimeout(() => controller.abort(), opts.timeoutMs) : undefined
+  const streaming = !!opts.onDelta
+  const payload: Record<string, unknown> = {
+    contents: opts.messages.map((message) => ({
+      role: toGeminiRole(message.role),
+      parts: [{ text: message.content }],
+    })),
+  }
 
-  try {
-    const payload: Record<string, unknown> = {
-      contents: opts.messages.map((message) => ({
-        role: toGeminiRole(message.role),
-        parts: [{ text: message.content }],
-      })),
-    }
+  if (opts.tools && opts.tools.length > 0) {
+    payload.tools = toGeminiTools(opts.tools)
+    payload.toolConfig = { functionCallingConfig: { mode: 'AUTO' } }
+  }
 
-    if (opts.systemPrompt && opts.systemPrompt.trim().length > 0) {
-      payload.systemInstruction = {
-        role: 'system',
-        parts: [{ text: opts.systemPrompt }],
-      }
+  if (opts.systemPrompt && opts.systemPrompt.trim().length > 0) {
+    payload.systemInstruction = {
+      role: 'system',
+      parts: [{ text: opts.systemPrompt }],
     }
+  }
 
-    const endpoint = buildEndpoint(model, normalize(opts.baseUrl) || normalize(process.env.GEMINI_API_BASE_URL))
-    const url = `${endpoint}?key=${encodeURIComponent(apiKey)}`
-
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-client': 'vector-cli/1.0.0',
-      },
-      body: JSON.stringify(payload),
-      signal: controller.signal,
-    })
-
-    if (!res.ok) {
-      const text = await res.text().catch(() => '')
-      throw new Error(`Gemini error ${res.status}: ${text}`)
-    }
+  const endpoint = buildEndpoint(model, normalize(opts.baseUrl) || normalize(process.env.GEMINI_API_BASE_URL), streaming)
+  const url = `${endpoint}?${streaming ? 'alt=sse&' : ''}key=${encodeURIComponent(apiKey)}`
 
-    const data = (await res.json()) as GeminiResponse
-    const candidate = Array.isArray(data.candidates) ? data.candidates[0] : undefined
-    if (!candidate) {
-      throw new Error('Gemini returned no candidates')
-    }
-    const finishReason = candidate.finishReason?.toUpperCase()
-    if (finishReason && finishReason.includes('SAFETY')) {
-      throw new Error(`Gemini blocked the response (${finishReason})`)
-    }
-    const parts = candidate.content?.parts?.map((part) => normalize(part.text)).filter((text): text is string => !!text) || []
-    const content = parts.join('').trim()
-    if (!content) {
-      throw new Error('Gemini response was empty')
+  const timeoutMs = Number(opts.timeoutMs || process.env.GEMINI_TIMEOUT_MS || process.env.OPENROUTER_TIMEOUT_MS || 30000)
+
+  return await withProviderRetry({ provider: 'gemini', signal: opts.signal, timeoutMs, onDelta: opts.onDelta, onRetry: opts.onRetry }, async (attempt) => {
+    const abort = linkAbortSignal(opts.signal, attempt.timeoutMs)
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-client': 'vector-cli/1.0.0',
+        },
+        body: JSON.stringify(payload),
+        signal: abort.signal,
+      })
+
+      if (!res.ok) {
+        throw await providerHttpError(res, 'Gemini error')
+      }
+
+      const data = streaming ? await readGeminiStream(res, attempt.onDelta) : ((await res.json()) as GeminiResponse)
+      const candidate = Array.isArray(data.candidates) ? data.candidates[0] : undefined
+      if (!candidate) {
+        throw new Error('Gemini returned no candidates')
+      }
+      const finishReason = candidate.finishReason?.toUpperCase()
+      if (finishReason && finishReason.includes('SAFETY')) {
+        throw new Error(`Gemini blocked the response (${finishReason})`)
+      }
+      const rawParts = candidate.content?.parts || []
+      // Streamed text arrives in fragments, so only trim the joined result
+      const parts = rawParts.map((part) => (typeof part.text === 'string' ? part.text : '')).filter((text) => text.length > 0)
+      const content = parts.join('').trim()
+      const calls: ProviderToolCall[] = rawParts
+        .filter((part) => part.functionCall && typeof part.functionCall.name === 'string')
+        .map((part) => ({ name: String(part.functionCall!.name), arguments: part.functionCall!.args ?? {} }))
+      if (calls.length > 0) {
+        return withUsage(withToolCalls(content, calls), data.usageMetadata)
+      }
+      if (!content) {
+        throw new Error('Gemini response was empty')
+      }
+      return withUsage({ content }, data.usageMetadata)
+    } finally {
+      abort.done()
     }
-    return { content }
-  } finally {
-    if (timeout) clearTimeout(timeout)
-  }
+  })
 }
+
+registerProvider({
+  name: 'gemini',
+  label: 'Gemini',
+  capabilities: { tools: true, streaming: true, vision: true },
+  defaultModel: DEFAULT_MODEL,
+  env: {
+    apiKey: ['GEMINI_API_KEY'],
+    model: ['GEMINI_MODEL'],
+    baseUrl: ['GEMINI_API_BASE_URL'],
+    timeoutMs: ['GEMINI_TIMEOUT_MS', 'OPENROUTER_TIMEOUT_MS'],
+  },
+  priority: 20,
+  matchesModel: (model) => /^gemini/i.test(model),
+  call: callGemini,
+})
@@ -0,0 +1,10 @@
+// Importing the adapters registers them; consumers use the registry from here
+import './openai'
+import './gemini'
+import './nvidia'
+import './bedrock'
+import './openrouter'
+import './local'
+
+export * from './registry'
+export { ProviderInputSchema } from './schema'
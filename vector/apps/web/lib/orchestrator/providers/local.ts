@@ -0,0 +1,226 @@
+// Self-hosted OpenAI-compatible adapter (llama.cpp server, vLLM, Ollama, LM Studio).
+// No API key required; the server is probed for its models and tool support.
+
+import type { ORMessage } from './openrouter'
+import { extractOpenAIToolCalls, toOpenAITools, withToolCalls } from './openai'
+import type { ProviderResponse, ToolSpec } from './openai'
+import { linkAbortSignal, readOpenAIStream } from './streaming'
+import type { ProviderStreamOptions } from './streaming'
+import { registerProvider } from './registry'
+import type { ProviderProbe } from './registry'
+import { withUsage } from './shared'
+import { providerHttpError, withProviderRetry } from './retry'
+
+const DEFAULT_BASE_URL = 'http://127.0.0.1:11434/v1'
+const DEFAULT_MODEL = 'qwen2.5-coder:14b'
+const PROBE_TTL_MS = 5 * 60 * 1000
+const PROBE_TIMEOUT_MS = 3000
+
+// Families that emit usable OpenAI-style tool_calls through common local servers
+const TOOL_MODEL_PATTERNS = [/qwen2\.5/i, /qwen3/i, /llama-?3\.[1-9]/i, /llama-?4/i, /mistral-(nemo|small|large)/i, /hermes/i, /functionary/i, /command-r/i, /firefunction/i, /gpt-oss/i]
+// Parameter counts at or below this are treated as weak tool-callers (XML tags + simplified rules)
+const SMALL_MODEL_BILLIONS = 14
+const SMALL_MODEL_PATTERNS = [/\bphi/i, /gemma/i, /tinyllama/i, /llama-?3\.2/i, /smollm/i]
+
+function normalize(value?: string | null): string | undefined {
+  const trimmed = typeof value === 'string' ? value.trim() : undefined
+  return trimmed ? trimmed : undefined
+}
+
+function resolveBaseUrl(baseUrl?: string): string {
+  return (normalize(baseUrl) || normalize(process.env.LOCAL_LLM_BASE_URL) || DEFAULT_BASE_URL).replace(/\/$/, '')
+}
+
+function authHeaders(apiKey?: string): Record<string, string> {
+  const key = normalize(apiKey) || normalize(process.env.LOCAL_LLM_API_KEY)
+  return key ? { Authorization: `Bearer ${key}` } : {}
+}
+
+type ProbeEntry = { at: number; probe: ProviderProbe; tools: Map<string, boolean> }
+
+// Keyed by base URL; also records models that rejected the tools payload at call time
+const probes: Map<string, ProbeEntry> = new Map()
+
+function modelBillions(model: string): number | undefined {
+  const match = /(?:^|[^\d.])(\d+(?:\.\d+)?)b\b/i.exec(model)
+  return match ? Number(match[1]) : undefined
+}
+
+export function isWeakLocalModel(model?: string): boolean {
+  const setting = (process.env.LOCAL_LLM_SIMPLE_PROMPT || 'auto').trim().toLowerCase()
+  if (setting === '1' || setting === 'true' || setting === 'on') return true
+  if (setting === '0' || setting === 'false' || setting === 'off') return false
+  const id = normalize(model) || ''
+  if (SMALL_MODEL_PATTERNS.some((re) => re.test(id))) return true
+  const size = modelBillions(id)
+  return size !== undefined && size <= SMALL_MODEL_BILLIONS
+}
+
+function stripPrefix(model?: string): string | undefined {
+  return normalize(model)?.replace(/^local:/i, '')
+}
+
+function cachedToolSupport(model?: string, baseUrl?: string): boolean | undefined {
+  const entry = probes.get(resolveBaseUrl(baseUrl))
+  const id = stripPrefix(model) || entry?.probe.model
+  return entry && id ? entry.tools.get(id) : undefined
+}
+
+// Ollama exposes per-model capabilities on its native API (/api/show); other servers don't
+async function probeOllamaTools(baseUrl: string, model: string, signal: AbortSignal): Promise<boolean | undefined> {
+  try {
+    const root = baseUrl.replace(/\/v1$/, '')
+    const res = await fetch(`${root}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model }),
+      signal,
+    })
+    if (!res.ok) return undefined
+    const json: any = await res.json()
+    return Array.isArray(json?.capabilities) ? json.capabilities.includes('tools') : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export async function probeLocalServer(opts: { model?: string; baseUrl?: string; apiKey?: string; signal?: AbortSignal } = {}): Promise<ProviderProbe> {
+  const baseUrl = resolveBaseUrl(opts.baseUrl)
+  const cached = probes.get(baseUrl)
+  const wanted = stripPrefix(opts.model) || normalize(process.env.LOCAL_LLM_MODEL)
+  const fresh = !!cached && Date.now() - cached.at < PROBE_TTL_MS
+  if (cached && fresh && (!cached.probe.reachable || !wanted || cached.tools.has(wanted))) {
+    const model = wanted || cached.probe.model
+    return { ...cached.probe, model, tools: model ? cached.tools.get(model) : undefined }
+  }
+
+  const abort = linkAbortSignal(opts.signal, PROBE_TIMEOUT_MS)
+  let probe: ProviderProbe
+  const tools: Map<string, boolean> = cached?.tools || new Map()
+  try {
+    const res = await fetch(`${baseUrl}/models`, { headers: authHeaders(opts.apiKey), signal: abort.signal })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    const json: any = await res.json()
+    const models: string[] = Array.isArray(json?.data)
+      ? json.data.map((m: any) => (typeof m?.id === 'string' ? m.id : '')).filter(Boolean)
+      : []
+    const model = wanted || models[0]
+    if (model && !tools.has(model)) {
+      const reported = await probeOllamaTools(baseUrl, model, abort.signal)
+      tools.set(model, reported ?? TOOL_MODEL_PATTERNS.some((re) => re.test(model)))
+    }
+    probe = { reachable: true, models, model, tools: model ? tools.get(model) : undefined }
+  } catch (err: any) {
+    probe = { reachable: false, models: [], error: err?.message || 'unreachable' }
+  } finally {
+    abort.done()
+  }
+  probes.set(baseUrl, { at: Date.now(), probe, tools })
+  if (!probe.reachable) console.warn(`[provider.local] probe.failed base=${baseUrl} ${probe.error}`)
+  return probe
+}
+
+// Weak local models often fence their tool XML; unwrap so the tag parser sees it
+function unwrapToolFences(content: string): string {
+  return content.replace(/```(?:xml|html)?\s*\n?(<[a-zA-Z_][\s\S]*?>)\s*```/g, '$1')
+}
+
+export async function callLocal(opts: {
+  systemPrompt: string
+  messages: ORMessage[]
+  tools?: ToolSpec[]
+  model?: string
+  apiKey?: string
+  baseUrl?: string
+  timeoutMs?: number
+} & ProviderStreamOptions): Promise<ProviderResponse> {
+  const baseUrl = resolveBaseUrl(opts.baseUrl)
+  const probe = await probeLocalServer({ model: opts.model, baseUrl, apiKey: opts.apiKey, signal: opts.signal })
+  const model = stripPrefix(opts.model) || normalize(process.env.LOCAL_LLM_MODEL) || probe.model || DEFAULT_MODEL
+  // Local generation is slow on CPU/consumer GPUs; allow a longer default than cloud adapters
+  const timeoutMs = Number(opts.timeoutMs || process.env.LOCAL_LLM_TIMEOUT_MS || 120000)
+  const debug = (process.env.LOCAL_LLM_DEBUG || process.env.VECTOR_DEBUG || '0') === '1'
+
+  const body: any = {
+    model,
+    messages: [{ role: 'system', content: opts.systemPrompt }, ...opts.messages],
+    temperature: Number(process.env.LOCAL_LLM_TEMPERATURE || 0.2),
+    max_tokens: Number(process.env.LOCAL_LLM_MAX_TOKENS || 2048),
+  }
+  const useTools = !!opts.tools && opts.tools.length > 0
+  if (useTools) {
+    body.tools = toOpenAITools(opts.tools!)
+    body.tool_choice = 'auto'
+  }
+  const streaming = !!opts.onDelta
+  if (streaming) {
+    body.stream = true
+    // Servers without usage reporting ignore it; the orchestrator then estimates tokens
+    body.stream_options = { include_usage: true }
+  }
+
+  const url = `${baseUrl}/chat/completions`
+  if (debug) console.log(`[provider.local] POST ${url} model=${model} msgs=${body.messages.length} tools=${useTools ? opts.tools!.length : 0}`)
+  return await withProviderRetry({ provider: 'local', signal: opts.signal, timeoutMs, onDelta: opts.onDelta, onRetry: opts.onRetry }, async (attempt) => {
+    const t0 = Date.now()
+    const abort = linkAbortSignal(opts.signal, attempt.timeoutMs)
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(opts.apiKey) },
+        body: JSON.stringify(body),
+        signal: abort.signal,
+      })
+      if (!res.ok) {
+        const err = await providerHttpError(res, 'Local LLM error')
+        // Servers started without tool parsing (e.g. vLLM without --enable-auto-tool-choice) reject the payload
+        if (useTools && (res.status === 400 || res.status === 422) && /tool|function/i.test(err.message)) probes.get(baseUrl)?.tools.set(model, false)
+        throw err
+      }
+      if (streaming) {
+        const streamed = await readOpenAIStream(res, attempt.onDelta)
+        if (debug) console.log(`[provider.local] ← stream ${Date.now() - t0}ms contentLen=${streamed.content.length}`)
+        return { ...streamed, content: unwrapToolFences(streamed.content) }
+      }
+      const json: any = await res.json()
+      const message = json?.choices?.[0]?.message
+      if (!message) throw new Error('Local LLM returned no choices')
+      if (debug) console.log(`[provider.local] ← ${Date.now() - t0}ms status=${res.status}`)
+      return withUsage(withToolCalls(unwrapToolFences(message.content || ''), extractOpenAIToolCalls(message)), json.usage)
+    } finally {
+      abort.done()
+    }
+  })
+}
+
+const WEAK_MODEL_HINTS = `Local model rules (follow exactly):
+- Emit exactly ONE tool tag per turn, as the very last thing in your reply.
+- Write tool tags as raw XML: no code fences, no markdown around them.
+- Use only tool names and parameters listed above; parameter values are plain text or JSON.
+- Keep any text before the tool tag to one short sentence.`
+
+registerProvider({
+  name: 'local',
+  label: 'Local (OpenAI-compatible)',
+  capabilities: { tools: true, streaming: true, vision: false },
+  defaultModel: DEFAULT_MODEL,
+  env: {
+    apiKey: ['LOCAL_LLM_API_KEY'],
+    model: ['LOCAL_LLM_MODEL'],
+    baseUrl: ['LOCAL_LLM_BASE_URL'],
+    timeoutMs: ['LOCAL_LLM_TIMEOUT_MS'],
+  },
+  priority: 60,
+  // Explicit "local:" prefix, e.g. "local:qwen2.5-coder:7b"
+  matchesModel: (model) => /^local:/i.test(model),
+  requiresApiKey: false,
+  supportsTools: (model, baseUrl) => {
+    const id = stripPrefix(model) || normalize(process.env.LOCAL_LLM_MODEL) || ''
+    if (isWeakLocalModel(id)) return false
+    // Probes are cached per server, so look up the one this request talks to
+    return cachedToolSupport(id, baseUrl) ?? TOOL_MODEL_PATTERNS.some((re) => re.test(id))
+  },
+  probe: probeLocalServer,
+  promptHints: (model) => (isWeakLocalModel(stripPrefix(model)) ? WEAK_MODEL_HINTS : undefined),
+  call: (opts) => callLocal({ ...opts, model: stripPrefix(opts.model) }),
+})
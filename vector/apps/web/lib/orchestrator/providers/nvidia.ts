@@ -1,22 +1,19 @@
 import type { ORMessage } from './openrouter'
+import { extractOpenAIToolCalls, toOpenAITools, withToolCalls } from './openai'
+import type { ProviderResponse, ToolSpec } from './openai'
+import { linkAbortSignal, readOpenAIStream } from './streaming'
+import type { ProviderStreamOptions } from './streaming'
+import { registerProvider } from './registry'
+import { BEDROCK_STYLE_MODEL, withUsage } from './shared'
+import { ProviderHttpError, providerHttpError, withProviderRetry } from './retry'
+
+const DEFAULT_MODEL = 'qwen3-coder-480b-a35b-instruct'
 
 function normalize(value?: string | null): string | undefined {
   const t = typeof value === 'string' ? value.trim() : ''
   return t.length > 0 ? t : undefined
 }
 
-async function fetchWithTimeout(input: RequestInfo | URL, init: RequestInit & { timeoutMs?: number } = {}) {
-  const { timeoutMs, ...rest } = init
-  if (!timeoutMs || timeoutMs <= 0) return fetch(input, rest)
-  const ac = new AbortController()
-  const id = setTimeout(() => ac.abort(), timeoutMs)
-  try {
-    return await fetch(input, { ...rest, signal: ac.signal })
-  } finally {
-    clearTimeout(id)
-  }
-}
-
 function toOpenAIChat(systemPrompt: string | undefined, messages: ORMessage[]) {
   const arr: { role: 'system' | 'user' | 'assistant'; content: string }[] = []
   if (systemPrompt && systemPrompt.trim().length > 0) arr.push({ role: 'system', content: systemPrompt })
@@ -27,29 +24,34 @@ function toOpenAIChat(systemPrompt: string | undefined, messages: ORMessage[]) {
 export async function callNvidia(opts: {
   systemPrompt?: string
   messages: ORMessage[]
+  tools?: ToolSpec[]
   model?: string
   apiKey?: string
   baseUrl?: string
   deploymentId?: string
   timeoutMs?: number
-}): Promise<{ content: string }>
+} & ProviderStreamOptions): Promise<ProviderResponse>
 {
   const debug = (process.env.NVIDIA_DEBUG || process.env.VECTOR_DEBUG || '0') === '1'
   const apiKey = normalize(opts.apiKey) || normalize(process.env.NVIDIA_API_KEY) || normalize(process.env.NVIDIA_VIM_API_KEY)
   if (!apiKey) {
     throw new Error('Missing NVIDIA_API_KEY (or NVIDIA_VIM_API_KEY): set it or pass provider.apiKey for NVIDIA.')
   }
-  const model = normalize(opts.model) || normalize(process.env.NVIDIA_MODEL) || 'qwen3-coder-480b-a35b-instruct'
+  const model = normalize(opts.model) || normalize(process.env.NVIDIA_MODEL) || DEFAULT_MODEL
   const base = normalize(opts.baseUrl) || normalize(process.env.NVIDIA_API_BASE_URL)
   const defaultBases = ['https://ai.api.nvidia.com/v1', 'https://integrate.api.nvidia.com/v1']
   const bases = base ? [base] : defaultBases
   const deploymentId = normalize(opts.deploymentId) || normalize(process.env.NVIDIA_DEPLOYMENT_ID)
   const timeoutMs = Number(opts.timeoutMs || process.env.NVIDIA_TIMEOUT_MS || 30000)
 
-  const body = {
+  const body: Record<string, unknown> = {
     model,
     messages: toOpenAIChat(opts.systemPrompt, opts.messages),
   }
+  if (opts.tools && opts.tools.length > 0) {
+    body.tools = toOpenAITools(opts.tools)
+    body.tool_choice = 'auto'
+  }
 
   const t0 = Date.now()
   if (debug) console.log(`[provider.nvidia] start model=${model} bases=${bases.join(',')} msgs=${opts.messages?.length ?? 0}`)
@@ -64,48 +66,87 @@ export async function callNvidia(opts: {
       `${baseUrl}/responses`,
     ]
     for (const url of candidateUrls) {
+      // Only the chat completions endpoint speaks the OpenAI SSE delta format
+      const streaming = !!opts.onDelta && url.endsWith('/chat/completions')
       try {
-        if (debug) console.log(`[provider.nvidia] try url=${url}`)
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        }
-        if (isIntegrate && deploymentId) {
-          headers['NVCF-Deployment-Id'] = deploymentId
-        }
-        const res = await fetchWithTimeout(url, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(body),
-          timeoutMs,
-        })
-        const dt = Date.now() - t0
-        if (!res.ok) {
-          const text = await res.text().catch(() => '')
-          if (debug) console.error(`[provider.nvidia] http ${res.status} url=${url} dtMs=${dt} bodyLen=${text.length} body=${text.slice(0,400)}`)
-          if (res.status === 404) {
-            const hint = isIntegrate && !deploymentId
-              ? ' (missing NVIDIA_DEPLOYMENT_ID when using integrate.api)'
-              : ''
-            lastErr = new Error(`NVIDIA 404 at ${url}${hint}`)
-            continue
+        return await withProviderRetry({ provider: 'nvidia', signal: opts.signal, timeoutMs, onDelta: streaming ? opts.onDelta : undefined, onRetry: opts.onRetry }, async (attempt) => {
+          const abort = linkAbortSignal(opts.signal, attempt.timeoutMs)
+          try {
+            if (debug) console.log(`[provider.nvidia] try url=${url} stream=${streaming} attempt=${attempt.attempt}`)
+            const headers: Record<string, string> = {
+              'Content-Type': 'application/json',
+              Accept: streaming ? 'text/event-stream' : 'application/json',
+              Authorization: `Bearer ${apiKey}`,
+            }
+            if (isIntegrate && deploymentId) {
+              headers['NVCF-Deployment-Id'] = deploymentId
+            }
+            const res = await fetch(url, {
+              method: 'POST',
+              headers,
+              body: JSON.stringify(streaming ? { ...body, stream: true, stream_options: { include_usage: true } } : body),
+              signal: abort.signal,
+            })
+            const dt = Date.now() - t0
+            if (!res.ok) {
+              const err = await providerHttpError(res, 'NVIDIA error')
+              if (debug) console.error(`[provider.nvidia] http ${res.status} url=${url} dtMs=${dt} body=${err.message.slice(0, 400)}`)
+              throw err
+            }
+            if (streaming) {
+              const streamed = await readOpenAIStream(res, attempt.onDelta)
+              if (debug) console.log(`[provider.nvidia] ok stream url=${url} contentLen=${streamed.content.length} dtMs=${Date.now() - t0}`)
+              if (!streamed.content && !streamed.toolCalls?.length) {
+                throw new Error('NVIDIA response missing content')
+              }
+              return streamed
+            }
+            const json = (await res.json().catch(() => ({}))) as any
+            const message = json?.choices?.[0]?.message
+            const content: string = message?.content || json?.output_text || ''
+            const toolCalls = extractOpenAIToolCalls(message)
+            if (debug) console.log(`[provider.nvidia] ok url=${url} contentLen=${content.length} tools=${toolCalls.length} dtMs=${dt}`)
+            if (toolCalls.length > 0) return withUsage(withToolCalls(content, toolCalls), json?.usage)
+            if (!content) {
+              throw new Error('NVIDIA response missing content')
+            }
+            return withUsage({ content }, json?.usage)
+          } finally {
+            abort.done()
           }
-          const reason = text ? `: ${text}` : ''
-          throw new Error(`NVIDIA error ${res.status}${reason}`)
-        }
-        const json = (await res.json().catch(() => ({}))) as any
-        const content: string = json?.choices?.[0]?.message?.content || json?.output_text || ''
-        if (debug) console.log(`[provider.nvidia] ok url=${url} contentLen=${content.length} dtMs=${dt}`)
-        if (!content) {
-          throw new Error('NVIDIA response missing content')
-        }
-        return { content }
+        })
       } catch (e: any) {
+        if (opts.signal?.aborted) throw e
+        if (e instanceof ProviderHttpError && e.status === 404) {
+          const hint = isIntegrate && !deploymentId
+            ? ' (missing NVIDIA_DEPLOYMENT_ID when using integrate.api)'
+            : ''
+          lastErr = new Error(`NVIDIA 404 at ${url}${hint}`)
+          continue
+        }
         lastErr = e
       }
     }
   }
-  throw new Error(lastErr?.message || 'NVIDIA request failed')
+  throw lastErr instanceof Error ? lastErr : new Error('NVIDIA request failed')
 }
 
+registerProvider({
+  name: 'nvidia',
+  label: 'NVIDIA',
+  capabilities: { tools: true, streaming: true, vision: false },
+  defaultModel: DEFAULT_MODEL,
+  models: ['qwen3-next-80b-a3b-instruct'],
+  env: {
+    apiKey: ['NVIDIA_API_KEY', 'NVIDIA_VIM_API_KEY'],
+    model: ['NVIDIA_MODEL'],
+    baseUrl: ['NVIDIA_API_BASE_URL'],
+    deploymentId: ['NVIDIA_DEPLOYMENT_ID'],
+    timeoutMs: ['NVIDIA_TIMEOUT_MS', 'OPENROUTER_TIMEOUT_MS'],
+  },
+  priority: 30,
+  // NIM/Qwen3-style ids without a Bedrock vendor prefix or version suffix
+  matchesModel: (model) =>
+    !BEDROCK_STYLE_MODEL.test(model) && (/^qwen3/i.test(model) || /\bnim\b/i.test(model) || /\bnvidia\b/i.test(model) || /qwen-?coder/i.test(model)),
+  call: callNvidia,
+})
@@ -1,28 +1,24 @@
 // OpenAI direct API adapter
 
-export type ToolSpec = {
-  name: string
-  description?: string
-  parameters?: unknown
-}
+import type { ToolSpec } from '../../tools/jsonSchema'
+import { parseToolArguments, withToolCalls, withUsage } from './shared'
+import type { ProviderResponse, ProviderToolCall } from './shared'
+import { linkAbortSignal, readOpenAIStream } from './streaming'
+import type { ProviderStreamOptions } from './streaming'
+import { registerProvider } from './registry'
+import { providerHttpError, withProviderRetry } from './retry'
+
+export type { ToolSpec }
+export { parseToolArguments, withToolCalls }
+export type { ProviderResponse, ProviderToolCall }
+
+const DEFAULT_MODEL = 'gpt-5-2025-08-07'
 
 type OpenAIMessage = {
   role: 'system' | 'user' | 'assistant'
   content: string
 }
 
-async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
-  let id: NodeJS.Timeout
-  const timeout = new Promise<T>((_, reject) => {
-    id = setTimeout(() => reject(new Error(`OpenAI request timeout after ${timeoutMs}ms`)), timeoutMs)
-  })
-  try {
-    return await Promise.race([promise, timeout])
-  } finally {
-    clearTimeout(id!)
-  }
-}
-
 export async function callOpenAI(opts: {
   systemPrompt: string
   messages: OpenAIMessage[]
@@ -31,9 +27,9 @@ export async function callOpenAI(opts: {
   apiKey?: string
   baseUrl?: string
   timeoutMs?: number
-}): Promise<{ content: string; toolCall?: { name: string; arguments: unknown } }> {
+} & ProviderStreamOptions): Promise<ProviderResponse> {
   const apiKey = opts.apiKey || process.env.OPENAI_API_KEY
-  const model = opts.model || process.env.OPENAI_MODEL || 'gpt-5-2025-08-07'
+  const model = opts.model || process.env.OPENAI_MODEL || DEFAULT_MODEL
   const baseUrl = opts.baseUrl || process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1'
   const timeoutMs = opts.timeoutMs || Number(process.env.OPENAI_TIMEOUT_MS || 30000)
 
@@ -58,64 +54,100 @@ export async function callOpenAI(opts: {
   }
 
   if (opts.tools && opts.tools.length > 0) {
-    body.tools = opts.tools.map(t => ({
-      type: 'function',
-      function: {
-        name: t.name,
-        description: t.description,
-        parameters: t.parameters
-      }
-    }))
+    body.tools = toOpenAITools(opts.tools)
+    body.tool_choice = 'auto'
+  }
+
+  const streaming = !!opts.onDelta
+  if (streaming) {
+    body.stream = true
+    // Token counts arrive on a final chunk only when asked for
+    body.stream_options = { include_usage: true }
   }
 
   const debug = (process.env.OPENAI_DEBUG || '0') === '1'
   if (debug) console.log(`[provider.openai] POST ${url} model=${model} msgs=${messages.length}`)
 
-  const t0 = Date.now()
-  const response = await withTimeout(
-    fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(body)
-    }),
-    timeoutMs
-  )
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`OpenAI API error: ${response.status} ${errorText}`)
-  }
+  return await withProviderRetry({ provider: 'openai', signal: opts.signal, timeoutMs, onDelta: opts.onDelta, onRetry: opts.onRetry }, async (attempt) => {
+    const t0 = Date.now()
+    const abort = linkAbortSignal(opts.signal, attempt.timeoutMs)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`
+        },
+        body: JSON.stringify(body),
+        signal: abort.signal
+      })
+
+      if (!response.ok) {
+        throw await providerHttpError(response, 'OpenAI API error:')
+      }
 
-  const data = await response.json()
-  const elapsed = Date.now() - t0
+      if (streaming) {
+        const streamed = await readOpenAIStream(response, attempt.onDelta)
+        if (debug) console.log(`[provider.openai] ← stream ${Date.now() - t0}ms contentLen=${streamed.content.length}`)
+        return streamed
+      }
 
-  if (debug) console.log(`[provider.openai] ← ${elapsed}ms status=${response.status}`)
+      const data = await response.json()
+      const elapsed = Date.now() - t0
 
-  const choice = data.choices?.[0]
-  if (!choice) {
-    throw new Error('OpenAI returned no choices')
-  }
+      if (debug) console.log(`[provider.openai] ← ${elapsed}ms status=${response.status}`)
 
-  const message = choice.message
-  const content = message.content || ''
+      const choice = data.choices?.[0]
+      if (!choice) {
+        throw new Error('OpenAI returned no choices')
+      }
 
-  // Check for tool calls
-  if (message.tool_calls && message.tool_calls.length > 0) {
-    const toolCall = message.tool_calls[0]
-    const funcCall = toolCall.function
+      const message = choice.message
+      const content = message.content || ''
 
-    return {
-      content,
-      toolCall: {
-        name: funcCall.name,
-        arguments: JSON.parse(funcCall.arguments || '{}')
-      }
+      return withUsage(withToolCalls(content, extractOpenAIToolCalls(message)), data.usage)
+    } finally {
+      abort.done()
     }
-  }
+  })
+}
 
-  return { content }
+// Shared by OpenAI-compatible adapters (OpenRouter, NVIDIA)
+export function toOpenAITools(tools: ToolSpec[]) {
+  return tools.map((t) => ({
+    type: 'function',
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+    },
+  }))
+}
+
+export function extractOpenAIToolCalls(message: any): ProviderToolCall[] {
+  const calls = Array.isArray(message?.tool_calls) ? message.tool_calls : []
+  const out: ProviderToolCall[] = []
+  for (const call of calls) {
+    const funcCall = call?.function
+    if (!funcCall || typeof funcCall.name !== 'string') continue
+    out.push({ name: funcCall.name, arguments: parseToolArguments(funcCall.arguments) })
+  }
+  return out
 }
 
+registerProvider({
+  name: 'openai',
+  label: 'OpenAI',
+  capabilities: { tools: true, streaming: true, vision: true },
+  defaultModel: DEFAULT_MODEL,
+  env: {
+    apiKey: ['OPENAI_API_KEY'],
+    model: ['OPENAI_MODEL'],
+    baseUrl: ['OPENAI_API_BASE_URL'],
+    timeoutMs: ['OPENAI_TIMEOUT_MS'],
+  },
+  priority: 10,
+  // Bare model ids no other provider claims (gpt-*, o3, …)
+  catchAllModels: true,
+  call: callOpenAI,
+})
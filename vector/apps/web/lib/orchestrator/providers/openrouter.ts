@@ -1,27 +1,26 @@
+import { extractOpenAIToolCalls, toOpenAITools, withToolCalls } from './openai'
+import type { ProviderResponse, ToolSpec } from './openai'
+import { linkAbortSignal, readOpenAIStream } from './streaming'
+import type { ProviderStreamOptions } from './streaming'
+import { registerProvider } from './registry'
+import { withUsage } from './shared'
+import { providerHttpError, withProviderRetry } from './retry'
+
+const DEFAULT_MODEL = 'moonshotai/kimi-k2:free'
+
 const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions'
 
 export type ORMessage = { role: 'system' | 'user' | 'assistant'; content: string }
 
-async function fetchWithTimeout(input: RequestInfo | URL, init: RequestInit & { timeoutMs?: number } = {}) {
-  const { timeoutMs, ...rest } = init
-  if (!timeoutMs || timeoutMs <= 0) return fetch(input, rest)
-  const ac = new AbortController()
-  const id = setTimeout(() => ac.abort(), timeoutMs)
-  try {
-    return await fetch(input, { ...rest, signal: ac.signal })
-  } finally {
-    clearTimeout(id)
-  }
-}
-
 export async function callOpenRouter(opts: {
   systemPrompt: string
   messages: ORMessage[]
+  tools?: ToolSpec[]
   model?: string
   apiKey?: string
   baseUrl?: string
   timeoutMs?: number
-}): Promise<{ content: string }>
+} & ProviderStreamOptions): Promise<ProviderResponse>
 {
   const apiKey = opts.apiKey || process.env.OPENROUTER_API_KEY
   if (!apiKey) {
@@ -29,19 +28,37 @@ export async function callOpenRouter(opts: {
     console.warn(`[provider.openrouter] ${msg}`)
     throw new Error(msg)
   }
-  const model = opts.model || process.env.OPENROUTER_MODEL || 'moonshotai/kimi-k2:free'
+  const model = opts.model || process.env.OPENROUTER_MODEL || DEFAULT_MODEL
   const messages: ORMessage[] = [{ role: 'system', content: opts.systemPrompt }, ...opts.messages]
 
   const url = (opts.baseUrl ? opts.baseUrl.replace(/\/$/, '') + '/chat/completions' : OPENROUTER_URL)
   const timeoutMs = Number(opts.timeoutMs || process.env.OPENROUTER_TIMEOUT_MS || 30000)
-  const maxRetries = Math.max(1, Number(process.env.OPENROUTER_MAX_RETRIES || 3))
-  let lastError: any
+  const body: Record<string, unknown> = { model, messages }
+  if (opts.tools && opts.tools.length > 0) {
+    body.tools = toOpenAITools(opts.tools)
+    body.tool_choice = 'auto'
+  }
+  if (opts.onDelta) {
+    body.stream = true
+    body.stream_options = { include_usage: true }
+  }
 
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    const attemptLabel = `${attempt + 1}/${maxRetries}`
+  // OPENROUTER_* retry settings predate the shared VECTOR_PROVIDER_* ones and still win when set
+  const envNumber = (name: string) => (process.env[name] ? Number(process.env[name]) : undefined)
+  return await withProviderRetry({
+    provider: 'openrouter',
+    signal: opts.signal,
+    timeoutMs,
+    maxAttempts: envNumber('OPENROUTER_MAX_RETRIES'),
+    baseDelayMs: envNumber('OPENROUTER_RETRY_DELAY_MS'),
+    maxDelayMs: envNumber('OPENROUTER_RETRY_MAX_MS'),
+    onDelta: opts.onDelta,
+    onRetry: opts.onRetry,
+  }, async (attempt) => {
     const t0 = Date.now()
+    const abort = linkAbortSignal(opts.signal, attempt.timeoutMs)
     try {
-      const res = await fetchWithTimeout(url, {
+      const res = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -49,34 +66,45 @@ export async function callOpenRouter(opts: {
           'HTTP-Referer': 'http://localhost',
           'X-Title': 'Vector',
         },
-        body: JSON.stringify({ model, messages }),
-        timeoutMs,
+        body: JSON.stringify(body),
+        signal: abort.signal,
       })
 
       if (!res.ok) {
-        const text = await res.text().catch(() => '')
-        console.error(`[provider.openrouter] error attempt=${attemptLabel} status=${res.status} model=${model} base=${opts.baseUrl || 'default'} bodyLen=${text.length}`)
-        if (res.status >= 500 && attempt < maxRetries - 1) {
-          lastError = new Error(`OpenRouter error ${res.status}: ${text}`)
-        } else {
-          throw new Error(`OpenRouter error ${res.status}: ${text}`)
-        }
-      } else {
-        const json = (await res.json()) as any
-        const content: string = json?.choices?.[0]?.message?.content ?? ''
-        const dt = Date.now() - t0
-        console.log(`[provider.openrouter] ok attempt=${attemptLabel} model=${model} base=${opts.baseUrl || 'default'} contentLen=${content.length} dtMs=${dt}`)
-        return { content }
+        const err = await providerHttpError(res, 'OpenRouter error')
+        console.error(`[provider.openrouter] error attempt=${attempt.attempt} status=${res.status} model=${model} base=${opts.baseUrl || 'default'} retryAfterMs=${err.retryAfterMs ?? 'none'}`)
+        throw err
+      }
+      if (attempt.onDelta) {
+        const streamed = await readOpenAIStream(res, attempt.onDelta)
+        console.log(`[provider.openrouter] ok stream attempt=${attempt.attempt} model=${model} contentLen=${streamed.content.length} tools=${streamed.toolCalls?.length || 0} dtMs=${Date.now() - t0}`)
+        return streamed
       }
-    } catch (err: any) {
-      lastError = err
-      if (attempt >= maxRetries - 1) break
-      const backoffBase = Number(process.env.OPENROUTER_RETRY_DELAY_MS || 1000)
-      const backoff = Math.min(backoffBase * Math.pow(2, attempt), Number(process.env.OPENROUTER_RETRY_MAX_MS || 10000))
-      console.warn(`[provider.openrouter] retrying in ${backoff}ms due to ${err?.message || err}`)
-      await new Promise((resolve) => setTimeout(resolve, backoff))
+      const json = (await res.json()) as any
+      const message = json?.choices?.[0]?.message
+      const content: string = message?.content ?? ''
+      const toolCalls = extractOpenAIToolCalls(message)
+      const dt = Date.now() - t0
+      console.log(`[provider.openrouter] ok attempt=${attempt.attempt} model=${model} base=${opts.baseUrl || 'default'} contentLen=${content.length} tools=${toolCalls.length} dtMs=${dt}`)
+      return withUsage(withToolCalls(content, toolCalls), json?.usage)
+    } finally {
+      abort.done()
     }
-  }
-
-  throw new Error(`OpenRouter request failed after ${maxRetries} attempts: ${lastError?.message || lastError || 'unknown error'}`)
+  })
 }
+
+registerProvider({
+  name: 'openrouter',
+  label: 'OpenRouter',
+  capabilities: { tools: true, streaming: true, vision: true },
+  defaultModel: DEFAULT_MODEL,
+  env: {
+    apiKey: ['OPENROUTER_API_KEY'],
+    model: ['OPENROUTER_MODEL'],
+    timeoutMs: ['OPENROUTER_TIMEOUT_MS'],
+  },
+  priority: 50,
+  // Gateway: takes any override except direct Gemini ids (OpenRouter uses "google/…")
+  acceptsModel: (_model, owner) => owner !== 'gemini',
+  call: callOpenRouter,
+})
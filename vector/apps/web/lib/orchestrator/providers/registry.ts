@@ -0,0 +1,153 @@
+// Provider registry: each adapter registers its name, capabilities, defaults and env keys.
+// runLLM selection, the chat route schema and GET /api/providers are driven from here.
+
+import type { ToolSpec } from '../../tools/jsonSchema'
+import type { ProviderResponse } from './shared'
+import type { ProviderStreamOptions } from './streaming'
+
+export type ProviderName = string
+
+export type ProviderCapabilities = {
+  tools: boolean
+  streaming: boolean
+  vision: boolean
+}
+
+export type ProviderCallOptions = {
+  systemPrompt: string
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[]
+  tools?: ToolSpec[]
+  model?: string
+  apiKey?: string
+  baseUrl?: string
+  region?: string
+  deploymentId?: string
+  timeoutMs?: number
+} & ProviderStreamOptions
+
+// Request-level settings that may override env (ChatInput.provider)
+export type ProviderSettingKey = 'apiKey' | 'model' | 'baseUrl' | 'region' | 'deploymentId' | 'timeoutMs'
+
+export type ProviderDefinition = {
+  name: ProviderName
+  label: string
+  capabilities: ProviderCapabilities
+  defaultModel: string
+  // Extra models offered by the plugin picker besides the configured/default one
+  models?: string[]
+  // Env vars read for each setting, first non-empty wins
+  env: Partial<Record<ProviderSettingKey, string[]>>
+  // Fallback order when several providers are configured (lower first)
+  priority: number
+  // Claims a modelOverride (e.g. "gemini-2.5-flash" → gemini)
+  matchesModel?: (model: string) => boolean
+  // Receives overrides no other provider claims
+  catchAllModels?: boolean
+  // Whether an override owned by `owner` is passed through (default: only when owner is this provider)
+  acceptsModel?: (model: string, owner: ProviderName) => boolean
+  // Per-model native function-calling support (defaults to capabilities.tools); baseUrl is the request's server, if any
+  supportsTools?: (model?: string, baseUrl?: string) => boolean
+  // Self-hosted providers run without a key; they count as configured once their baseUrl env is set
+  requiresApiKey?: boolean
+  probe?: (opts: { model?: string; baseUrl?: string; apiKey?: string; signal?: AbortSignal }) => Promise<ProviderProbe>
+  // Extra system-prompt guidance for models that need it (e.g. weaker tool-callers)
+  promptHints?: (model: string | undefined, opts: { nativeTools: boolean }) => string | undefined
+  call: (opts: ProviderCallOptions) => Promise<ProviderResponse>
+}
+
+// Result of asking a provider's server what it can do (only self-hosted providers probe)
+export type ProviderProbe = {
+  reachable: boolean
+  models: string[]
+  // Model to use when none is configured (first one the server reports)
+  model?: string
+  // Native function calling support for the probed model, when the server reports it
+  tools?: boolean
+  error?: string
+}
+
+export type ProviderInfo = {
+  name: ProviderName
+  label: string
+  capabilities: ProviderCapabilities
+  defaultModel: string
+  model: string
+  models: string[]
+  configured: boolean
+  probe?: ProviderProbe
+}
+
+const providers: Map<ProviderName, ProviderDefinition> = new Map()
+
+export function registerProvider(def: ProviderDefinition) {
+  providers.set(def.name, def)
+}
+
+export function getProvider(name?: string | null): ProviderDefinition | undefined {
+  return name ? providers.get(name.trim().toLowerCase()) : undefined
+}
+
+export function isProviderName(name?: string | null): boolean {
+  return !!getProvider(name)
+}
+
+export function listProviders(): ProviderDefinition[] {
+  return Array.from(providers.values()).sort((a, b) => a.priority - b.priority)
+}
+
+export function readProviderEnv(def: ProviderDefinition, key: ProviderSettingKey): string | undefined {
+  for (const envName of def.env[key] || []) {
+    const value = process.env[envName]?.trim()
+    if (value) return value
+  }
+  return undefined
+}
+
+export function isProviderConfigured(def: ProviderDefinition): boolean {
+  if (def.requiresApiKey === false) return !!readProviderEnv(def, 'baseUrl')
+  return !!readProviderEnv(def, 'apiKey')
+}
+
+// Provider that should serve a model override, if any
+export function resolveModelOwner(model?: string | null): ProviderDefinition | undefined {
+  const id = model?.trim()
+  if (!id) return undefined
+  const list = listProviders()
+  return list.find((def) => def.matchesModel?.(id)) || list.find((def) => def.catchAllModels)
+}
+
+// Models that reject or ignore function-calling payloads; they stay on XML tool tags.
+const NON_TOOL_MODEL_PATTERNS = [/gemma/i, /\bphi-?\d/i, /llama-?2/i, /mistral-7b/i, /deepseek-r1/i, /\bo1-(?:mini|preview)\b/i]
+
+// Whether runLLM sends function-calling payloads to this provider/model; VECTOR_NATIVE_TOOLS=on|off overrides
+export function supportsNativeTools(mode: ProviderName, model?: string, baseUrl?: string): boolean {
+  const setting = (process.env.VECTOR_NATIVE_TOOLS || 'auto').trim().toLowerCase()
+  if (setting === '0' || setting === 'false' || setting === 'off') return false
+  if (setting === '1' || setting === 'true' || setting === 'on') return true
+  const def = getProvider(mode)
+  if (!def?.capabilities.tools) return false
+  const id = model?.trim() || undefined
+  if (def.supportsTools) return def.supportsTools(id, baseUrl)
+  return !NON_TOOL_MODEL_PATTERNS.some((re) => re.test(id || ''))
+}
+
+// Probes configured self-hosted providers so their served models show up in the picker
+export async function describeProviders(): Promise<ProviderInfo[]> {
+  return await Promise.all(listProviders().map(async (def) => {
+    const configured = isProviderConfigured(def)
+    const probe = configured && def.probe
+      ? await def.probe({ baseUrl: readProviderEnv(def, 'baseUrl'), apiKey: readProviderEnv(def, 'apiKey') })
+      : undefined
+    const model = readProviderEnv(def, 'model') || probe?.model || def.defaultModel
+    return {
+      name: def.name,
+      label: def.label,
+      capabilities: def.capabilities,
+      defaultModel: def.defaultModel,
+      model,
+      models: Array.from(new Set([model, ...(def.models || []), ...(probe?.models || [])])),
+      configured: configured && (!probe || probe.reachable),
+      probe,
+    }
+  }))
+}
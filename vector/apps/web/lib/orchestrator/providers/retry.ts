@@ -0,0 +1,155 @@
+// Shared retry/backoff for provider adapters: classifies failures with ErrorCategory, honours
+// Retry-After, applies full jitter and stops at a per-request deadline.
+
+import { ErrorCategory } from '../../errors/error-handler'
+import type { ProviderDelta } from './streaming'
+
+export type ProviderRetryInfo = {
+  provider: string
+  // 1-based number of the retry about to be made
+  attempt: number
+  maxAttempts: number
+  delayMs: number
+  category: ErrorCategory
+  status?: number
+  message: string
+}
+
+export type ProviderRetryOptions = {
+  provider: string
+  signal?: AbortSignal
+  // Per-attempt timeout; clipped to the time left before the deadline
+  timeoutMs?: number
+  deadlineMs?: number
+  maxAttempts?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  onDelta?: (delta: ProviderDelta) => void
+  onRetry?: (info: ProviderRetryInfo) => void
+}
+
+export type ProviderAttempt = {
+  attempt: number
+  timeoutMs?: number
+  // Wrapped onDelta: once a delta was emitted the attempt is no longer retried (output already shown)
+  onDelta?: (delta: ProviderDelta) => void
+}
+
+// Non-2xx provider response; keeps the "<Provider> error <status>: <body>" message shape callers match on
+export class ProviderHttpError extends Error {
+  readonly status: number
+  readonly retryAfterMs?: number
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'ProviderHttpError'
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529])
+const NETWORK_ERROR = /fetch failed|network|socket|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|EPIPE|UND_ERR|Request timeout after/i
+
+function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name]
+  const n = raw ? Number(raw) : NaN
+  return Number.isFinite(n) && n >= 0 ? n : undefined
+}
+
+/** Retry-After as delta-seconds or an HTTP date; undefined when absent or unparsable. */
+export function parseRetryAfter(value?: string | null, now = Date.now()): number | undefined {
+  const raw = value?.trim()
+  if (!raw) return undefined
+  if (/^\d+(\.\d+)?$/.test(raw)) return Math.round(Number(raw) * 1000)
+  const at = Date.parse(raw)
+  return Number.isFinite(at) ? Math.max(0, at - now) : undefined
+}
+
+/** Reads the body of a failed response into a ProviderHttpError. */
+export async function providerHttpError(res: Response, label: string): Promise<ProviderHttpError> {
+  const text = await res.text().catch(() => '')
+  const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'))
+  return new ProviderHttpError(`${label} ${res.status}: ${text}`, res.status, retryAfterMs)
+}
+
+export function classifyProviderError(err: unknown): { category: ErrorCategory; retryable: boolean; status?: number } {
+  if (err instanceof ProviderHttpError) {
+    const status = err.status
+    if (status === 401 || status === 403) return { category: ErrorCategory.Authentication, retryable: false, status }
+    if (status === 408) return { category: ErrorCategory.Network, retryable: true, status }
+    if (RETRYABLE_STATUS.has(status)) return { category: ErrorCategory.API, retryable: true, status }
+    if (status === 400 || status === 404 || status === 422) return { category: ErrorCategory.Validation, retryable: false, status }
+    return { category: ErrorCategory.API, retryable: false, status }
+  }
+  const message = err instanceof Error ? `${err.message} ${(err as any).cause?.code || ''}` : String(err || '')
+  if (/^Missing [A-Z_]+/.test(message)) return { category: ErrorCategory.Configuration, retryable: false }
+  if (NETWORK_ERROR.test(message)) return { category: ErrorCategory.Network, retryable: true }
+  return { category: ErrorCategory.Unknown, retryable: false }
+}
+
+/** A 400/404/422 naming tools or functions: runLLM retries the turn without them, on XML tool tags. */
+export function isToolsUnsupportedError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err || '')
+  if (!/\b(400|404|422)\b/.test(message)) return false
+  return /tool|function/i.test(message)
+}
+
+function resolveRetrySettings(opts: ProviderRetryOptions) {
+  return {
+    maxAttempts: Math.max(1, opts.maxAttempts ?? readNumberEnv('VECTOR_PROVIDER_MAX_ATTEMPTS') ?? 3),
+    baseDelayMs: opts.baseDelayMs ?? readNumberEnv('VECTOR_PROVIDER_RETRY_BASE_MS') ?? 1000,
+    maxDelayMs: opts.maxDelayMs ?? readNumberEnv('VECTOR_PROVIDER_RETRY_MAX_MS') ?? 10000,
+    deadlineMs: opts.deadlineMs ?? readNumberEnv('VECTOR_PROVIDER_DEADLINE_MS') ?? 120000,
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new Error('aborted'))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason ?? new Error('aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Runs `fn` until it succeeds, fails with a non-retryable error, runs out of attempts or
+ * would overrun the deadline. Waits Retry-After when the provider sends one, otherwise
+ * exponential backoff with full jitter. Caller aborts are never retried.
+ */
+export async function withProviderRetry<T>(opts: ProviderRetryOptions, fn: (attempt: ProviderAttempt) => Promise<T>): Promise<T> {
+  const settings = resolveRetrySettings(opts)
+  const deadline = Date.now() + settings.deadlineMs
+  for (let attempt = 1; ; attempt++) {
+    const remaining = deadline - Date.now()
+    const timeoutMs = opts.timeoutMs && opts.timeoutMs > 0 ? Math.max(1, Math.min(opts.timeoutMs, remaining)) : remaining
+    let streamed = false
+    const onDelta = opts.onDelta
+      ? (delta: ProviderDelta) => {
+          streamed = true
+          opts.onDelta!(delta)
+        }
+      : undefined
+    try {
+      return await fn({ attempt, timeoutMs, onDelta })
+    } catch (err) {
+      if (opts.signal?.aborted) throw err
+      const { category, retryable, status } = classifyProviderError(err)
+      if (!retryable || streamed || attempt >= settings.maxAttempts) throw err
+      const backoff = Math.min(settings.maxDelayMs, settings.baseDelayMs * Math.pow(2, attempt - 1))
+      const retryAfter = err instanceof ProviderHttpError ? err.retryAfterMs : undefined
+      const delayMs = retryAfter !== undefined ? retryAfter : Math.round(Math.random() * backoff)
+      if (Date.now() + delayMs >= deadline) throw err
+      const message = err instanceof Error ? err.message : String(err)
+      console.warn(`[provider.${opts.provider}] retry ${attempt}/${settings.maxAttempts - 1} in ${delayMs}ms category=${category}${status ? ` status=${status}` : ''}: ${message.slice(0, 200)}`)
+      opts.onRetry?.({ provider: opts.provider, attempt, maxAttempts: settings.maxAttempts, delayMs, category, status, message })
+      await sleep(delayMs, opts.signal)
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { z } from 'zod'
+import { isProviderName, listProviders } from './registry'
+
+// Request-body shape for choosing a provider (/api/chat, proposal revise, workflow resume)
+export const ProviderInputSchema = z.object({
+  name: z.string().refine(isProviderName, (name) => ({
+    message: `Invalid provider "${name}" (expected one of: ${listProviders().map((def) => def.name).join(', ')})`,
+  })),
+  // Omit to use the key configured in the backend .env
+  apiKey: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  model: z.string().optional(),
+  region: z.string().optional(),
+  deploymentId: z.string().min(1).optional(),
+})
@@ -0,0 +1,49 @@
+// Response shape shared by all provider adapters
+
+export type ProviderToolCall = { name: string; arguments: unknown }
+
+// Token counts the provider reported for one call
+export type ProviderUsage = { inputTokens: number; outputTokens: number }
+
+// `toolCall` mirrors `toolCalls[0]` for callers that only handle a single call; `cached` marks
+// responses served from the provider cache (providers/cache.ts); `usage` is absent when the
+// provider did not report token counts.
+export type ProviderResponse = { content: string; toolCall?: ProviderToolCall; toolCalls?: ProviderToolCall[]; cached?: boolean; usage?: ProviderUsage }
+
+export function parseToolArguments(raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw ?? {}
+  const trimmed = raw.trim()
+  if (!trimmed) return {}
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    // Leave malformed JSON as a string; the orchestrator's coercion handles it
+    return trimmed
+  }
+}
+
+/**
+ * Token counts from a response's usage block in any adapter's shape: OpenAI-compatible
+ * prompt_tokens/completion_tokens, Bedrock Converse inputTokens/outputTokens, Anthropic
+ * input_tokens/output_tokens or Gemini usageMetadata (thinking tokens bill as output).
+ */
+export function readProviderUsage(usage: any): ProviderUsage | undefined {
+  if (!usage || typeof usage !== 'object') return undefined
+  const inputTokens = usage.prompt_tokens ?? usage.inputTokens ?? usage.input_tokens ?? usage.promptTokenCount
+  const outputTokens = usage.completion_tokens ?? usage.outputTokens ?? usage.output_tokens
+    ?? (typeof usage.candidatesTokenCount === 'number' ? usage.candidatesTokenCount + (Number(usage.thoughtsTokenCount) || 0) : undefined)
+  if (typeof inputTokens !== 'number' || typeof outputTokens !== 'number') return undefined
+  return { inputTokens, outputTokens }
+}
+
+export function withUsage(resp: ProviderResponse, usage: unknown): ProviderResponse {
+  const parsed = readProviderUsage(usage)
+  return parsed ? { ...resp, usage: parsed } : resp
+}
+
+export function withToolCalls(content: string, calls: ProviderToolCall[]): ProviderResponse {
+  return calls.length > 0 ? { content, toolCall: calls[0], toolCalls: calls } : { content }
+}
+
+// Bedrock model ids: vendor prefix ("anthropic.", "qwen.", …), version suffix (":0", ":v1") or explicit "bedrock:"
+export const BEDROCK_STYLE_MODEL = /^(anthropic|qwen|mistral|meta|cohere|ai21|amazon)\.|:\d|:v\d|^bedrock:/i
@@ -0,0 +1,202 @@
+// Shared streaming helpers for provider adapters (SSE + AWS event-stream)
+
+import { parseToolArguments, withToolCalls, withUsage } from './shared'
+import type { ProviderResponse, ProviderToolCall } from './shared'
+import type { ProviderRetryInfo } from './retry'
+
+export type ProviderDelta =
+  | { type: 'text'; text: string }
+  // `arguments` is the raw argument text received so far for this call
+  | { type: 'tool_call'; index: number; name?: string; arguments: string }
+
+export type ProviderStreamOptions = {
+  onDelta?: (delta: ProviderDelta) => void
+  signal?: AbortSignal
+  // Called before each retry of a transient failure (providers/retry.ts)
+  onRetry?: (info: ProviderRetryInfo) => void
+}
+
+/**
+ * Combine an optional caller signal with a request timeout. The timer covers
+ * the whole exchange, including reading a streamed body; call `done` after.
+ */
+export function linkAbortSignal(signal: AbortSignal | undefined, timeoutMs?: number): { signal: AbortSignal; done: () => void } {
+  const ac = new AbortController()
+  const onAbort = () => ac.abort(signal?.reason)
+  if (signal) {
+    if (signal.aborted) ac.abort(signal.reason)
+    else signal.addEventListener('abort', onAbort, { once: true })
+  }
+  const timer = timeoutMs && timeoutMs > 0 ? setTimeout(() => ac.abort(new Error(`Request timeout after ${timeoutMs}ms`)), timeoutMs) : undefined
+  return {
+    signal: ac.signal,
+    done: () => {
+      if (timer) clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
+export async function* readSSE(res: Response): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = res.body?.getReader()
+  if (!reader) throw new Error('Streaming response has no body')
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event: string | undefined
+  let data: string[] = []
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      let nl: number
+      while ((nl = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, nl).replace(/\r$/, '')
+        buffer = buffer.slice(nl + 1)
+        if (line === '') {
+          if (data.length) yield { event, data: data.join('\n') }
+          event = undefined
+          data = []
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''))
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim()
+        }
+      }
+    }
+    if (data.length) yield { event, data: data.join('\n') }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/** Read an OpenAI-compatible `stream: true` chat completion. */
+export async function readOpenAIStream(res: Response, onDelta?: (delta: ProviderDelta) => void): Promise<ProviderResponse> {
+  let content = ''
+  let usage: unknown
+  const calls: Array<{ name: string; args: string }> = []
+  for await (const evt of readSSE(res)) {
+    if (evt.data === '[DONE]') break
+    let json: any
+    try {
+      json = JSON.parse(evt.data)
+    } catch {
+      continue
+    }
+    if (json?.error) throw new Error(`Stream error: ${json.error.message || JSON.stringify(json.error)}`)
+    // Sent on the last chunk (with no choices) when the request sets stream_options.include_usage
+    if (json?.usage) usage = json.usage
+    const delta = json?.choices?.[0]?.delta
+    if (!delta) continue
+    if (typeof delta.content === 'string' && delta.content.length > 0) {
+      content += delta.content
+      onDelta?.({ type: 'text', text: delta.content })
+    }
+    for (const tc of Array.isArray(delta.tool_calls) ? delta.tool_calls : []) {
+      const index = typeof tc?.index === 'number' ? tc.index : calls.length
+      const call = calls[index] || (calls[index] = { name: '', args: '' })
+      if (typeof tc?.function?.name === 'string') call.name += tc.function.name
+      if (typeof tc?.function?.arguments === 'string') call.args += tc.function.arguments
+      onDelta?.({ type: 'tool_call', index, name: call.name || undefined, arguments: call.args })
+    }
+  }
+  const toolCalls: ProviderToolCall[] = calls
+    .filter((c) => c && c.name)
+    .map((c) => ({ name: c.name, arguments: parseToolArguments(c.args) }))
+  return withUsage(withToolCalls(content, toolCalls), usage)
+}
+
+type EventStreamMessage = { headers: Record<string, string>; payload: Uint8Array }
+
+// Minimal decoder for application/vnd.amazon.eventstream (CRCs are not verified).
+export async function* readEventStream(res: Response): AsyncGenerator<EventStreamMessage> {
+  const reader = res.body?.getReader()
+  if (!reader) throw new Error('Streaming response has no body')
+  let buffer = new Uint8Array(0)
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const next = new Uint8Array(buffer.length + value.length)
+      next.set(buffer)
+      next.set(value, buffer.length)
+      buffer = next
+      while (buffer.length >= 12) {
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+        const totalLength = view.getUint32(0)
+        const headersLength = view.getUint32(4)
+        if (buffer.length < totalLength) break
+        const headers: Record<string, string> = {}
+        let offset = 12
+        const headersEnd = 12 + headersLength
+        while (offset < headersEnd) {
+          const nameLen = buffer[offset]
+          const name = new TextDecoder().decode(buffer.subarray(offset + 1, offset + 1 + nameLen))
+          offset += 1 + nameLen
+          const type = buffer[offset]
+          offset += 1
+          if (type === 7) {
+            const valueLen = view.getUint16(offset)
+            headers[name] = new TextDecoder().decode(buffer.subarray(offset + 2, offset + 2 + valueLen))
+            offset += 2 + valueLen
+          } else {
+            // Non-string headers are not used by Bedrock streams; stop parsing this block
+            break
+          }
+        }
+        const payload = buffer.slice(headersEnd, totalLength - 4)
+        buffer = buffer.slice(totalLength)
+        yield { headers, payload }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/** Read a Bedrock ConverseStream response. */
+export async function readConverseStream(res: Response, onDelta?: (delta: ProviderDelta) => void): Promise<ProviderResponse> {
+  let content = ''
+  let usage: unknown
+  const calls: Array<{ name: string; args: string } | undefined> = []
+  const blockToCall = new Map<number, number>()
+  for await (const msg of readEventStream(res)) {
+    const messageType = msg.headers[':message-type']
+    const eventType = msg.headers[':event-type'] || msg.headers[':exception-type']
+    let json: any = {}
+    try {
+      json = JSON.parse(new TextDecoder().decode(msg.payload))
+    } catch {}
+    if (messageType === 'exception' || messageType === 'error') {
+      throw new Error(`Bedrock stream ${eventType || 'error'}: ${json?.message || 'unknown'}`)
+    }
+    if (eventType === 'contentBlockStart') {
+      const toolUse = json?.start?.toolUse
+      if (toolUse && typeof toolUse.name === 'string') {
+        const index = calls.length
+        calls.push({ name: toolUse.name, args: '' })
+        blockToCall.set(Number(json.contentBlockIndex ?? index), index)
+        onDelta?.({ type: 'tool_call', index, name: toolUse.name, arguments: '' })
+      }
+    } else if (eventType === 'contentBlockDelta') {
+      const delta = json?.delta
+      if (typeof delta?.text === 'string' && delta.text.length > 0) {
+        content += delta.text
+        onDelta?.({ type: 'text', text: delta.text })
+      } else if (typeof delta?.toolUse?.input === 'string') {
+        const index = blockToCall.get(Number(json.contentBlockIndex))
+        const call = index !== undefined ? calls[index] : undefined
+        if (call && index !== undefined) {
+          call.args += delta.toolUse.input
+          onDelta?.({ type: 'tool_call', index, name: call.name, arguments: call.args })
+        }
+      }
+    } else if (eventType === 'metadata') {
+      usage = json?.usage
+    }
+  }
+  const toolCalls: ProviderToolCall[] = calls
+    .filter((c): c is { name: string; args: string } => !!c)
+    .map((c) => ({ name: c.name, arguments: parseToolArguments(c.args) }))
+  return withUsage(withToolCalls(content.trim(), toolCalls), usage)
+}
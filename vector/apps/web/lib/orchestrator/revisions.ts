@@ -0,0 +1,34 @@
+import type { Proposal } from './index'
+
+// Prompt for re-running the agent on a rejected proposal: the reviewer's feedback plus a compact
+// copy of what was proposed, so the replacement can address the objection instead of repeating it.
+
+const MAX_PROPOSAL_CHARS = 6000
+
+// Drops base text and previews (the model can re-read the script) and caps the rest
+function compactProposal(proposal: Proposal): string {
+  const copy: any = JSON.parse(JSON.stringify(proposal))
+  delete copy.meta
+  const strip = (file: any) => {
+    if (!file || typeof file !== 'object') return
+    delete file.preview
+    delete file.safety
+  }
+  if (copy.type === 'edit') {
+    strip(copy)
+    if (Array.isArray(copy.files)) copy.files.forEach(strip)
+    delete copy.diff
+  }
+  const text = JSON.stringify(copy, null, 2)
+  return text.length > MAX_PROPOSAL_CHARS ? `${text.slice(0, MAX_PROPOSAL_CHARS)}\n…(truncated)` : text
+}
+
+export function buildRevisionMessage(proposal: Proposal, feedback: string): string {
+  return [
+    `The reviewer rejected proposal ${proposal.id} (${proposal.type}).`,
+    `Feedback: ${feedback}`,
+    'Propose a replacement that addresses the feedback. Do not repeat the rejected change as-is.',
+    '[REJECTED PROPOSAL]',
+    compactProposal(proposal),
+  ].join('\n')
+}
@@ -0,0 +1,156 @@
+import crypto from 'node:crypto'
+import type { SceneGraph, SceneNode } from './taskState'
+import type { EditFileChange, EditProposal, ObjectOp, ObjectProposal, Proposal } from './index'
+import { diffSceneGraphs } from './sceneDiff'
+import { buildInstancePath, splitInstancePath } from './sceneGraph'
+import { simpleUnifiedDiff } from '../diff/rangeEdits'
+
+// Turns "Studio now" vs "Studio at a checkpoint" into proposals the plugin can apply to roll back:
+// one object_op proposal (renames/moves, deletes, re-creates, property/attribute/tag resets) and
+// one edit proposal restoring script sources. Only what the scene graph tracked can come back, so
+// re-created instances carry the snapshot's props, not every Studio property.
+
+export type StudioState = { scriptSources?: Record<string, string>; scene?: SceneGraph }
+
+const SCRIPT_CLASS_NAMES = new Set(['Script', 'LocalScript', 'ModuleScript'])
+
+function rollbackId(prefix: string) {
+  return `${prefix}_${Math.random().toString(36).slice(2, 8)}_${Date.now().toString(36)}`
+}
+
+// Replaces the whole text; the unified preview still shows only the changed lines
+function fullReplacement(path: string, baseText: string, text: string): EditFileChange {
+  const lines = baseText.split('\n')
+  const end = { line: lines.length - 1, character: lines[lines.length - 1].length }
+  const edits = [{ start: { line: 0, character: 0 }, end, text }]
+  return {
+    path,
+    diff: { mode: 'rangeEDITS', edits },
+    preview: { unified: simpleUnifiedDiff(baseText, text, path) },
+    safety: {
+      beforeHash: crypto.createHash('sha1').update(baseText).digest('hex'),
+      baseText,
+      anchors: { startLineText: lines[0] ?? '', endLineText: lines[lines.length - 1] ?? '' },
+    },
+  }
+}
+
+function isWithin(path: string, root: string) {
+  return path === root || path.startsWith(`${root}.`)
+}
+
+// Parents first; skips nodes that come back by a move instead
+function createOps(root: string, nodes: Record<string, SceneNode>, sources: Record<string, string>, skip: string[]): ObjectOp[] {
+  const subtree = Object.keys(nodes)
+    .filter((path) => isWithin(path, root) && !skip.some((moved) => isWithin(path, moved)))
+    .sort((a, b) => a.split('.').length - b.split('.').length)
+  const ops: ObjectOp[] = []
+  for (const path of subtree) {
+    const node = nodes[path]
+    const props: Record<string, unknown> = { ...node.props, Name: node.name }
+    if (SCRIPT_CLASS_NAMES.has(node.className) && typeof sources[path] === 'string') props.Source = sources[path]
+    ops.push({ op: 'create_instance', className: node.className, parentPath: node.parentPath || splitInstancePath(path).parentPath || 'game', props })
+    if (node.attributes && Object.keys(node.attributes).length > 0) ops.push({ op: 'set_attributes', path, attributes: { ...node.attributes } })
+    if (node.tags && node.tags.length > 0) ops.push({ op: 'add_tag', path, tags: [...node.tags] })
+  }
+  return ops
+}
+
+export function buildRollbackProposals(current: StudioState, target: StudioState, label: string): Proposal[] {
+  const now = current.scene?.nodes || {}
+  const then = target.scene?.nodes || {}
+  const currentSources = current.scriptSources || {}
+  const targetSources = target.scriptSources || {}
+  const diff = diffSceneGraphs(current.scene, target.scene)
+  const ops: ObjectOp[] = []
+  const warnings: string[] = []
+  // Scripts whose source rides along in a create_instance op
+  const recreated = new Set<string>()
+  const relocations = [...diff.moved, ...diff.renamed]
+  const relocate = (entry: { from: string; to: string }) => {
+    const from = splitInstancePath(entry.from)
+    const to = splitInstancePath(entry.to)
+    let path = entry.from
+    if (from.parentPath !== to.parentPath && to.parentPath) {
+      ops.push({ op: 'move_instance', path, newParentPath: to.parentPath })
+      path = buildInstancePath(to.parentPath, from.name)
+    }
+    if (from.name !== to.name) ops.push({ op: 'rename_instance', path, newName: to.name })
+  }
+  // Moves back into a folder that has to be re-created wait for the creates below
+  const intoCreated = (entry: { to: string }) => diff.created.some((c) => isWithin(entry.to, c.path))
+
+  relocations.filter((entry) => !intoCreated(entry)).forEach(relocate)
+  for (const entry of diff.deleted) ops.push({ op: 'delete_instance', path: entry.path })
+  const movedBack = relocations.map((entry) => entry.to)
+  for (const entry of diff.created) {
+    ops.push(...createOps(entry.path, then, targetSources, movedBack))
+    for (const path of Object.keys(then)) {
+      if (isWithin(path, entry.path) && !movedBack.some((moved) => isWithin(path, moved)) && typeof targetSources[path] === 'string') recreated.add(path)
+    }
+  }
+  relocations.filter(intoCreated).forEach(relocate)
+  for (const entry of diff.changed) {
+    const props: Record<string, unknown> = {}
+    const attributes: Record<string, unknown> = {}
+    const remove: string[] = []
+    for (const change of entry.changes) {
+      if (change.key === 'ClassName') {
+        warnings.push(`${entry.path} was a ${String(change.to)} at the checkpoint; class changes are not rolled back`)
+      } else if (change.key === 'Tags') {
+        const before = new Set(Array.isArray(change.from) ? (change.from as string[]) : [])
+        const after = new Set(Array.isArray(change.to) ? (change.to as string[]) : [])
+        const add = [...after].filter((tag) => !before.has(tag))
+        const drop = [...before].filter((tag) => !after.has(tag))
+        if (add.length > 0) ops.push({ op: 'add_tag', path: entry.path, tags: add })
+        if (drop.length > 0) ops.push({ op: 'remove_tag', path: entry.path, tags: drop })
+      } else if (change.key.startsWith('@')) {
+        if (change.to === undefined) remove.push(change.key.slice(1))
+        else attributes[change.key.slice(1)] = change.to
+      } else if (change.to !== undefined) {
+        props[change.key] = change.to
+      }
+      // A prop the checkpoint never recorded has no value to go back to
+    }
+    if (Object.keys(props).length > 0) ops.push({ op: 'set_properties', path: entry.path, props })
+    if (Object.keys(attributes).length > 0 || remove.length > 0) {
+      ops.push({ op: 'set_attributes', path: entry.path, attributes, ...(remove.length > 0 ? { remove } : {}) })
+    }
+  }
+
+  const files: EditFileChange[] = []
+  for (const [path, text] of Object.entries(targetSources)) {
+    if (recreated.has(path) || currentSources[path] === text) continue
+    // Gone from Studio and not re-created above (the scene graph never saw it)
+    if (!now[path] && !then[path] && currentSources[path] === undefined) continue
+    if (typeof currentSources[path] === 'string') files.push(fullReplacement(path, currentSources[path], text))
+    else ops.push({ op: 'set_properties', path, props: { Source: text } })
+  }
+  for (const path of Object.keys(currentSources)) {
+    if (targetSources[path] === undefined && then[path] && now[path]) {
+      warnings.push(`${path} has no source recorded at the checkpoint; its current source is kept`)
+    }
+  }
+
+  const proposals: Proposal[] = []
+  if (ops.length > 0) {
+    const object: ObjectProposal = { id: rollbackId('obj'), type: 'object_op', ops, notes: `Roll back scene to ${label}` }
+    if (warnings.length > 0) object.warnings = warnings
+    proposals.push(object)
+  }
+  if (files.length > 0) {
+    const primary = files[0]
+    const edit: EditProposal = {
+      id: rollbackId('edit'),
+      type: 'edit',
+      files,
+      path: primary.path,
+      diff: primary.diff,
+      preview: primary.preview,
+      safety: primary.safety,
+      notes: `Roll back ${files.length} script${files.length === 1 ? '' : 's'} to ${label}`,
+    }
+    proposals.push(edit)
+  }
+  return proposals
+}
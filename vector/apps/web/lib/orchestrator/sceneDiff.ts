@@ -0,0 +1,223 @@
+import type { SceneGraph, SceneNode } from './taskState'
+
+// Diffs two scene graphs (e.g. checkpoint manifests' taskState.scene) into created / deleted /
+// renamed / moved instances and per-instance property changes. Nodes are keyed by path, so a
+// rename or move shows up as delete + create; a removed subtree root is matched back up with an
+// added node of the same class and name or parent, and identical props, attributes and tags.
+
+export type ScenePropertyChange = { key: string; from?: unknown; to?: unknown }
+
+export type SceneDiff = {
+  created: Array<{ path: string; className: string; descendants: number }>
+  deleted: Array<{ path: string; className: string; descendants: number }>
+  renamed: Array<{ from: string; to: string; className: string }>
+  // A move that also renamed the instance is listed here only
+  moved: Array<{ from: string; to: string; className: string }>
+  changed: Array<{ path: string; className: string; changes: ScenePropertyChange[] }>
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Props (minus Name, which is the path), '@attribute' keys and Tags in one flat record
+function comparableFields(node: SceneNode): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(node.props || {})) {
+    if (key !== 'Name') fields[key] = value
+  }
+  for (const [key, value] of Object.entries(node.attributes || {})) fields[`@${key}`] = value
+  if (node.tags && node.tags.length > 0) fields.Tags = [...node.tags].sort()
+  return fields
+}
+
+// Equal fingerprints ⇔ diffFields finds nothing
+function fingerprint(node: SceneNode): string {
+  return JSON.stringify(Object.entries(comparableFields(node)).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function diffFields(before: SceneNode, after: SceneNode): ScenePropertyChange[] {
+  const a = comparableFields(before)
+  const b = comparableFields(after)
+  const changes: ScenePropertyChange[] = []
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (!sameValue(a[key], b[key])) changes.push({ key, from: a[key], to: b[key] })
+  }
+  return changes.sort((x, y) => x.key.localeCompare(y.key))
+}
+
+function isUnder(path: string, root: string) {
+  return path.startsWith(`${root}.`)
+}
+
+// parentPath → child paths, limited to `paths`
+function childrenWithin(paths: Iterable<string>, nodes: Record<string, SceneNode>) {
+  const children = new Map<string, string[]>()
+  for (const path of paths) {
+    const parent = nodes[path].parentPath
+    if (parent === undefined) continue
+    const list = children.get(parent)
+    if (list) list.push(path)
+    else children.set(parent, [path])
+  }
+  return children
+}
+
+// Every path below `root` in `children` (iterative, so deep trees do not recurse)
+function descendantsOf(root: string, children: Map<string, string[]>): string[] {
+  const out: string[] = []
+  const stack = [...(children.get(root) || [])]
+  while (stack.length > 0) {
+    const path = stack.pop()!
+    out.push(path)
+    const next = children.get(path)
+    if (next) stack.push(...next)
+  }
+  return out
+}
+
+// Paths whose parent is not itself in the set, each with its descendant count
+function subtreeRoots(paths: string[], nodes: Record<string, SceneNode>) {
+  const set = new Set(paths)
+  const children = childrenWithin(paths, nodes)
+  const roots = paths.filter((p) => !(nodes[p].parentPath && set.has(nodes[p].parentPath!))).sort()
+  return roots.map((root) => ({ root, descendants: descendantsOf(root, children).length }))
+}
+
+function depth(path: string) {
+  return path.split('.').length
+}
+
+export function diffSceneGraphs(from?: SceneGraph, to?: SceneGraph): SceneDiff {
+  const before = from?.nodes || {}
+  const after = to?.nodes || {}
+  const diff: SceneDiff = { created: [], deleted: [], renamed: [], moved: [], changed: [] }
+
+  const removedRoots = subtreeRoots(Object.keys(before).filter((p) => !after[p]), before)
+  // Any added node may be the new home of a removed subtree (moved into a freshly created folder).
+  // Candidates are bucketed by class + name (moves) or class + parent (renames) plus identical
+  // fields, shallowest first; a cursor skips entries that can no longer match.
+  const added = Object.keys(after).filter((p) => !before[p]).sort((a, b) => depth(a) - depth(b) || a.localeCompare(b))
+  const rank = new Map<string, number>()
+  const buckets = new Map<string, { paths: string[]; cursor: number }>()
+  const bucketKeys = (node: SceneNode) => {
+    const fields = fingerprint(node)
+    return [`n\u0000${node.className}\u0000${node.name}\u0000${fields}`, `p\u0000${node.className}\u0000${node.parentPath ?? ''}\u0000${fields}`]
+  }
+  added.forEach((path, order) => {
+    rank.set(path, order)
+    for (const key of bucketKeys(after[path])) {
+      const entry = buckets.get(key)
+      if (entry) entry.paths.push(path)
+      else buckets.set(key, { paths: [path], cursor: 0 })
+    }
+  })
+  const beforeChildren = childrenWithin(Object.keys(before), before)
+  // before path → after path, for nodes that kept their identity under a new path
+  const relocated = new Map<string, string>()
+  const claimed = new Set<string>()
+  // Claimed, or inside a claimed subtree (which it belongs to); stays true once true
+  const unavailable = (path: string) => {
+    if (claimed.has(path)) return true
+    for (let parent = after[path]?.parentPath; parent; parent = after[parent]?.parentPath) {
+      if (claimed.has(parent)) return true
+    }
+    return false
+  }
+  const firstAvailable = (key: string) => {
+    const entry = buckets.get(key)
+    if (!entry) return undefined
+    while (entry.cursor < entry.paths.length && unavailable(entry.paths[entry.cursor])) entry.cursor++
+    return entry.paths[entry.cursor]
+  }
+  for (const { root } of removedRoots) {
+    const old = before[root]
+    const match = bucketKeys(old)
+      .map(firstAvailable)
+      .filter((path): path is string => path !== undefined)
+      .sort((a, b) => rank.get(a)! - rank.get(b)!)[0]
+    if (!match) continue
+    claimed.add(match)
+    relocated.set(root, match)
+    const entry = { from: root, to: match, className: old.className }
+    if (after[match].parentPath === old.parentPath) diff.renamed.push(entry)
+    else diff.moved.push(entry)
+    for (const path of descendantsOf(root, beforeChildren)) {
+      if (!isUnder(path, root)) continue
+      const mapped = match + path.slice(root.length)
+      if (after[mapped]) relocated.set(path, mapped)
+    }
+  }
+
+  const relocatedTargets = new Set(relocated.values())
+  const leftBefore = Object.keys(before).filter((p) => !after[p] && !relocated.has(p))
+  const leftAfter = Object.keys(after).filter((p) => !before[p] && !relocatedTargets.has(p))
+  for (const { root, descendants } of subtreeRoots(leftBefore, before)) {
+    diff.deleted.push({ path: root, className: before[root].className, descendants })
+  }
+  for (const { root, descendants } of subtreeRoots(leftAfter, after)) {
+    diff.created.push({ path: root, className: after[root].className, descendants })
+  }
+
+  const pairs: Array<[string, string]> = Object.keys(before).filter((p) => after[p]).map((p) => [p, p])
+  relocated.forEach((target, source) => pairs.push([source, target]))
+  for (const [source, target] of pairs) {
+    const changes = diffFields(before[source], after[target])
+    if (before[source].className !== after[target].className) {
+      changes.unshift({ key: 'ClassName', from: before[source].className, to: after[target].className })
+    }
+    if (changes.length > 0) diff.changed.push({ path: target, className: after[target].className, changes })
+  }
+  diff.changed.sort((a, b) => a.path.localeCompare(b.path))
+  return diff
+}
+
+function formatNumber(n: unknown) {
+  return typeof n === 'number' ? String(Number(n.toFixed(3))) : String(n)
+}
+
+/** Roblox-style rendering of tagged plugin values for the text diff. */
+export function formatSceneValue(value: unknown): string {
+  if (value === undefined) return '(unset)'
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const v = value as Record<string, any>
+    switch (v.__t) {
+      case 'Vector3':
+        return `Vector3(${[v.x, v.y, v.z].map(formatNumber).join(', ')})`
+      case 'Vector2':
+        return `Vector2(${[v.x, v.y].map(formatNumber).join(', ')})`
+      case 'Color3':
+        return `Color3(${[v.r, v.g, v.b].map(formatNumber).join(', ')})`
+      case 'CFrame':
+        return `CFrame(${(v.comps || []).slice(0, 3).map(formatNumber).join(', ')}${(v.comps || []).length > 3 ? ', …' : ''})`
+      case 'UDim':
+        return `UDim(${formatNumber(v.s)}, ${formatNumber(v.o)})`
+      case 'UDim2':
+        return `UDim2(${[v.xS, v.xO, v.yS, v.yO].map(formatNumber).join(', ')})`
+      case 'EnumItem':
+        return `${v.enum}.${v.name}`
+      case 'BrickColor':
+        return `BrickColor(${v.name ?? v.number})`
+      case 'Instance':
+        return String(v.path)
+    }
+  }
+  const text = JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text
+}
+
+/** Human-readable report; one line per instance, property changes indented below it. */
+export function formatSceneDiff(diff: SceneDiff): string {
+  const lines: string[] = []
+  const plural = (n: number) => (n > 0 ? ` (+${n} descendant${n === 1 ? '' : 's'})` : '')
+  for (const c of diff.created) lines.push(`+ ${c.path} [${c.className}]${plural(c.descendants)}`)
+  for (const d of diff.deleted) lines.push(`- ${d.path} [${d.className}]${plural(d.descendants)}`)
+  for (const r of diff.renamed) lines.push(`~ ${r.from} → ${r.to} [${r.className}] renamed`)
+  for (const m of diff.moved) lines.push(`> ${m.from} → ${m.to} [${m.className}] moved`)
+  for (const c of diff.changed) {
+    lines.push(`* ${c.path} [${c.className}]`)
+    for (const change of c.changes) lines.push(`    ${change.key}: ${formatSceneValue(change.from)} → ${formatSceneValue(change.to)}`)
+  }
+  const counts = `${diff.created.length} created, ${diff.deleted.length} deleted, ${diff.renamed.length} renamed, ${diff.moved.length} moved, ${diff.changed.length} changed`
+  return lines.length > 0 ? `${lines.join('\n')}\n\n${counts}` : `No scene changes (${counts})`
+}
@@ -1,4 +1,6 @@
 import type { TaskState, SceneGraph, SceneNode } from './taskState'
+import { normalizeProps, parseRobloxValue } from '../tools/propertyValues'
+import type { CFrameValue, Vector3Value } from '../tools/propertyValues'
 
 type ClassWhitelist = Record<string, boolean>
 
@@ -23,6 +25,33 @@ type DeleteInstanceInput = {
   path: string
 }
 
+type SetAttributesInput = {
+  path: string
+  attributes?: Record<string, unknown>
+  // Attribute names to clear
+  remove?: string[]
+}
+
+type TagsInput = {
+  path: string
+  tags: string[]
+}
+
+type MoveInstanceInput = {
+  path: string
+  newParentPath: string
+}
+
+type CloneInstanceInput = {
+  path: string
+  // Defaults to the source's parent
+  parentPath?: string
+  // Defaults to the source's name
+  newName?: string
+  // Actual path reported by the plugin, when known
+  newPath?: string
+}
+
 type ListChildrenInput = {
   parentPath: string
   depth?: number
@@ -45,35 +74,226 @@ function ensureScene(state: TaskState): SceneGraph {
   return state.scene
 }
 
+// Derived lookups over scene.nodes, rebuilt lazily whenever `nodes` is a new object (load, hydrate,
+// checkpoint restore) and maintained incrementally by the record* functions below. Only this module
+// may mutate scene.nodes, otherwise the index goes stale.
+type SceneIndex = {
+  children: Map<string, Set<string>>
+  byClass: Map<string, Set<string>>
+  byName: Map<string, Set<string>>
+  byTag: Map<string, Set<string>>
+}
+
+const sceneIndexes: WeakMap<Record<string, SceneNode>, SceneIndex> = new WeakMap()
+
+function addToBucket(map: Map<string, Set<string>>, key: string | undefined, path: string) {
+  if (key === undefined) return
+  let bucket = map.get(key)
+  if (!bucket) {
+    bucket = new Set()
+    map.set(key, bucket)
+  }
+  bucket.add(path)
+}
+
+function removeFromBucket(map: Map<string, Set<string>>, key: string | undefined, path: string) {
+  if (key === undefined) return
+  const bucket = map.get(key)
+  if (!bucket) return
+  bucket.delete(path)
+  if (bucket.size === 0) map.delete(key)
+}
+
+function indexNode(index: SceneIndex, node: SceneNode) {
+  addToBucket(index.children, node.parentPath, node.path)
+  addToBucket(index.byClass, node.className, node.path)
+  addToBucket(index.byName, node.name, node.path)
+  for (const tag of node.tags || []) addToBucket(index.byTag, tag, node.path)
+}
+
+function unindexNode(index: SceneIndex, node: SceneNode) {
+  removeFromBucket(index.children, node.parentPath, node.path)
+  removeFromBucket(index.byClass, node.className, node.path)
+  removeFromBucket(index.byName, node.name, node.path)
+  for (const tag of node.tags || []) removeFromBucket(index.byTag, tag, node.path)
+}
+
+function getSceneIndex(scene: SceneGraph): SceneIndex {
+  const existing = sceneIndexes.get(scene.nodes)
+  if (existing) return existing
+  const index: SceneIndex = { children: new Map(), byClass: new Map(), byName: new Map(), byTag: new Map() }
+  for (const [path, stored] of Object.entries(scene.nodes)) {
+    // Task state saved before attributes/tags were separate fields keeps them in props
+    const node = splitAttributeProps(stored)
+    scene.nodes[path] = node
+    indexNode(index, node)
+  }
+  sceneIndexes.set(scene.nodes, index)
+  return index
+}
+
+function putNode(scene: SceneGraph, node: SceneNode) {
+  const index = getSceneIndex(scene)
+  const previous = scene.nodes[node.path]
+  if (previous) unindexNode(index, previous)
+  scene.nodes[node.path] = node
+  indexNode(index, node)
+}
+
+function removeNode(scene: SceneGraph, path: string) {
+  const node = scene.nodes[path]
+  if (!node) return
+  unindexNode(getSceneIndex(scene), node)
+  delete scene.nodes[path]
+}
+
+// `path` and every node below it (children index walk, parents before children)
+function collectSubtree(scene: SceneGraph, path: string): string[] {
+  const index = getSceneIndex(scene)
+  const out: string[] = []
+  const seen = new Set<string>()
+  const queue = [path]
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i]
+    if (seen.has(current)) continue
+    seen.add(current)
+    if (scene.nodes[current]) out.push(current)
+    const children = index.children.get(current)
+    if (children) queue.push(...children)
+  }
+  return out
+}
+
 export function normalizeInstancePath(path?: string): string | undefined {
   if (typeof path !== 'string') return undefined
   const trimmed = path.trim()
   return trimmed.length > 0 ? trimmed : undefined
 }
 
-type SnapshotNode = { path: string; className: string; name: string; parentPath?: string; props?: Record<string, unknown> }
+export type SnapshotNode = {
+  path: string
+  className: string
+  name: string
+  parentPath?: string
+  props?: Record<string, unknown>
+  attributes?: Record<string, unknown>
+  tags?: string[]
+}
+
+function uniqueTags(tags: unknown[]): string[] {
+  return Array.from(new Set(tags.map(String).filter((tag) => tag.length > 0)))
+}
+
+/**
+ * Moves "@Name" props into `attributes` and a `Tags` prop into `tags`. Older plugins and
+ * create_instance/set_properties ops still send them that way.
+ */
+function splitAttributeProps(node: SceneNode): SceneNode {
+  const keys = Object.keys(node.props)
+  if (!keys.some((key) => key.startsWith('@') || key === 'Tags')) return node
+  const props: Record<string, unknown> = {}
+  const attributes = { ...(node.attributes || {}) }
+  let tags = node.tags
+  for (const key of keys) {
+    const value = node.props[key]
+    if (key.startsWith('@') && key.length > 1) attributes[key.slice(1)] = value
+    else if (key === 'Tags' && Array.isArray(value)) tags = uniqueTags([...(tags || []), ...value])
+    else props[key] = value
+  }
+  return { ...node, props, attributes, ...(tags ? { tags } : {}) }
+}
+
+function snapshotToNode(entry: SnapshotNode): SceneNode | undefined {
+  if (!entry || typeof entry.path !== 'string' || typeof entry.className !== 'string') return undefined
+  const path = normalizeInstancePath(entry.path)
+  if (!path) return undefined
+  const { parentPath, name } = splitInstancePath(path)
+  const nodeName = typeof entry.name === 'string' ? entry.name : name
+  const propsClone = cloneProps(entry.props)
+  propsClone.Name = propsClone.Name ?? nodeName
+  return splitAttributeProps({
+    path,
+    parentPath: normalizeInstancePath(entry.parentPath) || parentPath,
+    name: nodeName,
+    className: entry.className,
+    props: propsClone,
+    ...(entry.attributes && typeof entry.attributes === 'object' ? { attributes: cloneProps(entry.attributes) } : {}),
+    ...(Array.isArray(entry.tags) ? { tags: uniqueTags(entry.tags) } : {}),
+  })
+}
 
 export function hydrateSceneSnapshot(state: TaskState, snapshot?: { nodes?: SnapshotNode[] }) {
   if (!snapshot || !Array.isArray(snapshot.nodes)) return
   const scene = ensureScene(state)
   scene.nodes = {}
   for (const entry of snapshot.nodes) {
-    if (!entry || typeof entry.path !== 'string' || typeof entry.className !== 'string') continue
-    const path = normalizeInstancePath(entry.path)
-    if (!path) continue
-    const { parentPath, name } = splitInstancePath(path)
-    const nodeName = typeof entry.name === 'string' ? entry.name : name
-    const propsClone = cloneProps(entry.props)
-    propsClone.Name = propsClone.Name ?? nodeName
-    const node: SceneNode = {
-      path,
-      parentPath: normalizeInstancePath(entry.parentPath) || parentPath,
-      name: nodeName,
-      className: entry.className,
-      props: propsClone,
+    const node = snapshotToNode(entry)
+    if (node) putNode(scene, node)
+  }
+}
+
+// Scene sync payload sent with each /api/chat call. A snapshot (`nodes`) replaces the graph; a delta
+// (`baseVersion` + `delta`) patches it and only applies on top of the version it was computed from.
+export type SceneSyncPayload = {
+  version?: string
+  nodes?: SnapshotNode[]
+  baseVersion?: string
+  delta?: {
+    added?: SnapshotNode[]
+    // Full replacement nodes (props not listed are dropped)
+    changed?: SnapshotNode[]
+    // Paths removed in Studio; their descendants go with them
+    removed?: string[]
+  }
+}
+
+export class SceneSyncStaleError extends Error {
+  readonly baseVersion?: string
+  readonly currentVersion?: string
+  constructor(baseVersion?: string, currentVersion?: string) {
+    super(`Scene delta is based on version ${baseVersion ?? '(none)'} but the task scene is at ${currentVersion ?? '(no snapshot)'}; resend a full snapshot`)
+    this.name = 'SceneSyncStaleError'
+    this.baseVersion = baseVersion
+    this.currentVersion = currentVersion
+  }
+}
+
+export type SceneSyncResult = { mode: 'snapshot' | 'delta'; version?: string; added: number; changed: number; removed: number }
+
+/**
+ * Applies a snapshot or delta to TaskState.scene. Throws SceneSyncStaleError (before touching the
+ * graph) when a delta's baseVersion is not the stored version, so the plugin knows to resend.
+ */
+export function applySceneSync(state: TaskState, payload?: SceneSyncPayload): SceneSyncResult | undefined {
+  if (!payload) return undefined
+  const scene = ensureScene(state)
+  const version = typeof payload.version === 'string' && payload.version ? payload.version : undefined
+  if (payload.delta) {
+    if (!scene.version || payload.baseVersion !== scene.version) throw new SceneSyncStaleError(payload.baseVersion, scene.version)
+    const result: SceneSyncResult = { mode: 'delta', version, added: 0, changed: 0, removed: 0 }
+    for (const raw of payload.delta.removed || []) {
+      const path = normalizeInstancePath(raw)
+      if (!path || !scene.nodes[path]) continue
+      for (const p of collectSubtree(scene, path)) removeNode(scene, p)
+      result.removed++
     }
-    scene.nodes[path] = node
+    for (const [key, entries] of [['added', payload.delta.added], ['changed', payload.delta.changed]] as const) {
+      for (const entry of entries || []) {
+        const node = snapshotToNode(entry)
+        if (!node) continue
+        putNode(scene, node)
+        result[key]++
+      }
+    }
+    scene.version = version
+    scene.syncedAt = Date.now()
+    return result
   }
+  if (!Array.isArray(payload.nodes)) return undefined
+  hydrateSceneSnapshot(state, payload)
+  scene.version = version
+  scene.syncedAt = Date.now()
+  return { mode: 'snapshot', version, added: payload.nodes.length, changed: 0, removed: 0 }
 }
 
 export function needsBracketedName(name: string): boolean {
@@ -90,6 +310,73 @@ export function buildInstancePath(parentPath: string | undefined, name: string):
   return parent ? `${parent}.${segment}` : segment
 }
 
+// Names between brackets: ["a b"], ['a b'] or [a b]; returns the name and the index after ']'
+function readBracketSegment(path: string, start: number): { name: string; next: number } | undefined {
+  const quote = path[start + 1]
+  if (quote === '"' || quote === "'") {
+    let name = ''
+    for (let i = start + 2; i < path.length; i++) {
+      if (path[i] === '\\' && i + 1 < path.length) {
+        name += path[++i]
+      } else if (path[i] === quote) {
+        return path[i + 1] === ']' ? { name, next: i + 2 } : undefined
+      } else {
+        name += path[i]
+      }
+    }
+    return undefined
+  }
+  const close = path.indexOf(']', start)
+  return close > start + 1 ? { name: path.slice(start + 1, close), next: close + 1 } : undefined
+}
+
+/**
+ * One spelling per instance so paths from the model, the plugin and policies compare equal:
+ * `game.` prefix and dotted segments, names that are not identifiers as `.["…"]`. Accepts `a.b`,
+ * `a["b c"]`, `a.["b c"]` and `a.[b c]`. With `glob`, `*` counts as a name character and a
+ * leading `**` gets no prefix. Undefined when brackets or quotes do not balance or a segment is empty.
+ */
+export function canonicalInstancePath(path?: string, opts?: { glob?: boolean }): string | undefined {
+  const normalized = normalizeInstancePath(path)
+  if (!normalized) return undefined
+  const segments: string[] = []
+  let buf = ''
+  let i = 0
+  // After ']' only '.', '[' or the end may follow
+  let closed = false
+  while (i < normalized.length) {
+    const ch = normalized[i]
+    if (ch === '[') {
+      if (buf) segments.push(buf)
+      buf = ''
+      const bracket = readBracketSegment(normalized, i)
+      if (!bracket) return undefined
+      segments.push(bracket.name)
+      i = bracket.next
+      closed = true
+    } else if (ch === '.') {
+      if (!buf && !closed) return undefined
+      if (buf) segments.push(buf)
+      buf = ''
+      closed = false
+      i++
+      if (i === normalized.length) return undefined
+    } else if (closed || ch === ']') {
+      return undefined
+    } else {
+      buf += ch
+      i++
+    }
+  }
+  if (buf) segments.push(buf)
+  if (segments.length === 0) return undefined
+  if (segments[0] !== 'game' && !(opts?.glob && segments[0] === '**')) segments.unshift('game')
+  const plain = opts?.glob ? /^[A-Za-z_*][A-Za-z0-9_*]*$/ : /^[A-Za-z_][A-Za-z0-9_]*$/
+  return segments
+    .map((segment) => (plain.test(segment) ? segment : `["${segment.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`))
+    .join('.')
+}
+
 export function splitInstancePath(path: string): { parentPath?: string; name: string } {
   const normalized = normalizeInstancePath(path)
   if (!normalized) return { name: '' }
@@ -141,7 +428,7 @@ function getOrCreateNode(scene: SceneGraph, path: string): SceneNode {
     className: 'Instance',
     props: {},
   }
-  scene.nodes[path] = node
+  putNode(scene, node)
   return node
 }
 
@@ -153,15 +440,33 @@ export function recordCreateInstance(state: TaskState, input: CreateInstanceInpu
   const propsClone = cloneProps(input.props)
   propsClone.Name = propsClone.Name ?? name
   const existing = scene.nodes[path]
-  const mergedProps = existing ? { ...existing.props, ...propsClone } : propsClone
+  const mergedProps = existing ? mergeSceneProps(existing.props, propsClone) : propsClone
   const node: SceneNode = {
+    ...existing,
     path,
     parentPath,
     name,
     className: input.className,
     props: mergedProps,
   }
-  scene.nodes[path] = node
+  putNode(scene, splitAttributeProps(node))
+}
+
+/**
+ * Merges a props update. Position and CFrame describe the same placement, so a new Position moves
+ * the stored CFrame (keeping its rotation) and a new CFrame moves the stored Position.
+ */
+export function mergeSceneProps(previous: Record<string, unknown>, update: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...previous, ...update }
+  if ('Position' in update && !('CFrame' in update) && previous.CFrame !== undefined) {
+    const cframe = parseRobloxValue('CFrame', previous.CFrame) as CFrameValue | undefined
+    const position = parseRobloxValue('Vector3', update.Position) as Vector3Value | undefined
+    if (cframe && position) merged.CFrame = { ...cframe, comps: [position.x, position.y, position.z, ...cframe.comps.slice(3)] }
+  } else if ('CFrame' in update && !('Position' in update) && previous.Position !== undefined) {
+    const cframe = parseRobloxValue('CFrame', update.CFrame) as CFrameValue | undefined
+    if (cframe) merged.Position = { __t: 'Vector3', x: cframe.comps[0], y: cframe.comps[1], z: cframe.comps[2] }
+  }
+  return merged
 }
 
 export function recordSetProperties(state: TaskState, input: SetPropertiesInput) {
@@ -170,22 +475,87 @@ export function recordSetProperties(state: TaskState, input: SetPropertiesInput)
   if (!path) return
   const node = getOrCreateNode(scene, path)
   const propsClone = cloneProps(input.props)
-  if (typeof propsClone.Name === 'string') {
-    node.name = String(propsClone.Name)
-  }
-  node.props = { ...node.props, ...propsClone }
-  scene.nodes[path] = node
+  putNode(scene, splitAttributeProps({
+    ...node,
+    name: typeof propsClone.Name === 'string' ? String(propsClone.Name) : node.name,
+    props: mergeSceneProps(node.props, propsClone),
+  }))
+}
+
+export function recordSetAttributes(state: TaskState, input: SetAttributesInput) {
+  const scene = ensureScene(state)
+  const path = normalizeInstancePath(input.path)
+  if (!path) return
+  const node = getOrCreateNode(scene, path)
+  const attributes = { ...(node.attributes || {}), ...cloneProps(input.attributes) }
+  for (const name of input.remove || []) delete attributes[name]
+  putNode(scene, { ...node, attributes })
+}
+
+export function recordAddTags(state: TaskState, input: TagsInput) {
+  const scene = ensureScene(state)
+  const path = normalizeInstancePath(input.path)
+  if (!path) return
+  const node = getOrCreateNode(scene, path)
+  putNode(scene, { ...node, tags: uniqueTags([...(node.tags || []), ...input.tags]) })
+}
+
+export function recordRemoveTags(state: TaskState, input: TagsInput) {
+  const scene = ensureScene(state)
+  const path = normalizeInstancePath(input.path)
+  if (!path) return
+  const node = scene.nodes[path]
+  if (!node?.tags) return
+  const removed = new Set(input.tags)
+  putNode(scene, { ...node, tags: node.tags.filter((tag) => !removed.has(tag)) })
 }
 
 export function recordDeleteInstance(state: TaskState, input: DeleteInstanceInput) {
   const scene = ensureScene(state)
   const path = normalizeInstancePath(input.path)
   if (!path) return
+  for (const key of collectSubtree(scene, path)) {
+    removeNode(scene, key)
+  }
+}
+
+// Re-keys the subtree at `path` to `newPath`; copy=true leaves the source in place (clone)
+function relocateSubtree(scene: SceneGraph, path: string, newPath: string, copy: boolean) {
   const prefix = `${path}.`
-  for (const key of Object.keys(scene.nodes)) {
-    if (key === path || key.startsWith(prefix)) {
-      delete scene.nodes[key]
+  const newPrefix = `${newPath}.`
+  const { parentPath: newParentPath, name: newName } = splitInstancePath(newPath)
+  const updates: SceneNode[] = []
+  for (const key of collectSubtree(scene, path)) {
+    const node = scene.nodes[key]
+    const suffix = key === path ? '' : key.startsWith(prefix) ? key.slice(prefix.length) : undefined
+    // Linked by parentPath but not nested by path string (inconsistent snapshot); leave as is
+    if (suffix === undefined) continue
+    const updatedPath = suffix ? `${newPrefix}${suffix}` : newPath
+    let nextParent = node.parentPath
+    if (!suffix) {
+      nextParent = newParentPath
+    } else if (nextParent === path) {
+      nextParent = newPath
+    } else if (nextParent && nextParent.startsWith(prefix)) {
+      nextParent = newPrefix + nextParent.slice(prefix.length)
+    }
+    const updatedNode: SceneNode = {
+      ...node,
+      path: updatedPath,
+      parentPath: nextParent,
+      name: suffix ? node.name : newName,
+      props: copy ? cloneProps(node.props) : { ...node.props },
+      ...(copy && node.attributes ? { attributes: cloneProps(node.attributes) } : {}),
+      ...(copy && node.tags ? { tags: [...node.tags] } : {}),
+    }
+    if (!suffix) {
+      updatedNode.props.Name = newName
     }
+    updates.push(updatedNode)
+    if (!copy) removeNode(scene, key)
+  }
+  for (const node of updates) {
+    putNode(scene, node)
   }
 }
 
@@ -194,39 +564,32 @@ export function recordRenameInstance(state: TaskState, input: RenameInstanceInpu
   const path = normalizeInstancePath(input.path)
   if (!path) return
   const { parentPath } = splitInstancePath(path)
-  const newPath = buildInstancePath(parentPath, input.newName)
-  const prefix = `${path}.`
-  const newPrefix = `${newPath}.`
-  const updates: Record<string, SceneNode> = {}
-  for (const [key, node] of Object.entries(scene.nodes)) {
-    if (key === path || key.startsWith(prefix)) {
-      const suffix = key === path ? '' : key.slice(prefix.length)
-      const updatedPath = suffix ? `${newPrefix}${suffix}` : newPath
-      const updatedParent = node.parentPath
-      let nextParent = updatedParent
-      if (updatedParent === path) {
-        nextParent = newPath
-      } else if (updatedParent && updatedParent.startsWith(prefix)) {
-        nextParent = newPrefix + updatedParent.slice(prefix.length)
-      }
-      const updatedNode: SceneNode = {
-        ...node,
-        path: updatedPath,
-        parentPath: nextParent,
-        name: suffix ? node.name : input.newName,
-        props: { ...node.props },
-      }
-      if (!suffix) {
-        updatedNode.props.Name = input.newName
-      }
-      updates[key] = updatedNode
-    }
-  }
-  for (const oldPath of Object.keys(updates)) {
-    delete scene.nodes[oldPath]
-    const node = updates[oldPath]
-    scene.nodes[node.path] = node
-  }
+  relocateSubtree(scene, path, buildInstancePath(parentPath, input.newName), false)
+}
+
+export function recordMoveInstance(state: TaskState, input: MoveInstanceInput) {
+  const scene = ensureScene(state)
+  const path = normalizeInstancePath(input.path)
+  const newParentPath = normalizeInstancePath(input.newParentPath)
+  if (!path || !newParentPath) return
+  // Moving into its own subtree is rejected by Roblox
+  if (newParentPath === path || newParentPath.startsWith(`${path}.`)) return
+  const { name } = splitInstancePath(path)
+  const newPath = buildInstancePath(newParentPath, name)
+  if (newPath === path) return
+  relocateSubtree(scene, path, newPath, false)
+}
+
+export function recordCloneInstance(state: TaskState, input: CloneInstanceInput) {
+  const scene = ensureScene(state)
+  const path = normalizeInstancePath(input.path)
+  if (!path || !scene.nodes[path]) return
+  const source = splitInstancePath(path)
+  const parentPath = normalizeInstancePath(input.parentPath) || source.parentPath
+  const newPath = normalizeInstancePath(input.newPath) || buildInstancePath(parentPath, input.newName || source.name)
+  // Same path as the source (sibling with the same name) cannot be told apart by path
+  if (newPath === path || newPath.startsWith(`${path}.`)) return
+  relocateSubtree(scene, path, newPath, true)
 }
 
 export function listSceneChildren(state: TaskState, input: ListChildrenInput): Array<{ className: string; name: string; path: string }> {
@@ -242,14 +605,14 @@ export function listSceneChildren(state: TaskState, input: ListChildrenInput): A
   const results: Array<{ className: string; name: string; path: string }> = []
   const queue: Array<{ path: string; depth: number }> = [{ path: parentPath, depth: 0 }]
 
-  const nodesArray = Object.values(scene.nodes)
+  const index = getSceneIndex(scene)
 
-  while (queue.length > 0 && results.length < maxNodes) {
-    const current = queue.shift()!
+  for (let head = 0; head < queue.length && results.length < maxNodes; head++) {
+    const current = queue[head]
     const nextDepth = current.depth + 1
     if (nextDepth > depthLimit) continue
-    const children = nodesArray
-      .filter((node) => node.parentPath === current.path)
+    const children = Array.from(index.children.get(current.path) || [], (childPath) => scene.nodes[childPath])
+      .filter((node): node is SceneNode => !!node)
       .sort((a, b) => a.name.localeCompare(b.name))
     for (const child of children) {
       if (!whitelist || whitelist[child.className]) {
@@ -273,21 +636,25 @@ export function getSceneProperties(state: TaskState, input: GetPropertiesInput,
   const node = scene.nodes[path]
   if (!node) return {}
   const source = node.props || {}
+  const attributes = node.attributes || {}
   if (!input.keys || input.keys.length === 0) {
-    return cloneProps(source)
+    const out = cloneProps(source)
+    if (node.tags?.length) out.Tags = [...node.tags]
+    if (includeAllAttributes) out['@attributes'] = cloneProps(attributes)
+    return out
   }
   const out: Record<string, unknown> = {}
   for (const key of input.keys) {
     if (key === '@attributes') {
-      if (includeAllAttributes) {
-        const attrs: Record<string, unknown> = {}
-        for (const [attrKey, value] of Object.entries(source)) {
-          if (attrKey.startsWith('@')) {
-            attrs[attrKey.slice(1)] = value
-          }
-        }
-        out['@attributes'] = cloneProps(attrs)
-      }
+      if (includeAllAttributes) out['@attributes'] = cloneProps(attributes)
+      continue
+    }
+    if (key === 'Tags') {
+      out.Tags = [...(node.tags || [])]
+      continue
+    }
+    if (key.startsWith('@')) {
+      if (Object.prototype.hasOwnProperty.call(attributes, key.slice(1))) out[key] = attributes[key.slice(1)]
       continue
     }
     if (Object.prototype.hasOwnProperty.call(source, key)) {
@@ -297,6 +664,152 @@ export function getSceneProperties(state: TaskState, input: GetPropertiesInput,
   return out
 }
 
+export type ScenePredicateOp = 'eq' | 'ne' | 'prefix' | 'suffix' | 'contains' | 'exists' | 'gt' | 'gte' | 'lt' | 'lte'
+
+// `key` is a prop name, "Name", "ClassName" or "@Attribute"
+export type ScenePredicate = { key: string; op: ScenePredicateOp; value?: unknown }
+
+export type SceneQuery = {
+  className?: string | string[]
+  name?: string
+  // CollectionService tags the node must all have
+  tags?: string[]
+  // Only descendants of this path (the path itself is excluded)
+  under?: string
+  // Max levels below `under` (1 = direct children)
+  depth?: number
+  where?: ScenePredicate[]
+  offset?: number
+  limit?: number
+}
+
+export type SceneQueryResult = { total: number; nodes: SceneNode[] }
+
+// Scene keys may be stored with or without the "game." prefix depending on what the plugin sent
+export function resolveScenePath(state: TaskState, path?: string): string | undefined {
+  const normalized = normalizeInstancePath(path)
+  const nodes = state.scene?.nodes
+  if (!normalized || !nodes || typeof nodes !== 'object') return undefined
+  if (nodes[normalized]) return normalized
+  const alt = normalized.startsWith('game.') ? normalized.slice(5) : `game.${normalized}`
+  return nodes[alt] ? alt : undefined
+}
+
+export function hasSceneInstance(state: TaskState, path?: string): boolean {
+  return !!resolveScenePath(state, path)
+}
+
+export function sceneClassName(state: TaskState, path?: string): string | undefined {
+  const key = resolveScenePath(state, path)
+  return key ? state.scene!.nodes[key].className : undefined
+}
+
+function readNodeValue(node: SceneNode, key: string): unknown {
+  if (key === 'Name') return node.name
+  if (key === 'ClassName') return node.className
+  if (key.startsWith('@')) return node.attributes?.[key.slice(1)]
+  return node.props?.[key]
+}
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true
+  if (actual === undefined || actual === null) return false
+  if (typeof actual === 'object' || typeof expected === 'object') return JSON.stringify(actual) === JSON.stringify(expected)
+  // Props arrive as JSON from the plugin or model; "true"/true and "5"/5 are the same value
+  return String(actual) === String(expected)
+}
+
+function matchesPredicate(node: SceneNode, predicate: ScenePredicate): boolean {
+  const actual = readNodeValue(node, predicate.key)
+  const expected = predicate.value
+  switch (predicate.op) {
+    case 'exists':
+      return actual !== undefined && actual !== null
+    case 'eq':
+      return sameValue(actual, expected)
+    case 'ne':
+      return !sameValue(actual, expected)
+    case 'prefix':
+      return typeof actual === 'string' && actual.startsWith(String(expected ?? ''))
+    case 'suffix':
+      return typeof actual === 'string' && actual.endsWith(String(expected ?? ''))
+    case 'contains':
+      return typeof actual === 'string' && actual.includes(String(expected ?? ''))
+    default: {
+      const a = Number(actual)
+      const b = Number(expected)
+      if (!Number.isFinite(a) || !Number.isFinite(b)) return false
+      if (predicate.op === 'gt') return a > b
+      if (predicate.op === 'gte') return a >= b
+      if (predicate.op === 'lt') return a < b
+      return a <= b
+    }
+  }
+}
+
+export function matchesScenePredicates(node: SceneNode, where: ScenePredicate[]): boolean {
+  return where.every((predicate) => matchesPredicate(node, predicate))
+}
+
+// Levels between `node` and `ancestor` following parentPath links, or undefined when not below it
+function depthBelow(scene: SceneGraph, node: SceneNode, ancestor: string, maxDepth: number): number | undefined {
+  let parent = node.parentPath
+  for (let level = 1; parent && level <= maxDepth; level++) {
+    if (parent === ancestor) return level
+    parent = scene.nodes[parent]?.parentPath ?? splitInstancePath(parent).parentPath
+  }
+  return undefined
+}
+
+/**
+ * All instances matching class/name/ancestor/property filters, sorted by path so offset/limit
+ * pages are stable. Candidates come from the smallest index (class or name bucket, else the
+ * subtree under `under`) and are then filtered.
+ */
+export function querySceneNodes(state: TaskState, query: SceneQuery): SceneQueryResult {
+  const scene = state.scene
+  if (!scene || typeof scene.nodes !== 'object') return { total: 0, nodes: [] }
+  const index = getSceneIndex(scene)
+  const classNames = query.className === undefined ? [] : Array.isArray(query.className) ? query.className : [query.className]
+  const under = query.under ? resolveScenePath(state, query.under) || normalizeInstancePath(query.under) : undefined
+  const maxDepth = typeof query.depth === 'number' && query.depth > 0 ? query.depth : Number.POSITIVE_INFINITY
+
+  const buckets: string[][] = []
+  if (classNames.length > 0) {
+    const paths: string[] = []
+    for (const className of classNames) paths.push(...(index.byClass.get(className) || []))
+    buckets.push(paths)
+  }
+  if (typeof query.name === 'string') buckets.push(Array.from(index.byName.get(query.name) || []))
+  const tags = (query.tags || []).filter((tag) => tag.length > 0)
+  for (const tag of tags) buckets.push(Array.from(index.byTag.get(tag) || []))
+  let candidates: Iterable<string>
+  if (buckets.length > 0) {
+    candidates = buckets.reduce((smallest, bucket) => (bucket.length < smallest.length ? bucket : smallest))
+  } else if (under) {
+    candidates = collectSubtree(scene, under).filter((p) => p !== under)
+  } else {
+    candidates = Object.keys(scene.nodes)
+  }
+
+  const classSet = classNames.length > 0 ? new Set(classNames) : undefined
+  const matches: SceneNode[] = []
+  for (const path of new Set(candidates)) {
+    const node = scene.nodes[path]
+    if (!node) continue
+    if (classSet && !classSet.has(node.className)) continue
+    if (typeof query.name === 'string' && node.name !== query.name) continue
+    if (tags.length > 0 && !tags.every((tag) => node.tags?.includes(tag))) continue
+    if (under && depthBelow(scene, node, under, maxDepth) === undefined) continue
+    if (query.where && !matchesScenePredicates(node, query.where)) continue
+    matches.push(node)
+  }
+  matches.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+  const offset = Math.max(0, Math.floor(query.offset ?? 0))
+  const limit = typeof query.limit === 'number' ? Math.max(0, Math.floor(query.limit)) : matches.length
+  return { total: matches.length, nodes: matches.slice(offset, offset + limit) }
+}
+
 export function applyObjectOpsPreview(state: TaskState, ops: any[]) {
   for (const op of ops) {
     if (!op || typeof op !== 'object') continue
@@ -305,14 +818,31 @@ export function applyObjectOpsPreview(state: TaskState, ops: any[]) {
         className: op.className,
         parentPath: String(op.parentPath),
         path: typeof op.path === 'string' ? op.path : undefined,
-        props: op.props && typeof op.props === 'object' ? (op.props as Record<string, unknown>) : undefined,
+        props: op.props && typeof op.props === 'object' ? normalizeProps(op.props, op.className).props : undefined,
       })
     } else if (op.op === 'set_properties' && typeof op.path === 'string' && op.props) {
-      recordSetProperties(state, { path: String(op.path), props: op.props as Record<string, unknown> })
+      recordSetProperties(state, { path: String(op.path), props: normalizeProps(op.props, sceneClassName(state, op.path)).props })
     } else if (op.op === 'rename_instance' && typeof op.path === 'string' && typeof op.newName === 'string') {
       recordRenameInstance(state, { path: String(op.path), newName: String(op.newName) })
     } else if (op.op === 'delete_instance' && typeof op.path === 'string') {
       recordDeleteInstance(state, { path: String(op.path) })
+    } else if (op.op === 'move_instance' && typeof op.path === 'string' && typeof op.newParentPath === 'string') {
+      recordMoveInstance(state, { path: String(op.path), newParentPath: String(op.newParentPath) })
+    } else if (op.op === 'clone_instance' && typeof op.path === 'string') {
+      recordCloneInstance(state, {
+        path: String(op.path),
+        parentPath: typeof op.parentPath === 'string' ? op.parentPath : undefined,
+        newName: typeof op.newName === 'string' ? op.newName : undefined,
+      })
+    } else if (op.op === 'set_attributes' && typeof op.path === 'string') {
+      recordSetAttributes(state, {
+        path: String(op.path),
+        attributes: op.attributes && typeof op.attributes === 'object' ? op.attributes : undefined,
+        remove: Array.isArray(op.remove) ? op.remove.map(String) : undefined,
+      })
+    } else if ((op.op === 'add_tag' || op.op === 'remove_tag') && typeof op.path === 'string' && Array.isArray(op.tags)) {
+      const record = op.op === 'add_tag' ? recordAddTags : recordRemoveTags
+      record(state, { path: String(op.path), tags: op.tags.map(String) })
     }
   }
 }
@@ -326,12 +856,12 @@ export function applyObjectOpResult(state: TaskState, body: any) {
       className: body.className,
       parentPath: body.parentPath,
       path: typeof body.path === 'string' ? body.path : undefined,
-      props: body.props && typeof body.props === 'object' ? (body.props as Record<string, unknown>) : undefined,
+      props: body.props && typeof body.props === 'object' ? normalizeProps(body.props, body.className).props : undefined,
     })
   } else if (op === 'set_properties' && typeof body.path === 'string' && body.props) {
     recordSetProperties(state, {
       path: body.path,
-      props: body.props as Record<string, unknown>,
+      props: normalizeProps(body.props, sceneClassName(state, body.path)).props,
     })
   } else if (op === 'rename_instance' && typeof body.path === 'string' && typeof body.newName === 'string') {
     recordRenameInstance(state, {
@@ -340,5 +870,23 @@ export function applyObjectOpResult(state: TaskState, body: any) {
     })
   } else if (op === 'delete_instance' && typeof body.path === 'string') {
     recordDeleteInstance(state, { path: body.path })
+  } else if (op === 'move_instance' && typeof body.path === 'string' && typeof body.newParentPath === 'string') {
+    recordMoveInstance(state, { path: body.path, newParentPath: body.newParentPath })
+  } else if (op === 'clone_instance' && typeof body.path === 'string') {
+    recordCloneInstance(state, {
+      path: body.path,
+      parentPath: typeof body.parentPath === 'string' ? body.parentPath : undefined,
+      newName: typeof body.newName === 'string' ? body.newName : undefined,
+      newPath: typeof body.newPath === 'string' ? body.newPath : undefined,
+    })
+  } else if (op === 'set_attributes' && typeof body.path === 'string') {
+    recordSetAttributes(state, {
+      path: body.path,
+      attributes: body.attributes && typeof body.attributes === 'object' ? body.attributes : undefined,
+      remove: Array.isArray(body.remove) ? body.remove.map(String) : undefined,
+    })
+  } else if ((op === 'add_tag' || op === 'remove_tag') && typeof body.path === 'string' && Array.isArray(body.tags)) {
+    const record = op === 'add_tag' ? recordAddTags : recordRemoveTags
+    record(state, { path: body.path, tags: body.tags.map(String) })
   }
 }
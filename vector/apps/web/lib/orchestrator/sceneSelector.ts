@@ -0,0 +1,204 @@
+import type { TaskState, SceneNode } from './taskState'
+import { matchesScenePredicates, querySceneNodes, resolveScenePath } from './sceneGraph'
+import type { ScenePredicate, ScenePredicateOp } from './sceneGraph'
+
+// Selector language for find_instances, matched right-to-left against the indexed scene graph:
+//   Workspace Model[Name^=Tower] > Part.Anchored=true
+//   ClassName or *, #Name, [Prop], [Prop op value], [@Attribute op value], .Prop=value
+//   whitespace = descendant, > = direct child
+//   ops: = != ^= $= *= > >= < <=
+
+export type SelectorCompound = { className?: string; where: ScenePredicate[] }
+
+export type SelectorStep = { compound: SelectorCompound; combinator?: 'descendant' | 'child' }
+
+export class SelectorSyntaxError extends Error {
+  readonly position: number
+  constructor(message: string, position: number) {
+    super(`Invalid selector at ${position}: ${message}`)
+    this.name = 'SelectorSyntaxError'
+    this.position = position
+  }
+}
+
+const OPS: Array<[string, ScenePredicateOp]> = [
+  ['!=', 'ne'],
+  ['^=', 'prefix'],
+  ['$=', 'suffix'],
+  ['*=', 'contains'],
+  ['>=', 'gte'],
+  ['<=', 'lte'],
+  ['=', 'eq'],
+  ['>', 'gt'],
+  ['<', 'lt'],
+]
+
+const IDENT = /[A-Za-z0-9_@]/
+
+export function parseSceneSelector(selector: string): SelectorStep[] {
+  const src = selector.trim()
+  if (!src) throw new SelectorSyntaxError('empty selector', 0)
+  const steps: SelectorStep[] = []
+  let i = 0
+
+  const readIdent = (): string => {
+    const start = i
+    while (i < src.length && IDENT.test(src[i])) i++
+    if (i === start) throw new SelectorSyntaxError(`expected a name, got "${src[i] ?? 'end'}"`, i)
+    return src.slice(start, i)
+  }
+  const readOp = (): ScenePredicateOp | undefined => {
+    for (const [token, op] of OPS) {
+      if (src.startsWith(token, i)) {
+        i += token.length
+        return op
+      }
+    }
+    return undefined
+  }
+  const readValue = (stop: RegExp): string => {
+    const quote = src[i]
+    if (quote === '"' || quote === "'") {
+      const end = src.indexOf(quote, i + 1)
+      if (end < 0) throw new SelectorSyntaxError('unterminated string', i)
+      const value = src.slice(i + 1, end)
+      i = end + 1
+      return value
+    }
+    const start = i
+    while (i < src.length && !stop.test(src[i])) i++
+    return src.slice(start, i).trim()
+  }
+
+  while (i < src.length) {
+    const compound: SelectorCompound = { where: [] }
+    const start = i
+    if (src[i] === '*') i++
+    else if (/[A-Za-z_]/.test(src[i])) compound.className = readIdent()
+    while (i < src.length && /[#.[]/.test(src[i])) {
+      const ch = src[i++]
+      if (ch === '#') {
+        compound.where.push({ key: 'Name', op: 'eq', value: readValue(/[\s>#.[]/) })
+      } else if (ch === '.') {
+        const key = readIdent()
+        const op = readOp()
+        // Value runs to the next space, combinator or bracket so decimals like 0.5 stay intact
+        compound.where.push(op ? { key, op, value: readValue(/[\s>[]/) } : { key, op: 'exists' })
+      } else {
+        while (src[i] === ' ') i++
+        const key = readIdent()
+        while (src[i] === ' ') i++
+        const op = readOp()
+        while (src[i] === ' ') i++
+        compound.where.push(op ? { key, op, value: readValue(/\]/) } : { key, op: 'exists' })
+        while (src[i] === ' ') i++
+        if (src[i] !== ']') throw new SelectorSyntaxError('expected "]"', i)
+        i++
+      }
+    }
+    if (i === start) throw new SelectorSyntaxError(`unexpected "${src[i]}"`, i)
+    steps.push({ compound })
+
+    let sawSpace = false
+    while (src[i] === ' ' || src[i] === '\t') {
+      sawSpace = true
+      i++
+    }
+    if (i >= src.length) break
+    if (src[i] === '>') {
+      i++
+      while (src[i] === ' ' || src[i] === '\t') i++
+      steps[steps.length - 1].combinator = 'child'
+    } else if (sawSpace) {
+      steps[steps.length - 1].combinator = 'descendant'
+    } else {
+      throw new SelectorSyntaxError(`unexpected "${src[i]}"`, i)
+    }
+    if (i >= src.length) throw new SelectorSyntaxError('selector ends with a combinator', i)
+  }
+  return steps
+}
+
+export type FindInstancesInput = {
+  selector?: string
+  // Search root; only descendants of this path are returned
+  under?: string
+  // All listed tags required
+  tags?: string[]
+  // Attribute name → expected value (equality)
+  attributes?: Record<string, unknown>
+  // Props to include per result ("@Name" for attributes); omitted = paths only
+  properties?: string[]
+  offset?: number
+  limit?: number
+}
+
+export type FindInstancesResult = {
+  total: number
+  offset: number
+  limit: number
+  nextOffset: number | null
+  results: Array<{ path: string; className: string; name: string; props?: Record<string, unknown> }>
+}
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+function matchesCompound(node: SceneNode, compound: SelectorCompound): boolean {
+  if (compound.className && node.className !== compound.className) return false
+  return matchesScenePredicates(node, compound.where)
+}
+
+function matchesAncestors(state: TaskState, node: SceneNode, steps: SelectorStep[], index: number): boolean {
+  if (index < 0) return true
+  const step = steps[index]
+  const nodes = state.scene!.nodes
+  let parent = node.parentPath ? nodes[node.parentPath] : undefined
+  while (parent) {
+    if (matchesCompound(parent, step.compound) && matchesAncestors(state, parent, steps, index - 1)) return true
+    if (step.combinator === 'child') return false
+    parent = parent.parentPath ? nodes[parent.parentPath] : undefined
+  }
+  return false
+}
+
+/**
+ * Paginated selector search. Candidates for the rightmost compound come from the scene
+ * indexes (querySceneNodes); ancestors are then checked by walking parentPath links.
+ */
+export function findSceneInstances(state: TaskState, input: FindInstancesInput): FindInstancesResult {
+  const steps = input.selector ? parseSceneSelector(input.selector) : [{ compound: { where: [] } } as SelectorStep]
+  const last = steps[steps.length - 1].compound
+  const where: ScenePredicate[] = [...last.where]
+  for (const [key, value] of Object.entries(input.attributes || {})) {
+    where.push({ key: key.startsWith('@') ? key : `@${key}`, op: 'eq', value })
+  }
+  const under = input.under ? resolveScenePath(state, input.under) || input.under : undefined
+  const tags = (input.tags || []).map(String).filter((t) => t.length > 0)
+  const candidates = querySceneNodes(state, { className: last.className, under, tags, where }).nodes
+  const matches = candidates.filter((node) => matchesAncestors(state, node, steps, steps.length - 2))
+
+  const limit = Math.max(1, Math.min(MAX_LIMIT, Math.floor(input.limit ?? DEFAULT_LIMIT)))
+  const offset = Math.max(0, Math.floor(input.offset ?? 0))
+  const page = matches.slice(offset, offset + limit)
+  const keys = (input.properties || []).map(String)
+  return {
+    total: matches.length,
+    offset,
+    limit,
+    nextOffset: offset + page.length < matches.length ? offset + page.length : null,
+    results: page.map((node) => {
+      const entry: FindInstancesResult['results'][number] = { path: node.path, className: node.className, name: node.name }
+      if (keys.length > 0) {
+        const props: Record<string, unknown> = {}
+        for (const key of keys) {
+          if (key === 'Tags') props.Tags = [...(node.tags || [])]
+          else if (key.startsWith('@')) props[key] = node.attributes?.[key.slice(1)]
+          else if (Object.prototype.hasOwnProperty.call(node.props || {}, key)) props[key] = node.props[key]
+        }
+        entry.props = props
+      }
+      return entry
+    }),
+  }
+}
@@ -0,0 +1,293 @@
+import type { ObjectOp } from './index'
+import type { TaskState, SceneNode } from './taskState'
+import { buildInstancePath, mergeSceneProps, querySceneNodes, resolveScenePath } from './sceneGraph'
+import { normalizeProps, parseRobloxValue } from '../tools/propertyValues'
+import type { CFrameValue, Vector3Value } from '../tools/propertyValues'
+
+// Spatial layer over the scene graph: world-axis bounding boxes from Size + CFrame (or Position),
+// answering bounds / near / overlaps / ground queries for spatial_query and overlap warnings on
+// object proposals. Rotated parts get the axis-aligned box around them; terrain is not tracked.
+
+export type Vec3 = { x: number; y: number; z: number }
+
+export type WorldBox = { min: Vec3; max: Vec3 }
+
+export type SpatialQueryInput = {
+  query: 'bounds' | 'near' | 'overlaps' | 'ground'
+  path?: string
+  // Query point (near, ground) or box center (overlaps); any Vector3 form
+  point?: unknown
+  // Box size for overlaps around `point`
+  size?: unknown
+  radius?: number
+  // ground: only surfaces at or below this height
+  below?: number
+  limit?: number
+}
+
+export class SpatialQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SpatialQueryError'
+  }
+}
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const DEFAULT_RADIUS = 20
+// Faces that touch (stacked parts, parts resting on a baseplate) are not overlaps
+const TOUCH_TOLERANCE = 0.05
+const MAX_OVERLAP_WARNINGS = 5
+
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function roundVec(v: Vec3): Vec3 {
+  return { x: round(v.x), y: round(v.y), z: round(v.z) }
+}
+
+/** World box of a part from its props, or undefined when Size or placement is unknown. */
+export function partBoundingBox(props: Record<string, unknown> | undefined): WorldBox | undefined {
+  if (!props) return undefined
+  const size = parseRobloxValue('Vector3', props.Size) as Vector3Value | undefined
+  if (!size) return undefined
+  const cframe = parseRobloxValue('CFrame', props.CFrame) as CFrameValue | undefined
+  const position = cframe ? undefined : (parseRobloxValue('Vector3', props.Position) as Vector3Value | undefined)
+  if (!cframe && !position) return undefined
+  const center = cframe ? { x: cframe.comps[0], y: cframe.comps[1], z: cframe.comps[2] } : position!
+  const r = cframe ? cframe.comps.slice(3) : IDENTITY
+  const half = { x: Math.abs(size.x) / 2, y: Math.abs(size.y) / 2, z: Math.abs(size.z) / 2 }
+  // Extent along each world axis = |rotation row| · half size
+  const ex = Math.abs(r[0]) * half.x + Math.abs(r[1]) * half.y + Math.abs(r[2]) * half.z
+  const ey = Math.abs(r[3]) * half.x + Math.abs(r[4]) * half.y + Math.abs(r[5]) * half.z
+  const ez = Math.abs(r[6]) * half.x + Math.abs(r[7]) * half.y + Math.abs(r[8]) * half.z
+  return {
+    min: { x: center.x - ex, y: center.y - ey, z: center.z - ez },
+    max: { x: center.x + ex, y: center.y + ey, z: center.z + ez },
+  }
+}
+
+function unionBoxes(boxes: WorldBox[]): WorldBox | undefined {
+  if (boxes.length === 0) return undefined
+  const min = { ...boxes[0].min }
+  const max = { ...boxes[0].max }
+  for (const box of boxes.slice(1)) {
+    min.x = Math.min(min.x, box.min.x)
+    min.y = Math.min(min.y, box.min.y)
+    min.z = Math.min(min.z, box.min.z)
+    max.x = Math.max(max.x, box.max.x)
+    max.y = Math.max(max.y, box.max.y)
+    max.z = Math.max(max.z, box.max.z)
+  }
+  return { min, max }
+}
+
+// Penetration depth on the shallowest axis; <= TOUCH_TOLERANCE means the boxes only touch or are apart
+function overlapDepth(a: WorldBox, b: WorldBox): number {
+  return Math.min(
+    Math.min(a.max.x, b.max.x) - Math.max(a.min.x, b.min.x),
+    Math.min(a.max.y, b.max.y) - Math.max(a.min.y, b.min.y),
+    Math.min(a.max.z, b.max.z) - Math.max(a.min.z, b.min.z),
+  )
+}
+
+// Gap between two boxes (0 when they touch or overlap)
+function boxDistance(a: WorldBox, b: WorldBox): number {
+  const dx = Math.max(0, a.min.x - b.max.x, b.min.x - a.max.x)
+  const dy = Math.max(0, a.min.y - b.max.y, b.min.y - a.max.y)
+  const dz = Math.max(0, a.min.z - b.max.z, b.min.z - a.max.z)
+  return Math.sqrt(dx * dx + dy * dy + dz * dz)
+}
+
+function describeBox(box: WorldBox) {
+  return {
+    center: roundVec({ x: (box.min.x + box.max.x) / 2, y: (box.min.y + box.max.y) / 2, z: (box.min.z + box.max.z) / 2 }),
+    size: roundVec({ x: box.max.x - box.min.x, y: box.max.y - box.min.y, z: box.max.z - box.min.z }),
+    min: roundVec(box.min),
+    max: roundVec(box.max),
+  }
+}
+
+function isInside(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}.`) || path.startsWith(`${ancestor}[`)
+}
+
+type PlacedNode = { node: SceneNode; box: WorldBox }
+
+function placedNodes(state: TaskState): PlacedNode[] {
+  const out: PlacedNode[] = []
+  for (const node of Object.values(state.scene?.nodes || {})) {
+    const box = partBoundingBox(node.props)
+    if (box) out.push({ node, box })
+  }
+  return out
+}
+
+/** Box of a part, or the union of the parts below a Model/Folder. */
+export function sceneBoundingBox(state: TaskState, path: string): { path: string; box: WorldBox; parts: number } | undefined {
+  const key = resolveScenePath(state, path)
+  if (!key) return undefined
+  const own = partBoundingBox(state.scene!.nodes[key].props)
+  if (own) return { path: key, box: own, parts: 1 }
+  const boxes = querySceneNodes(state, { under: key })
+    .nodes.map((node) => partBoundingBox(node.props))
+    .filter((box): box is WorldBox => !!box)
+  const box = unionBoxes(boxes)
+  return box ? { path: key, box, parts: boxes.length } : undefined
+}
+
+function requireBounds(state: TaskState, path: string) {
+  if (!resolveScenePath(state, path)) throw new SpatialQueryError(`${path} is not in the scene graph; use list_children or find_instances to locate it`)
+  const bounds = sceneBoundingBox(state, path)
+  if (!bounds) throw new SpatialQueryError(`${path} has no known geometry (needs Size and Position/CFrame on it or on parts below it)`)
+  return bounds
+}
+
+function pointArg(raw: unknown, what: string): Vec3 {
+  const v = parseRobloxValue('Vector3', raw) as Vector3Value | undefined
+  if (!v) throw new SpatialQueryError(`${what} must be a Vector3 such as "0, 5, 0"`)
+  return { x: v.x, y: v.y, z: v.z }
+}
+
+function limitArg(limit?: number): number {
+  return Math.max(1, Math.min(MAX_LIMIT, Math.floor(limit ?? DEFAULT_LIMIT)))
+}
+
+/** Answers one spatial_query call; throws SpatialQueryError for missing paths or arguments. */
+export function runSpatialQuery(state: TaskState, input: SpatialQueryInput) {
+  if (input.query === 'bounds') {
+    if (!input.path) throw new SpatialQueryError('bounds needs path')
+    const bounds = requireBounds(state, input.path)
+    return { path: bounds.path, parts: bounds.parts, ...describeBox(bounds.box) }
+  }
+
+  if (input.query === 'ground') {
+    let origin: Vec3
+    let exclude: string | undefined
+    if (input.point !== undefined) {
+      origin = pointArg(input.point, 'point')
+    } else if (input.path) {
+      const { path, box } = requireBounds(state, input.path)
+      origin = { x: (box.min.x + box.max.x) / 2, y: box.min.y, z: (box.min.z + box.max.z) / 2 }
+      exclude = path
+    } else {
+      throw new SpatialQueryError('ground needs point or path')
+    }
+    // For a point only x/z matter unless `below` is set; for a path, the surface under its bottom face
+    const below = typeof input.below === 'number' ? input.below : exclude ? origin.y : Number.POSITIVE_INFINITY
+    let best: PlacedNode | undefined
+    for (const entry of placedNodes(state)) {
+      if (exclude && isInside(entry.node.path, exclude)) continue
+      const { min, max } = entry.box
+      if (origin.x < min.x || origin.x > max.x || origin.z < min.z || origin.z > max.z) continue
+      if (max.y > below + TOUCH_TOLERANCE) continue
+      if (!best || max.y > best.box.max.y) best = entry
+    }
+    return {
+      point: roundVec(origin),
+      height: best ? round(best.box.max.y) : null,
+      hitPath: best ? best.node.path : null,
+      ...(best ? {} : { note: 'No part surface below this point (terrain is not tracked)' }),
+    }
+  }
+
+  const limit = limitArg(input.limit)
+  let target: WorldBox
+  let exclude: string | undefined
+  if (input.path) {
+    const bounds = requireBounds(state, input.path)
+    target = bounds.box
+    exclude = bounds.path
+  } else if (input.point !== undefined) {
+    const center = pointArg(input.point, 'point')
+    const size = input.size !== undefined ? pointArg(input.size, 'size') : { x: 0, y: 0, z: 0 }
+    target = {
+      min: { x: center.x - size.x / 2, y: center.y - size.y / 2, z: center.z - size.z / 2 },
+      max: { x: center.x + size.x / 2, y: center.y + size.y / 2, z: center.z + size.z / 2 },
+    }
+  } else {
+    throw new SpatialQueryError(`${input.query} needs path or point`)
+  }
+  const candidates = placedNodes(state).filter((entry) => !exclude || !isInside(entry.node.path, exclude))
+
+  if (input.query === 'near') {
+    const radius = typeof input.radius === 'number' && input.radius > 0 ? input.radius : DEFAULT_RADIUS
+    const hits = candidates
+      .map((entry) => ({ entry, distance: boxDistance(target, entry.box) }))
+      .filter((hit) => hit.distance <= radius)
+      .sort((a, b) => a.distance - b.distance || a.entry.node.path.localeCompare(b.entry.node.path))
+    return {
+      origin: describeBox(target).center,
+      radius,
+      total: hits.length,
+      results: hits.slice(0, limit).map(({ entry, distance }) => ({
+        path: entry.node.path,
+        className: entry.node.className,
+        distance: round(distance),
+        ...describeBox(entry.box),
+      })),
+    }
+  }
+
+  const hits = candidates
+    .map((entry) => ({ entry, depth: overlapDepth(target, entry.box) }))
+    .filter((hit) => hit.depth > TOUCH_TOLERANCE)
+    .sort((a, b) => b.depth - a.depth)
+  return {
+    total: hits.length,
+    results: hits.slice(0, limit).map(({ entry, depth }) => ({
+      path: entry.node.path,
+      className: entry.node.className,
+      depth: round(depth),
+      ...describeBox(entry.box),
+    })),
+  }
+}
+
+const GEOMETRY_KEYS = ['Size', 'Position', 'CFrame']
+
+/**
+ * Warnings for create_instance/set_properties ops whose parts would intersect parts already in
+ * the scene (or placed by an earlier op in the same list). Advisory only; nothing is blocked.
+ */
+export function findOpOverlaps(state: TaskState, ops: ObjectOp[]): string[] {
+  const existing = placedNodes(state)
+  // Boxes the ops so far place, by path; they replace the scene's box for the same path
+  const placed = new Map<string, WorldBox>()
+  const warnings: string[] = []
+  let extra = 0
+  const warn = (path: string, otherPath: string, depth: number) => {
+    if (depth <= TOUCH_TOLERANCE) return
+    if (warnings.length < MAX_OVERLAP_WARNINGS) warnings.push(`${path} would intersect ${otherPath} (by ${round(depth)} studs)`)
+    else extra++
+  }
+  for (const op of ops) {
+    let path: string | undefined
+    let props: Record<string, unknown> | undefined
+    if (op.op === 'create_instance' && op.props) {
+      props = normalizeProps(op.props, op.className).props
+      path = buildInstancePath(op.parentPath, typeof props.Name === 'string' ? props.Name : op.className)
+    } else if (op.op === 'set_properties' && op.props && GEOMETRY_KEYS.some((key) => key in op.props)) {
+      const key = resolveScenePath(state, op.path)
+      const node = key ? state.scene!.nodes[key] : undefined
+      path = key || op.path
+      props = mergeSceneProps(node?.props || {}, normalizeProps(op.props, node?.className).props)
+    }
+    if (!path || !props) continue
+    const box = partBoundingBox(props)
+    if (!box) continue
+    for (const entry of existing) {
+      if (placed.has(entry.node.path) || isInside(entry.node.path, path)) continue
+      warn(path, entry.node.path, overlapDepth(box, entry.box))
+    }
+    for (const [otherPath, otherBox] of placed) {
+      if (otherPath !== path) warn(path, otherPath, overlapDepth(box, otherBox))
+    }
+    placed.set(path, box)
+  }
+  if (extra > 0) warnings.push(`…and ${extra} more intersection${extra === 1 ? '' : 's'}`)
+  return warnings
+}
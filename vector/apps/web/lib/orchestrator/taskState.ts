@@ -20,10 +20,16 @@ export type SceneNode = {
   name: string
   className: string
   props: Record<string, unknown>
+  // Instance attributes (GetAttributes) and CollectionService tags, kept out of props
+  attributes?: Record<string, unknown>
+  tags?: string[]
 }
 
 export type SceneGraph = {
   nodes: Record<string, SceneNode>
+  // Plugin-assigned id of the last snapshot/delta applied (see applySceneSync); deltas must name it as baseVersion
+  version?: string
+  syncedAt?: number
 }
 
 export type PlanState = {
@@ -47,7 +53,14 @@ export interface TaskState {
   runs: ToolRun[]
   streaming: { isStreaming: boolean; indexedUpTo?: number }
   autoApproval: { enabled: boolean; readFiles: boolean; editFiles: boolean; execSafe: boolean }
-  counters: { tokensIn: number; tokensOut: number; contextRequests: number }
+  counters: {
+    tokensIn: number
+    tokensOut: number
+    contextRequests: number
+    // Priced with lib/orchestrator/pricing.ts; per provider:model breakdown for this workflow
+    costUsd: number
+    byModel?: Record<string, { tokensIn: number; tokensOut: number; costUsd: number; calls: number }>
+  }
   scriptSources?: Record<string, string>
   scene?: SceneGraph
   plan?: PlanState
@@ -107,6 +120,12 @@ function ensureCheckpointFields(state: TaskState): TaskState {
   if (!state.plan || !Array.isArray(state.plan.steps)) {
     state.plan = { steps: [], completed: [], currentIndex: 0 }
   }
+  if (typeof state.counters.costUsd !== 'number' || Number.isNaN(state.counters.costUsd)) {
+    state.counters.costUsd = 0
+  }
+  if (!state.counters.byModel || typeof state.counters.byModel !== 'object') {
+    state.counters.byModel = {}
+  }
   if (!state.policy || typeof state.policy !== 'object') {
     state.policy = { geometryOps: 0, luauEdits: 0 }
   } else {
@@ -124,7 +143,7 @@ function defaultState(taskId: string): TaskState {
     runs: [],
     streaming: { isStreaming: false },
     autoApproval: { enabled: false, readFiles: false, editFiles: false, execSafe: false },
-    counters: { tokensIn: 0, tokensOut: 0, contextRequests: 0 },
+    counters: { tokensIn: 0, tokensOut: 0, contextRequests: 0, costUsd: 0, byModel: {} },
     scriptSources: {},
     codeDefinitions: [],
     scene: { nodes: {} },
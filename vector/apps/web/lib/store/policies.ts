@@ -0,0 +1,46 @@
+import { readJSON, writeJSON } from './persist'
+import type { AutoApprovalPolicy } from '../orchestrator/autoApprove'
+
+// Auto-approval policy document per project (see AutoApprovalPolicySchema); projects without one use the built-in rules
+
+export type StoredPolicy = {
+  projectId: string
+  policy: AutoApprovalPolicy
+  updatedAt: number
+}
+
+const FILE = 'policies.json'
+
+let map: Map<string, StoredPolicy> = new Map()
+
+function load() {
+  const arr = readJSON<StoredPolicy[]>(FILE, [])
+  map = new Map(arr.map((p) => [p.projectId, p]))
+}
+
+function flush() {
+  writeJSON(FILE, Array.from(map.values()))
+}
+
+load()
+
+export function getPolicy(projectId: string): StoredPolicy | undefined {
+  return map.get(projectId)
+}
+
+export function setPolicy(projectId: string, policy: AutoApprovalPolicy): StoredPolicy {
+  const rec: StoredPolicy = { projectId, policy, updatedAt: Date.now() }
+  map.set(projectId, rec)
+  flush()
+  return rec
+}
+
+export function deletePolicy(projectId: string): boolean {
+  const existed = map.delete(projectId)
+  if (existed) flush()
+  return existed
+}
+
+export function listPolicies(): StoredPolicy[] {
+  return Array.from(map.values()).sort((a, b) => b.updatedAt - a.updatedAt)
+}
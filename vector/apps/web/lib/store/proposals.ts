@@ -2,18 +2,37 @@ import { readJSON, writeJSON } from '../store/persist'
 
 export type StoredEvent = { type: string; at: number; data?: any }
 
+// pending → applied | failed | rejected; rejected/failed/pending → superseded once a revision replaces it
+export type ProposalStatus = 'pending' | 'applied' | 'rejected' | 'superseded' | 'failed'
+
 export type StoredProposal = {
   id: string
   projectId: string
   workflowId?: string
   message: string
   createdAt: number
-  status: 'pending' | 'applied'
+  status: ProposalStatus
   appliedAt?: number
+  rejectedAt?: number
+  rejectionReason?: string
+  // The rejected proposal this one replaces, and the revisions that replaced this one
+  revisionOf?: string
+  supersededBy?: string[]
   proposal: any
   events: StoredEvent[]
 }
 
+export class ProposalStateError extends Error {
+  readonly proposalId: string
+  readonly status: ProposalStatus
+  constructor(proposalId: string, status: ProposalStatus, action: string) {
+    super(`Cannot ${action} proposal ${proposalId}: it is ${status}`)
+    this.name = 'ProposalStateError'
+    this.proposalId = proposalId
+    this.status = status
+  }
+}
+
 const FILE = 'proposals.json'
 
 let map: Map<string, StoredProposal> = new Map()
@@ -34,6 +53,7 @@ export function saveProposals(input: {
   workflowId?: string
   message: string
   proposals: any[]
+  revisionOf?: string
 }): StoredProposal[] {
   const now = Date.now()
   const stored: StoredProposal[] = []
@@ -45,8 +65,9 @@ export function saveProposals(input: {
       message: input.message,
       createdAt: now,
       status: 'pending',
+      revisionOf: input.revisionOf,
       proposal: p,
-      events: [{ type: 'created', at: now }],
+      events: [{ type: 'created', at: now, data: input.revisionOf ? { revisionOf: input.revisionOf } : undefined }],
     }
     map.set(rec.id, rec)
     stored.push(rec)
@@ -55,17 +76,70 @@ export function saveProposals(input: {
   return stored
 }
 
+// Apply reports only land on pending, failed or (for later per-op reports) applied proposals
+function assertReportable(rec: StoredProposal, action: string) {
+  if (rec.status === 'rejected' || rec.status === 'superseded') throw new ProposalStateError(rec.id, rec.status, action)
+}
+
+/** Throws ProposalStateError for a rejected or superseded proposal (a late plugin report). */
 export function markApplied(id: string, data?: any): StoredProposal | undefined {
   const rec = map.get(id)
   const now = Date.now()
   if (!rec) return undefined
-  rec.status = 'applied'
+  assertReportable(rec, 'apply')
+  // The plugin reports once per op; a later ok report does not clear an earlier op's failure
+  if (rec.status !== 'failed') rec.status = 'applied'
   rec.appliedAt = now
   rec.events.push({ type: 'applied', at: now, data })
   flush()
   return rec
 }
 
+/** Throws ProposalStateError for a rejected or superseded proposal, like markApplied. */
+export function markFailed(id: string, data?: any): StoredProposal | undefined {
+  const rec = map.get(id)
+  if (!rec) return undefined
+  assertReportable(rec, 'fail')
+  rec.status = 'failed'
+  rec.events.push({ type: 'failed', at: Date.now(), data })
+  flush()
+  return rec
+}
+
+/** Only pending or failed proposals can be rejected; throws ProposalStateError otherwise. */
+export function markRejected(id: string, reason: string): StoredProposal | undefined {
+  const rec = map.get(id)
+  if (!rec) return undefined
+  if (rec.status !== 'pending' && rec.status !== 'failed') throw new ProposalStateError(id, rec.status, 'reject')
+  const now = Date.now()
+  rec.status = 'rejected'
+  rec.rejectedAt = now
+  rec.rejectionReason = reason
+  rec.events.push({ type: 'rejected', at: now, data: { reason } })
+  flush()
+  return rec
+}
+
+export function markSuperseded(id: string, by: string[]): StoredProposal | undefined {
+  const rec = map.get(id)
+  if (!rec) return undefined
+  if (rec.status === 'applied') throw new ProposalStateError(id, rec.status, 'supersede')
+  rec.status = 'superseded'
+  rec.supersededBy = [...(rec.supersededBy || []), ...by]
+  rec.events.push({ type: 'superseded', at: Date.now(), data: { by } })
+  flush()
+  return rec
+}
+
+/** Records the checkpoint taken when the proposal was saved, i.e. the state to roll back to if it is applied. */
+export function markCheckpointed(id: string, checkpointId: string): StoredProposal | undefined {
+  const rec = map.get(id)
+  if (!rec) return undefined
+  rec.events.push({ type: 'checkpointed', at: Date.now(), data: { checkpointId } })
+  flush()
+  return rec
+}
+
 export function getProposal(id: string): StoredProposal | undefined {
   return map.get(id)
 }
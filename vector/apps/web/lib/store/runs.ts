@@ -0,0 +1,33 @@
+// In-flight runLLM calls keyed by workflow id, so another request can cancel them
+
+export class RunCancelledError extends Error {
+  constructor(message = 'Run cancelled') {
+    super(message)
+    this.name = 'RunCancelledError'
+  }
+}
+
+const active: Map<string, AbortController> = new Map()
+
+export function startRun(workflowId: string): AbortSignal {
+  const ac = new AbortController()
+  active.set(workflowId, ac)
+  return ac.signal
+}
+
+// Only clears the entry if it still belongs to this run (a newer run may have replaced it)
+export function finishRun(workflowId: string, signal: AbortSignal) {
+  if (active.get(workflowId)?.signal === signal) active.delete(workflowId)
+}
+
+export function isRunActive(workflowId: string): boolean {
+  return active.has(workflowId)
+}
+
+export function cancelRun(workflowId: string, reason?: string): boolean {
+  const ac = active.get(workflowId)
+  if (!ac) return false
+  active.delete(workflowId)
+  ac.abort(new RunCancelledError(reason ? `Run cancelled: ${reason}` : undefined))
+  return true
+}
@@ -6,7 +6,7 @@ const perKey: Map<string, Chunk[]> = new Map()
 const emitter = new EventEmitter()
 emitter.setMaxListeners(0)
 
-const MAX_PER_KEY = 200
+const MAX_PER_KEY = 1000 // room for coalesced assistant.delta/tool.delta chunks
 const MAX_IDLE_MS = 60 * 60 * 1000 // 1 hour
 
 function arr(key: string): Chunk[] {
@@ -0,0 +1,134 @@
+import { readJSON, writeJSON } from './persist'
+
+// Token + cost totals per project (and per workflow/model within it), persisted for dashboards and budgets
+
+export type UsageTotals = {
+  tokensIn: number
+  tokensOut: number
+  costUsd: number
+  calls: number
+  // Calls whose model had no price entry (cost recorded as 0)
+  unpricedCalls?: number
+}
+
+export type ProjectUsage = UsageTotals & {
+  projectId: string
+  workflows: Record<string, UsageTotals & { updatedAt: number }>
+  models: Record<string, UsageTotals & { provider: string; model: string }>
+  updatedAt: number
+}
+
+export class BudgetExceededError extends Error {
+  readonly scope: 'project' | 'workflow'
+  readonly spentUsd: number
+  readonly limitUsd: number
+  constructor(scope: 'project' | 'workflow', spentUsd: number, limitUsd: number) {
+    super(`Budget exceeded: ${scope} spend $${spentUsd.toFixed(4)} has reached the $${limitUsd.toFixed(2)} limit`)
+    this.name = 'BudgetExceededError'
+    this.scope = scope
+    this.spentUsd = spentUsd
+    this.limitUsd = limitUsd
+  }
+}
+
+const FILE = 'usage.json'
+
+let map: Map<string, ProjectUsage> = new Map()
+
+function load() {
+  const arr = readJSON<ProjectUsage[]>(FILE, [])
+  map = new Map(arr.map((u) => [u.projectId, u]))
+}
+
+function flush() {
+  writeJSON(FILE, Array.from(map.values()))
+}
+
+load()
+
+function emptyTotals(): UsageTotals {
+  return { tokensIn: 0, tokensOut: 0, costUsd: 0, calls: 0 }
+}
+
+function addTotals(target: UsageTotals, usage: { tokensIn: number; tokensOut: number; costUsd: number; priced: boolean }) {
+  target.tokensIn += usage.tokensIn
+  target.tokensOut += usage.tokensOut
+  target.costUsd += usage.costUsd
+  target.calls += 1
+  if (!usage.priced) target.unpricedCalls = (target.unpricedCalls || 0) + 1
+}
+
+export function recordUsage(input: {
+  projectId: string
+  workflowId?: string
+  provider: string
+  model: string
+  tokensIn: number
+  tokensOut: number
+  costUsd: number
+  priced: boolean
+}): ProjectUsage {
+  const now = Date.now()
+  const project = map.get(input.projectId) || { projectId: input.projectId, ...emptyTotals(), workflows: {}, models: {}, updatedAt: now }
+  addTotals(project, input)
+  if (input.workflowId) {
+    const wf = project.workflows[input.workflowId] || { ...emptyTotals(), updatedAt: now }
+    addTotals(wf, input)
+    wf.updatedAt = now
+    project.workflows[input.workflowId] = wf
+  }
+  const modelKey = `${input.provider}:${input.model}`
+  const modelTotals = project.models[modelKey] || { ...emptyTotals(), provider: input.provider, model: input.model }
+  addTotals(modelTotals, input)
+  project.models[modelKey] = modelTotals
+  project.updatedAt = now
+  map.set(input.projectId, project)
+  flush()
+  return project
+}
+
+export function getProjectUsage(projectId: string): ProjectUsage | undefined {
+  return map.get(projectId)
+}
+
+export function listProjectUsage(): ProjectUsage[] {
+  return Array.from(map.values()).sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+function readUsd(raw?: string): number | undefined {
+  const n = raw ? Number(raw) : NaN
+  return Number.isFinite(n) && n > 0 ? n : undefined
+}
+
+/**
+ * Spend limits in USD. VECTOR_PROJECT_BUDGETS (JSON map projectId → USD) wins over
+ * VECTOR_PROJECT_BUDGET_USD; VECTOR_WORKFLOW_BUDGET_USD caps a single workflow.
+ */
+export function getBudget(projectId: string): { projectUsd?: number; workflowUsd?: number } {
+  let projectUsd: number | undefined
+  const mapRaw = process.env.VECTOR_PROJECT_BUDGETS
+  if (mapRaw) {
+    try {
+      const budgets = JSON.parse(mapRaw) as Record<string, unknown>
+      projectUsd = readUsd(budgets[projectId] !== undefined ? String(budgets[projectId]) : undefined)
+    } catch {
+      console.warn('[usage] VECTOR_PROJECT_BUDGETS is not valid JSON; ignoring')
+    }
+  }
+  return {
+    projectUsd: projectUsd ?? readUsd(process.env.VECTOR_PROJECT_BUDGET_USD),
+    workflowUsd: readUsd(process.env.VECTOR_WORKFLOW_BUDGET_USD),
+  }
+}
+
+export function assertWithinBudget(projectId: string, workflowId?: string) {
+  const budget = getBudget(projectId)
+  const project = map.get(projectId)
+  if (budget.projectUsd !== undefined && project && project.costUsd >= budget.projectUsd) {
+    throw new BudgetExceededError('project', project.costUsd, budget.projectUsd)
+  }
+  const wf = workflowId ? project?.workflows[workflowId] : undefined
+  if (budget.workflowUsd !== undefined && wf && wf.costUsd >= budget.workflowUsd) {
+    throw new BudgetExceededError('workflow', wf.costUsd, budget.workflowUsd)
+  }
+}
@@ -1,7 +1,17 @@
 import { readJSON, writeJSON } from './persist'
+import type { PlanState } from '../orchestrator/taskState'
 
 export type WorkflowStatus = 'planning' | 'executing' | 'paused' | 'completed' | 'failed'
-export type StepStatus = 'pending' | 'approved' | 'executing' | 'completed' | 'failed'
+export type StepStatus = 'pending' | 'approved' | 'executing' | 'completed' | 'failed' | 'skipped'
+
+// Allowed status changes; a completed or failed workflow is reopened by a new chat message or resume
+const TRANSITIONS: Record<WorkflowStatus, WorkflowStatus[]> = {
+  planning: ['executing', 'paused', 'completed', 'failed'],
+  executing: ['planning', 'paused', 'completed', 'failed'],
+  paused: ['executing', 'failed'],
+  completed: ['executing'],
+  failed: ['executing'],
+}
 
 export type WorkflowStep = {
   id: string
@@ -9,6 +19,11 @@ export type WorkflowStep = {
   status: StepStatus
   createdAt: number
   updatedAt: number
+  // 'plan' steps mirror TaskState.plan.steps; 'proposal' steps track one stored proposal
+  kind?: 'plan' | 'proposal'
+  title?: string
+  // Step ids that must be completed (or skipped) before this one is ready
+  dependsOn?: string[]
   proposalId?: string
   toolName?: string
   error?: string
@@ -18,13 +33,30 @@ export type Workflow = {
   id: string
   projectId: string
   status: WorkflowStatus
+  // Index of the first step that is not done and whose dependencies are
   currentStep: number
   steps: WorkflowStep[]
   context?: any
+  // Set while runLLM is working on the workflow; still set at load means the server died mid-run
+  runningSince?: number
+  pausedReason?: string
   createdAt: number
   updatedAt: number
 }
 
+export class WorkflowStateError extends Error {
+  readonly workflowId: string
+  readonly from: WorkflowStatus
+  readonly to: WorkflowStatus
+  constructor(workflowId: string, from: WorkflowStatus, to: WorkflowStatus) {
+    super(`Workflow ${workflowId} cannot go from ${from} to ${to}`)
+    this.name = 'WorkflowStateError'
+    this.workflowId = workflowId
+    this.from = from
+    this.to = to
+  }
+}
+
 const FILE = 'workflows.json'
 
 let map: Map<string, Workflow> = new Map()
@@ -32,6 +64,18 @@ let map: Map<string, Workflow> = new Map()
 function load() {
   const arr = readJSON<Workflow[]>(FILE, [])
   map = new Map(arr.map((w) => [w.id, w]))
+  let interrupted = 0
+  for (const wf of map.values()) {
+    if (!wf.runningSince) continue
+    delete wf.runningSince
+    wf.status = 'paused'
+    wf.pausedReason = 'interrupted by server restart'
+    interrupted++
+  }
+  if (interrupted > 0) {
+    console.log(`[workflows] paused ${interrupted} interrupted workflow(s)`)
+    flush()
+  }
 }
 
 function flush() {
@@ -69,22 +113,53 @@ export function listWorkflows(): Workflow[] {
   return Array.from(map.values()).sort((a, b) => b.createdAt - a.createdAt)
 }
 
+function isDone(step: WorkflowStep) {
+  return step.status === 'completed' || step.status === 'skipped'
+}
+
+export function isStepReady(wf: Workflow, step: WorkflowStep): boolean {
+  return (step.dependsOn || []).every((id) => {
+    const dep = wf.steps.find((x) => x.id === id)
+    return !dep || isDone(dep)
+  })
+}
+
+/** First step that is not done and has its dependencies done. */
+export function nextReadyStep(wf: Workflow): WorkflowStep | undefined {
+  return wf.steps.find((step) => !isDone(step) && step.status !== 'failed' && isStepReady(wf, step))
+}
+
+function refreshCurrentStep(wf: Workflow) {
+  const next = nextReadyStep(wf)
+  wf.currentStep = next ? next.index : wf.steps.length
+}
+
+// Plan step that proposals created now belong to
+function activePlanStep(wf: Workflow): WorkflowStep | undefined {
+  return wf.steps.find((step) => step.kind === 'plan' && !isDone(step))
+}
+
+/** Proposal steps depend on the active plan step unless dependsOn is given. */
 export function appendStep(workflowId: string, step: Partial<WorkflowStep> & { id?: string }): WorkflowStep | undefined {
   const wf = map.get(workflowId)
   if (!wf) return undefined
   const now = Date.now()
+  const planStep = step.kind === 'plan' ? undefined : activePlanStep(wf)
   const s: WorkflowStep = {
     id: step.id || newId('step'),
     index: wf.steps.length,
     status: step.status || 'pending',
     createdAt: now,
     updatedAt: now,
+    kind: step.kind || (step.proposalId ? 'proposal' : undefined),
+    title: step.title,
+    dependsOn: step.dependsOn || (planStep ? [planStep.id] : undefined),
     proposalId: step.proposalId,
     toolName: step.toolName,
     error: step.error,
   }
   wf.steps.push(s)
-  wf.currentStep = s.index
+  refreshCurrentStep(wf)
   wf.updatedAt = now
   flush()
   return s
@@ -97,16 +172,103 @@ export function updateStep(workflowId: string, stepId: string, patch: Partial<Wo
   if (!s) return undefined
   Object.assign(s, patch)
   s.updatedAt = Date.now()
+  refreshCurrentStep(wf)
   wf.updatedAt = s.updatedAt
   flush()
   return s
 }
 
+/**
+ * Mirrors TaskState.plan into 'plan' steps (`plan_<i>`, each depending on the previous one):
+ * completed plan entries complete their step, and steps dropped by a new plan are skipped.
+ */
+export function syncPlanSteps(workflowId: string, plan?: PlanState): Workflow | undefined {
+  const wf = map.get(workflowId)
+  if (!wf || !plan) return wf
+  const now = Date.now()
+  const completed = new Set(plan.completed || [])
+  plan.steps.forEach((title, i) => {
+    const id = `plan_${i}`
+    let step = wf.steps.find((x) => x.id === id)
+    if (!step) {
+      step = { id, index: wf.steps.length, status: 'pending', createdAt: now, updatedAt: now, kind: 'plan', dependsOn: i > 0 ? [`plan_${i - 1}`] : undefined }
+      wf.steps.push(step)
+    }
+    const status: StepStatus = completed.has(title) ? 'completed' : 'pending'
+    if (step.title !== title || step.status !== status) {
+      step.title = title
+      step.status = status
+      step.updatedAt = now
+    }
+  })
+  for (const step of wf.steps) {
+    const i = step.kind === 'plan' ? Number(step.id.slice('plan_'.length)) : NaN
+    if (i >= plan.steps.length && !isDone(step)) {
+      step.status = 'skipped'
+      step.updatedAt = now
+    }
+  }
+  refreshCurrentStep(wf)
+  wf.updatedAt = now
+  flush()
+  return wf
+}
+
+/** Unchecked status write; prefer transitionWorkflow. */
 export function setWorkflowStatus(workflowId: string, status: WorkflowStatus) {
   const wf = map.get(workflowId)
   if (!wf) return
   wf.status = status
+  if (status !== 'paused') delete wf.pausedReason
   wf.updatedAt = Date.now()
   flush()
 }
 
+/** Moves the workflow along TRANSITIONS (same-status is a no-op); throws WorkflowStateError otherwise. */
+export function transitionWorkflow(workflowId: string, to: WorkflowStatus, reason?: string): Workflow | undefined {
+  const wf = map.get(workflowId)
+  if (!wf) return undefined
+  if (wf.status !== to && !TRANSITIONS[wf.status].includes(to)) throw new WorkflowStateError(workflowId, wf.status, to)
+  wf.status = to
+  if (to === 'paused') wf.pausedReason = reason
+  else delete wf.pausedReason
+  wf.updatedAt = Date.now()
+  flush()
+  return wf
+}
+
+/** Marks a runLLM call in flight (executing); see load() for runs cut short by a restart. */
+export function beginWorkflowRun(workflowId: string): Workflow | undefined {
+  const wf = transitionWorkflow(workflowId, 'executing')
+  if (!wf) return undefined
+  wf.runningSince = Date.now()
+  flush()
+  return wf
+}
+
+/**
+ * Ends the run: syncs plan steps, then completes the workflow when the model signalled completion
+ * or every plan step is done; otherwise it stays executing while proposals await review.
+ */
+export function endWorkflowRun(workflowId: string, outcome: { plan?: PlanState; isComplete?: boolean; status?: WorkflowStatus; reason?: string }): Workflow | undefined {
+  const wf = map.get(workflowId)
+  if (!wf) return undefined
+  delete wf.runningSince
+  syncPlanSteps(workflowId, outcome.plan)
+  // A pause or cancel that landed during the run wins
+  if (!outcome.status && (wf.status === 'paused' || wf.status === 'failed')) {
+    flush()
+    return wf
+  }
+  const planSteps = wf.steps.filter((step) => step.kind === 'plan')
+  const planDone = planSteps.length > 0 && planSteps.every(isDone)
+  const status = outcome.status || (outcome.isComplete || planDone ? 'completed' : 'executing')
+  // Nor is a cancel (failed) that landed during the run undone by its outcome, e.g. a budget pause
+  if (wf.status !== status && !TRANSITIONS[wf.status].includes(status)) {
+    console.log(`[workflows] end run id=${workflowId} keeps ${wf.status} (outcome ${status})`)
+    flush()
+    return wf
+  }
+  return transitionWorkflow(workflowId, status, outcome.reason)
+}
+
@@ -35,6 +35,7 @@ export interface ExecuteOptions {
   autoApply?: boolean;        // Auto-apply proposals
   provider?: any;             // Provider config
   model?: string;             // Model override
+  cacheMode?: 'off' | 'auto' | 'record' | 'replay';  // Provider response cache (replay = offline fixtures)
 }
 
 /**
@@ -56,12 +57,17 @@ interface EditProposal {
 }
 
 interface ObjectOp {
-  op: 'create_instance' | 'set_properties' | 'rename_instance' | 'delete_instance';
+  op: 'create_instance' | 'set_properties' | 'rename_instance' | 'delete_instance' | 'move_instance' | 'clone_instance' |
+    'set_attributes' | 'add_tag' | 'remove_tag';
   className?: string;
   parentPath?: string;
   path?: string;
   props?: Record<string, any>;
   newName?: string;
+  newParentPath?: string;
+  attributes?: Record<string, any>;
+  remove?: string[];
+  tags?: string[];
 }
 
 interface ObjectProposal {
@@ -165,7 +171,8 @@ export class AgentExecutor {
         mode: options.mode || 'agent',
         autoApply: options.autoApply !== false,
         provider: options.provider,
-        modelOverride: options.model
+        modelOverride: options.model,
+        cacheMode: options.cacheMode
       };
 
       this.log(`\n📡 Calling API: POST ${this.baseUrl}/api/chat`);
@@ -388,6 +395,52 @@ export class AgentExecutor {
             duration: Date.now() - startTime
           });
           break;
+
+        case 'move_instance':
+          this.log(`   📦 Move: ${op.path} → ${op.newParentPath}`);
+          this.env.moveInstance(op.path!, op.newParentPath!);
+          toolCalls.push({
+            timestamp: Date.now(),
+            tool: 'move_instance',
+            params: op,
+            duration: Date.now() - startTime
+          });
+          break;
+
+        case 'clone_instance':
+          this.log(`   📑 Clone: ${op.path}${op.parentPath ? ` → ${op.parentPath}` : ''}`);
+          this.env.cloneInstance(op.path!, op.parentPath, op.newName);
+          toolCalls.push({
+            timestamp: Date.now(),
+            tool: 'clone_instance',
+            params: op,
+            duration: Date.now() - startTime
+          });
+          break;
+
+        case 'set_attributes':
+          this.log(`   🏷️  Attributes: ${op.path} (${Object.keys(op.attributes || {}).join(', ')})`);
+          this.env.setAttributes(op.path!, op.attributes || {}, op.remove);
+          toolCalls.push({
+            timestamp: Date.now(),
+            tool: 'set_attributes',
+            params: op,
+            duration: Date.now() - startTime
+          });
+          break;
+
+        case 'add_tag':
+        case 'remove_tag':
+          this.log(`   🏷️  ${op.op === 'add_tag' ? 'Tag' : 'Untag'}: ${op.path} (${(op.tags || []).join(', ')})`);
+          if (op.op === 'add_tag') this.env.addTags(op.path!, op.tags || []);
+          else this.env.removeTags(op.path!, op.tags || []);
+          toolCalls.push({
+            timestamp: Date.now(),
+            tool: op.op,
+            params: op,
+            duration: Date.now() - startTime
+          });
+          break;
       }
     }
 
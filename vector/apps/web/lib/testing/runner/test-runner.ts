@@ -63,6 +63,7 @@ export interface TestRunnerOptions {
   skipTools?: boolean;           // Skip tool tests
   skipScenarios?: boolean;       // Skip scenario tests
   onlyTests?: string[];          // Run only specific tests
+  cacheMode?: 'off' | 'auto' | 'record' | 'replay';  // Provider response cache mode sent with each request
 }
 
 /**
@@ -74,6 +75,7 @@ export class TestRunner {
   private verbose: boolean;
   private baseUrl: string;
   private timeout: number;
+  private cacheMode?: TestRunnerOptions['cacheMode'];
 
   /**
    * Create a new test runner
@@ -83,11 +85,13 @@ export class TestRunner {
     this.verbose = options.verbose ?? false;
     this.baseUrl = options.baseUrl ?? 'http://localhost:3000';
     this.timeout = options.timeout ?? 60000;  // 60s default
+    this.cacheMode = options.cacheMode;
 
     this.log('🧪 Test Runner initialized');
     this.log(`   Base URL: ${this.baseUrl}`);
     this.log(`   Timeout: ${this.timeout}ms`);
     this.log(`   Verbose: ${this.verbose}`);
+    this.log(`   Provider cache: ${this.cacheMode || 'server default'}`);
   }
 
   /**
@@ -191,7 +195,8 @@ export class TestRunner {
       const executionResult = await executor.execute(test.prompt, {
         timeout: this.timeout,
         mode: 'agent',
-        autoApply: true
+        autoApply: true,
+        cacheMode: this.cacheMode
       });
 
       // Verify result
@@ -259,7 +264,8 @@ export class TestRunner {
       const executionResult = await executor.execute(test.prompt, {
         timeout: this.timeout * 2,  // Scenarios get 2x timeout
         mode: 'agent',
-        autoApply: true
+        autoApply: true,
+        cacheMode: this.cacheMode
       });
 
       // Verify result
@@ -33,6 +33,8 @@ export interface VirtualInstance {
   parent: string | null;             // Parent path, or null for root
   children: string[];                // Array of child instance paths
   properties: Record<string, any>;   // Instance properties (Color, Size, etc.)
+  attributes?: Record<string, any>;  // Instance attributes (SetAttribute)
+  tags?: string[];                   // CollectionService tags
 }
 
 /**
@@ -41,7 +43,8 @@ export interface VirtualInstance {
 export interface Change {
   timestamp: number;
   type: 'file_create' | 'file_update' | 'file_delete' |
-        'instance_create' | 'instance_delete' | 'property_set' | 'instance_rename';
+        'instance_create' | 'instance_delete' | 'property_set' | 'instance_rename' |
+        'instance_move' | 'instance_clone' | 'attribute_set' | 'tag_add' | 'tag_remove';
   target: string;        // Path to the affected file/instance
   before?: any;          // State before change
   after?: any;           // State after change
@@ -345,6 +348,185 @@ export class VirtualEnvironment {
     this.log(`✅ Instance renamed: ${newPath}`);
   }
 
+  /**
+   * Move (reparent) an instance and its subtree
+   * @param path - Current instance path
+   * @param newParent - Path of the new parent
+   */
+  moveInstance(path: string, newParent: string): void {
+    this.log(`📦 Moving instance: ${path} → ${newParent}`);
+
+    const instance = this.instances.get(path);
+    if (!instance) {
+      throw new Error(`Instance not found: ${path}`);
+    }
+    const parentInstance = this.instances.get(newParent);
+    if (!parentInstance) {
+      throw new Error(`Parent not found: ${newParent}`);
+    }
+    if (newParent === path || newParent.startsWith(`${path}.`)) {
+      throw new Error(`Cannot move ${path} into itself or its descendants`);
+    }
+
+    const oldPath = path;
+    const newPath = `${newParent}.${instance.name}`;
+    if (this.instances.has(newPath)) {
+      throw new Error(`Instance already exists: ${newPath}`);
+    }
+
+    // Detach from old parent
+    if (instance.parent) {
+      const oldParent = this.instances.get(instance.parent);
+      if (oldParent) {
+        oldParent.children = oldParent.children.filter(c => c !== oldPath);
+      }
+    }
+
+    instance.parent = newParent;
+    instance.path = newPath;
+    this.instances.delete(oldPath);
+    this.instances.set(newPath, instance);
+    parentInstance.children.push(newPath);
+
+    // Update children paths recursively
+    this.updateChildrenPaths(oldPath, newPath);
+
+    this.trackChange({
+      type: 'instance_move',
+      target: newPath,
+      before: oldPath,
+      after: newPath,
+      description: `Moved: ${oldPath} → ${newPath}`
+    });
+
+    this.log(`✅ Instance moved: ${newPath}`);
+  }
+
+  /**
+   * Deep-copy an instance and its subtree
+   * @param path - Source instance path
+   * @param newParent - Parent for the copy (defaults to the source's parent)
+   * @param newName - Name for the copy (defaults to the source's name)
+   * @returns The cloned root instance
+   */
+  cloneInstance(path: string, newParent?: string, newName?: string): VirtualInstance {
+    this.log(`📑 Cloning instance: ${path}`);
+
+    const source = this.instances.get(path);
+    if (!source) {
+      throw new Error(`Instance not found: ${path}`);
+    }
+    const parent = newParent || source.parent;
+    if (!parent) {
+      throw new Error(`Cannot clone root instance without a parent: ${path}`);
+    }
+
+    const copySubtree = (node: VirtualInstance, parentPath: string, name: string): VirtualInstance => {
+      const copy = this.createInstance(parentPath, node.className, name, JSON.parse(JSON.stringify(node.properties)));
+      if (name !== node.name) {
+        copy.properties.Name = name;
+      }
+      if (node.attributes) copy.attributes = JSON.parse(JSON.stringify(node.attributes));
+      if (node.tags) copy.tags = [...node.tags];
+      for (const childPath of node.children) {
+        const child = this.instances.get(childPath);
+        if (child) copySubtree(child, copy.path, child.name);
+      }
+      return copy;
+    };
+    const clone = copySubtree(source, parent, newName || source.name);
+
+    this.trackChange({
+      type: 'instance_clone',
+      target: clone.path,
+      before: path,
+      after: clone.path,
+      description: `Cloned: ${path} → ${clone.path}`
+    });
+
+    this.log(`✅ Instance cloned: ${clone.path}`);
+
+    return clone;
+  }
+
+  /**
+   * Set (and clear) attributes on an instance
+   * @param path - Instance path
+   * @param attributes - Attribute values to set
+   * @param remove - Attribute names to clear
+   */
+  setAttributes(path: string, attributes: Record<string, any>, remove: string[] = []): void {
+    this.log(`🏷️ Setting attributes on: ${path}`);
+
+    const instance = this.instances.get(path);
+    if (!instance) {
+      throw new Error(`Instance not found: ${path}`);
+    }
+
+    const before = { ...(instance.attributes || {}) };
+    const next = { ...before, ...attributes };
+    for (const name of remove) delete next[name];
+    instance.attributes = next;
+
+    this.trackChange({
+      type: 'attribute_set',
+      target: path,
+      before,
+      after: next,
+      description: `Set ${Object.keys(attributes).length} attributes on ${path}${remove.length ? `, cleared ${remove.join(', ')}` : ''}`
+    });
+  }
+
+  /**
+   * Add CollectionService tags to an instance
+   * @param path - Instance path
+   * @param tags - Tags to add
+   */
+  addTags(path: string, tags: string[]): void {
+    this.log(`🏷️ Tagging: ${path} +${tags.join(', +')}`);
+
+    const instance = this.instances.get(path);
+    if (!instance) {
+      throw new Error(`Instance not found: ${path}`);
+    }
+
+    const before = [...(instance.tags || [])];
+    instance.tags = Array.from(new Set([...before, ...tags]));
+
+    this.trackChange({
+      type: 'tag_add',
+      target: path,
+      before,
+      after: instance.tags,
+      description: `Tagged ${path}: ${tags.join(', ')}`
+    });
+  }
+
+  /**
+   * Remove CollectionService tags from an instance
+   * @param path - Instance path
+   * @param tags - Tags to remove
+   */
+  removeTags(path: string, tags: string[]): void {
+    this.log(`🏷️ Untagging: ${path} -${tags.join(', -')}`);
+
+    const instance = this.instances.get(path);
+    if (!instance) {
+      throw new Error(`Instance not found: ${path}`);
+    }
+
+    const before = [...(instance.tags || [])];
+    instance.tags = before.filter((tag) => !tags.includes(tag));
+
+    this.trackChange({
+      type: 'tag_remove',
+      target: path,
+      before,
+      after: instance.tags,
+      description: `Untagged ${path}: ${tags.join(', ')}`
+    });
+  }
+
   /**
    * Delete an instance and all its children
    * @param path - Instance path
@@ -498,7 +680,9 @@ export class VirtualEnvironment {
           className: inst.className,
           name: inst.name,
           parentPath: inst.parent || undefined,
-          props: inst.properties
+          props: inst.properties,
+          attributes: inst.attributes,
+          tags: inst.tags
         }))
       },
 
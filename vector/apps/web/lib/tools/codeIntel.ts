@@ -1,6 +1,8 @@
 import fs from 'fs'
 import path from 'path'
 
+const fsp = fs.promises
+
 const DEFAULT_ROOT = process.env.VECTOR_WORKSPACE_ROOT
   ? path.resolve(process.env.VECTOR_WORKSPACE_ROOT)
   : path.resolve(process.cwd(), '..', '..')
@@ -97,14 +99,14 @@ function isIgnored(dirName: string): boolean {
   return IGNORE_DIRS.has(dirName)
 }
 
-function enumerateFiles(root: string, limit: number, exts: string[]): string[] {
+async function enumerateFiles(root: string, limit: number, exts: string[]): Promise<string[]> {
   const queue: string[] = [root]
   const out: string[] = []
   while (queue.length && out.length < limit) {
     const current = queue.shift()!
     let entries: fs.Dirent[] = []
     try {
-      entries = fs.readdirSync(current, { withFileTypes: true })
+      entries = await fsp.readdir(current, { withFileTypes: true })
     } catch {
       continue
     }
@@ -135,13 +137,14 @@ export function listCodeDefinitionNames(taskId: string | undefined, opts: { root
   return filtered.slice(0, limit)
 }
 
-export function searchFiles(opts: { query: string; root?: string; limit?: number; exts?: string[] } & { caseSensitive?: boolean }): SearchHit[] {
+/** Async so batched read-only tool calls overlap their file reads. */
+export async function searchFiles(opts: { query: string; root?: string; limit?: number; exts?: string[] } & { caseSensitive?: boolean }): Promise<SearchHit[]> {
   const query = opts.query
   if (!query) return []
   const root = opts.root ? path.resolve(DEFAULT_ROOT, opts.root) : DEFAULT_ROOT
   const limit = Math.min(Math.max(opts.limit ?? 20, 1), 100)
   const exts = opts.exts && opts.exts.length ? opts.exts.map((e) => (e.startsWith('.') ? e : `.${e}`)) : DEFAULT_EXTS
-  const files = enumerateFiles(root, 600, exts)
+  const files = await enumerateFiles(root, 600, exts)
   const hits: SearchHit[] = []
   const regex = opts.caseSensitive ? new RegExp(query, 'g') : new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'ig')
 
@@ -149,7 +152,7 @@ export function searchFiles(opts: { query: string; root?: string; limit?: number
     if (hits.length >= limit) break
     let text: string
     try {
-      text = fs.readFileSync(file, 'utf-8')
+      text = await fsp.readFile(file, 'utf-8')
     } catch {
       continue
     }
@@ -0,0 +1,153 @@
+import { z } from 'zod'
+import { Tools, ToolDescriptions } from './schemas'
+import type { ToolsShape } from './schemas'
+
+export type JsonSchema = Record<string, any>
+
+export type ToolSpec = {
+  name: string
+  description?: string
+  parameters?: JsonSchema
+}
+
+function isObjectSchema(schema: JsonSchema): boolean {
+  return schema.type === 'object' && !!schema.properties
+}
+
+// Merge object schemas into one; only keys required by every branch stay required.
+function mergeObjectSchemas(parts: JsonSchema[], mode: 'all' | 'any'): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const requiredSets = parts.map((p) => new Set<string>(Array.isArray(p.required) ? p.required : []))
+  for (const part of parts) {
+    for (const [key, value] of Object.entries(part.properties || {})) {
+      if (!properties[key]) properties[key] = value as JsonSchema
+    }
+  }
+  let required: string[]
+  if (mode === 'all') {
+    required = Array.from(new Set(requiredSets.flatMap((s) => Array.from(s))))
+  } else {
+    required = Object.keys(properties).filter((key) => requiredSets.every((s) => s.has(key)))
+  }
+  const out: JsonSchema = { type: 'object', properties }
+  if (required.length) out.required = required
+  return out
+}
+
+/**
+ * Convert the subset of zod used by `Tools` into a JSON Schema suitable for
+ * provider function-calling APIs. Effects (transform/refine) describe their
+ * input schema; runtime validation still goes through zod.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def: any = (schema as any)?._def
+  const kind: string | undefined = def?.typeName
+  switch (kind) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<any>).shape as Record<string, z.ZodTypeAny>
+      const properties: Record<string, JsonSchema> = {}
+      const required: string[] = []
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value)
+        if (!value.isOptional()) required.push(key)
+      }
+      const out: JsonSchema = { type: 'object', properties }
+      if (required.length) out.required = required
+      return out
+    }
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const out: JsonSchema = { type: 'string' }
+      for (const check of def.checks || []) {
+        if (check.kind === 'min') out.minLength = check.value
+        if (check.kind === 'max') out.maxLength = check.value
+      }
+      return out
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const out: JsonSchema = { type: 'number' }
+      for (const check of def.checks || []) {
+        if (check.kind === 'int') out.type = 'integer'
+        if (check.kind === 'min') out.minimum = check.value
+        if (check.kind === 'max') out.maximum = check.value
+      }
+      return out
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' }
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] }
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value }
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: zodToJsonSchema(def.type) }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) }
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return zodToJsonSchema(def.innerType)
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema)
+    case z.ZodFirstPartyTypeKind.ZodUnion: {
+      const options = (def.options as z.ZodTypeAny[]).map(zodToJsonSchema)
+      if (options.every(isObjectSchema)) return mergeObjectSchemas(options, 'any')
+      return { anyOf: options }
+    }
+    case z.ZodFirstPartyTypeKind.ZodIntersection: {
+      const left = zodToJsonSchema(def.left)
+      const right = zodToJsonSchema(def.right)
+      if (isObjectSchema(left) && isObjectSchema(right)) return mergeObjectSchemas([left, right], 'all')
+      return { allOf: [left, right] }
+    }
+    default:
+      return {}
+  }
+}
+
+let cachedSpecs: ToolSpec[] | null = null
+
+export function buildToolSpecs(): ToolSpec[] {
+  if (cachedSpecs) return cachedSpecs
+  cachedSpecs = (Object.keys(Tools) as Array<keyof ToolsShape>).map((name) => {
+    const parameters = zodToJsonSchema(Tools[name] as z.ZodTypeAny)
+    return {
+      name,
+      description: ToolDescriptions[name],
+      parameters: isObjectSchema(parameters) ? parameters : { type: 'object', properties: {} },
+    }
+  })
+  return cachedSpecs
+}
+
+/**
+ * Gemini accepts an OpenAPI subset: no additionalProperties/const and only a
+ * single type per node. Collapse unions to their first branch.
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  if (!schema || typeof schema !== 'object') return schema
+  if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) return toGeminiSchema(schema.anyOf[0])
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) return toGeminiSchema(schema.allOf[0])
+  const out: JsonSchema = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'additionalProperties' || key === 'const') continue
+    if (key === 'properties' && value && typeof value === 'object') {
+      const props: Record<string, JsonSchema> = {}
+      for (const [prop, sub] of Object.entries(value as Record<string, JsonSchema>)) {
+        props[prop] = toGeminiSchema(sub)
+      }
+      out.properties = props
+      continue
+    }
+    if (key === 'items') {
+      out.items = toGeminiSchema(value as JsonSchema)
+      continue
+    }
+    out[key] = value
+  }
+  if (!out.type && !out.properties) out.type = 'string'
+  if (out.type === 'object' && (!out.properties || Object.keys(out.properties).length === 0)) {
+    // Free-form records (e.g. props) have no expressible shape; accept a JSON string instead.
+    return { type: 'string', description: 'JSON object encoded as a string' }
+  }
+  return out
+}
@@ -0,0 +1,578 @@
+import { z } from 'zod'
+
+// Typed Roblox property values. The wire form is a tagged object ({ "__t": "Vector3", x, y, z })
+// matching the plugin's serialize/deserialize in plugin/src/tools/*.lua. Models write these in many
+// shapes ("1,2,3", {x,y,z}, [1,2,3], Color3.fromRGB(...), "Enum.Material.Brick"); normalizeProps
+// turns whatever it can recognize into the tagged form and leaves everything else untouched.
+
+const Num = z.number().finite()
+
+export const Vector3Value = z.object({ __t: z.literal('Vector3'), x: Num, y: Num, z: Num })
+export const Vector2Value = z.object({ __t: z.literal('Vector2'), x: Num, y: Num })
+// Components are 0..1 like Color3.new
+export const Color3Value = z.object({ __t: z.literal('Color3'), r: Num, g: Num, b: Num })
+// Position followed by the 3x3 rotation matrix, row-major (CFrame:GetComponents())
+export const CFrameValue = z.object({ __t: z.literal('CFrame'), comps: z.array(Num).length(12) })
+export const UDimValue = z.object({ __t: z.literal('UDim'), s: Num, o: Num })
+export const UDim2Value = z.object({ __t: z.literal('UDim2'), xS: Num, xO: Num, yS: Num, yO: Num })
+export const EnumItemValue = z.object({ __t: z.literal('EnumItem'), enum: z.string().regex(/^Enum\.\w+$/), name: z.string().min(1), value: Num.optional() })
+export const BrickColorValue = z
+  .object({ __t: z.literal('BrickColor'), name: z.string().min(1).optional(), number: Num.optional() })
+  .refine((v) => v.name !== undefined || v.number !== undefined, 'BrickColor needs name or number')
+export const NumberSequenceKeypoint = z.object({ time: Num.min(0).max(1), value: Num, envelope: Num.optional() })
+// Studio rejects keypoints out of time order or not spanning 0..1
+export const NumberSequenceValue = z
+  .object({ __t: z.literal('NumberSequence'), keypoints: z.array(NumberSequenceKeypoint).min(2) })
+  .refine(
+    ({ keypoints }) => keypoints[0].time === 0 && keypoints[keypoints.length - 1].time === 1 && keypoints.every((kp, idx) => idx === 0 || kp.time >= keypoints[idx - 1].time),
+    'NumberSequence keypoints must run in time order from 0 to 1',
+  )
+export const InstanceRefValue = z.object({ __t: z.literal('Instance'), path: z.string().min(1) }).passthrough()
+
+export type Vector3Value = z.infer<typeof Vector3Value>
+export type Color3Value = z.infer<typeof Color3Value>
+export type CFrameValue = z.infer<typeof CFrameValue>
+export type UDim2Value = z.infer<typeof UDim2Value>
+export type EnumItemValue = z.infer<typeof EnumItemValue>
+export type NumberSequenceValue = z.infer<typeof NumberSequenceValue>
+
+const VALUE_SCHEMAS = {
+  Vector3: Vector3Value,
+  Vector2: Vector2Value,
+  Color3: Color3Value,
+  CFrame: CFrameValue,
+  UDim: UDimValue,
+  UDim2: UDim2Value,
+  EnumItem: EnumItemValue,
+  BrickColor: BrickColorValue,
+  NumberSequence: NumberSequenceValue,
+  Instance: InstanceRefValue,
+} as const
+
+export type RobloxValueType = keyof typeof VALUE_SCHEMAS
+
+export type PropertyIssue = { key: string; expected: string; message: string }
+
+const GUI_CLASS = /^(Frame|ScrollingFrame|TextLabel|TextButton|TextBox|ImageLabel|ImageButton|ViewportFrame|VideoFrame|CanvasGroup)$/
+const SEQUENCE_CLASS = /^(ParticleEmitter|Beam|Trail)$/
+
+// Property name → datatype for the common cases; class-specific overrides are applied in propertyTypeFor
+const PROPERTY_TYPES: Record<string, RobloxValueType> = {
+  Size: 'Vector3',
+  Position: 'Vector3',
+  Orientation: 'Vector3',
+  Velocity: 'Vector3',
+  AssemblyLinearVelocity: 'Vector3',
+  AssemblyAngularVelocity: 'Vector3',
+  CFrame: 'CFrame',
+  PivotOffset: 'CFrame',
+  WorldPivot: 'CFrame',
+  Color: 'Color3',
+  BackgroundColor3: 'Color3',
+  BorderColor3: 'Color3',
+  TextColor3: 'Color3',
+  TextStrokeColor3: 'Color3',
+  ImageColor3: 'Color3',
+  PlaceholderColor3: 'Color3',
+  ScrollBarImageColor3: 'Color3',
+  Ambient: 'Color3',
+  OutdoorAmbient: 'Color3',
+  FogColor: 'Color3',
+  BrickColor: 'BrickColor',
+  AnchorPoint: 'Vector2',
+  CanvasPosition: 'Vector2',
+  CanvasSize: 'UDim2',
+  CellSize: 'UDim2',
+  CellPadding: 'UDim2',
+  CornerRadius: 'UDim',
+  Padding: 'UDim',
+  PaddingTop: 'UDim',
+  PaddingBottom: 'UDim',
+  PaddingLeft: 'UDim',
+  PaddingRight: 'UDim',
+  PrimaryPart: 'Instance',
+  Parent: 'Instance',
+}
+
+// Enum-typed properties and their Enum type
+const ENUM_PROPERTIES: Record<string, string> = {
+  Material: 'Material',
+  Shape: 'PartType',
+  TopSurface: 'SurfaceType',
+  BottomSurface: 'SurfaceType',
+  FrontSurface: 'SurfaceType',
+  BackSurface: 'SurfaceType',
+  LeftSurface: 'SurfaceType',
+  RightSurface: 'SurfaceType',
+  Font: 'Font',
+  TextXAlignment: 'TextXAlignment',
+  TextYAlignment: 'TextYAlignment',
+  ScaleType: 'ScaleType',
+  AutomaticSize: 'AutomaticSize',
+  FillDirection: 'FillDirection',
+  HorizontalAlignment: 'HorizontalAlignment',
+  VerticalAlignment: 'VerticalAlignment',
+  SortOrder: 'SortOrder',
+  ZIndexBehavior: 'ZIndexBehavior',
+  SizeConstraint: 'SizeConstraint',
+  BorderMode: 'BorderMode',
+  EasingStyle: 'EasingStyle',
+  EasingDirection: 'EasingDirection',
+}
+
+/** Datatype for a property, or undefined for primitives/unknown props. "Size" without a class is left to the value's arity. */
+export function propertyTypeFor(key: string, className?: string): RobloxValueType | undefined {
+  if (ENUM_PROPERTIES[key]) return 'EnumItem'
+  if (className && SEQUENCE_CLASS.test(className) && (key === 'Size' || key === 'Transparency' || key === 'Squash' || key === 'WidthScale')) return 'NumberSequence'
+  if (className && GUI_CLASS.test(className) && (key === 'Size' || key === 'Position')) return 'UDim2'
+  return PROPERTY_TYPES[key]
+}
+
+// --- tolerant parsing ----------------------------------------------------------------------------
+
+// Splits on a separator outside parentheses/brackets
+function splitTopLevel(text: string, sep: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === '(' || ch === '[' || ch === '{') depth++
+    else if (ch === ')' || ch === ']' || ch === '}') depth--
+    else if (depth === 0 && text.startsWith(sep, i)) {
+      parts.push(text.slice(start, i))
+      start = i + sep.length
+    }
+  }
+  parts.push(text.slice(start))
+  return parts.map((p) => p.trim()).filter((p) => p.length > 0)
+}
+
+// Arithmetic over numbers, math.pi, math.rad(x) and math.deg(x): enough for "math.rad(45)" or "-math.pi/2"
+function evalNumber(expr: string): number | undefined {
+  const src = expr.replace(/\s+/g, '')
+  let i = 0
+  const parseExpr = (): number => {
+    let v = parseTerm()
+    while (src[i] === '+' || src[i] === '-') v = src[i++] === '+' ? v + parseTerm() : v - parseTerm()
+    return v
+  }
+  const parseTerm = (): number => {
+    let v = parseFactor()
+    while (src[i] === '*' || src[i] === '/') v = src[i++] === '*' ? v * parseFactor() : v / parseFactor()
+    return v
+  }
+  const parseFactor = (): number => {
+    if (src[i] === '-') {
+      i++
+      return -parseFactor()
+    }
+    if (src[i] === '+') {
+      i++
+      return parseFactor()
+    }
+    if (src[i] === '(') {
+      i++
+      const v = parseExpr()
+      if (src[i++] !== ')') throw new Error('expected )')
+      return v
+    }
+    if (src.startsWith('math.pi', i)) {
+      i += 7
+      return Math.PI
+    }
+    const fn = /^math\.(rad|deg)\(/.exec(src.slice(i))
+    if (fn) {
+      i += fn[0].length
+      const v = parseExpr()
+      if (src[i++] !== ')') throw new Error('expected )')
+      return fn[1] === 'rad' ? (v * Math.PI) / 180 : (v * 180) / Math.PI
+    }
+    const num = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(src.slice(i))
+    if (!num) throw new Error('expected number')
+    i += num[0].length
+    return Number(num[0])
+  }
+  try {
+    const v = parseExpr()
+    return i === src.length && Number.isFinite(v) ? v : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function toNumber(raw: unknown): number | undefined {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : undefined
+  if (typeof raw === 'string') return evalNumber(raw)
+  return undefined
+}
+
+// "1,2,3", "1 2 3", [1,2,3] or ["1","2","3"] → numbers
+function toNumberList(raw: unknown): number[] | undefined {
+  let items: unknown[]
+  if (Array.isArray(raw)) items = raw
+  else if (typeof raw === 'number') items = [raw]
+  else if (typeof raw === 'string') {
+    const text = raw.trim().replace(/^[[(]|[\])]$/g, '')
+    items = text.includes(',') ? splitTopLevel(text, ',') : text.split(/\s+/)
+  } else return undefined
+  const nums = items.map(toNumber)
+  return nums.length > 0 && nums.every((n) => n !== undefined) ? (nums as number[]) : undefined
+}
+
+type CallExpr = { name: string; args: string[] }
+
+// "Vector3.new(1, 2, 3)" → { name: 'Vector3.new', args: ['1','2','3'] }
+function parseCall(text: string): CallExpr | undefined {
+  const match = /^([A-Za-z_][\w]*(?:\.[A-Za-z_]\w*)?)\s*\(([\s\S]*)\)$/.exec(text.trim())
+  if (!match) return undefined
+  return { name: match[1], args: splitTopLevel(match[2], ',') }
+}
+
+function readKeys(obj: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) if (obj[key] !== undefined) return obj[key]
+  return undefined
+}
+
+function isPlainObject(raw: unknown): raw is Record<string, unknown> {
+  return !!raw && typeof raw === 'object' && !Array.isArray(raw)
+}
+
+function vectorFrom(raw: unknown, size: 2 | 3): number[] | undefined {
+  if (typeof raw === 'string') {
+    const call = parseCall(raw)
+    if (call) return /^Vector[23]\.new$/.test(call.name) ? toNumberList(call.args) : undefined
+  }
+  if (isPlainObject(raw)) {
+    const keys = size === 3 ? ['x', 'y', 'z'] : ['x', 'y']
+    const nums = keys.map((k) => toNumber(readKeys(raw, k, k.toUpperCase())))
+    return nums.every((n) => n !== undefined) ? (nums as number[]) : undefined
+  }
+  return toNumberList(raw)
+}
+
+function parseVector3(raw: unknown): Vector3Value | undefined {
+  const v = vectorFrom(raw, 3)
+  if (!v) return undefined
+  // A single number is a uniform vector (e.g. Size "4")
+  if (v.length === 1) return { __t: 'Vector3', x: v[0], y: v[0], z: v[0] }
+  return v.length === 3 ? { __t: 'Vector3', x: v[0], y: v[1], z: v[2] } : undefined
+}
+
+function parseVector2(raw: unknown) {
+  const v = vectorFrom(raw, 2)
+  return v && v.length === 2 ? { __t: 'Vector2' as const, x: v[0], y: v[1] } : undefined
+}
+
+// Color3.fromHSV: all components 0..1
+function hsvColor(hsv: number[] | undefined): Color3Value | undefined {
+  if (!hsv || hsv.length !== 3) return undefined
+  const [h, s, v] = hsv
+  const f = (k: number) => {
+    const x = (k + h * 6) % 6
+    return v - v * s * Math.max(0, Math.min(x, 4 - x, 1))
+  }
+  return { __t: 'Color3', r: f(5), g: f(3), b: f(1) }
+}
+
+function parseColor3(raw: unknown): Color3Value | undefined {
+  let rgb: number[] | undefined
+  let scale: 'unit' | 'byte' | 'auto' = 'auto'
+  if (typeof raw === 'string') {
+    const text = raw.trim()
+    const hex = /^#?([0-9a-f]{6})$/i.exec(text)
+    if (hex) {
+      const n = parseInt(hex[1], 16)
+      return { __t: 'Color3', r: ((n >> 16) & 255) / 255, g: ((n >> 8) & 255) / 255, b: (n & 255) / 255 }
+    }
+    const call = parseCall(text)
+    if (call) {
+      if (call.name === 'Color3.fromRGB' || call.name === 'rgb') scale = 'byte'
+      else if (call.name === 'Color3.new') scale = 'unit'
+      else if (call.name === 'Color3.fromHex') return parseColor3(call.args[0]?.replace(/^["']|["']$/g, ''))
+      else if (call.name === 'Color3.fromHSV') return hsvColor(toNumberList(call.args))
+      else return undefined
+      rgb = toNumberList(call.args)
+    } else {
+      rgb = toNumberList(text)
+    }
+  } else if (isPlainObject(raw)) {
+    const nums = [readKeys(raw, 'r', 'R'), readKeys(raw, 'g', 'G'), readKeys(raw, 'b', 'B')].map(toNumber)
+    rgb = nums.every((n) => n !== undefined) ? (nums as number[]) : undefined
+  } else {
+    rgb = toNumberList(raw)
+  }
+  if (!rgb || rgb.length !== 3) return undefined
+  // Bare triples: anything above 1 means 0-255
+  const byte = scale === 'byte' || (scale === 'auto' && rgb.some((c) => c > 1))
+  const [r, g, b] = rgb.map((c) => Math.min(1, Math.max(0, byte ? c / 255 : c)))
+  return { __t: 'Color3', r, g, b }
+}
+
+const IDENTITY_ROTATION = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+
+function multiplyCFrames(a: number[], b: number[]): number[] {
+  const [ax, ay, az, a00, a01, a02, a10, a11, a12, a20, a21, a22] = a
+  const [bx, by, bz, b00, b01, b02, b10, b11, b12, b20, b21, b22] = b
+  return [
+    a00 * bx + a01 * by + a02 * bz + ax,
+    a10 * bx + a11 * by + a12 * bz + ay,
+    a20 * bx + a21 * by + a22 * bz + az,
+    a00 * b00 + a01 * b10 + a02 * b20, a00 * b01 + a01 * b11 + a02 * b21, a00 * b02 + a01 * b12 + a02 * b22,
+    a10 * b00 + a11 * b10 + a12 * b20, a10 * b01 + a11 * b11 + a12 * b21, a10 * b02 + a11 * b12 + a12 * b22,
+    a20 * b00 + a21 * b10 + a22 * b20, a20 * b01 + a21 * b11 + a22 * b21, a20 * b02 + a21 * b12 + a22 * b22,
+  ]
+}
+
+// CFrame.Angles(rx, ry, rz) = Rx * Ry * Rz (radians)
+function anglesCFrame(rx: number, ry: number, rz: number): number[] {
+  const rotX = [0, 0, 0, 1, 0, 0, 0, Math.cos(rx), -Math.sin(rx), 0, Math.sin(rx), Math.cos(rx)]
+  const rotY = [0, 0, 0, Math.cos(ry), 0, Math.sin(ry), 0, 1, 0, -Math.sin(ry), 0, Math.cos(ry)]
+  const rotZ = [0, 0, 0, Math.cos(rz), -Math.sin(rz), 0, Math.sin(rz), Math.cos(rz), 0, 0, 0, 1]
+  return multiplyCFrames(multiplyCFrames(rotX, rotY), rotZ)
+}
+
+function cframeFactor(text: string): number[] | undefined {
+  const call = parseCall(text)
+  if (!call) return undefined
+  const nums = toNumberList(call.args)
+  if (call.name === 'CFrame.new') {
+    if (call.args.length === 0) return [0, 0, 0, ...IDENTITY_ROTATION]
+    if (nums?.length === 3) return [...nums, ...IDENTITY_ROTATION]
+    if (nums?.length === 12) return nums
+    // CFrame.new(Vector3.new(...))
+    const pos = call.args.length === 1 ? parseVector3(call.args[0]) : undefined
+    return pos ? [pos.x, pos.y, pos.z, ...IDENTITY_ROTATION] : undefined
+  }
+  if (call.name === 'CFrame.Angles' || call.name === 'CFrame.fromEulerAnglesXYZ') {
+    return nums?.length === 3 ? anglesCFrame(nums[0], nums[1], nums[2]) : undefined
+  }
+  if (call.name === 'CFrame.fromOrientation' || call.name === 'CFrame.fromEulerAnglesYXZ') {
+    // Y, then X, then Z applied as Ry * Rx * Rz
+    if (nums?.length !== 3) return undefined
+    return multiplyCFrames(multiplyCFrames(anglesCFrame(0, nums[1], 0), anglesCFrame(nums[0], 0, 0)), anglesCFrame(0, 0, nums[2]))
+  }
+  return undefined
+}
+
+function parseCFrame(raw: unknown): CFrameValue | undefined {
+  if (typeof raw === 'string') {
+    const factors = splitTopLevel(raw, '*').map(cframeFactor)
+    if (factors.length > 0 && factors.every((f) => f)) {
+      const comps = (factors as number[][]).reduce((acc, f) => multiplyCFrames(acc, f))
+      return { __t: 'CFrame', comps }
+    }
+  }
+  if (isPlainObject(raw)) {
+    const comps = toNumberList(raw.comps ?? raw.components)
+    if (comps?.length === 12) return { __t: 'CFrame', comps }
+    const pos = parseVector3(raw.position ?? raw.Position ?? raw.p) || parseVector3(raw)
+    if (pos) return { __t: 'CFrame', comps: [pos.x, pos.y, pos.z, ...IDENTITY_ROTATION] }
+    return undefined
+  }
+  const nums = toNumberList(raw)
+  if (nums?.length === 12) return { __t: 'CFrame', comps: nums }
+  if (nums?.length === 3) return { __t: 'CFrame', comps: [...nums, ...IDENTITY_ROTATION] }
+  return undefined
+}
+
+function parseUDim(raw: unknown) {
+  if (typeof raw === 'string') {
+    const call = parseCall(raw)
+    if (call && call.name !== 'UDim.new') return undefined
+    const nums = toNumberList(call ? call.args : raw)
+    return nums?.length === 2 ? { __t: 'UDim' as const, s: nums[0], o: nums[1] } : undefined
+  }
+  if (isPlainObject(raw)) {
+    const s = toNumber(readKeys(raw, 's', 'scale', 'Scale'))
+    const o = toNumber(readKeys(raw, 'o', 'offset', 'Offset'))
+    return s !== undefined || o !== undefined ? { __t: 'UDim' as const, s: s ?? 0, o: o ?? 0 } : undefined
+  }
+  const nums = toNumberList(raw)
+  if (nums?.length === 1) return { __t: 'UDim' as const, s: 0, o: nums[0] }
+  return nums?.length === 2 ? { __t: 'UDim' as const, s: nums[0], o: nums[1] } : undefined
+}
+
+function parseUDim2(raw: unknown): UDim2Value | undefined {
+  if (typeof raw === 'string') {
+    const call = parseCall(raw)
+    if (call) {
+      const nums = toNumberList(call.args)
+      if (call.name === 'UDim2.new' && nums?.length === 4) return { __t: 'UDim2', xS: nums[0], xO: nums[1], yS: nums[2], yO: nums[3] }
+      if (call.name === 'UDim2.fromScale' && nums?.length === 2) return { __t: 'UDim2', xS: nums[0], xO: 0, yS: nums[1], yO: 0 }
+      if (call.name === 'UDim2.fromOffset' && nums?.length === 2) return { __t: 'UDim2', xS: 0, xO: nums[0], yS: 0, yO: nums[1] }
+      return undefined
+    }
+  }
+  if (isPlainObject(raw)) {
+    const axis = (key: string) => {
+      const nested = readKeys(raw, key, key.toUpperCase())
+      return isPlainObject(nested) ? parseUDim(nested) : undefined
+    }
+    const x = axis('x')
+    const y = axis('y')
+    if (x && y) return { __t: 'UDim2', xS: x.s, xO: x.o, yS: y.s, yO: y.o }
+    const flat = ['xS', 'xO', 'yS', 'yO'].map((k) => toNumber(raw[k]) ?? 0)
+    return ['xS', 'xO', 'yS', 'yO'].some((k) => raw[k] !== undefined) ? { __t: 'UDim2', xS: flat[0], xO: flat[1], yS: flat[2], yO: flat[3] } : undefined
+  }
+  const nums = toNumberList(raw)
+  return nums?.length === 4 ? { __t: 'UDim2', xS: nums[0], xO: nums[1], yS: nums[2], yO: nums[3] } : undefined
+}
+
+function parseEnumItem(raw: unknown, enumType?: string): EnumItemValue | undefined {
+  if (isPlainObject(raw)) {
+    const name = readKeys(raw, 'name', 'Name')
+    if (typeof name !== 'string') return undefined
+    return parseEnumItem(typeof raw.enum === 'string' ? `${raw.enum.replace(/^Enum\./, 'Enum.')}.${name}` : name, enumType)
+  }
+  if (typeof raw !== 'string') return undefined
+  const text = raw.trim().replace(/^["']|["']$/g, '')
+  const full = /^Enum\.(\w+)\.(\w+)$/.exec(text)
+  if (full) return { __t: 'EnumItem', enum: `Enum.${full[1]}`, name: full[2] }
+  // Bare item name ("Brick", "SmoothPlastic") when the property's Enum type is known
+  if (enumType && /^\w+$/.test(text)) return { __t: 'EnumItem', enum: `Enum.${enumType}`, name: text }
+  return undefined
+}
+
+function parseBrickColor(raw: unknown) {
+  if (typeof raw === 'number') return { __t: 'BrickColor' as const, number: raw }
+  if (isPlainObject(raw)) {
+    const name = readKeys(raw, 'name', 'Name')
+    const number = toNumber(readKeys(raw, 'number', 'Number'))
+    if (typeof name === 'string') return { __t: 'BrickColor' as const, name }
+    return number !== undefined ? { __t: 'BrickColor' as const, number } : undefined
+  }
+  if (typeof raw !== 'string') return undefined
+  const call = parseCall(raw)
+  const arg = call ? (call.name === 'BrickColor.new' ? call.args[0] : undefined) : raw
+  if (arg === undefined) return undefined
+  const unquoted = arg.trim().replace(/^["']|["']$/g, '')
+  const number = /^\d+$/.test(unquoted) ? Number(unquoted) : undefined
+  return number !== undefined ? { __t: 'BrickColor' as const, number } : unquoted ? { __t: 'BrickColor' as const, name: unquoted } : undefined
+}
+
+function parseNumberSequence(raw: unknown): NumberSequenceValue | undefined {
+  const evenly = (values: number[]) => ({
+    __t: 'NumberSequence' as const,
+    keypoints: values.length === 1
+      ? [{ time: 0, value: values[0] }, { time: 1, value: values[0] }]
+      : values.map((value, idx) => ({ time: idx / (values.length - 1), value })),
+  })
+  if (typeof raw === 'number') return evenly([raw])
+  if (typeof raw === 'string') {
+    const call = parseCall(raw)
+    if (call && call.name !== 'NumberSequence.new') return undefined
+    const nums = toNumberList(call ? call.args : raw)
+    return nums && nums.length <= 2 ? evenly(nums) : undefined
+  }
+  const list = Array.isArray(raw) ? raw : isPlainObject(raw) && Array.isArray(raw.keypoints) ? raw.keypoints : undefined
+  if (!list) return undefined
+  if (list.every((item) => typeof item === 'number' || typeof item === 'string')) {
+    const nums = toNumberList(list)
+    return nums ? evenly(nums) : undefined
+  }
+  const keypoints = list.map((kp) => {
+    if (!isPlainObject(kp)) return undefined
+    const time = toNumber(readKeys(kp, 'time', 'Time', 't'))
+    const value = toNumber(readKeys(kp, 'value', 'Value', 'v'))
+    const envelope = toNumber(readKeys(kp, 'envelope', 'Envelope', 'e'))
+    return time !== undefined && value !== undefined ? { time, value, ...(envelope !== undefined ? { envelope } : {}) } : undefined
+  })
+  if (!keypoints.every((kp) => kp)) return undefined
+  // Keypoints may come in any order; the first and last must still sit at time 0 and 1
+  keypoints.sort((a, b) => a!.time - b!.time)
+  const parsed = NumberSequenceValue.safeParse({ __t: 'NumberSequence', keypoints })
+  return parsed.success ? parsed.data : undefined
+}
+
+function parseInstanceRef(raw: unknown) {
+  if (typeof raw === 'string' && raw.trim()) return { __t: 'Instance' as const, path: raw.trim() }
+  if (isPlainObject(raw) && typeof raw.path === 'string') return { __t: 'Instance' as const, path: raw.path }
+  return undefined
+}
+
+/** Parses `raw` as the given datatype; undefined when it is not recognizable as one. */
+export function parseRobloxValue(type: RobloxValueType, raw: unknown, enumType?: string): unknown {
+  switch (type) {
+    case 'Vector3':
+      return parseVector3(raw)
+    case 'Vector2':
+      return parseVector2(raw)
+    case 'Color3':
+      return parseColor3(raw)
+    case 'CFrame':
+      return parseCFrame(raw)
+    case 'UDim':
+      return parseUDim(raw)
+    case 'UDim2':
+      return parseUDim2(raw)
+    case 'EnumItem':
+      return parseEnumItem(raw, enumType)
+    case 'BrickColor':
+      return parseBrickColor(raw)
+    case 'NumberSequence':
+      return parseNumberSequence(raw)
+    case 'Instance':
+      return parseInstanceRef(raw)
+  }
+}
+
+// Constructor calls identify their own type, whatever the property
+const CONSTRUCTOR_TYPES: Array<[RegExp, RobloxValueType]> = [
+  [/^Vector3\./, 'Vector3'],
+  [/^Vector2\./, 'Vector2'],
+  [/^Color3\./, 'Color3'],
+  [/^CFrame\./, 'CFrame'],
+  [/^UDim2\./, 'UDim2'],
+  [/^UDim\./, 'UDim'],
+  [/^BrickColor\./, 'BrickColor'],
+  [/^NumberSequence\./, 'NumberSequence'],
+  [/^Enum\.\w+\.\w+$/, 'EnumItem'],
+]
+
+function isTagged(raw: unknown): raw is { __t: string } {
+  return isPlainObject(raw) && typeof raw.__t === 'string'
+}
+
+/**
+ * Normalizes one property value. Already-tagged values that validate are kept as sent; otherwise
+ * the value is parsed as the property's datatype (or the type its constructor names). Values that
+ * look typed but cannot be parsed are returned unchanged with an issue.
+ */
+export function normalizePropertyValue(key: string, raw: unknown, className?: string): { value: unknown; issue?: PropertyIssue } {
+  if (isTagged(raw) && raw.__t in VALUE_SCHEMAS) {
+    const schema = VALUE_SCHEMAS[raw.__t as RobloxValueType]
+    if (schema.safeParse(raw).success) return { value: raw }
+  }
+  const text = typeof raw === 'string' ? raw.trim() : undefined
+  const named = text ? CONSTRUCTOR_TYPES.find(([re]) => re.test(text))?.[1] : undefined
+  const isAttribute = key.startsWith('@')
+  let type: RobloxValueType | undefined = named ?? (isAttribute ? undefined : propertyTypeFor(key, className))
+  if (!type) return { value: raw }
+  if (!className && !named && (key === 'Size' || key === 'Position') && !isTagged(raw)) {
+    // Unknown class: 4 numbers read as UDim2 and 2 as a pixel UDim2, otherwise Vector3
+    const nums = toNumberList(raw)
+    if (nums?.length === 4) type = 'UDim2'
+    else if (nums?.length === 2) return { value: { __t: 'UDim2', xS: 0, xO: nums[0], yS: 0, yO: nums[1] } }
+  }
+  const parsed = parseRobloxValue(type, isTagged(raw) ? stripTag(raw) : raw, ENUM_PROPERTIES[key])
+  if (parsed !== undefined) return { value: parsed }
+  return { value: raw, issue: { key, expected: type, message: `Could not read ${JSON.stringify(raw)?.slice(0, 80)} as ${type}` } }
+}
+
+function stripTag(raw: { __t: string }): Record<string, unknown> {
+  const { __t: _tag, ...rest } = raw as Record<string, unknown>
+  return rest
+}
+
+/** Normalizes every prop for an instance of `className` (when known). */
+export function normalizeProps(props: Record<string, unknown> | undefined, className?: string): { props: Record<string, unknown>; issues: PropertyIssue[] } {
+  const out: Record<string, unknown> = {}
+  const issues: PropertyIssue[] = []
+  for (const [key, raw] of Object.entries(props || {})) {
+    const { value, issue } = normalizePropertyValue(key, raw, className)
+    out[key] = value
+    if (issue) issues.push(issue)
+  }
+  return { props: out, issues }
+}
@@ -0,0 +1,335 @@
+import fs from 'fs'
+import path from 'path'
+import bundledDump from './roblox-api-dump.json'
+import bundledClasses from './roblox-api-classes.json'
+import { normalizePropertyValue, parseRobloxValue } from './propertyValues'
+import type { RobloxValueType } from './propertyValues'
+
+// Class/property metadata in the format of Roblox's API dump (Full-API-Dump.json). The bundled
+// roblox-api-dump.json carries value types and enums for the classes agents commonly create;
+// roblox-api-classes.json lists every class with its tags and property names, so unknown classes
+// and properties are caught everywhere and values are type-checked where the types are bundled.
+// Point VECTOR_ROBLOX_API_DUMP at a full dump to type-check every property.
+
+type ApiValueType = { Category: string; Name: string }
+
+type ApiMember = {
+  MemberType: string
+  Name: string
+  ValueType?: ApiValueType
+  Security?: string | { Read: string; Write: string }
+  Tags?: string[]
+}
+
+type ApiClass = { Name: string; Superclass: string; Members: ApiMember[]; Tags?: string[] }
+
+type ApiEnum = { Name: string; Items: Array<{ Name: string; Value: number }> }
+
+export type RobloxApiDump = { Version?: number; Classes: ApiClass[]; Enums?: ApiEnum[] }
+
+// Every class with its tags and property names, without member metadata
+type ApiClassList = {
+  Classes: Array<{ Name: string; Superclass: string; Tags?: string[]; Properties?: string[]; ReadOnly?: string[]; Deprecated?: string[] }>
+}
+
+export type RobloxPropertyInfo = {
+  name: string
+  // Class that declares the property (may be a superclass of the one asked about)
+  declaredBy: string
+  // Undefined for properties known only by name (the value is passed through unchecked)
+  valueType?: ApiValueType
+  writable: boolean
+  deprecated: boolean
+}
+
+type ApiIndex = {
+  classes: Map<string, ApiClass>
+  enums: Map<string, string[]>
+  source: string
+}
+
+let apiIndex: ApiIndex | undefined
+
+function buildIndex(dump: RobloxApiDump, source: string): ApiIndex {
+  return {
+    classes: new Map(dump.Classes.map((c) => [c.Name, c])),
+    enums: new Map((dump.Enums || []).map((e) => [e.Name, e.Items.map((item) => item.Name)])),
+    source,
+  }
+}
+
+function loadApiIndex(): ApiIndex {
+  if (apiIndex) return apiIndex
+  const override = process.env.VECTOR_ROBLOX_API_DUMP?.trim()
+  if (override) {
+    const file = path.resolve(override)
+    try {
+      apiIndex = buildIndex(JSON.parse(fs.readFileSync(file, 'utf-8')) as RobloxApiDump, file)
+      console.log(`[robloxApi] loaded ${apiIndex.classes.size} classes from ${file}`)
+      return apiIndex
+    } catch (err) {
+      console.warn(`[robloxApi] could not read VECTOR_ROBLOX_API_DUMP ${file}; using the bundled dump: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  apiIndex = buildIndex(mergeClassList(bundledDump as RobloxApiDump, bundledClasses as ApiClassList), 'bundled')
+  return apiIndex
+}
+
+// Adds the classes and properties the detailed dump leaves out; its own members and tags win
+function mergeClassList(dump: RobloxApiDump, list: ApiClassList): RobloxApiDump {
+  const detailed = new Map(dump.Classes.map((c) => [c.Name, c]))
+  const classes: ApiClass[] = []
+  for (const entry of list.Classes) {
+    const known = detailed.get(entry.Name)
+    detailed.delete(entry.Name)
+    const members = [...(known?.Members || [])]
+    const seen = new Set(members.filter((m) => m.MemberType === 'Property').map((m) => m.Name))
+    const deprecated = new Set(entry.Deprecated || [])
+    const add = (name: string, readOnly: boolean) => {
+      if (seen.has(name)) return
+      seen.add(name)
+      const tags = [...(readOnly ? ['ReadOnly'] : []), ...(deprecated.has(name) ? ['Deprecated'] : [])]
+      members.push({ MemberType: 'Property', Name: name, ...(tags.length > 0 ? { Tags: tags } : {}) })
+    }
+    for (const name of entry.Properties || []) add(name, false)
+    for (const name of entry.ReadOnly || []) add(name, true)
+    const tags = Array.from(new Set([...(known?.Tags || []), ...(entry.Tags || [])]))
+    classes.push({ Name: entry.Name, Superclass: entry.Superclass, Members: members, ...(tags.length > 0 ? { Tags: tags } : {}) })
+  }
+  return { ...dump, Classes: [...classes, ...detailed.values()] }
+}
+
+function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0]
+    prev[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j]
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diag = above
+    }
+  }
+  return prev[b.length]
+}
+
+/** Closest candidates by case-insensitive edit distance (prefix matches count as close). */
+export function suggestNames(target: string, candidates: Iterable<string>, limit = 3): string[] {
+  const needle = target.toLowerCase()
+  const maxDistance = Math.max(2, Math.floor(needle.length / 3))
+  const scored: Array<{ name: string; score: number }> = []
+  for (const name of candidates) {
+    const hay = name.toLowerCase()
+    const score = hay === needle ? 0 : hay.startsWith(needle) || needle.startsWith(hay) ? 1 : levenshtein(needle, hay)
+    if (score <= maxDistance) scored.push({ name, score })
+  }
+  scored.sort((a, b) => a.score - b.score || a.name.localeCompare(b.name))
+  return scored.slice(0, limit).map((s) => s.name)
+}
+
+function didYouMean(names: string[]): string {
+  return names.length > 0 ? ` Did you mean ${names.map((n) => `"${n}"`).join(', ')}?` : ''
+}
+
+function classChain(className: string): ApiClass[] {
+  const { classes } = loadApiIndex()
+  const chain: ApiClass[] = []
+  let cur = classes.get(className)
+  while (cur && chain.length < 32) {
+    chain.push(cur)
+    cur = classes.get(cur.Superclass)
+  }
+  return chain
+}
+
+function isWritable(member: ApiMember): boolean {
+  const tags = member.Tags || []
+  if (tags.includes('ReadOnly') || tags.includes('NotScriptable')) return false
+  const write = typeof member.Security === 'string' ? member.Security : member.Security?.Write
+  // Plugins run with PluginSecurity; Roblox/LocalUser-only properties cannot be set
+  return !write || write === 'None' || write === 'PluginSecurity'
+}
+
+export function isRobloxClass(className: string): boolean {
+  return loadApiIndex().classes.has(className)
+}
+
+export function findRobloxProperty(className: string, prop: string): RobloxPropertyInfo | undefined {
+  for (const cls of classChain(className)) {
+    const member = cls.Members.find((m) => m.MemberType === 'Property' && m.Name === prop)
+    if (member) {
+      return {
+        name: member.Name,
+        declaredBy: cls.Name,
+        valueType: member.ValueType,
+        writable: isWritable(member),
+        deprecated: (member.Tags || []).includes('Deprecated'),
+      }
+    }
+  }
+  return undefined
+}
+
+function propertyNames(className: string): string[] {
+  const names = new Set<string>()
+  for (const cls of classChain(className)) {
+    for (const m of cls.Members) if (m.MemberType === 'Property') names.add(m.Name)
+  }
+  return Array.from(names)
+}
+
+function isCreatable(cls: ApiClass): boolean {
+  const tags = cls.Tags || []
+  return !tags.includes('Service') && !tags.includes('NotCreatable')
+}
+
+/** Error message when `className` cannot be created with Instance.new, else undefined. */
+export function checkCreatableClass(className: string): string | undefined {
+  const { classes } = loadApiIndex()
+  const cls = classes.get(className)
+  if (!cls) {
+    const creatable = Array.from(classes.values()).filter(isCreatable).map((c) => c.Name)
+    return `Unknown class "${className}".${didYouMean(suggestNames(className, creatable))}`
+  }
+  const tags = cls.Tags || []
+  if (tags.includes('Service')) return `"${className}" is a service and cannot be created; use game:GetService("${className}").`
+  if (tags.includes('NotCreatable')) {
+    const creatable = Array.from(classes.values())
+      .filter((c) => isCreatable(c) && classChain(c.Name).some((s) => s.Name === className))
+      .map((c) => c.Name)
+      .slice(0, 6)
+    return `"${className}" is abstract and cannot be created.${creatable.length ? ` Use a subclass such as ${creatable.join(', ')}.` : ''}`
+  }
+  return undefined
+}
+
+// API DataType name → tagged wire type produced by propertyValues
+const DATATYPE_TAGS: Record<string, RobloxValueType> = {
+  Vector3: 'Vector3',
+  Vector2: 'Vector2',
+  Color3: 'Color3',
+  CFrame: 'CFrame',
+  UDim: 'UDim',
+  UDim2: 'UDim2',
+  BrickColor: 'BrickColor',
+  NumberSequence: 'NumberSequence',
+}
+
+const NUMBER_PRIMITIVES = new Set(['float', 'double', 'int', 'int64'])
+
+function describeValue(value: unknown): string {
+  if (value && typeof value === 'object' && typeof (value as any).__t === 'string') return (value as any).__t
+  if (Array.isArray(value)) return 'array'
+  return value === null ? 'null' : typeof value
+}
+
+/**
+ * Checks one value against the property's API type. Untagged values are parsed with the API type
+ * (so "Server" for RunContext becomes Enum.RunContext.Server); returns the value to send or an error.
+ */
+function checkValue(info: RobloxPropertyInfo, raw: unknown): { value: unknown; error?: string } {
+  if (!info.valueType) return { value: raw }
+  const { Category, Name } = info.valueType
+  const expected = Category === 'Enum' ? `Enum.${Name}` : Name
+  const mismatch = () => ({ value: raw, error: `${info.name} expects ${expected}, got ${describeValue(raw)}` })
+  if (Category === 'Primitive') {
+    if (Name === 'bool') {
+      if (typeof raw === 'boolean') return { value: raw }
+      return raw === 'true' || raw === 'false' ? { value: raw === 'true' } : mismatch()
+    }
+    if (NUMBER_PRIMITIVES.has(Name)) {
+      if (typeof raw === 'number' && Number.isFinite(raw)) return { value: Name.startsWith('int') ? Math.round(raw) : raw }
+      if (typeof raw === 'string' && raw.trim() !== '' && Number.isFinite(Number(raw))) return { value: Number(raw) }
+      return mismatch()
+    }
+    if (Name === 'string') return typeof raw === 'string' || typeof raw === 'number' ? { value: raw } : mismatch()
+    return { value: raw }
+  }
+  if (Category === 'Enum') {
+    const items = loadApiIndex().enums.get(Name)
+    if (typeof raw === 'number') return items && !Number.isInteger(raw) ? mismatch() : { value: raw }
+    const parsed = parseRobloxValue('EnumItem', raw, Name) as { enum: string; name: string } | undefined
+    if (!parsed) return mismatch()
+    if (parsed.enum !== `Enum.${Name}`) return { value: raw, error: `${info.name} expects Enum.${Name}, got ${parsed.enum}` }
+    if (items && !items.includes(parsed.name)) {
+      const match = items.find((item) => item.toLowerCase() === parsed.name.toLowerCase())
+      if (match) return { value: { ...parsed, name: match } }
+      return { value: raw, error: `"${parsed.name}" is not a member of Enum.${Name}.${didYouMean(suggestNames(parsed.name, items))}` }
+    }
+    return { value: parsed }
+  }
+  if (Category === 'Class') {
+    if (typeof raw === 'string' || describeValue(raw) === 'Instance' || raw === null) return { value: raw }
+    return mismatch()
+  }
+  if (Category === 'DataType') {
+    if (Name === 'Content' || Name === 'ProtectedString') return typeof raw === 'string' || typeof raw === 'number' ? { value: raw } : mismatch()
+    const tag = DATATYPE_TAGS[Name]
+    if (!tag) return { value: raw }
+    if (describeValue(raw) === tag) return { value: raw }
+    const parsed = parseRobloxValue(tag, raw)
+    return parsed !== undefined ? { value: parsed } : mismatch()
+  }
+  return { value: raw }
+}
+
+export type RobloxPropsCheck = { props: Record<string, unknown>; errors: string[] }
+
+/**
+ * Validates props for an instance of `className`: the property must exist on the class, be
+ * writable and hold a value of its type. Attributes ("@Name") are not checked. Classes missing from
+ * the dump (a Studio newer than it) pass through unchanged; create paths reject them earlier with
+ * checkCreatableClass.
+ */
+export function checkRobloxProps(className: string, props: Record<string, unknown>): RobloxPropsCheck {
+  const out: Record<string, unknown> = { ...props }
+  const errors: string[] = []
+  if (!isRobloxClass(className)) return { props: out, errors }
+  for (const [key, raw] of Object.entries(props)) {
+    if (key.startsWith('@')) continue
+    const info = findRobloxProperty(className, key)
+    if (!info) {
+      errors.push(`${className} has no property "${key}".${didYouMean(suggestNames(key, propertyNames(className)))}`)
+      continue
+    }
+    if (!info.writable) {
+      errors.push(`${className}.${key} is read-only.`)
+      continue
+    }
+    const checked = checkValue(info, raw)
+    if (checked.error) errors.push(checked.error)
+    else out[key] = checked.value
+  }
+  return { props: out, errors }
+}
+
+// Datatypes Instance:SetAttribute accepts besides string/number/boolean
+const ATTRIBUTE_TAGS = new Set(['Vector2', 'Vector3', 'Color3', 'CFrame', 'UDim', 'UDim2', 'BrickColor', 'NumberSequence', 'EnumItem'])
+
+const ATTRIBUTE_NAME = /^[A-Za-z0-9_]{1,100}$/
+
+/**
+ * Validates attribute names (alphanumeric/underscore, at most 100 characters, no reserved RBX
+ * prefix) and values; constructor strings such as "Vector3.new(0, 5, 0)" become tagged values.
+ */
+export function checkRobloxAttributes(attributes: Record<string, unknown>): { attributes: Record<string, unknown>; errors: string[] } {
+  const out: Record<string, unknown> = {}
+  const errors: string[] = []
+  for (const [rawName, raw] of Object.entries(attributes)) {
+    const name = rawName.startsWith('@') ? rawName.slice(1) : rawName
+    if (!ATTRIBUTE_NAME.test(name) || /^RBX/i.test(name)) {
+      errors.push(`Invalid attribute name "${name}": use up to 100 letters, digits or underscores, not starting with "RBX".`)
+      continue
+    }
+    const { value, issue } = normalizePropertyValue(`@${name}`, raw)
+    if (issue) {
+      errors.push(`Attribute ${name}: ${issue.message}`)
+      continue
+    }
+    const kind = describeValue(value)
+    if (kind === 'string' || kind === 'boolean' || (kind === 'number' && Number.isFinite(value))) out[name] = value
+    else if (ATTRIBUTE_TAGS.has(kind)) out[name] = value
+    else errors.push(`Attribute ${name} cannot hold ${kind === 'null' ? 'null (list it in remove instead)' : kind}.`)
+  }
+  return { attributes: out, errors }
+}
@@ -53,6 +53,18 @@ const ParentEither = z
   .or(z.object({ parent: z.string() }))
   .transform((v) => ('parentPath' in v ? v : { parentPath: (v as any).parent }))
 
+// add_tag/remove_tag: one `tag` or a `tags` list (array or comma-separated), merged into tags
+const TagArgs = z
+  .object({
+    path: z.string(),
+    tag: z.string().optional(),
+    tags: z.union([z.array(z.string()), z.string().transform((s) => s.split(',').map((t) => t.trim()).filter(Boolean))]).optional(),
+  })
+  .transform((v) => ({ path: v.path, tags: Array.from(new Set([...(v.tag ? [v.tag.trim()] : []), ...(v.tags || [])].filter(Boolean))) }))
+  .superRefine((value, ctx) => {
+    if (value.tags.length === 0) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tag'], message: 'Provide tag or tags' })
+  })
+
 export const Tools = {
   get_active_script: z.object({}),
   list_selection: z.object({}),
@@ -101,6 +113,42 @@ export const Tools = {
         ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['parentPath'], message: 'Required' })
       }
     }),
+  find_instances: z
+    .object({
+      // e.g. "Workspace Model[Name^=Tower] > Part.Anchored=true"
+      selector: z.string().optional(),
+      under: z.string().optional(),
+      // Accept arrays or comma-separated strings
+      tags: z.union([z.array(z.string()), z.string().transform((s) => s.split(',').map((t) => t.trim()).filter(Boolean))]).optional(),
+      attributes: z.union([z.record(z.any()), JsonObjectFromString]).optional(),
+      properties: z.union([z.array(z.string()), z.string().transform((s) => s.split(',').map((t) => t.trim()).filter(Boolean))]).optional(),
+      offset: z.number().min(0).optional(),
+      limit: z.number().min(1).max(200).optional(),
+    })
+    .superRefine((value, ctx) => {
+      const hasFilter = !!value.selector || !!value.under || (value.tags?.length ?? 0) > 0 || Object.keys(value.attributes || {}).length > 0
+      if (!hasFilter) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['selector'], message: 'Provide a selector, under, tags or attributes' })
+      }
+    }),
+  spatial_query: z
+    .object({
+      query: z.enum(['bounds', 'near', 'overlaps', 'ground']),
+      path: z.string().optional(),
+      // Any Vector3 form: "0, 5, 0", [0, 5, 0], {"x":0,"y":5,"z":0}
+      point: z.any().optional(),
+      size: z.any().optional(),
+      radius: z.number().positive().optional(),
+      below: z.number().optional(),
+      limit: z.number().min(1).max(100).optional(),
+    })
+    .superRefine((value, ctx) => {
+      if (value.query === 'bounds' && !value.path) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['path'], message: 'Required for bounds' })
+      } else if (!value.path && value.point === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['point'], message: 'Provide path or point' })
+      }
+    }),
   get_properties: z.object({
     path: z.string(),
     keys: z.array(z.string()).optional(),
@@ -116,9 +164,50 @@ export const Tools = {
       props: z.union([z.record(z.any()), JsonObjectFromString]).optional(),
     })
     .and(ParentEither),
+  bulk_create: z
+    .object({
+      className: z.string(),
+      count: z.number().int().min(1).max(500),
+      // Row length for grids; exposes row/col in templates
+      columns: z.number().int().min(1).optional(),
+      // Template props; strings may embed {expr} over i, n, row, col
+      props: z.union([z.record(z.any()), JsonObjectFromString]).optional(),
+      // Prop name → values assigned round-robin by index
+      cycle: z.union([z.record(z.array(z.any())), JsonObjectFromString]).optional(),
+    })
+    .and(ParentEither),
+  set_attributes: z
+    .object({
+      path: z.string(),
+      // Attribute name → value (string, number, boolean, Vector3, Color3, …)
+      attributes: z.union([z.record(z.any()), JsonObjectFromString]).optional(),
+      // Attribute names to clear
+      remove: z.union([z.array(z.string()), z.string().transform((s) => s.split(',').map((t) => t.trim()).filter(Boolean))]).optional(),
+    })
+    .superRefine((value, ctx) => {
+      if (Object.keys(value.attributes || {}).length === 0 && (value.remove?.length ?? 0) === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['attributes'], message: 'Provide attributes or remove' })
+      }
+    }),
+  add_tag: TagArgs,
+  remove_tag: TagArgs,
   set_properties: z.object({ path: z.string(), props: z.union([z.record(z.any()), JsonObjectFromString]) }),
   rename_instance: z.object({ path: z.string(), newName: z.string() }),
   delete_instance: z.object({ path: z.string() }),
+  move_instance: z
+    .object({ path: z.string() })
+    .and(
+      z
+        .object({ newParentPath: z.string() })
+        .or(z.object({ parentPath: z.string() }))
+        .transform((v) => ('newParentPath' in v ? v : { newParentPath: (v as any).parentPath as string })),
+    ),
+  clone_instance: z.object({
+    path: z.string(),
+    // Defaults to the source's parent
+    parentPath: z.string().optional(),
+    newName: z.string().min(1).optional(),
+  }),
   search_assets: z.object({ query: z.string(), tags: z.array(z.string()).optional(), limit: z.number().min(1).max(50).optional() }),
   insert_asset: z.object({ assetId: z.number(), parentPath: z.string().optional() }),
   generate_asset_3d: z.object({ prompt: z.string(), tags: z.array(z.string()).optional(), style: z.string().optional(), budget: z.number().optional() }),
@@ -157,3 +246,38 @@ export const Tools = {
   }),
 }
 export type ToolsShape = typeof Tools
+
+// One-line descriptions surfaced to providers that support native function calling.
+export const ToolDescriptions: Record<keyof ToolsShape, string> = {
+  get_active_script: 'Return the currently open script (path, text) if any.',
+  list_selection: 'Return the current Studio selection (array of paths/classes).',
+  list_open_documents: 'Return open documents; useful to infer likely targets.',
+  open_or_create_script: 'Ensure a Script/LocalScript/ModuleScript exists; returns {path,text,created}.',
+  start_plan: 'Begin an ordered list of tool-specific steps. Use for multi-step work.',
+  update_plan: 'Mark a step done, set the next step, or add notes.',
+  list_children: 'Inspect the scene tree under parentPath. Add classWhitelist to filter.',
+  find_instances: 'Search the scene with a selector (e.g. "Workspace Model[Name^=Tower] > Part.Anchored=true") plus tag/attribute filters; paginate with offset/limit.',
+  spatial_query: 'Geometry over the scene graph: bounds (world box of a part or Model), near (parts within radius of path/point), overlaps (parts intersecting path or point+size), ground (highest part surface under point x/z or under path).',
+  get_properties: 'Read properties/attributes for a path; set includeAllAttributes for attributes.',
+  show_diff: 'Propose 0-based range edits to a script. Prefer this before apply_edit.',
+  apply_edit: 'Apply range edits directly (use sparingly; prefer show_diff previews first).',
+  create_instance: 'Create a Roblox instance of className under parentPath with optional props.',
+  bulk_create: 'Create count instances of className under parentPath from one props template; strings may embed {expr} over i (0-based), n, row/col (with columns), e.g. Name "Tile_{i+1}", Position "{col*6}, 2, {row*6}". cycle assigns listed values round-robin.',
+  set_attributes: 'Set instance attributes (GetAttribute values) on path; list names in remove to clear them.',
+  add_tag: 'Add CollectionService tag(s) to the instance at path (tag, or tags as a list).',
+  remove_tag: 'Remove CollectionService tag(s) from the instance at path.',
+  set_properties: 'Update properties on an existing instance.',
+  rename_instance: 'Rename the instance at path.',
+  delete_instance: 'Delete the instance at path.',
+  move_instance: 'Reparent the instance at path (and its descendants) under newParentPath.',
+  clone_instance: 'Deep-copy the instance at path, optionally under parentPath and/or as newName.',
+  search_assets: 'Search the catalog for assets (limit ≤ 6 unless asked otherwise).',
+  insert_asset: 'Insert an assetId into the scene (defaults to game.Workspace).',
+  generate_asset_3d: 'Request a generated 3D asset; include tags/style/budget if helpful.',
+  list_code_definition_names: 'Enumerate known code symbol names for navigation.',
+  search_files: 'Substring search across workspace files (case-insensitive by default).',
+  complete: 'Mark the task complete with a succinct summary.',
+  final_message: 'Send the final summary (Ask-friendly) and end the turn.',
+  message: 'Stream a short text update with phase=start|update|final.',
+  attempt_completion: 'Alias for complete; include result and optional confidence.',
+}
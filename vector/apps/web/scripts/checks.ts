@@ -0,0 +1,39 @@
+/**
+ * Offline Check Harness
+ *
+ * Minimal registry shared by the offline `test:*` scripts: each script registers named
+ * checks with `check()` and ends with `runChecks()`, which prints one line per check and
+ * exits non-zero when any check fails.
+ *
+ * @module scripts/checks
+ */
+
+type Check = { name: string; run: () => void | Promise<void> };
+
+const checks: Check[] = [];
+
+/**
+ * Register a named check; it fails by throwing (node:assert)
+ */
+export function check(name: string, run: () => void | Promise<void>): void {
+  checks.push({ name, run });
+}
+
+/**
+ * Run every registered check in order and exit with the result
+ */
+export async function runChecks(): Promise<void> {
+  let failed = 0;
+  for (const { name, run } of checks) {
+    try {
+      await run();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}`);
+      console.error(`  ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  console.log(`\n${checks.length - failed}/${checks.length} checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
@@ -11,6 +11,8 @@
  *   npm run test:agent -- --only=tool     # Run only tool tests
  *   npm run test:agent -- --json          # Generate JSON report
  *   npm run test:agent -- --html          # Generate HTML report
+ *   npm run test:agent -- --record        # Record provider responses as fixtures
+ *   npm run test:agent -- --replay        # Run offline against recorded fixtures
  *
  * @module scripts/test-agent
  */
@@ -33,6 +35,7 @@ interface CLIOptions {
   json: boolean;
   html: boolean;
   outputDir: string;
+  cacheMode?: 'off' | 'auto' | 'record' | 'replay';
 }
 
 /**
@@ -88,6 +91,18 @@ function parseArgs(): CLIOptions {
     else if (arg.startsWith('--output=')) {
       options.outputDir = arg.split('=')[1];
     }
+    else if (arg === '--record') {
+      options.cacheMode = 'record';
+    }
+    else if (arg === '--replay') {
+      options.cacheMode = 'replay';
+    }
+    else if (arg.startsWith('--cache=')) {
+      const value = arg.split('=')[1];
+      if (value === 'off' || value === 'auto' || value === 'record' || value === 'replay') {
+        options.cacheMode = value;
+      }
+    }
     else if (arg === '--help' || arg === '-h') {
       printHelp();
       process.exit(0);
@@ -117,6 +132,9 @@ Options:
   --timeout=<ms>            Test timeout in milliseconds (default: 60000)
   --base-url=<url>          API base URL (default: http://localhost:3000)
   --output=<dir>            Output directory for reports (default: ./test-results)
+  --record                  Call providers and record responses as fixtures (lib/testing/fixtures/provider-cache)
+  --replay                  Serve provider responses from recorded fixtures only (offline, no API key)
+  --cache=<mode>            Provider cache mode: off | auto | record | replay
   -h, --help                Show this help message
 
 Examples:
@@ -127,7 +145,9 @@ Examples:
   npm run test:agent -- --only=get_active_script,create_instance
 
 Environment Variables:
-  NEXT_PUBLIC_API_URL       API base URL (overridden by --base-url)
+  NEXT_PUBLIC_API_URL           API base URL (overridden by --base-url)
+  VECTOR_PROVIDER_FIXTURES_DIR  Server fixture directory for --record/--replay (default: lib/testing/fixtures/provider-cache)
+  VECTOR_PROVIDER_CACHE_DIR     Server scratch cache for --cache=auto, also read on replay (default: data/provider-cache)
 `);
 }
 
@@ -140,8 +160,8 @@ async function main(): Promise<void> {
   // Parse arguments
   const options = parseArgs();
 
-  // Validate environment
-  if (!process.env.ANTHROPIC_API_KEY && !process.env.OPENAI_API_KEY) {
+  // Validate environment (replays never call a provider)
+  if (options.cacheMode !== 'replay' && !process.env.ANTHROPIC_API_KEY && !process.env.OPENAI_API_KEY) {
     console.error('❌ Error: No API key found in .env');
     console.error('   Please set ANTHROPIC_API_KEY or OPENAI_API_KEY');
     process.exit(1);
@@ -151,7 +171,8 @@ async function main(): Promise<void> {
   const runner = new TestRunner({
     verbose: options.verbose,
     baseUrl: options.baseUrl,
-    timeout: options.timeout
+    timeout: options.timeout,
+    cacheMode: options.cacheMode
   });
 
   try {
@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+/**
+ * Auto-Approval Policy Checks
+ *
+ * Offline checks for per-project auto-approval: path glob matching in canonical form,
+ * fail-closed deny rules, and the order deny rules, limits, allow rules and the policy
+ * default are applied in.
+ *
+ * Usage:
+ *   npm run test:auto-approve
+ *
+ * @module scripts/test-auto-approve
+ */
+
+import assert from 'node:assert/strict';
+import { AutoApprovalPolicySchema, annotateAutoApproval, evaluateAutoApproval } from '../lib/orchestrator/autoApprove';
+import type { AutoApprovalPolicy } from '../lib/orchestrator/autoApprove';
+import type { EditProposal, ObjectOp, ObjectProposal } from '../lib/orchestrator/index';
+import { check, runChecks } from './checks';
+
+/**
+ * Object proposal wrapping the given ops
+ */
+function objectProposal(...ops: ObjectOp[]): ObjectProposal {
+  return { id: 'obj_test', type: 'object_op', ops };
+}
+
+/**
+ * Whether a delete of path is auto-approved under policy
+ */
+function approvesDelete(policy: AutoApprovalPolicy, path: string): boolean {
+  return evaluateAutoApproval(objectProposal({ op: 'delete_instance', path }), policy).approved;
+}
+
+const securityPolicy = AutoApprovalPolicySchema.parse({
+  default: 'allow',
+  rules: [{ name: 'security', effect: 'deny', paths: ['ServerScriptService.Security.**'] }],
+});
+
+check('glob: X.** covers X and everything below it', () => {
+  assert.equal(approvesDelete(securityPolicy, 'game.ServerScriptService.Security'), false);
+  assert.equal(approvesDelete(securityPolicy, 'game.ServerScriptService.Security.Anticheat.Core'), false);
+  assert.equal(approvesDelete(securityPolicy, 'game.ServerScriptService.SecurityNotes'), true);
+  assert.equal(approvesDelete(securityPolicy, 'game.ServerScriptService.Gameplay'), true);
+});
+
+check('glob: deny matches every canonical spelling of a path', () => {
+  for (const path of [
+    'ServerScriptService.Security.Anticheat',
+    'game.ServerScriptService["Security"].Anticheat',
+    'game.ServerScriptService.["Security"].Anticheat',
+    'game.ServerScriptService.[Security].Anticheat',
+  ]) {
+    assert.equal(approvesDelete(securityPolicy, path), false, `expected ${path} to be denied`);
+  }
+});
+
+check('glob: deny rules fail closed on paths that do not parse', () => {
+  assert.equal(approvesDelete(securityPolicy, 'game.ServerScriptService["Security'), false);
+  assert.equal(approvesDelete(securityPolicy, 'game..Workspace'), false);
+});
+
+check('glob: * is one segment, including bracketed names', () => {
+  const policy = AutoApprovalPolicySchema.parse({
+    default: 'deny',
+    rules: [{ name: 'workspace-top', effect: 'allow', paths: ['game.Workspace.*'] }],
+  });
+  assert.equal(approvesDelete(policy, 'Workspace.Part'), true);
+  assert.equal(approvesDelete(policy, 'game.Workspace["Spawn Pad"]'), true);
+  assert.equal(approvesDelete(policy, 'game.Workspace.Model.Part'), false);
+  assert.equal(approvesDelete(policy, 'game.Workspace["Spawn Pad'), false);
+});
+
+check('glob: allow rules must cover both ends of a move', () => {
+  const policy = AutoApprovalPolicySchema.parse({
+    default: 'deny',
+    rules: [{ name: 'workspace', effect: 'allow', paths: ['Workspace.**'] }],
+  });
+  const inside = objectProposal({ op: 'move_instance', path: 'game.Workspace.A', newParentPath: 'game.Workspace.B' });
+  const outside = objectProposal({ op: 'move_instance', path: 'game.Workspace.A', newParentPath: 'game.ServerStorage' });
+  assert.equal(evaluateAutoApproval(inside, policy).approved, true);
+  assert.equal(evaluateAutoApproval(outside, policy).approved, false);
+});
+
+check('glob: policy schema rejects globs that do not parse', () => {
+  for (const glob of ['game.Workspace["open', 'game..Workspace']) {
+    const parsed = AutoApprovalPolicySchema.safeParse({ rules: [{ name: 'bad', effect: 'deny', paths: [glob] }] });
+    assert.equal(parsed.success, false, `expected "${glob}" to be rejected`);
+  }
+});
+
+/**
+ * Edit proposal replacing `lines` lines in each of the given files
+ */
+function editProposal(paths: string[], lines = 1): EditProposal {
+  const files = paths.map((path) => ({
+    path,
+    diff: {
+      mode: 'rangeEDITS' as const,
+      edits: [{ start: { line: 0, character: 0 }, end: { line: lines - 1, character: 0 }, text: '' }],
+    },
+  }));
+  return { id: 'edit_test', type: 'edit', files };
+}
+
+/**
+ * Parse a policy the way /api/policies stores it
+ */
+function policy(raw: unknown): AutoApprovalPolicy {
+  return AutoApprovalPolicySchema.parse(raw);
+}
+
+check('order: deny rules veto even when an allow rule comes first', () => {
+  const rules = policy({
+    rules: [
+      { name: 'everything', effect: 'allow' },
+      { name: 'no-deletes', effect: 'deny', ops: ['delete_instance'] },
+    ],
+  });
+  const decision = evaluateAutoApproval(objectProposal(
+    { op: 'set_properties', path: 'game.Workspace.A', props: { Anchored: true } },
+    { op: 'delete_instance', path: 'game.Workspace.B' },
+  ), rules);
+  assert.deepEqual(decision, { approved: false, rule: 'no-deletes', reason: 'denied by no-deletes: delete_instance game.Workspace.B' });
+});
+
+check('order: deny rules with limits only veto when a limit is exceeded', () => {
+  const rules = policy({
+    default: 'deny',
+    rules: [
+      { name: 'bulk-deletes', effect: 'deny', ops: ['delete_instance'], maxDeletes: 2 },
+      { name: 'workspace', effect: 'allow', paths: ['Workspace.**'] },
+    ],
+  });
+  const deletes = (count: number) => objectProposal(
+    ...Array.from({ length: count }, (_, i): ObjectOp => ({ op: 'delete_instance', path: `game.Workspace.P${i}` })),
+  );
+  assert.deepEqual(evaluateAutoApproval(deletes(2), rules), { approved: true, rule: 'workspace', reason: 'allowed by workspace' });
+  const over = evaluateAutoApproval(deletes(3), rules);
+  assert.equal(over.approved, false);
+  assert.equal(over.rule, 'bulk-deletes');
+  assert.match(over.reason, /3 deletes > maxDeletes 2/);
+});
+
+check('order: the first allow rule within its limits approves', () => {
+  const rules = policy({
+    default: 'deny',
+    rules: [
+      { name: 'small-edits', effect: 'allow', ops: ['edit'], maxDiffLines: 10 },
+      { name: 'shared-modules', effect: 'allow', ops: ['edit'], paths: ['ReplicatedStorage.Shared.**'], maxFiles: 2 },
+    ],
+  });
+  const shared = 'game.ReplicatedStorage.Shared.Util';
+  assert.equal(evaluateAutoApproval(editProposal([shared], 5), rules).rule, 'small-edits');
+  assert.equal(evaluateAutoApproval(editProposal([shared], 50), rules).rule, 'shared-modules');
+  const tooMany = evaluateAutoApproval(editProposal([shared, `${shared}2`, `${shared}3`], 50), rules);
+  assert.deepEqual(tooMany, { approved: false, rule: 'default', reason: 'no rule matched; policy default is deny' });
+});
+
+check('order: allow rules must cover every part of a proposal', () => {
+  const rules = policy({ default: 'deny', rules: [{ name: 'workspace', effect: 'allow', paths: ['Workspace.**'] }] });
+  const mixed = objectProposal(
+    { op: 'delete_instance', path: 'game.Workspace.A' },
+    { op: 'delete_instance', path: 'game.ServerStorage.B' },
+  );
+  assert.equal(evaluateAutoApproval(mixed, rules).approved, false);
+});
+
+check('order: classNames match the created class or the scene class', () => {
+  const rules = policy({ default: 'deny', rules: [{ name: 'parts', effect: 'allow', classNames: ['Part'] }] });
+  const create = objectProposal({ op: 'create_instance', className: 'Part', parentPath: 'game.Workspace', props: { Name: 'Floor' } });
+  assert.equal(evaluateAutoApproval(create, rules).approved, true);
+  const rename = objectProposal({ op: 'rename_instance', path: 'game.Workspace.Floor', newName: 'Ground' });
+  assert.equal(evaluateAutoApproval(rename, rules).approved, false);
+  assert.equal(evaluateAutoApproval(rename, rules, () => 'Part').approved, true);
+});
+
+check('order: the default decides when no rule matches', () => {
+  const proposal = objectProposal({ op: 'delete_instance', path: 'game.Lighting.Sky' });
+  assert.equal(evaluateAutoApproval(proposal, policy({ default: 'allow' })).rule, 'default');
+  assert.equal(evaluateAutoApproval(proposal, policy({ default: 'allow' })).approved, true);
+  assert.deepEqual(evaluateAutoApproval(proposal), { approved: false, rule: 'builtin', reason: 'outside safe prefixes' });
+  const safe = objectProposal({ op: 'delete_instance', path: 'game.Workspace.Sky' });
+  assert.deepEqual(evaluateAutoApproval(safe), { approved: true, rule: 'builtin', reason: 'all paths under safe prefixes' });
+});
+
+check('order: completions and disabled auto-approve never approve', () => {
+  const completion = { id: 'done', type: 'completion' as const, summary: 'Done' };
+  assert.equal(evaluateAutoApproval(completion, policy({ default: 'allow' })).approved, false);
+  const [annotated] = annotateAutoApproval([objectProposal({ op: 'delete_instance', path: 'game.Workspace.A' })], {
+    autoEnabled: false,
+    policy: policy({ default: 'allow' }),
+  });
+  assert.equal(annotated.meta?.autoApproved, false);
+  assert.equal(annotated.meta?.autoApproveRule, 'disabled');
+});
+
+runChecks();
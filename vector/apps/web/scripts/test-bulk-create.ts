@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+/**
+ * bulk_create Template Checks
+ *
+ * Offline checks for bulk_create expansion: template arithmetic, `%` semantics,
+ * placeholder handling and the errors the model gets back.
+ *
+ * Usage:
+ *   npm run test:bulk-create
+ *
+ * @module scripts/test-bulk-create
+ */
+
+import assert from 'node:assert/strict';
+import { expandBulkCreate, BulkCreateError } from '../lib/orchestrator/bulkCreate';
+import { check, runChecks } from './checks';
+
+/**
+ * Evaluate one template expression at index i of n
+ */
+function evalAt(expression: string, i = 0, n = 1, columns?: number): unknown {
+  const ops = expandBulkCreate({
+    className: 'Part',
+    parentPath: 'game.Workspace',
+    count: n,
+    columns,
+    props: { Value: `{${expression}}` },
+  });
+  return ops[i].props.Value;
+}
+
+check('template: precedence, parentheses and unary minus', () => {
+  assert.equal(evalAt('1+2*3'), 7);
+  assert.equal(evalAt('(1+2)*3'), 9);
+  assert.equal(evalAt('-2*-3'), 6);
+  assert.equal(evalAt('10-4-3'), 3);
+  assert.equal(evalAt('8/4/2'), 1);
+  assert.equal(evalAt('.5 + 1.25'), 1.75);
+});
+
+check('template: % is a floored modulo', () => {
+  assert.equal(evalAt('7%3'), 1);
+  assert.equal(evalAt('-1%4'), 3);
+  assert.equal(evalAt('(0-5)%3'), 1);
+  assert.equal(evalAt('2*5%4'), 2);
+});
+
+check('template: variables, functions and float tidying', () => {
+  assert.equal(evalAt('i/n', 1, 3), 0.333333);
+  assert.equal(evalAt('0.1+0.2'), 0.3);
+  assert.equal(evalAt('floor(i/2)+max(1, n, 2)', 3, 4), 5);
+  assert.equal(evalAt('pow(2, 3)'), 8);
+  assert.equal(evalAt('row*10+col', 5, 6, 4), 11);
+});
+
+check('template: embedded placeholders become text, whole ones numbers', () => {
+  const ops = expandBulkCreate({
+    className: 'Part',
+    parentPath: 'game.Workspace',
+    count: 3,
+    props: { Name: 'Tile_{i+1}', Position: '{i*6}, 2, {-i}', Reflectance: '{n/10}', Meta: '{"x":1}', Source: 'local t = {1, 2}' },
+    cycle: { Color: ['red', 'Color3.fromHSV({i/n}, 1, 1)'] },
+  });
+  assert.deepEqual(ops.map((op) => op.props.Name), ['Tile_1', 'Tile_2', 'Tile_3']);
+  assert.equal(ops[2].props.Position, '12, 2, -2');
+  assert.equal(ops[0].props.Reflectance, 0.3);
+  assert.equal(ops[1].props.Meta, '{"x":1}');
+  assert.equal(ops[1].props.Source, 'local t = {1, 2}');
+  assert.deepEqual(ops.map((op) => op.props.Color), ['red', 'Color3.fromHSV(0.333333, 1, 1)', 'red']);
+});
+
+check('template: whole placeholders stay text for string properties', () => {
+  const ops = expandBulkCreate({
+    className: 'Part',
+    parentPath: 'game.Workspace',
+    count: 2,
+    props: { Name: '{i+1}', Transparency: '{i/2}', Material: '{i}', '@Index': '{i*10}' },
+  });
+  assert.deepEqual(ops.map((op) => op.props.Name), ['1', '2']);
+  assert.equal(ops[1].props.Transparency, 0.5);
+  assert.equal(ops[1].props.Material, 1);
+  assert.equal(ops[1].props['@Index'], 10);
+  const cycled = expandBulkCreate({ className: 'Folder', parentPath: 'game.Workspace', count: 2, cycle: { Name: ['{i}', 'Last'] } });
+  assert.deepEqual(cycled.map((op) => op.props.Name), ['0', 'Last']);
+});
+
+check('template: bad expressions and repeated names throw BulkCreateError', () => {
+  for (const expression of ['1+', '(1+2', 'k*2', 'nope(1)', '1/0', '2 3']) {
+    assert.throws(() => evalAt(expression), BulkCreateError, `expected "{${expression}}" to be rejected`);
+  }
+  assert.throws(
+    () => expandBulkCreate({ className: 'Part', parentPath: 'game.Workspace', count: 2, props: { Name: 'Same' } }),
+    BulkCreateError,
+  );
+  assert.throws(() => expandBulkCreate({ className: 'Part', parentPath: 'game.Workspace', count: 0 }), BulkCreateError);
+});
+
+runChecks();
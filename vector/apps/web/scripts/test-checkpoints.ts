@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * Checkpoint Store Checks
+ *
+ * Offline checks for the content-addressed checkpoint store: unchanged workspace files and
+ * Studio state reuse their blobs, auto checkpoints are pruned without touching manual ones,
+ * and garbage collection only removes blobs no manifest references.
+ *
+ * Runs against a throwaway workspace and data directory in the OS temp dir.
+ *
+ * Usage:
+ *   npm run test:checkpoints
+ *
+ * @module scripts/test-checkpoints
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { check, runChecks } from './checks';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-checkpoints-'));
+const workspace = path.join(tmp, 'workspace');
+fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+fs.writeFileSync(path.join(workspace, 'README.md'), 'hello\n');
+fs.writeFileSync(path.join(workspace, 'src', 'main.lua'), 'print("one")\n');
+process.on('exit', () => fs.rmSync(tmp, { recursive: true, force: true }));
+
+// The manager resolves its data dir and workspace root when first loaded
+process.chdir(tmp);
+process.env.VECTOR_WORKSPACE_ROOT = workspace;
+process.env.VECTOR_CHECKPOINT_LIMIT = '2';
+
+/**
+ * Checkpoint manager and task state, loaded after the environment above is set
+ */
+async function load() {
+  const manager = await import('../lib/checkpoints/manager');
+  const taskState = await import('../lib/orchestrator/taskState');
+  return { ...manager, ...taskState };
+}
+
+/**
+ * Set every blob's mtime past the GC grace period
+ */
+function ageBlobs(): void {
+  const old = new Date(Date.now() - 10 * 60_000);
+  const root = path.join(tmp, 'data', 'checkpoint-blobs');
+  for (const shard of fs.readdirSync(root)) {
+    for (const name of fs.readdirSync(path.join(root, shard))) fs.utimesSync(path.join(root, shard, name), old, old);
+  }
+}
+
+check('workspace: unchanged files reuse their blobs', async () => {
+  const { createCheckpoint, getCheckpointManifest, getTaskState } = await load();
+  const first = await createCheckpoint({ workflowId: 'wf_reuse', taskState: getTaskState('wf_reuse'), note: 'first' });
+  assert.equal(first.fileCount, 2);
+  // Both files plus the (empty) scene graph
+  assert.equal(first.newBlobs, 3);
+  const second = await createCheckpoint({ workflowId: 'wf_reuse', taskState: getTaskState('wf_reuse'), note: 'second' });
+  assert.equal(second.newBlobs, 0);
+  fs.writeFileSync(path.join(workspace, 'src', 'main.lua'), 'print("two, longer")\n');
+  const third = await createCheckpoint({ workflowId: 'wf_reuse', taskState: getTaskState('wf_reuse'), note: 'third' });
+  assert.equal(third.newBlobs, 1);
+  const before = await getCheckpointManifest('wf_reuse', first.id);
+  const after = await getCheckpointManifest('wf_reuse', third.id);
+  const sha = (m: typeof before, rel: string) => m?.files?.find((f) => f.path === rel)?.sha1;
+  assert.equal(sha(after, 'README.md'), sha(before, 'README.md'));
+  assert.notEqual(sha(after, path.join('src', 'main.lua')), sha(before, path.join('src', 'main.lua')));
+});
+
+check('workspace: restore rewrites changed files from blobs', async () => {
+  const { listCheckpoints, restoreCheckpoint } = await load();
+  const first = (await listCheckpoints('wf_reuse')).find((c) => c.note === 'first');
+  assert.ok(first);
+  await restoreCheckpoint({ checkpointId: first.id, mode: 'workspace' });
+  assert.equal(fs.readFileSync(path.join(workspace, 'src', 'main.lua'), 'utf-8'), 'print("one")\n');
+});
+
+check('studio: script sources and scene live in blobs, not the manifest taskState', async () => {
+  const { createCheckpoint, getCheckpointManifest, getTaskState, loadCheckpointStudioState, updateTaskState } = await load();
+  const state = updateTaskState('wf_studio', (s) => {
+    s.scriptSources = { 'game.ServerScriptService.Main': 'print("hi")' };
+  });
+  const first = await createCheckpoint({ workflowId: 'wf_studio', taskState: state, includeWorkspace: false });
+  assert.equal(first.scriptCount, 1);
+  assert.equal(first.newBlobs, 1);
+  const manifest = await getCheckpointManifest('wf_studio', first.id);
+  assert.ok(manifest);
+  assert.equal(manifest.taskState.scriptSources, undefined);
+  assert.deepEqual((await loadCheckpointStudioState(manifest)).scriptSources, { 'game.ServerScriptService.Main': 'print("hi")' });
+  const second = await createCheckpoint({ workflowId: 'wf_studio', taskState: getTaskState('wf_studio'), includeWorkspace: false });
+  assert.equal(second.newBlobs, 0);
+});
+
+check('pruning: auto checkpoints beyond the limit go, manual ones stay', async () => {
+  const { AUTO_CHECKPOINT_NOTE, createCheckpoint, getTaskState, listCheckpoints } = await load();
+  const taskState = getTaskState('wf_prune');
+  const manual = await createCheckpoint({ workflowId: 'wf_prune', taskState, note: 'before refactor', includeWorkspace: false });
+  const unnamed = await createCheckpoint({ workflowId: 'wf_prune', taskState, includeWorkspace: false });
+  for (let i = 0; i < 4; i++) {
+    await createCheckpoint({ workflowId: 'wf_prune', taskState, note: AUTO_CHECKPOINT_NOTE, includeWorkspace: false });
+  }
+  const left = await listCheckpoints('wf_prune');
+  assert.equal(left.filter((c) => c.note === AUTO_CHECKPOINT_NOTE).length, 2);
+  assert.deepEqual(
+    left.filter((c) => c.note !== AUTO_CHECKPOINT_NOTE).map((c) => c.id).sort(),
+    [manual.id, unnamed.id].sort(),
+  );
+});
+
+check('gc: unreferenced blobs are removed, referenced and recent ones kept', async () => {
+  const { collectCheckpointGarbage, listCheckpoints, restoreCheckpoint } = await load();
+  const stray = Buffer.from('no manifest points here');
+  const sha1 = crypto.createHash('sha1').update(stray).digest('hex');
+  const strayPath = path.join(tmp, 'data', 'checkpoint-blobs', sha1.slice(0, 2), sha1);
+  fs.mkdirSync(path.dirname(strayPath), { recursive: true });
+  fs.writeFileSync(strayPath, stray);
+  assert.equal((await collectCheckpointGarbage()).removed, 0, 'blobs inside the grace period survive');
+  ageBlobs();
+  const result = await collectCheckpointGarbage();
+  assert.equal(result.removed, 1);
+  assert.equal(result.freedBytes, stray.length);
+  assert.equal(fs.existsSync(strayPath), false);
+  // Referenced blobs survive: the first checkpoint still restores
+  fs.writeFileSync(path.join(workspace, 'README.md'), 'changed\n');
+  const first = (await listCheckpoints('wf_reuse')).find((c) => c.note === 'first');
+  assert.ok(first);
+  await restoreCheckpoint({ checkpointId: first.id, mode: 'workspace' });
+  assert.equal(fs.readFileSync(path.join(workspace, 'README.md'), 'utf-8'), 'hello\n');
+});
+
+runChecks();
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * Native Tool-Calling Checks
+ *
+ * Offline checks for when runLLM sends function-calling payloads and when it retries a
+ * turn on XML tool tags: per-provider/model support, the VECTOR_NATIVE_TOOLS override,
+ * and which provider errors count as "this model does not take tools".
+ *
+ * Usage:
+ *   npm run test:native-tools
+ *
+ * @module scripts/test-native-tools
+ */
+
+import assert from 'node:assert/strict';
+import { supportsNativeTools } from '../lib/orchestrator/providers';
+import { ProviderHttpError, classifyProviderError, isToolsUnsupportedError } from '../lib/orchestrator/providers/retry';
+import { check, runChecks } from './checks';
+
+/**
+ * Run fn with VECTOR_NATIVE_TOOLS set to value (unset when undefined), restoring it after
+ */
+function withNativeTools(value: string | undefined, fn: () => void): void {
+  const saved = process.env.VECTOR_NATIVE_TOOLS;
+  if (value === undefined) delete process.env.VECTOR_NATIVE_TOOLS;
+  else process.env.VECTOR_NATIVE_TOOLS = value;
+  try {
+    fn();
+  } finally {
+    if (saved === undefined) delete process.env.VECTOR_NATIVE_TOOLS;
+    else process.env.VECTOR_NATIVE_TOOLS = saved;
+  }
+}
+
+const toolsRejected = new ProviderHttpError('OpenAI API error: 400: {"error":{"message":"tools is not supported for this model"}}', 400);
+const functionsRejected = new ProviderHttpError('Local LLM error 422: "auto" tool choice requires --enable-auto-tool-choice', 422);
+
+check('fallback: 400/404/422 errors naming tools or functions switch to XML tools', () => {
+  assert.equal(isToolsUnsupportedError(toolsRejected), true);
+  assert.equal(isToolsUnsupportedError(functionsRejected), true);
+  assert.equal(isToolsUnsupportedError(new Error('Gemini error 404: function calling is not enabled for models/gemma-3')), true);
+});
+
+check('fallback: other failures are not mistaken for a tools rejection', () => {
+  assert.equal(isToolsUnsupportedError(new ProviderHttpError('OpenAI API error: 400: context_length_exceeded', 400)), false);
+  assert.equal(isToolsUnsupportedError(new ProviderHttpError('OpenRouter error 429: rate limited while calling tools', 429)), false);
+  assert.equal(isToolsUnsupportedError(new ProviderHttpError('Bedrock converse error 500: function timed out', 500)), false);
+  assert.equal(isToolsUnsupportedError(undefined), false);
+});
+
+check('retry: a tools rejection is not retried by the provider, transient errors are', () => {
+  assert.deepEqual(classifyProviderError(toolsRejected), { category: 'validation', retryable: false, status: 400 });
+  assert.equal(classifyProviderError(functionsRejected).retryable, false);
+  assert.equal(classifyProviderError(new ProviderHttpError('OpenAI API error: 429: slow down', 429)).retryable, true);
+  assert.equal(classifyProviderError(new Error('fetch failed')).retryable, true);
+});
+
+check('support: providers and models that take function-calling payloads', () => {
+  withNativeTools(undefined, () => {
+    assert.equal(supportsNativeTools('openai', 'gpt-4o'), true);
+    assert.equal(supportsNativeTools('openrouter', 'google/gemma-2-9b-it'), false);
+    assert.equal(supportsNativeTools('openrouter', 'deepseek/deepseek-r1'), false);
+    assert.equal(supportsNativeTools('bedrock', 'anthropic.claude-3-5-sonnet-20240620-v1:0'), true);
+    assert.equal(supportsNativeTools('bedrock', 'qwen.qwen3-coder-30b-a3b-v1:0'), false);
+  });
+});
+
+check('support: VECTOR_NATIVE_TOOLS forces the mode either way', () => {
+  withNativeTools('off', () => assert.equal(supportsNativeTools('openai', 'gpt-4o'), false));
+  withNativeTools('on', () => assert.equal(supportsNativeTools('bedrock', 'qwen.qwen3-coder-30b-a3b-v1:0'), true));
+});
+
+runChecks();
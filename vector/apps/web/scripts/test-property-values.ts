@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/**
+ * Property Value Checks
+ *
+ * Offline checks for how loose property values are read into Roblox datatypes before they
+ * reach the plugin, starting with NumberSequence keypoint order and endpoints.
+ *
+ * Usage:
+ *   npm run test:property-values
+ *
+ * @module scripts/test-property-values
+ */
+
+import assert from 'node:assert/strict';
+import { normalizePropertyValue, parseRobloxValue } from '../lib/tools/propertyValues';
+import { check, runChecks } from './checks';
+
+/**
+ * Keypoint times of a parsed NumberSequence, or undefined when it was rejected
+ */
+function times(raw: unknown): number[] | undefined {
+  const parsed = parseRobloxValue('NumberSequence', raw) as { keypoints: Array<{ time: number }> } | undefined;
+  return parsed?.keypoints.map((kp) => kp.time);
+}
+
+check('NumberSequence: numbers spread evenly from 0 to 1', () => {
+  assert.deepEqual(times(0.5), [0, 1]);
+  assert.deepEqual(times('NumberSequence.new(0, 1)'), [0, 1]);
+  assert.deepEqual(times([1, 0.5, 0]), [0, 0.5, 1]);
+});
+
+check('NumberSequence: keypoints are sorted by time', () => {
+  const parsed = parseRobloxValue('NumberSequence', [
+    { time: 1, value: 0 },
+    { time: 0, value: 2 },
+    { time: 0.25, value: 1 },
+  ]);
+  assert.deepEqual(parsed, {
+    __t: 'NumberSequence',
+    keypoints: [
+      { time: 0, value: 2 },
+      { time: 0.25, value: 1 },
+      { time: 1, value: 0 },
+    ],
+  });
+});
+
+check('NumberSequence: sequences not spanning 0 to 1 are rejected', () => {
+  assert.equal(times([{ time: 0.2, value: 1 }, { time: 1, value: 0 }]), undefined);
+  assert.equal(times([{ time: 0, value: 1 }, { time: 0.8, value: 0 }]), undefined);
+  assert.equal(times([{ time: 0, value: 1 }]), undefined);
+  const { issue } = normalizePropertyValue('Transparency', { keypoints: [{ time: 0, value: 0 }, { time: 0.5, value: 1 }] }, 'ParticleEmitter');
+  assert.equal(issue?.expected, 'NumberSequence');
+});
+
+check('NumberSequence: tagged values are re-sorted or rejected too', () => {
+  const tagged = { __t: 'NumberSequence', keypoints: [{ time: 1, value: 0 }, { time: 0, value: 1 }] };
+  const { value, issue } = normalizePropertyValue('Transparency', tagged, 'ParticleEmitter');
+  assert.equal(issue, undefined);
+  assert.deepEqual((value as { keypoints: Array<{ time: number }> }).keypoints.map((kp) => kp.time), [0, 1]);
+  const open = normalizePropertyValue('Transparency', { __t: 'NumberSequence', keypoints: [{ time: 0, value: 1 }, { time: 0.5, value: 0 }] }, 'ParticleEmitter');
+  assert.equal(open.issue?.expected, 'NumberSequence');
+});
+
+runChecks();
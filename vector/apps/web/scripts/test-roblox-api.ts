@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+/**
+ * Roblox API Validation Checks
+ *
+ * Offline checks for the class, property and attribute validation create_instance,
+ * bulk_create and set_properties run against the bundled API metadata.
+ *
+ * Usage:
+ *   npm run test:roblox-api
+ *
+ * @module scripts/test-roblox-api
+ */
+
+import assert from 'node:assert/strict';
+import { checkCreatableClass, checkRobloxAttributes, checkRobloxProps } from '../lib/tools/robloxApi';
+import { check, runChecks } from './checks';
+
+check('classes: creatable classes pass, typos are unknown with suggestions', () => {
+  for (const className of ['Part', 'Model', 'Script', 'RemoteEvent', 'ProximityPrompt', 'Beam', 'Motor6D']) {
+    assert.equal(checkCreatableClass(className), undefined, `${className} should be creatable`);
+  }
+  const prat = checkCreatableClass('Prat');
+  assert.match(prat ?? '', /^Unknown class "Prat"\./);
+  assert.match(prat ?? '', /"Part"/);
+  assert.match(checkCreatableClass('Partt') ?? '', /Did you mean "Part"/);
+  assert.match(checkCreatableClass('NotARealClass') ?? '', /^Unknown class/);
+});
+
+check('classes: services and abstract classes cannot be created', () => {
+  assert.match(checkCreatableClass('Workspace') ?? '', /is a service.*GetService\("Workspace"\)/);
+  const basePart = checkCreatableClass('BasePart') ?? '';
+  assert.match(basePart, /is abstract/);
+  assert.match(basePart, /\bPart\b/);
+  assert.doesNotMatch(basePart, /Terrain/);
+});
+
+check('props: real members pass, including ones without bundled types', () => {
+  assert.deepEqual(checkRobloxProps('Part', { EnableFluidForces: true, Anchored: true }).errors, []);
+  assert.deepEqual(checkRobloxProps('Frame', { SelectionOrder: 3, BackgroundTransparency: 0.5 }).errors, []);
+  assert.deepEqual(checkRobloxProps('Part', { '@Health': 'anything' }).errors, []);
+});
+
+check('props: unknown, read-only and mistyped members are rejected', () => {
+  const { errors } = checkRobloxProps('Part', { Anchord: true, ClassName: 'Model', Anchored: 'maybe' });
+  assert.deepEqual(errors, [
+    'Part has no property "Anchord". Did you mean "Anchored"?',
+    'Part.ClassName is read-only.',
+    'Anchored expects bool, got string',
+  ]);
+});
+
+check('props: values are coerced to the property type', () => {
+  const { props, errors } = checkRobloxProps('Part', { Anchored: 'true', Transparency: '0.25', Material: 'neon' });
+  assert.deepEqual(errors, []);
+  assert.equal(props.Anchored, true);
+  assert.equal(props.Transparency, 0.25);
+  assert.deepEqual(props.Material, { __t: 'EnumItem', enum: 'Enum.Material', name: 'Neon' });
+  assert.match(checkRobloxProps('Part', { Material: 'Enum.Material.Plastik' }).errors[0] ?? '', /not a member of Enum\.Material\. Did you mean "Plastic"/);
+});
+
+check('props: classes newer than the dump pass through', () => {
+  assert.deepEqual(checkRobloxProps('FutureStudioClass', { Anything: 1 }), { props: { Anything: 1 }, errors: [] });
+});
+
+check('attributes: names and value kinds are checked', () => {
+  const { attributes, errors } = checkRobloxAttributes({ Health: 100, '@Team': 'Red', RBXSecret: 1, 'bad name': 2, Nested: { a: 1 } });
+  assert.deepEqual(attributes, { Health: 100, Team: 'Red' });
+  assert.equal(errors.length, 3);
+});
+
+runChecks();
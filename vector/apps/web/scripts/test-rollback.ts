@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+/**
+ * Studio Rollback Checks
+ *
+ * Offline checks for buildRollbackProposals: the order its object ops run in (relocations,
+ * deletes, parent-first re-creates, moves into re-created folders, then resets), and which
+ * script sources come back through the edit proposal.
+ *
+ * Usage:
+ *   npm run test:rollback
+ *
+ * @module scripts/test-rollback
+ */
+
+import assert from 'node:assert/strict';
+import type { EditProposal, ObjectProposal } from '../lib/orchestrator/index';
+import { buildRollbackProposals } from '../lib/orchestrator/rollback';
+import { splitInstancePath } from '../lib/orchestrator/sceneGraph';
+import type { SceneGraph, SceneNode } from '../lib/orchestrator/taskState';
+import { check, runChecks } from './checks';
+
+/**
+ * Scene node at path, with parent and name taken from the path
+ */
+function node(path: string, className: string, props: Record<string, unknown> = {}, extra: Partial<SceneNode> = {}): SceneNode {
+  const { parentPath, name } = splitInstancePath(path);
+  return { path, parentPath, name, className, props: { Name: name, ...props }, ...extra };
+}
+
+/**
+ * Scene graph holding the given nodes
+ */
+function graph(...nodes: SceneNode[]): SceneGraph {
+  return { nodes: Object.fromEntries(nodes.map((n) => [n.path, n])) };
+}
+
+const workspace = node('game.Workspace', 'Workspace');
+const scripts = node('game.ServerScriptService', 'ServerScriptService');
+
+// At the checkpoint: a Door, a Folder holding a Lamp and a Script, and a Main script
+const checkpoint = {
+  scene: graph(
+    workspace,
+    scripts,
+    node('game.Workspace.Door', 'Part', { Anchored: true }),
+    node('game.Workspace.Folder', 'Folder', {}, { tags: ['Zone'] }),
+    node('game.Workspace.Folder.Lamp', 'PointLight', { Brightness: 2 }),
+    node('game.Workspace.Folder.Spawner', 'Script'),
+    node('game.ServerScriptService.Main', 'Script'),
+  ),
+  scriptSources: { 'game.Workspace.Folder.Spawner': 'spawn()', 'game.ServerScriptService.Main': 'print(1)' },
+};
+
+// Since then: Door renamed to Gate, Lamp moved out and dimmed, Folder deleted, Junk added, Main edited
+const now = {
+  scene: graph(
+    workspace,
+    scripts,
+    node('game.Workspace.Gate', 'Part', { Anchored: true }),
+    node('game.Workspace.Lamp', 'PointLight', { Brightness: 2 }),
+    node('game.Workspace.Junk', 'Part'),
+    node('game.ServerScriptService.Main', 'Script'),
+  ),
+  scriptSources: { 'game.ServerScriptService.Main': 'print(2)' },
+};
+
+check('ops: relocate, delete, re-create parents first, move back in, then reset', () => {
+  const [object] = buildRollbackProposals(now, checkpoint, 'ckpt_test') as [ObjectProposal];
+  assert.equal(object.type, 'object_op');
+  assert.deepEqual(object.ops, [
+    { op: 'rename_instance', path: 'game.Workspace.Gate', newName: 'Door' },
+    { op: 'delete_instance', path: 'game.Workspace.Junk' },
+    { op: 'create_instance', className: 'Folder', parentPath: 'game.Workspace', props: { Name: 'Folder' } },
+    { op: 'add_tag', path: 'game.Workspace.Folder', tags: ['Zone'] },
+    { op: 'create_instance', className: 'Script', parentPath: 'game.Workspace.Folder', props: { Name: 'Spawner', Source: 'spawn()' } },
+    { op: 'move_instance', path: 'game.Workspace.Lamp', newParentPath: 'game.Workspace.Folder' },
+  ]);
+  assert.equal(object.warnings, undefined);
+});
+
+check('ops: property, attribute and tag changes reset to the checkpoint values', () => {
+  const before = { scene: graph(workspace, node('game.Workspace.Crate', 'Part', { Anchored: true }, { attributes: { Hp: 10 }, tags: ['Loot'] })) };
+  const after = { scene: graph(workspace, node('game.Workspace.Crate', 'Part', { Anchored: false, Color: 'red' }, { attributes: { Hp: 5, Team: 'Red' }, tags: ['Heavy'] })) };
+  const [object] = buildRollbackProposals(after, before, 'ckpt_test') as [ObjectProposal];
+  assert.deepEqual(object.ops, [
+    { op: 'add_tag', path: 'game.Workspace.Crate', tags: ['Loot'] },
+    { op: 'remove_tag', path: 'game.Workspace.Crate', tags: ['Heavy'] },
+    { op: 'set_properties', path: 'game.Workspace.Crate', props: { Anchored: true } },
+    { op: 'set_attributes', path: 'game.Workspace.Crate', attributes: { Hp: 10 }, remove: ['Team'] },
+  ]);
+});
+
+check('scripts: changed sources come back as one edit, re-created ones ride along', () => {
+  const proposals = buildRollbackProposals(now, checkpoint, 'ckpt_test');
+  assert.deepEqual(proposals.map((p) => p.type), ['object_op', 'edit']);
+  const edit = proposals[1] as EditProposal;
+  assert.deepEqual(edit.files?.map((f) => f.path), ['game.ServerScriptService.Main']);
+  assert.equal(edit.files?.[0].safety?.baseText, 'print(2)');
+  assert.deepEqual(edit.files?.[0].diff.edits.map((e) => e.text), ['print(1)']);
+  assert.equal(edit.notes, 'Roll back 1 script to ckpt_test');
+});
+
+check('no-op: identical states propose nothing', () => {
+  assert.deepEqual(buildRollbackProposals(checkpoint, checkpoint, 'ckpt_test'), []);
+});
+
+runChecks();
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+/**
+ * Scene Diff Checks
+ *
+ * Offline checks for diffSceneGraphs: renames and moves are matched back up with the
+ * removed subtree they came from, and property, attribute and tag changes follow the
+ * instance to its new path.
+ *
+ * Usage:
+ *   npm run test:scene-diff
+ *
+ * @module scripts/test-scene-diff
+ */
+
+import assert from 'node:assert/strict';
+import { diffSceneGraphs } from '../lib/orchestrator/sceneDiff';
+import { splitInstancePath } from '../lib/orchestrator/sceneGraph';
+import type { SceneGraph, SceneNode } from '../lib/orchestrator/taskState';
+import { check, runChecks } from './checks';
+
+/**
+ * Scene node at path, with parent and name taken from the path
+ */
+function node(path: string, className: string, props: Record<string, unknown> = {}, extra: Partial<SceneNode> = {}): SceneNode {
+  const { parentPath, name } = splitInstancePath(path);
+  return { path, parentPath, name, className, props: { Name: name, ...props }, ...extra };
+}
+
+/**
+ * Scene graph holding the given nodes
+ */
+function graph(...nodes: SceneNode[]): SceneGraph {
+  return { nodes: Object.fromEntries(nodes.map((n) => [n.path, n])) };
+}
+
+const workspace = node('game.Workspace', 'Workspace');
+const storage = node('game.ReplicatedStorage', 'ReplicatedStorage');
+
+check('rename: same class, parent and fields under a new name', () => {
+  const diff = diffSceneGraphs(
+    graph(workspace, node('game.Workspace.Door', 'Part', { Anchored: true })),
+    graph(workspace, node('game.Workspace.Gate', 'Part', { Anchored: true })),
+  );
+  assert.deepEqual(diff.renamed, [{ from: 'game.Workspace.Door', to: 'game.Workspace.Gate', className: 'Part' }]);
+  assert.deepEqual([diff.created, diff.deleted, diff.moved, diff.changed], [[], [], [], []]);
+});
+
+check('move: a subtree keeps its identity and carries child changes along', () => {
+  const diff = diffSceneGraphs(
+    graph(workspace, storage, node('game.Workspace.Tower', 'Model'), node('game.Workspace.Tower.Top', 'Part', { Transparency: 0 })),
+    graph(workspace, storage, node('game.ReplicatedStorage.Tower', 'Model'), node('game.ReplicatedStorage.Tower.Top', 'Part', { Transparency: 0.5 })),
+  );
+  assert.deepEqual(diff.moved, [{ from: 'game.Workspace.Tower', to: 'game.ReplicatedStorage.Tower', className: 'Model' }]);
+  assert.deepEqual([diff.created, diff.deleted, diff.renamed], [[], [], []]);
+  assert.deepEqual(diff.changed, [
+    { path: 'game.ReplicatedStorage.Tower.Top', className: 'Part', changes: [{ key: 'Transparency', from: 0, to: 0.5 }] },
+  ]);
+});
+
+check('move: into a folder created in the same step', () => {
+  const diff = diffSceneGraphs(
+    graph(workspace, node('game.Workspace.Lamp', 'PointLight')),
+    graph(workspace, node('game.Workspace.Props', 'Folder'), node('game.Workspace.Props.Lamp', 'PointLight')),
+  );
+  assert.deepEqual(diff.created, [{ path: 'game.Workspace.Props', className: 'Folder', descendants: 0 }]);
+  assert.deepEqual(diff.moved, [{ from: 'game.Workspace.Lamp', to: 'game.Workspace.Props.Lamp', className: 'PointLight' }]);
+  assert.deepEqual(diff.deleted, []);
+});
+
+check('match: different fields or class stay a delete plus a create', () => {
+  const diff = diffSceneGraphs(
+    graph(workspace, node('game.Workspace.Door', 'Part', { Anchored: true }), node('game.Workspace.Sign', 'Part')),
+    graph(workspace, node('game.Workspace.Gate', 'Part', { Anchored: false }), node('game.Workspace.Board', 'WedgePart')),
+  );
+  assert.deepEqual([diff.renamed, diff.moved], [[], []]);
+  assert.deepEqual(diff.deleted.map((d) => d.path), ['game.Workspace.Door', 'game.Workspace.Sign']);
+  assert.deepEqual(diff.created.map((c) => c.path).sort(), ['game.Workspace.Board', 'game.Workspace.Gate']);
+});
+
+check('match: each added node is claimed by one removed node, in path order', () => {
+  const diff = diffSceneGraphs(
+    graph(workspace, node('game.Workspace.A', 'Part'), node('game.Workspace.B', 'Part')),
+    graph(workspace, node('game.Workspace.C', 'Part')),
+  );
+  assert.deepEqual(diff.renamed, [{ from: 'game.Workspace.A', to: 'game.Workspace.C', className: 'Part' }]);
+  assert.deepEqual(diff.deleted.map((d) => d.path), ['game.Workspace.B']);
+  assert.deepEqual(diff.created, []);
+});
+
+check('changes: props, attributes, tags and class are reported per instance', () => {
+  const diff = diffSceneGraphs(
+    graph(workspace, node('game.Workspace.Crate', 'Part', { Anchored: true }, { attributes: { Hp: 10 }, tags: ['Loot'] })),
+    graph(workspace, node('game.Workspace.Crate', 'MeshPart', { Anchored: false }, { attributes: { Hp: 5, Team: 'Red' }, tags: ['Loot', 'Heavy'] })),
+  );
+  assert.deepEqual(diff.changed, [
+    {
+      path: 'game.Workspace.Crate',
+      className: 'MeshPart',
+      changes: [
+        { key: 'ClassName', from: 'Part', to: 'MeshPart' },
+        { key: '@Hp', from: 10, to: 5 },
+        { key: '@Team', from: undefined, to: 'Red' },
+        { key: 'Anchored', from: true, to: false },
+        { key: 'Tags', from: ['Loot'], to: ['Heavy', 'Loot'] },
+      ],
+    },
+  ]);
+});
+
+runChecks();
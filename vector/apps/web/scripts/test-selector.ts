@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+/**
+ * find_instances Selector Checks
+ *
+ * Offline checks for the selector parser behind find_instances and for selector
+ * matching and pagination against a small scene graph.
+ *
+ * Usage:
+ *   npm run test:selector
+ *
+ * @module scripts/test-selector
+ */
+
+import assert from 'node:assert/strict';
+import { findSceneInstances, parseSceneSelector, SelectorSyntaxError } from '../lib/orchestrator/sceneSelector';
+import { hydrateSceneSnapshot } from '../lib/orchestrator/sceneGraph';
+import type { SnapshotNode } from '../lib/orchestrator/sceneGraph';
+import type { TaskState } from '../lib/orchestrator/taskState';
+import { check, runChecks } from './checks';
+
+check('selector: request example', () => {
+  const steps = parseSceneSelector('Workspace Model[Name^=Tower] > Part.Anchored=true');
+  assert.deepEqual(steps, [
+    { compound: { className: 'Workspace', where: [] }, combinator: 'descendant' },
+    { compound: { className: 'Model', where: [{ key: 'Name', op: 'prefix', value: 'Tower' }] }, combinator: 'child' },
+    { compound: { className: 'Part', where: [{ key: 'Anchored', op: 'eq', value: 'true' }] } },
+  ]);
+});
+
+check('selector: decimals after .Prop= stay intact', () => {
+  const [step, child] = parseSceneSelector('Model.Scale>=1.5 > Part.Transparency<0.25');
+  assert.deepEqual(step.compound.where, [{ key: 'Scale', op: 'gte', value: '1.5' }]);
+  assert.equal(step.combinator, 'child');
+  assert.deepEqual(child.compound.where, [{ key: 'Transparency', op: 'lt', value: '0.25' }]);
+  const [spaced] = parseSceneSelector('Part.Transparency=0.25[Anchored=true]');
+  assert.deepEqual(spaced.compound.where, [
+    { key: 'Transparency', op: 'eq', value: '0.25' },
+    { key: 'Anchored', op: 'eq', value: 'true' },
+  ]);
+});
+
+check('selector: quoted values keep spaces and brackets', () => {
+  const [step] = parseSceneSelector(`*[Name="Spawn > Pad"][@Team='Red [A]']`);
+  assert.equal(step.compound.className, undefined);
+  assert.deepEqual(step.compound.where, [
+    { key: 'Name', op: 'eq', value: 'Spawn > Pad' },
+    { key: '@Team', op: 'eq', value: 'Red [A]' },
+  ]);
+  const [named] = parseSceneSelector('#"Main Door"');
+  assert.deepEqual(named.compound.where, [{ key: 'Name', op: 'eq', value: 'Main Door' }]);
+});
+
+check('selector: bracket predicates allow padding and bare existence', () => {
+  const [step] = parseSceneSelector('Model[ PrimaryPart ][ Name *= Tower ]');
+  assert.deepEqual(step.compound.where, [
+    { key: 'PrimaryPart', op: 'exists' },
+    { key: 'Name', op: 'contains', value: 'Tower' },
+  ]);
+});
+
+check('selector: malformed input throws SelectorSyntaxError', () => {
+  const bad = ['', '   ', 'Part >', 'Model[Name=Tower', '[=x]', 'Part[Name="open]', 'Part,Model', 'Model >> Part'];
+  for (const selector of bad) {
+    assert.throws(() => parseSceneSelector(selector), SelectorSyntaxError, `expected "${selector}" to be rejected`);
+  }
+});
+
+/**
+ * Task state holding only a scene built from snapshot nodes
+ */
+function sceneState(nodes: SnapshotNode[]): TaskState {
+  const state = { taskId: 'test-selector', scene: { nodes: {} } } as TaskState;
+  hydrateSceneSnapshot(state, { nodes });
+  return state;
+}
+
+const towers = sceneState([
+  { path: 'game.Workspace', className: 'Workspace', name: 'Workspace' },
+  { path: 'game.Workspace.TowerA', className: 'Model', name: 'TowerA' },
+  { path: 'game.Workspace.TowerA.Base', className: 'Part', name: 'Base', props: { Anchored: true, Transparency: 0 } },
+  { path: 'game.Workspace.TowerA.Top', className: 'Part', name: 'Top', props: { Anchored: false, Transparency: 0.5 }, tags: ['Glow'] },
+  { path: 'game.Workspace.TowerA.Deco', className: 'Folder', name: 'Deco' },
+  { path: 'game.Workspace.TowerA.Deco.Flag', className: 'Part', name: 'Flag', props: { Anchored: true }, attributes: { Team: 'Red' } },
+  { path: 'game.Workspace.Bridge', className: 'Model', name: 'Bridge' },
+  { path: 'game.Workspace.Bridge.Plank', className: 'Part', name: 'Plank', props: { Anchored: true } },
+]);
+
+/**
+ * Paths find_instances returns for a selector
+ */
+function findPaths(selector: string): string[] {
+  return findSceneInstances(towers, { selector }).results.map((r) => r.path);
+}
+
+check('find: request example matches direct children only', () => {
+  assert.deepEqual(findPaths('Workspace Model[Name^=Tower] > Part.Anchored=true'), ['game.Workspace.TowerA.Base']);
+  assert.deepEqual(findPaths('Workspace Model[Name^=Tower] Part.Anchored=true'), [
+    'game.Workspace.TowerA.Base',
+    'game.Workspace.TowerA.Deco.Flag',
+  ]);
+});
+
+check('find: numeric comparisons, tags and attributes', () => {
+  assert.deepEqual(findPaths('Part.Transparency>0.25'), ['game.Workspace.TowerA.Top']);
+  assert.deepEqual(findSceneInstances(towers, { selector: 'Part', tags: ['Glow'] }).results.map((r) => r.name), ['Top']);
+  assert.deepEqual(findSceneInstances(towers, { attributes: { Team: 'Red' } }).results.map((r) => r.name), ['Flag']);
+  assert.deepEqual(findPaths('Part[@Team=Red]'), ['game.Workspace.TowerA.Deco.Flag']);
+});
+
+check('find: pages are stable and report the next offset', () => {
+  const first = findSceneInstances(towers, { selector: 'Part', limit: 3 });
+  assert.equal(first.total, 4);
+  assert.equal(first.nextOffset, 3);
+  const second = findSceneInstances(towers, { selector: 'Part', offset: first.nextOffset ?? 0, limit: 3 });
+  assert.equal(second.nextOffset, null);
+  const all = [...first.results, ...second.results].map((r) => r.path);
+  assert.deepEqual(all, [...all].sort());
+  assert.equal(new Set(all).size, 4);
+});
+
+check('find: selected properties include tags and attributes', () => {
+  const { results } = findSceneInstances(towers, { selector: '#Flag', properties: ['Anchored', '@Team', 'Tags', 'Missing'] });
+  assert.deepEqual(results[0].props, { Anchored: true, '@Team': 'Red', Tags: [] });
+});
+
+runChecks();
@@ -17,10 +17,16 @@ local InsertService = game:GetService("InsertService")
 local UserInputService = game:GetService("UserInputService")
 local ServerStorage = game:GetService("ServerStorage")
 local TweenService = game:GetService("TweenService")
+local CollectionService = game:GetService("CollectionService")
 local ToolCreate = require(script.Parent.tools.create_instance)
 local ToolSetProps = require(script.Parent.tools.set_properties)
 local ToolRename = require(script.Parent.tools.rename_instance)
 local ToolDelete = require(script.Parent.tools.delete_instance)
+local ToolMove = require(script.Parent.tools.move_instance)
+local ToolClone = require(script.Parent.tools.clone_instance)
+local ToolSetAttributes = require(script.Parent.tools.set_attributes)
+local ToolAddTag = require(script.Parent.tools.add_tag)
+local ToolRemoveTag = require(script.Parent.tools.remove_tag)
 local ToolApplyEdit = require(script.Parent.tools.apply_edit)
 local ToolListCodeDefinitions = require(script.Parent.tools.list_code_definition_names)
 
@@ -33,6 +39,7 @@ _G.__VECTOR_LAST_WORKFLOW_ID = _G.__VECTOR_LAST_WORKFLOW_ID or nil
 -- UI state (shared across UI and actions)
 local CURRENT_MODE = "agent" -- or "ask"
 
+-- Static picker entries; replaced by the backend provider registry once /api/providers responds (see loadModelOptions)
 local MODEL_OPTIONS = {
 	{ id = "openrouter", label = "OpenRouter (.env)", override = nil },
 	{ id = "gemini-2.5-flash", label = "Gemini (direct)", override = "gemini-2.5-flash" },
@@ -51,7 +58,9 @@ local function setModelOverride(idx)
 	local clamped = clampModelIndex(idx)
 	local opt = MODEL_OPTIONS[clamped] or MODEL_OPTIONS[1]
 	_G.__VECTOR_MODEL_INDEX = clamped
+	_G.__VECTOR_MODEL_ID = opt.id
 	_G.__VECTOR_MODEL_OVERRIDE = opt.override
+	_G.__VECTOR_MODEL_PROVIDER = opt.provider
 	return opt
 end
 
@@ -59,6 +68,10 @@ local function getModelOverride()
 	return _G.__VECTOR_MODEL_OVERRIDE
 end
 
+local function getModelProvider()
+	return _G.__VECTOR_MODEL_PROVIDER
+end
+
 local function getActiveScriptContext()
 	local s = StudioService.ActiveScript
 	if not s then
@@ -122,6 +135,27 @@ local function captureSceneSnapshot()
                     end
                 end
                 local props = { Name = inst.Name }
+                -- Tags and primitive attributes make find_instances filters work server-side
+                local okTags, tags = pcall(function() return CollectionService:GetTags(inst) end)
+                if okTags and type(tags) == "table" and #tags > 0 then
+                    node.tags = tags
+                end
+                local okAttrs, attrs = pcall(function() return inst:GetAttributes() end)
+                if okAttrs and type(attrs) == "table" then
+                    local attributes = {}
+                    local any = false
+                    for key, value in pairs(attrs) do
+                        local kind = type(value)
+                        if kind == "string" or kind == "number" or kind == "boolean" then
+                            attributes[key] = value
+                            any = true
+                        elseif typeof(value) == "Vector3" then
+                            attributes[key] = serializeVector3(value)
+                            any = true
+                        end
+                    end
+                    if any then node.attributes = attributes end
+                end
                 if inst:IsA("BasePart") then
                     props.Anchored = inst.Anchored
                     props.Size = serializeVector3(inst.Size)
@@ -729,6 +763,43 @@ local function reportApply(proposalId, payload)
     end)
 end
 
+-- Per-op apply reports; a bulk_create proposal collects them and finish() sends one combined
+-- report instead of one POST per created instance
+local function applyReporter(p)
+    local results = p.bulk and {} or nil
+    local function report(payload)
+        if results then
+            table.insert(results, payload)
+        else
+            reportApply(p.id, payload)
+        end
+    end
+    local function finish()
+        if not results then return end
+        local failed = 0
+        for _, r in ipairs(results) do
+            if not r.ok then failed += 1 end
+        end
+        reportApply(p.id, {
+            ok = failed == 0,
+            type = p.type,
+            op = "bulk_create",
+            results = results,
+            error = failed > 0 and string.format("%d of %d ops failed", failed, #results) or nil,
+        })
+    end
+    return report, finish
+end
+
+-- Rejections are fed back to the agent as workflow history (POST /api/proposals/:id/reject)
+local function reportReject(proposalId, reason)
+    local base = getBackendBaseUrl()
+    local url = string.format("%s/api/proposals/%s/reject", base, tostring(proposalId))
+    task.spawn(function()
+        Http.postJson(url, { reason = reason })
+    end)
+end
+
 local function applyRenameOp(op)
     local res = ToolRename(op.path, op.newName)
     return res and res.ok == true, res and res.error
@@ -739,6 +810,9 @@ local function summarizeProposal(p)
 		local count = (p.diff and p.diff.edits and #p.diff.edits) or 0
 		return string.format("Edit: %s (%d change%s)", p.path, count, count == 1 and "" or "s")
 	elseif p.type == "object_op" then
+		if p.bulk then
+			return string.format("Create %d × %s", tonumber(p.bulk.count) or 0, tostring(p.bulk.className))
+		end
 		return "Object ops (" .. tostring(#p.ops or 0) .. ")"
 	elseif p.type == "asset_op" then
 		if p.search then
@@ -750,6 +824,43 @@ local function summarizeProposal(p)
 	return "Proposal"
 end
 
+-- Rebuild MODEL_OPTIONS from the backend registry: one entry per model of each configured provider
+local function loadModelOptions()
+	local okReq, resp = pcall(function()
+		return Http.getJson(string.format("%s/api/providers", getBackendBaseUrl()))
+	end)
+	if not okReq or not resp or not resp.Success then
+		return false
+	end
+	local ok, json = pcall(function()
+		return HttpService:JSONDecode(resp.Body)
+	end)
+	if not ok or type(json) ~= "table" or type(json.providers) ~= "table" then
+		return false
+	end
+	local preferred, others = {}, {}
+	for _, p in ipairs(json.providers) do
+		if p.configured and type(p.models) == "table" then
+			local bucket = (p.name == json.defaultProvider) and preferred or others
+			for _, model in ipairs(p.models) do
+				table.insert(bucket, {
+					id = p.name .. ":" .. tostring(model),
+					label = string.format("%s · %s", p.label or p.name, tostring(model)),
+					override = model,
+					provider = p.name,
+				})
+			end
+		end
+	end
+	if #preferred + #others == 0 then
+		return false
+	end
+	table.clear(MODEL_OPTIONS)
+	for _, opt in ipairs(preferred) do table.insert(MODEL_OPTIONS, opt) end
+	for _, opt in ipairs(others) do table.insert(MODEL_OPTIONS, opt) end
+	return true
+end
+
 local function fetchAssets(query, limit, tags)
 	local base = getBackendBaseUrl()
 	local url = string.format("%s/api/assets/search?query=%s&limit=%d", base, HttpService:UrlEncode(query or ""), limit or 8)
@@ -810,7 +921,7 @@ local function restoreCheckpointRequest(checkpointId, mode)
     if not ok or type(parsed) ~= "table" or not parsed.checkpoint then
         return false, "Invalid checkpoint restore"
     end
-    return true, parsed.checkpoint
+    return true, parsed.checkpoint, parsed.proposals
 end
 
 local function insertAsset(assetId, parentPath)
@@ -1424,6 +1535,17 @@ local function buildUI(gui)
     modelBtn.MouseButton1Click:Connect(function()
         updateModel(modelIndex + 1)
     end)
+    task.spawn(function()
+        if not loadModelOptions() then return end
+        local idx = 1
+        for i, opt in ipairs(MODEL_OPTIONS) do
+            if opt.id == _G.__VECTOR_MODEL_ID then
+                idx = i
+                break
+            end
+        end
+        updateModel(idx)
+    end)
 
 	-- Status / Plan area (like Cursor). Reflowed below the composer
 	local statusFrame = Instance.new("ScrollingFrame")
@@ -1542,6 +1664,24 @@ local function buildUI(gui)
         lbl.Parent = card
         statusFrame.CanvasSize = UDim2.new(0, 0, 0, statusFrame.UIListLayout.AbsoluteContentSize.Y + 16)
         if _G.__VECTOR_UI and _G.__VECTOR_UI.reflow then _G.__VECTOR_UI.reflow() end
+        return card, lbl
+    end
+
+    -- single card updated in place while the model is still generating
+    local liveCard, liveLabel = nil, nil
+    local function uiSetLiveText(text)
+        if text == nil or text == "" then
+            if liveCard then liveCard:Destroy() end
+            liveCard, liveLabel = nil, nil
+            statusFrame.CanvasSize = UDim2.new(0, 0, 0, statusFrame.UIListLayout.AbsoluteContentSize.Y + 16)
+            return
+        end
+        if not liveCard or not liveCard.Parent then
+            liveCard, liveLabel = uiAddTextBlock("")
+            liveLabel.TextColor3 = Color3.fromRGB(170, 170, 170)
+        end
+        liveLabel.Text = tostring(text)
+        statusFrame.CanvasSize = UDim2.new(0, 0, 0, statusFrame.UIListLayout.AbsoluteContentSize.Y + 16)
     end
 
     -- compact tool summary block (used in Ask mode)
@@ -1677,6 +1817,7 @@ local function buildUI(gui)
         reflow = reflow,
         addStatus = uiAddStatus,
         addText = uiAddTextBlock,
+        setLiveText = uiSetLiveText,
         addToolChip = uiAddToolSummary,
         setProgress = setProgress,
         setRuns = renderRuns,
@@ -1781,11 +1922,27 @@ local function renderProposals(list, proposals)
 			snippet.Text = string.sub(p.preview.unified, 1, 300)
 			elseif p.type == "edit" and p.diff and p.diff.edits and p.diff.edits[1] then
 			snippet.Text = "Insert: " .. string.sub(p.diff.edits[1].text or "", 1, 200)
+			elseif p.type == "object_op" and p.bulk then
+			snippet.Text = "Under " .. tostring(p.bulk.parentPath)
 			elseif p.type == "object_op" and p.ops and p.ops[1] and p.ops[1].op == "rename_instance" then
 			snippet.Text = "Rename → " .. tostring(p.ops[1].newName)
+			elseif p.type == "object_op" and p.ops and p.ops[1] and p.ops[1].op == "move_instance" then
+			snippet.Text = "Move → " .. tostring(p.ops[1].newParentPath)
+			elseif p.type == "object_op" and p.ops and p.ops[1] and p.ops[1].op == "set_attributes" then
+			local names = {}
+			for name in pairs(p.ops[1].attributes or {}) do table.insert(names, name) end
+			for _, name in ipairs(p.ops[1].remove or {}) do table.insert(names, "-" .. name) end
+			snippet.Text = "Attributes: " .. table.concat(names, ", ")
+			elseif p.type == "object_op" and p.ops and p.ops[1] and (p.ops[1].op == "add_tag" or p.ops[1].op == "remove_tag") then
+			snippet.Text = (p.ops[1].op == "add_tag" and "Tag +" or "Untag -") .. table.concat(p.ops[1].tags or {}, ", ")
+			elseif p.type == "object_op" and p.ops and p.ops[1] and p.ops[1].op == "clone_instance" then
+			snippet.Text = "Clone " .. tostring(p.ops[1].path) .. (p.ops[1].newName and (" as " .. tostring(p.ops[1].newName)) or "")
 			else
 				snippet.Text = p.notes or ""
 			end
+			if type(p.warnings) == "table" and #p.warnings > 0 then
+				snippet.Text = snippet.Text .. "\n⚠ " .. table.concat(p.warnings, "\n⚠ ")
+			end
 		end
 		if p.type == "edit" and p.__conflicts then
 			snippet.Text = "⚠️ Merge conflict detected. Open diff to review hunks."
@@ -1937,6 +2094,7 @@ local function renderProposals(list, proposals)
 				end
 			elseif p.type == "object_op" and p.ops then
 				ensurePermissionWithStatus()
+				local report, finishReports = applyReporter(p)
 				local appliedAny = false
 				local lastErr
 				for _, op in ipairs(p.ops) do
@@ -1945,28 +2103,49 @@ local function renderProposals(list, proposals)
 						local res = ToolCreate(op.className, op.parentPath, op.props)
 						ok = res and res.ok == true
 						infoOrErr = res and (res.path or res.error)
-						reportApply(p.id, { ok = ok, type = p.type, op = op.op, className = op.className, parentPath = op.parentPath, path = res and res.path, error = res and res.error })
+						report({ ok = ok, type = p.type, op = op.op, className = op.className, parentPath = op.parentPath, path = res and res.path, props = op.props, error = res and res.error })
 					elseif op.op == "set_properties" then
 						local res = ToolSetProps(op.path, op.props)
 						ok = res and res.ok == true
 						infoOrErr = (res and res.errors and #res.errors > 0) and HttpService:JSONEncode(res.errors) or (res and res.error)
-						reportApply(p.id, { ok = ok, type = p.type, op = op.op, path = op.path, props = op.props, error = infoOrErr })
+						report({ ok = ok, type = p.type, op = op.op, path = op.path, props = op.props, error = infoOrErr })
 					elseif op.op == "rename_instance" then
 						ok, infoOrErr = applyRenameOp(op)
-						reportApply(p.id, { ok = ok, type = p.type, op = op.op, path = op.path, newName = op.newName, error = infoOrErr })
+						report({ ok = ok, type = p.type, op = op.op, path = op.path, newName = op.newName, error = infoOrErr })
 					elseif op.op == "delete_instance" then
 						local res = ToolDelete(op.path)
 						ok = res and res.ok == true
 						infoOrErr = res and res.error
-						reportApply(p.id, { ok = ok, type = p.type, op = op.op, path = op.path, error = infoOrErr })
+						report({ ok = ok, type = p.type, op = op.op, path = op.path, error = infoOrErr })
+					elseif op.op == "move_instance" then
+						local res = ToolMove(op.path, op.newParentPath)
+						ok = res and res.ok == true
+						infoOrErr = res and (res.path or res.error)
+						report({ ok = ok, type = p.type, op = op.op, path = op.path, newParentPath = op.newParentPath, newPath = res and res.path, error = res and res.error })
+					elseif op.op == "clone_instance" then
+						local res = ToolClone(op.path, op.parentPath, op.newName)
+						ok = res and res.ok == true
+						infoOrErr = res and (res.path or res.error)
+						report({ ok = ok, type = p.type, op = op.op, path = op.path, parentPath = op.parentPath, newName = op.newName, newPath = res and res.path, error = res and res.error })
+					elseif op.op == "set_attributes" then
+						local res = ToolSetAttributes(op.path, op.attributes, op.remove)
+						ok = res and res.ok == true
+						infoOrErr = (res and res.errors and #res.errors > 0) and HttpService:JSONEncode(res.errors) or (res and res.error)
+						report({ ok = ok, type = p.type, op = op.op, path = op.path, attributes = op.attributes, remove = op.remove, error = infoOrErr })
+					elseif op.op == "add_tag" or op.op == "remove_tag" then
+						local res = (op.op == "add_tag" and ToolAddTag or ToolRemoveTag)(op.path, op.tags)
+						ok = res and res.ok == true
+						infoOrErr = res and res.error
+						report({ ok = ok, type = p.type, op = op.op, path = op.path, tags = op.tags, error = infoOrErr })
 					else
 						ok = false
 						infoOrErr = "Unknown op: " .. tostring(op.op)
-						reportApply(p.id, { ok = false, type = p.type, op = tostring(op.op), error = infoOrErr })
+						report({ ok = false, type = p.type, op = tostring(op.op), error = infoOrErr })
 					end
 					appliedAny = appliedAny or ok
 					if not ok and not lastErr then lastErr = infoOrErr end
 				end
+				finishReports()
 				title.Text = (appliedAny and "✅ Applied " or "🔴 Failed ") .. summarizeProposal(p)
 				if not appliedAny and lastErr then snippet.Text = tostring(lastErr) end
 			else
@@ -1976,28 +2155,102 @@ local function renderProposals(list, proposals)
 		end)
 
 		reject.MouseButton1Click:Connect(function()
+			if p.type ~= "completion" then
+				reportReject(p.id, "Rejected in Studio: " .. summarizeProposal(p))
+			end
 			item:Destroy()
 		end)
 	end
 	list.CanvasSize = UDim2.new(0, 0, 0, list.UIListLayout.AbsoluteContentSize.Y + 16)
 end
 
+-- Scene sync: the first request of a workflow sends a full snapshot; later requests send
+-- added/changed/removed nodes against the version the backend last acknowledged (sceneSync.version
+-- in the response). A 409 with sceneSync.status "stale" drops the baseline and resends a snapshot.
+local sceneSync = { workflowId = nil, version = nil, sent = {} }
+
+local function encodeSceneSync(scene, workflowId)
+    local nodes = (scene and scene.nodes) or {}
+    local version = HttpService:GenerateGUID(false)
+    local fingerprints = {}
+    for _, node in ipairs(nodes) do
+        local ok, encoded = pcall(function() return HttpService:JSONEncode(node) end)
+        fingerprints[node.path] = ok and encoded or version
+    end
+    if not workflowId or sceneSync.workflowId ~= workflowId or not sceneSync.version then
+        return { version = version, nodes = nodes }, fingerprints
+    end
+    local added, changed, removed = {}, {}, {}
+    for _, node in ipairs(nodes) do
+        local prev = sceneSync.sent[node.path]
+        if prev == nil then
+            table.insert(added, node)
+        elseif prev ~= fingerprints[node.path] then
+            table.insert(changed, node)
+        end
+    end
+    for path, prev in pairs(sceneSync.sent) do
+        if fingerprints[path] == nil then
+            if resolveByFullName(path) == nil then
+                table.insert(removed, path)
+            else
+                -- Still in the place, just outside this snapshot window: the backend keeps its copy
+                fingerprints[path] = prev
+            end
+        end
+    end
+    return {
+        version = version,
+        baseVersion = sceneSync.version,
+        delta = { added = added, changed = changed, removed = removed },
+    }, fingerprints
+end
+
 local function sendChat(projectId, message, ctx, workflowId, opts)
     local base = getBackendBaseUrl()
     local url = string.format("%s/api/chat", base)
-    -- Provider settings now live in backend .env; omit provider in request
-    local resp = Http.postJson(url, {
-        projectId = projectId,
-        message = message,
-        context = ctx,
-        provider = nil,
-        workflowId = workflowId,
-        mode = opts and opts.mode or nil,
-        maxTurns = opts and opts.maxTurns or nil,
-        enableFallbacks = opts and opts.enableFallbacks or nil,
-        modelOverride = opts and opts.modelOverride or nil,
-        autoApply = opts and opts.autoApply or nil,
-    })
+    -- Provider keys live in backend .env; a registry entry only sends its provider name + model
+    local provider = nil
+    local modelOverride = opts and opts.modelOverride or nil
+    if opts and opts.provider then
+        provider = { name = opts.provider, model = modelOverride }
+        modelOverride = nil
+    end
+    local function post(scene)
+        local context = {}
+        for k, v in pairs(ctx or {}) do context[k] = v end
+        context.scene = scene
+        return Http.postJson(url, {
+            projectId = projectId,
+            message = message,
+            context = context,
+            provider = provider,
+            workflowId = workflowId,
+            mode = opts and opts.mode or nil,
+            maxTurns = opts and opts.maxTurns or nil,
+            enableFallbacks = opts and opts.enableFallbacks or nil,
+            modelOverride = modelOverride,
+            autoApply = opts and opts.autoApply or nil,
+        })
+    end
+    local scene, fingerprints = encodeSceneSync(ctx and ctx.scene, workflowId)
+    local resp = post(scene)
+    if resp.StatusCode == 409 and scene.delta then
+        local ok, parsed = pcall(function() return HttpService:JSONDecode(resp.Body) end)
+        if ok and type(parsed) == "table" and type(parsed.sceneSync) == "table" and parsed.sceneSync.status == "stale" then
+            sceneSync.version = nil
+            scene, fingerprints = encodeSceneSync(ctx and ctx.scene, nil)
+            resp = post(scene)
+        end
+    end
+    if resp.Success then
+        local ok, parsed = pcall(function() return HttpService:JSONDecode(resp.Body) end)
+        if ok and type(parsed) == "table" and type(parsed.sceneSync) == "table" and parsed.sceneSync.version == scene.version then
+            sceneSync.workflowId = parsed.workflowId
+            sceneSync.version = scene.version
+            sceneSync.sent = fingerprints
+        end
+    end
     return resp
 end
 
@@ -2011,7 +2264,65 @@ print("[Vector] toolbar created")
 local activePollers = {}
 local gui = nil
 
+-- Partial output from assistant.delta / tool.delta chunks (JSON payloads)
+local liveStream = { turn = nil, text = "", tool = nil }
+
+local function resetLiveStream()
+    liveStream.turn = nil
+    liveStream.text = ""
+    liveStream.tool = nil
+    if _G.__VECTOR_UI and _G.__VECTOR_UI.setLiveText then _G.__VECTOR_UI.setLiveText(nil) end
+end
+
+local function handleDeltaLine(line)
+    local kind, payload = string.match(line, "^(%S+)%s+(.*)$")
+    local ok, data = pcall(function() return HttpService:JSONDecode(payload or "") end)
+    if not ok or type(data) ~= "table" then return end
+    if data.turn ~= liveStream.turn then
+        liveStream.turn = data.turn
+        liveStream.text = ""
+        liveStream.tool = nil
+    end
+    if kind == "assistant.delta" then
+        liveStream.text = liveStream.text .. tostring(data.text or "")
+    elseif kind == "tool.delta" then
+        local parts = {}
+        if type(data.args) == "table" then
+            for k, v in pairs(data.args) do
+                local value = type(v) == "table" and HttpService:JSONEncode(v) or tostring(v)
+                table.insert(parts, tostring(k) .. "=" .. value)
+            end
+        end
+        liveStream.tool = tostring(data.name or "tool") .. " " .. table.concat(parts, " ")
+    end
+    local body = liveStream.text
+    if liveStream.tool then
+        -- hide raw tool XML once it is shown as a parsed call
+        body = (string.match(body, "^(.-)<%a") or body) .. "\n▶ " .. liveStream.tool
+    end
+    if _G.__VECTOR_UI and _G.__VECTOR_UI.setLiveText then _G.__VECTOR_UI.setLiveText(body) end
+end
+
     local function appendStatus(container, text)
+    local rawLine = tostring(text)
+    if string.find(rawLine, "^assistant%.delta ") or string.find(rawLine, "^tool%.delta ") then
+        handleDeltaLine(rawLine)
+        return
+    end
+    if string.find(rawLine, "^provider%.response") or string.find(rawLine, "^error%.provider") then
+        resetLiveStream()
+    end
+    if string.find(rawLine, "^cancelled") then
+        -- run was interrupted server-side: drop partial output and stop the progress chip
+        resetLiveStream()
+        _G.__VECTOR_PROGRESS = 0
+        if _G.__VECTOR_UI and _G.__VECTOR_UI.setProgress then _G.__VECTOR_UI.setProgress(0) end
+        local runs = _G.__VECTOR_RUNS
+        if type(runs) == "table" and #runs > 0 and runs[#runs].status == "running" then
+            runs[#runs].status = "failed"
+            if _G.__VECTOR_UI and _G.__VECTOR_UI.setRuns then _G.__VECTOR_UI.setRuns(runs) end
+        end
+    end
     -- Reveal the status panel on first chunk
     if container and container.Visible == false then
         container.Visible = true
@@ -2223,7 +2534,8 @@ local function toggleDock()
 			shouldAuto = p.meta.autoApproved == true
 		end
 		if not shouldAuto then
-			ui.addStatus("auto.skip (needs approval) " .. tostring(p.notes or p.id or "proposal"))
+			local why = (p.meta and p.meta.autoApproveReason) and (": " .. tostring(p.meta.autoApproveReason)) or ""
+			ui.addStatus("auto.skip (needs approval" .. why .. ") " .. tostring(p.notes or p.id or "proposal"))
 			return false
 		end
 		if p.type == "edit" then
@@ -2235,33 +2547,60 @@ local function toggleDock()
 			return ok
 		elseif p.type == "object_op" and p.ops then
 			ensurePermissionWithStatus()
+			local report, finishReports = applyReporter(p)
 			local appliedAny = false
 			for _, op in ipairs(p.ops) do
 				if op.op == "create_instance" then
 					ui.addStatus("auto.create " .. tostring(op.className) .. " under " .. tostring(op.parentPath))
 					local res = ToolCreate(op.className, op.parentPath, op.props)
 					appliedAny = appliedAny or (res and res.ok == true)
-					reportApply(p.id, { ok = res and res.ok == true, type = p.type, op = op.op, className = op.className, parentPath = op.parentPath, path = res and res.path, error = res and res.error })
+					report({ ok = res and res.ok == true, type = p.type, op = op.op, className = op.className, parentPath = op.parentPath, path = res and res.path, props = op.props, error = res and res.error })
 				elseif op.op == "set_properties" then
 					ui.addStatus("auto.set_properties → " .. tostring(op.path))
 					local res = ToolSetProps(op.path, op.props)
 					local ok = res and res.ok == true
 					appliedAny = appliedAny or ok
 					local infoOrErr = (res and res.errors and #res.errors > 0) and HttpService:JSONEncode(res.errors) or (res and res.error)
-					reportApply(p.id, { ok = ok, type = p.type, op = op.op, path = op.path, props = op.props, error = infoOrErr })
+					report({ ok = ok, type = p.type, op = op.op, path = op.path, props = op.props, error = infoOrErr })
 				elseif op.op == "rename_instance" then
 					ui.addStatus("auto.rename → " .. tostring(op.path))
 					local ok, infoOrErr = applyRenameOp(op)
 					appliedAny = appliedAny or ok
-					reportApply(p.id, { ok = ok, type = p.type, op = op.op, path = op.path, newName = op.newName, error = infoOrErr })
+					report({ ok = ok, type = p.type, op = op.op, path = op.path, newName = op.newName, error = infoOrErr })
 				elseif op.op == "delete_instance" then
 					ui.addStatus("auto.delete → " .. tostring(op.path))
 					local res = ToolDelete(op.path)
 					local ok = res and res.ok == true
 					appliedAny = appliedAny or ok
-					reportApply(p.id, { ok = ok, type = p.type, op = op.op, path = op.path, error = res and res.error })
+					report({ ok = ok, type = p.type, op = op.op, path = op.path, error = res and res.error })
+				elseif op.op == "move_instance" then
+					ui.addStatus("auto.move → " .. tostring(op.path) .. " into " .. tostring(op.newParentPath))
+					local res = ToolMove(op.path, op.newParentPath)
+					local ok = res and res.ok == true
+					appliedAny = appliedAny or ok
+					report({ ok = ok, type = p.type, op = op.op, path = op.path, newParentPath = op.newParentPath, newPath = res and res.path, error = res and res.error })
+				elseif op.op == "clone_instance" then
+					ui.addStatus("auto.clone → " .. tostring(op.path))
+					local res = ToolClone(op.path, op.parentPath, op.newName)
+					local ok = res and res.ok == true
+					appliedAny = appliedAny or ok
+					report({ ok = ok, type = p.type, op = op.op, path = op.path, parentPath = op.parentPath, newName = op.newName, newPath = res and res.path, error = res and res.error })
+				elseif op.op == "set_attributes" then
+					ui.addStatus("auto.set_attributes → " .. tostring(op.path))
+					local res = ToolSetAttributes(op.path, op.attributes, op.remove)
+					local ok = res and res.ok == true
+					appliedAny = appliedAny or ok
+					local infoOrErr = (res and res.errors and #res.errors > 0) and HttpService:JSONEncode(res.errors) or (res and res.error)
+					report({ ok = ok, type = p.type, op = op.op, path = op.path, attributes = op.attributes, remove = op.remove, error = infoOrErr })
+				elseif op.op == "add_tag" or op.op == "remove_tag" then
+					ui.addStatus("auto." .. op.op .. " → " .. tostring(op.path))
+					local res = (op.op == "add_tag" and ToolAddTag or ToolRemoveTag)(op.path, op.tags)
+					local ok = res and res.ok == true
+					appliedAny = appliedAny or ok
+					report({ ok = ok, type = p.type, op = op.op, path = op.path, tags = op.tags, error = res and res.error })
 				end
 			end
+			finishReports()
 			return appliedAny
 	elseif p.type == "asset_op" then
 		if p.insert and p.insert.assetId then
@@ -2377,7 +2716,7 @@ local function maybeAutoContinue(workflowId)
 					_G.__VECTOR_LAST_ASSET_ERROR = nil
 				end
 				local mode = CURRENT_MODE
-				local opts = { mode = mode, maxTurns = (mode == "ask") and 1 or nil, enableFallbacks = true, modelOverride = getModelOverride(), autoApply = _G.__VECTOR_AUTO }
+				local opts = { mode = mode, maxTurns = (mode == "ask") and 1 or nil, enableFallbacks = true, modelOverride = getModelOverride(), provider = getModelProvider(), autoApply = _G.__VECTOR_AUTO }
 				local resp = sendChat("local", followup, buildContextSnapshot(), workflowId, opts)
 				if not resp.Success then ui.addStatus("auto.http " .. tostring(resp.StatusCode)); break end
 				local ok, parsed = pcall(function() return HttpService:JSONDecode(resp.Body) end)
@@ -2436,7 +2775,8 @@ local function maybeAutoContinue(workflowId)
         end
         local target = entries[1]
         ui.addStatus("checkpoint.restore → " .. tostring(target.id))
-        local ok, manifest = restoreCheckpointRequest(target.id, "both")
+        -- "all": conversation + workspace, plus proposals that roll Studio back to the checkpoint
+        local ok, manifest, rollback = restoreCheckpointRequest(target.id, "all")
         if not ok then
             ui.addStatus("checkpoint.restore err " .. tostring(manifest))
             return
@@ -2453,6 +2793,10 @@ local function maybeAutoContinue(workflowId)
         if manifest.taskState then
             applyTaskStateSnapshot(manifest.taskState)
         end
+        if type(rollback) == "table" and #rollback > 0 then
+            ui.addStatus("checkpoint.rollback " .. tostring(#rollback) .. " proposal(s) to review")
+            renderProposals(ui.list, rollback)
+        end
     end)
 
 	-- Extract send flow so both button and Enter key can trigger it
@@ -2474,6 +2818,7 @@ local function maybeAutoContinue(workflowId)
 			maxTurns = (mode == "ask") and 1 or nil,
 			enableFallbacks = true,
 			modelOverride = getModelOverride(),
+			provider = getModelProvider(),
 			autoApply = _G.__VECTOR_AUTO,
 		}
 		local resp = sendChat("local", ui.textBox.Text, ctx, nil, opts)
@@ -2560,7 +2905,7 @@ local function maybeAutoContinue(workflowId)
 		ui.sendBtn.AutoButtonColor = false
 		ui.sendBtn.TextTransparency = 0.4
 		local mode = CURRENT_MODE
-		local opts = { mode = mode, maxTurns = (mode == "ask") and 1 or nil, enableFallbacks = true, modelOverride = getModelOverride(), autoApply = _G.__VECTOR_AUTO }
+		local opts = { mode = mode, maxTurns = (mode == "ask") and 1 or nil, enableFallbacks = true, modelOverride = getModelOverride(), provider = getModelProvider(), autoApply = _G.__VECTOR_AUTO }
 		local resp = sendChat("local", lastMessage, lastCtx, nil, opts)
 		ui.sendBtn.Text = prevText
 		ui.sendBtn.AutoButtonColor = prevAutoColor
@@ -2591,7 +2936,7 @@ local function maybeAutoContinue(workflowId)
 		-- Ask the backend to continue with the next atomic step on the same workflow
 		local followup = "Next step: propose exactly one small, safe action."
 		local mode = CURRENT_MODE
-		local opts = { mode = mode, maxTurns = (mode == "ask") and 1 or nil, enableFallbacks = true, modelOverride = getModelOverride(), autoApply = _G.__VECTOR_AUTO }
+		local opts = { mode = mode, maxTurns = (mode == "ask") and 1 or nil, enableFallbacks = true, modelOverride = getModelOverride(), provider = getModelProvider(), autoApply = _G.__VECTOR_AUTO }
 		local resp = sendChat("local", followup, buildContextSnapshot(), lastWorkflowId, opts)
 		if not resp.Success then return end
 		local ok, parsed = pcall(function() return HttpService:JSONDecode(resp.Body) end)
@@ -0,0 +1,86 @@
+local ChangeHistoryService = game:GetService("ChangeHistoryService")
+
+local function resolveByFullName(path)
+    if typeof(path) == "Instance" then return path end
+    if type(path) ~= "string" or #path == 0 then return nil end
+    local function unquote(s)
+        if type(s) ~= "string" or #s < 2 then return s end
+        local a = string.sub(s,1,1)
+        local b = string.sub(s,-1,-1)
+        if (a == '"' or a == "'") and b == a then
+            return string.sub(s,2,-2)
+        end
+        return s
+    end
+    local tokens = {}
+    do
+        local buf, inBr = {}, false
+        for i = 1, #path do
+            local ch = string.sub(path, i, i)
+            if ch == "[" then inBr = true
+            elseif ch == "]" then inBr = false
+            elseif ch == "." and not inBr then
+                table.insert(tokens, unquote(table.concat(buf))); buf = {}
+            else
+                table.insert(buf, ch)
+            end
+        end
+        if #buf > 0 then table.insert(tokens, unquote(table.concat(buf))) end
+    end
+    local i = 1
+    if tokens[1] == "game" then i = 2 end
+    local cur
+    if tokens[i] then
+        local head = tokens[i]
+        local ok, svc = pcall(function() return game:GetService(head) end)
+        if ok and svc then cur = svc else cur = game:FindFirstChild(head) end
+        i += 1
+    else
+        cur = game
+    end
+    while cur and tokens[i] do
+        local child = cur:FindFirstChild(tokens[i])
+        if not child then return nil end
+        cur = child
+        i += 1
+    end
+    return cur
+end
+
+-- Deep-copies an instance (Instance:Clone) under parentPath (defaults to the source's parent),
+-- optionally renaming the copy. Returns { ok, path?, error? }
+return function(path, parentPath, newName)
+    local inst = resolveByFullName(path)
+    if not inst then
+        return { ok = false, error = "Instance not found: " .. tostring(path) }
+    end
+    local parent = inst.Parent
+    if parentPath ~= nil and parentPath ~= "" then
+        parent = resolveByFullName(parentPath)
+        if not parent then
+            return { ok = false, error = "Parent not found: " .. tostring(parentPath) }
+        end
+    end
+    if not parent then
+        return { ok = false, error = "Source has no parent; pass parentPath" }
+    end
+    if not ChangeHistoryService:TryBeginRecording("Vector Clone", "Vector Clone") then
+        return { ok = false, error = "Cannot start recording" }
+    end
+    local ok, result = pcall(function()
+        local wasArchivable = inst.Archivable
+        inst.Archivable = true
+        local copy = inst:Clone()
+        inst.Archivable = wasArchivable
+        if not copy then error("Instance cannot be cloned") end
+        if type(newName) == "string" and #newName > 0 then copy.Name = newName end
+        copy.Parent = parent
+        return copy
+    end)
+    ChangeHistoryService:FinishRecording("Vector Clone")
+    if ok then
+        return { ok = true, path = result:GetFullName() }
+    else
+        return { ok = false, error = tostring(result) }
+    end
+end
@@ -61,6 +61,13 @@ local function serialize(v)
     if t == "UDim" then return { __t = "UDim", s = v.Scale, o = v.Offset } end
     if t == "EnumItem" then return { __t = "EnumItem", enum = tostring(v.EnumType), name = v.Name, value = v.Value } end
     if t == "BrickColor" then return { __t = "BrickColor", name = v.Name, number = v.Number } end
+    if t == "NumberSequence" then
+        local points = {}
+        for _, kp in ipairs(v.Keypoints) do
+            table.insert(points, { time = kp.Time, value = kp.Value, envelope = kp.Envelope })
+        end
+        return { __t = "NumberSequence", keypoints = points }
+    end
     return tostring(v)
 end
 
@@ -0,0 +1,139 @@
+local ChangeHistoryService = game:GetService("ChangeHistoryService")
+
+local function resolveByFullName(path)
+    if typeof(path) == "Instance" then return path end
+    if type(path) ~= "string" or #path == 0 then return nil end
+    local function unquote(s)
+        if type(s) ~= "string" or #s < 2 then return s end
+        local a = string.sub(s,1,1)
+        local b = string.sub(s,-1,-1)
+        if (a == '"' or a == "'") and b == a then
+            return string.sub(s,2,-2)
+        end
+        return s
+    end
+    local tokens = {}
+    do
+        local buf, inBr = {}, false
+        for i = 1, #path do
+            local ch = string.sub(path, i, i)
+            if ch == "[" then inBr = true
+            elseif ch == "]" then inBr = false
+            elseif ch == "." and not inBr then
+                table.insert(tokens, unquote(table.concat(buf))); buf = {}
+            else
+                table.insert(buf, ch)
+            end
+        end
+        if #buf > 0 then table.insert(tokens, unquote(table.concat(buf))) end
+    end
+    local i = 1
+    if tokens[1] == "game" then i = 2 end
+    local cur
+    if tokens[i] then
+        local head = tokens[i]
+        local ok, svc = pcall(function() return game:GetService(head) end)
+        if ok and svc then cur = svc else cur = game:FindFirstChild(head) end
+        i += 1
+    else
+        cur = game
+    end
+    while cur and tokens[i] do
+        local child = cur:FindFirstChild(tokens[i])
+        if not child then return nil end
+        cur = child
+        i += 1
+    end
+    return cur
+end
+
+local function deserialize(v)
+    if type(v) ~= "table" or v.__t == nil then return v end
+    local t = v.__t
+    if t == "Vector3" then return Vector3.new(v.x or 0, v.y or 0, v.z or 0) end
+    if t == "Vector2" then return Vector2.new(v.x or 0, v.y or 0) end
+    if t == "Color3" then return Color3.new(v.r or 0, v.g or 0, v.b or 0) end
+    if t == "UDim" then
+        local s = v.s ~= nil and v.s or v.scale
+        local o = v.o ~= nil and v.o or v.offset
+        return UDim.new(s or 0, o or 0)
+    end
+    if t == "UDim2" then
+        -- Support both flat xS/xO/yS/yO and nested x/y {scale,offset}
+        local xS = v.xS; local xO = v.xO; local yS = v.yS; local yO = v.yO
+        if v.x and type(v.x) == "table" then xS = v.x.scale or v.x.s or xS; xO = v.x.offset or v.x.o or xO end
+        if v.y and type(v.y) == "table" then yS = v.y.scale or v.y.s or yS; yO = v.y.offset or v.y.o or yO end
+        return UDim2.new(xS or 0, xO or 0, yS or 0, yO or 0)
+    end
+    if t == "CFrame" then
+        local comps = v.comps or {}
+        if type(comps) == "table" and #comps >= 12 then
+            return CFrame.new(table.unpack(comps))
+        end
+        return CFrame.new()
+    end
+    if t == "EnumItem" then
+        local enumStr = v.enum or ""
+        local enumName = string.match(enumStr, "^Enum%.(.+)$") or enumStr
+        local name = v.name
+        local value = v.value
+        local ok, enumType = pcall(function() return Enum[enumName] end)
+        if ok and enumType then
+            if name and enumType[name] then
+                return enumType[name]
+            end
+            if value ~= nil then
+                local items = enumType:GetEnumItems()
+                for _, item in ipairs(items) do
+                    if item.Value == value then return item end
+                end
+            end
+        end
+        return nil
+    end
+    if t == "BrickColor" then
+        if v.number ~= nil then return BrickColor.new(v.number) end
+        if v.name ~= nil then return BrickColor.new(v.name) end
+        return BrickColor.White()
+    end
+    if t == "NumberSequence" then
+        local points = {}
+        for _, kp in ipairs(v.keypoints or {}) do
+            table.insert(points, NumberSequenceKeypoint.new(kp.time or 0, kp.value or 0, kp.envelope or 0))
+        end
+        if #points >= 2 then return NumberSequence.new(points) end
+        return NumberSequence.new(points[1] and points[1].Value or 0)
+    end
+    if t == "Instance" then
+        if v.path then return resolveByFullName(v.path) end
+        return nil
+    end
+    return v
+end
+
+-- Sets attributes on an instance and clears the names in `remove`. Returns { ok, errors? }
+return function(path, attributes, remove)
+    local inst = resolveByFullName(path)
+    if not inst then
+        return { ok = false, error = "Instance not found: " .. tostring(path) }
+    end
+    if not ChangeHistoryService:TryBeginRecording("Vector Set Attributes", "Vector Set Attributes") then
+        return { ok = false, error = "Cannot start recording" }
+    end
+    local errors = {}
+    for name, v in pairs(type(attributes) == "table" and attributes or {}) do
+        local dv = deserialize(v)
+        if dv == nil then
+            table.insert(errors, { key = name, error = "Unsupported attribute value" })
+        else
+            local okSet, err = pcall(function() inst:SetAttribute(name, dv) end)
+            if not okSet then table.insert(errors, { key = name, error = tostring(err) }) end
+        end
+    end
+    for _, name in ipairs(type(remove) == "table" and remove or {}) do
+        local okSet, err = pcall(function() inst:SetAttribute(name, nil) end)
+        if not okSet then table.insert(errors, { key = name, error = tostring(err) }) end
+    end
+    ChangeHistoryService:FinishRecording("Vector Set Attributes")
+    return { ok = #errors == 0, errors = (#errors > 0) and errors or nil }
+end
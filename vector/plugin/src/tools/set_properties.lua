@@ -96,6 +96,14 @@ local function deserialize(v)
         if v.name ~= nil then return BrickColor.new(v.name) end
         return BrickColor.White()
     end
+    if t == "NumberSequence" then
+        local points = {}
+        for _, kp in ipairs(v.keypoints or {}) do
+            table.insert(points, NumberSequenceKeypoint.new(kp.time or 0, kp.value or 0, kp.envelope or 0))
+        end
+        if #points >= 2 then return NumberSequence.new(points) end
+        return NumberSequence.new(points[1] and points[1].Value or 0)
+    end
     if t == "Instance" then
         if v.path then return resolveByFullName(v.path) end
         return nil